@@ -1,25 +1,63 @@
 import React from 'react';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { SessionLock } from '@/components/auth/SessionLock';
+import { PanicClearNotice } from '@/components/auth/PanicClearNotice';
+import { BreakGlassBanner } from '@/components/auth/BreakGlassBanner';
+import { LoginPage } from '@/pages/LoginPage';
+import { AuthCallbackPage } from '@/pages/AuthCallbackPage';
+import { DashboardPage } from '@/pages/DashboardPage';
+import { AuditLogPage } from '@/pages/AuditLogPage';
+import { UserAdminPage } from '@/pages/UserAdminPage';
+import { useSessionSync } from '@/hooks/useSessionSync';
 import './App.css';
 
 const App: React.FC = () => {
+  const { isRestoring } = useSessionSync();
+
+  // Wait for other tabs to share their session, so a new tab is not sent to
+  // the login page while the user is signed in elsewhere
+  if (isRestoring) {
+    return <div className="session-restoring" role="status">Restoring session...</div>;
+  }
+
   return (
-    <div className="App">
-      <header className="App-header">
-        {/* Use /logo.svg from public/ folder */}
-        <img src="/logo.svg" className="App-logo" alt="logo" />
-        <h1>FOI Redaction Tool – DevSecOps Demo</h1>
-        <p>
-          Edit <code>src/App.tsx</code> and save to reload.
-        </p>
-        <button
-          style={{ padding: '10px 20px', fontSize: '16px', marginTop: '20px' }}
-          onClick={() => alert('GitHub Flow works!')}
-        >
-          Press Here on Branch
-        </button>
-      </header>
-    </div>
+    <BrowserRouter>
+      <PanicClearNotice />
+      <BreakGlassBanner />
+      <SessionLock>
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route path="/auth/callback" element={<AuthCallbackPage />} />
+          <Route
+            path="/"
+            element={
+              <ProtectedRoute>
+                <DashboardPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/audit"
+            element={
+              <ProtectedRoute requiredPermission={{ resource: 'audit', action: 'view' }}>
+                <AuditLogPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/users"
+            element={
+              <ProtectedRoute requiredPermission={{ resource: 'user', action: 'manage' }}>
+                <UserAdminPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </SessionLock>
+    </BrowserRouter>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
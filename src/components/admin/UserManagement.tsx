@@ -0,0 +1,337 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/stores/app.store';
+import { userAdminService } from '@/services/userAdmin.service';
+import { FOIError, ManagedUser, NewUser, ROLE_PERMISSIONS, SecurityClearance, UserRole } from '@/types';
+import { SECURITY_CLEARANCES, getClearanceDisplayName } from '@/utils/markings';
+import { getAvailableActions, getRoleDisplayName } from '@/utils/permissions';
+
+interface UserManagementProps {
+  className?: string;
+}
+
+interface EditState {
+  userId: string;
+  role: UserRole;
+  department: string;
+  clearance: SecurityClearance | '';
+}
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+const EMPTY_NEW_USER: NewUser = { name: '', email: '', role: 'viewer', department: '' };
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof FOIError ? error.message : fallback;
+}
+
+export function UserManagement({ className = '' }: UserManagementProps) {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newUser, setNewUser] = useState<NewUser>(EMPTY_NEW_USER);
+  const [isCreating, setIsCreating] = useState(false);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const all = await userAdminService.listUsers(user);
+      setUsers(all.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error('[ADMIN] Failed to load users:', err);
+      setError(getErrorMessage(err, 'Users could not be loaded.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  if (!user) return null;
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    try {
+      const created = await userAdminService.createUser(user, newUser);
+      setUsers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewUser(EMPTY_NEW_USER);
+    } catch (err) {
+      console.error('[ADMIN] Failed to create user:', err);
+      setError(getErrorMessage(err, 'The user could not be created.'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setBusyUserId(editing.userId);
+    setError(null);
+    try {
+      replaceUser(await userAdminService.updateUser(user, editing.userId, {
+        role: editing.role,
+        department: editing.department,
+        clearance: editing.clearance || null,
+      }));
+      setEditing(null);
+    } catch (err) {
+      console.error('[ADMIN] Failed to update user:', err);
+      setError(getErrorMessage(err, 'The user could not be updated.'));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleToggleDisabled = async (target: ManagedUser) => {
+    setBusyUserId(target.id);
+    setError(null);
+    try {
+      replaceUser(await userAdminService.updateUser(user, target.id, { disabled: !target.disabled }));
+    } catch (err) {
+      console.error('[ADMIN] Failed to update user:', err);
+      setError(getErrorMessage(err, 'The user could not be updated.'));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <div className={`user-admin ${className}`}>
+      <div className="user-admin__header">
+        <h2>Users</h2>
+      </div>
+
+      <form className="user-admin__create" aria-label="Create user" onSubmit={handleCreate}>
+        <div className="form-group">
+          <label htmlFor="new-user-name" className="form-label">Name</label>
+          <input
+            id="new-user-name"
+            type="text"
+            className="form-input"
+            value={newUser.name}
+            onChange={e => setNewUser(prev => ({ ...prev, name: e.target.value }))}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="new-user-email" className="form-label">Email</label>
+          <input
+            id="new-user-email"
+            type="email"
+            className="form-input"
+            value={newUser.email}
+            onChange={e => setNewUser(prev => ({ ...prev, email: e.target.value }))}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="new-user-role" className="form-label">Role</label>
+          <select
+            id="new-user-role"
+            className="form-input"
+            value={newUser.role}
+            onChange={e => setNewUser(prev => ({ ...prev, role: e.target.value as UserRole }))}
+          >
+            {ROLES.map(role => <option key={role} value={role}>{getRoleDisplayName(role)}</option>)}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="new-user-department" className="form-label">Department</label>
+          <input
+            id="new-user-department"
+            type="text"
+            className="form-input"
+            value={newUser.department}
+            onChange={e => setNewUser(prev => ({ ...prev, department: e.target.value }))}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="new-user-clearance" className="form-label">Clearance</label>
+          <select
+            id="new-user-clearance"
+            className="form-input"
+            value={newUser.clearance || ''}
+            onChange={e => setNewUser(prev => ({
+              ...prev,
+              clearance: (e.target.value || undefined) as SecurityClearance | undefined,
+            }))}
+          >
+            <option value="">{getClearanceDisplayName()}</option>
+            {SECURITY_CLEARANCES.map(c => <option key={c} value={c}>{getClearanceDisplayName(c)}</option>)}
+          </select>
+        </div>
+
+        <button type="submit" className="btn btn--primary btn--small" disabled={isCreating}>
+          {isCreating ? 'Creating...' : 'Create User'}
+        </button>
+      </form>
+
+      {error && <div className="form-error" role="alert">{error}</div>}
+
+      {isLoading ? (
+        <p className="help-text">Loading users...</p>
+      ) : (
+        <table className="user-table">
+          <caption className="sr-only">User accounts</caption>
+          <thead>
+            <tr>
+              <th scope="col">User</th>
+              <th scope="col">Department</th>
+              <th scope="col">Role</th>
+              <th scope="col">Clearance</th>
+              <th scope="col">Status</th>
+              <th scope="col">Effective permissions</th>
+              <th scope="col"><span className="sr-only">Actions</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(account => {
+              const isSelf = account.id === user.id;
+              const isEditing = editing?.userId === account.id;
+              const isBusy = busyUserId === account.id;
+              const role = isEditing ? editing.role : account.role;
+
+              return (
+                <tr key={account.id} className={account.disabled ? 'user-table__row--disabled' : ''}>
+                  <td>
+                    <div className="user-table__name">{account.name}</div>
+                    <div className="help-text">{account.email}</div>
+                  </td>
+                  <td>
+                    {isEditing ? (
+                      <>
+                        <label htmlFor={`user-${account.id}-department`} className="sr-only">Department</label>
+                        <input
+                          id={`user-${account.id}-department`}
+                          type="text"
+                          className="form-input"
+                          value={editing.department}
+                          onChange={e => setEditing({ ...editing, department: e.target.value })}
+                        />
+                      </>
+                    ) : (
+                      account.department || <span className="help-text">None</span>
+                    )}
+                  </td>
+                  <td>
+                    {isEditing ? (
+                      <>
+                        <label htmlFor={`user-${account.id}-role`} className="sr-only">Role</label>
+                        <select
+                          id={`user-${account.id}-role`}
+                          className="form-input"
+                          value={editing.role}
+                          onChange={e => setEditing({ ...editing, role: e.target.value as UserRole })}
+                          disabled={isSelf}
+                        >
+                          {ROLES.map(r => <option key={r} value={r}>{getRoleDisplayName(r)}</option>)}
+                        </select>
+                      </>
+                    ) : (
+                      <span className={`role-badge role-badge--${account.role}`}>
+                        {getRoleDisplayName(account.role)}
+                      </span>
+                    )}
+                  </td>
+                  <td>
+                    {isEditing ? (
+                      <>
+                        <label htmlFor={`user-${account.id}-clearance`} className="sr-only">Clearance</label>
+                        <select
+                          id={`user-${account.id}-clearance`}
+                          className="form-input"
+                          value={editing.clearance}
+                          onChange={e => setEditing({ ...editing, clearance: e.target.value as SecurityClearance | '' })}
+                        >
+                          <option value="">{getClearanceDisplayName()}</option>
+                          {SECURITY_CLEARANCES.map(c => (
+                            <option key={c} value={c}>{getClearanceDisplayName(c)}</option>
+                          ))}
+                        </select>
+                      </>
+                    ) : (
+                      getClearanceDisplayName(account.clearance)
+                    )}
+                  </td>
+                  <td>{account.disabled ? 'Disabled' : 'Active'}</td>
+                  <td>
+                    <ul className="user-table__permissions">
+                      {getAvailableActions(role).map(action => (
+                        <li key={action}><code>{action}</code></li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="user-table__buttons">
+                    {isEditing ? (
+                      <>
+                        <button
+                          type="button"
+                          className="btn btn--primary btn--small"
+                          onClick={handleSave}
+                          disabled={isBusy}
+                        >
+                          Save
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--small"
+                          onClick={() => setEditing(null)}
+                          disabled={isBusy}
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--small"
+                          onClick={() => setEditing({
+                            userId: account.id,
+                            role: account.role,
+                            department: account.department || '',
+                            clearance: account.clearance || '',
+                          })}
+                          disabled={isBusy}
+                          aria-label={`Edit ${account.name}`}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className={`btn btn--small ${account.disabled ? 'btn--secondary' : 'btn--danger'}`}
+                          onClick={() => handleToggleDisabled(account)}
+                          disabled={isBusy || isSelf}
+                          aria-label={`${account.disabled ? 'Enable' : 'Disable'} ${account.name}`}
+                        >
+                          {account.disabled ? 'Enable' : 'Disable'}
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// React import not needed with new JSX transform
+import { AuditEvent } from '@/types';
+
+interface AuditEventDetailsProps {
+  event: AuditEvent;
+  documentId?: string;
+  onShowTimeline?: (documentId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function AuditEventDetails({
+  event,
+  documentId,
+  onShowTimeline,
+  onClose,
+  className = '',
+}: AuditEventDetailsProps) {
+  return (
+    <section className={`audit-details ${className}`} aria-labelledby="audit-details-title">
+      <div className="audit-panel__header">
+        <h3 id="audit-details-title">Event #{event.sequence}</h3>
+        <button type="button" className="btn btn--secondary btn--small" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <dl className="audit-details__fields">
+        <dt>ID</dt>
+        <dd><code>{event.id}</code></dd>
+        <dt>Time</dt>
+        <dd>{event.timestamp.toLocaleString()}</dd>
+        <dt>User</dt>
+        <dd>{event.userId}</dd>
+        <dt>Action</dt>
+        <dd>{event.action}</dd>
+        <dt>Resource</dt>
+        <dd>{event.resourceType} / <code>{event.resourceId}</code></dd>
+        <dt>IP Address</dt>
+        <dd>{event.ipAddress || '—'}</dd>
+        <dt>User Agent</dt>
+        <dd>{event.userAgent || '—'}</dd>
+        <dt>Previous Hash</dt>
+        <dd><code className="audit-details__hash">{event.previousHash}</code></dd>
+        <dt>Hash</dt>
+        <dd><code className="audit-details__hash">{event.hash}</code></dd>
+      </dl>
+
+      <h4>Details</h4>
+      <pre className="audit-details__json">{JSON.stringify(event.details, null, 2)}</pre>
+
+      {documentId && onShowTimeline && (
+        <button
+          type="button"
+          className="btn btn--secondary btn--small"
+          onClick={() => onShowTimeline(documentId)}
+        >
+          View document timeline
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,382 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/stores/app.store';
+import { auditService } from '@/services/audit.service';
+import { AuditEventDetails } from './AuditEventDetails';
+import { DocumentAuditTimeline } from './DocumentAuditTimeline';
+import { AuditAction, AuditEvent, AuditExportFormat } from '@/types';
+import { AuditEventFilter, filterAuditEvents } from '@/utils/audit';
+import { AUDIT_EXPORT_FORMATS } from '@/utils/auditExport';
+import { downloadBlob } from '@/utils/file';
+
+interface AuditLogViewerProps {
+  className?: string;
+}
+
+interface FilterState {
+  userId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  from: string; // yyyy-mm-dd, from the date inputs
+  to: string;
+  text: string;
+}
+
+const EMPTY_FILTER: FilterState = {
+  userId: '',
+  action: '',
+  resourceType: '',
+  resourceId: '',
+  from: '',
+  to: '',
+  text: '',
+};
+
+const PAGE_SIZE = 25;
+
+// The document an event belongs to, if any
+function getEventDocumentId(event: AuditEvent): string | undefined {
+  if (event.resourceType === 'document' && event.resourceId !== 'failed') return event.resourceId;
+  return typeof event.details?.documentId === 'string' ? event.details.documentId : undefined;
+}
+
+function distinct(values: string[]): string[] {
+  return Array.from(new Set(values)).sort();
+}
+
+export function AuditLogViewer({ className = '' }: AuditLogViewerProps) {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]); // Newest first
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<FilterState>(EMPTY_FILTER);
+  const [page, setPage] = useState(0);
+  const [selectedEvent, setSelectedEvent] = useState<AuditEvent | null>(null);
+  const [timelineDocumentId, setTimelineDocumentId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<AuditExportFormat>('csv');
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const chain = await auditService.getChain();
+      setEvents(chain.reverse());
+    } catch (err) {
+      console.error('[AUDIT] Failed to load audit log:', err);
+      setError('The audit log could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  // Dates are whole days in local time, inclusive at both ends
+  const criteria = useMemo<AuditEventFilter>(() => ({
+    userId: filter.userId || undefined,
+    action: (filter.action || undefined) as AuditAction | undefined,
+    resourceType: filter.resourceType || undefined,
+    resourceId: filter.resourceId.trim() || undefined,
+    from: filter.from ? new Date(`${filter.from}T00:00:00`) : undefined,
+    to: filter.to ? new Date(`${filter.to}T23:59:59.999`) : undefined,
+    text: filter.text,
+  }), [filter]);
+
+  const filtered = useMemo(() => filterAuditEvents(events, criteria), [events, criteria]);
+
+  const userIds = useMemo(() => distinct(events.map(e => e.userId)), [events]);
+  const actions = useMemo(() => distinct(events.map(e => e.action)), [events]);
+  const resourceTypes = useMemo(() => distinct(events.map(e => e.resourceType)), [events]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageEvents = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateFilter = (field: keyof FilterState, value: string) => {
+    setFilter(prev => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    const format = exportFormat;
+    const { extension, mimeType } = AUDIT_EXPORT_FORMATS[format];
+    setIsExporting(true);
+    setError(null);
+    try {
+      const start = criteria.from ?? new Date(0);
+      const end = criteria.to ?? new Date();
+      const content = await auditService.exportAuditLog(start, end, format);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      downloadBlob(new Blob([content], { type: mimeType }), `audit-log-${stamp}.${extension}`);
+
+      await auditService.log({
+        userId: user.id,
+        action: 'audit.export',
+        resourceType: 'audit',
+        resourceId: 'audit-log',
+        details: {
+          format,
+          from: start.toISOString(),
+          to: end.toISOString(),
+        },
+      });
+      await loadEvents();
+    } catch (err) {
+      console.error('[AUDIT] Export failed:', err);
+      setError('The audit log could not be exported.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const showTimeline = (documentId: string) => {
+    setTimelineDocumentId(documentId);
+  };
+
+  return (
+    <div className={`audit-log ${className}`}>
+      <div className="audit-log__header">
+        <h2>Audit Log</h2>
+        <div className="audit-log__actions">
+          <label htmlFor="audit-export-format" className="sr-only">Export format</label>
+          <select
+            id="audit-export-format"
+            className="form-input"
+            value={exportFormat}
+            onChange={e => setExportFormat(e.target.value as AuditExportFormat)}
+          >
+            {(Object.keys(AUDIT_EXPORT_FORMATS) as AuditExportFormat[]).map(format => (
+              <option key={format} value={format}>{AUDIT_EXPORT_FORMATS[format].label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn--secondary btn--small"
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+
+      <form className="audit-filters" aria-label="Filter audit events" onSubmit={e => e.preventDefault()}>
+        <div className="form-group">
+          <label htmlFor="audit-filter-user" className="form-label">User</label>
+          <select
+            id="audit-filter-user"
+            className="form-input"
+            value={filter.userId}
+            onChange={e => updateFilter('userId', e.target.value)}
+          >
+            <option value="">All users</option>
+            {userIds.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="audit-filter-action" className="form-label">Action</label>
+          <select
+            id="audit-filter-action"
+            className="form-input"
+            value={filter.action}
+            onChange={e => updateFilter('action', e.target.value)}
+          >
+            <option value="">All actions</option>
+            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="audit-filter-resource-type" className="form-label">Resource</label>
+          <select
+            id="audit-filter-resource-type"
+            className="form-input"
+            value={filter.resourceType}
+            onChange={e => updateFilter('resourceType', e.target.value)}
+          >
+            <option value="">All resources</option>
+            {resourceTypes.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="audit-filter-resource-id" className="form-label">Resource ID</label>
+          <input
+            id="audit-filter-resource-id"
+            type="text"
+            className="form-input"
+            value={filter.resourceId}
+            onChange={e => updateFilter('resourceId', e.target.value)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="audit-filter-from" className="form-label">From</label>
+          <input
+            id="audit-filter-from"
+            type="date"
+            className="form-input"
+            value={filter.from}
+            onChange={e => updateFilter('from', e.target.value)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="audit-filter-to" className="form-label">To</label>
+          <input
+            id="audit-filter-to"
+            type="date"
+            className="form-input"
+            value={filter.to}
+            onChange={e => updateFilter('to', e.target.value)}
+          />
+        </div>
+
+        <div className="form-group audit-filters__text">
+          <label htmlFor="audit-filter-text" className="form-label">Search details</label>
+          <input
+            id="audit-filter-text"
+            type="search"
+            className="form-input"
+            value={filter.text}
+            onChange={e => updateFilter('text', e.target.value)}
+            placeholder="e.g. s 47F"
+          />
+        </div>
+
+        <button
+          type="button"
+          className="btn btn--secondary btn--small"
+          onClick={() => {
+            setFilter(EMPTY_FILTER);
+            setPage(0);
+          }}
+        >
+          Clear filters
+        </button>
+      </form>
+
+      {error && <div className="form-error" role="alert">{error}</div>}
+
+      <div className="audit-log__body">
+        <div className="audit-log__results">
+          {isLoading ? (
+            <p className="help-text">Loading audit events...</p>
+          ) : filtered.length === 0 ? (
+            <div className="empty-state">
+              <h3>No Events</h3>
+              <p>No audit events match these filters.</p>
+            </div>
+          ) : (
+            <>
+              <table className="audit-table">
+                <caption className="sr-only">
+                  Audit events {currentPage * PAGE_SIZE + 1} to {currentPage * PAGE_SIZE + pageEvents.length} of {filtered.length}
+                </caption>
+                <thead>
+                  <tr>
+                    <th scope="col">#</th>
+                    <th scope="col">Time</th>
+                    <th scope="col">User</th>
+                    <th scope="col">Action</th>
+                    <th scope="col">Resource</th>
+                    <th scope="col"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pageEvents.map(event => {
+                    const documentId = getEventDocumentId(event);
+                    return (
+                      <tr
+                        key={event.id}
+                        className={selectedEvent?.id === event.id ? 'audit-table__row--selected' : ''}
+                      >
+                        <td>{event.sequence}</td>
+                        <td>{event.timestamp.toLocaleString()}</td>
+                        <td>{event.userId}</td>
+                        <td><span className="audit-action">{event.action}</span></td>
+                        <td>
+                          {event.resourceType} <code>{event.resourceId}</code>
+                        </td>
+                        <td className="audit-table__buttons">
+                          <button
+                            type="button"
+                            className="btn btn--secondary btn--small"
+                            onClick={() => setSelectedEvent(event)}
+                            aria-label={`Show details of event ${event.sequence}`}
+                          >
+                            Details
+                          </button>
+                          {documentId && (
+                            <button
+                              type="button"
+                              className="btn btn--secondary btn--small"
+                              onClick={() => showTimeline(documentId)}
+                              aria-label={`Show timeline of document ${documentId}`}
+                            >
+                              Timeline
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <nav className="audit-pagination" aria-label="Audit log pages">
+                <button
+                  type="button"
+                  className="btn btn--secondary btn--small"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                >
+                  Previous
+                </button>
+                <span>
+                  Page {currentPage + 1} of {pageCount} ({filtered.length} events)
+                </span>
+                <button
+                  type="button"
+                  className="btn btn--secondary btn--small"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                >
+                  Next
+                </button>
+              </nav>
+            </>
+          )}
+        </div>
+
+        {(selectedEvent || timelineDocumentId) && (
+          <aside className="audit-log__panel" aria-label="Audit event drill-down">
+            {selectedEvent && (
+              <AuditEventDetails
+                event={selectedEvent}
+                documentId={getEventDocumentId(selectedEvent)}
+                onShowTimeline={showTimeline}
+                onClose={() => setSelectedEvent(null)}
+              />
+            )}
+            {timelineDocumentId && (
+              <DocumentAuditTimeline
+                events={events}
+                documentId={timelineDocumentId}
+                onSelectEvent={setSelectedEvent}
+                onClose={() => setTimelineDocumentId(null)}
+              />
+            )}
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/stores/app.store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { auditService } from '@/services/audit.service';
+import { authService } from '@/services/auth.service';
+import { BreakGlassReview, getBreakGlassReviews, isAwaitingAcknowledgement } from '@/utils/breakGlass';
+import { FOIError } from '@/types';
+
+interface BreakGlassReviewPanelProps {
+  className?: string;
+}
+
+// Break-glass access that has ended and is waiting for a supervisor. The
+// supervisor reads the justification and what was done, then acknowledges.
+// Nobody acknowledges their own break-glass access (authService refuses it).
+export function BreakGlassReviewPanel({ className = '' }: BreakGlassReviewPanelProps) {
+  const { user } = useAuth();
+  const { canAcknowledgeBreakGlass } = usePermissions();
+  const [reviews, setReviews] = useState<BreakGlassReview[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyGrantId, setBusyGrantId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const all = getBreakGlassReviews(await auditService.getChain());
+      setReviews(all.filter(review => isAwaitingAcknowledgement(review)));
+    } catch (err) {
+      console.error('[BREAK GLASS] Failed to load break-glass reviews:', err);
+      setError('Break-glass access awaiting review could not be loaded.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canAcknowledgeBreakGlass) loadReviews();
+  }, [canAcknowledgeBreakGlass, loadReviews]);
+
+  if (!user || !canAcknowledgeBreakGlass || (reviews.length === 0 && !error)) return null;
+
+  const handleAcknowledge = async (review: BreakGlassReview) => {
+    setBusyGrantId(review.grantId);
+    setError(null);
+    try {
+      await authService.acknowledgeBreakGlass(review, comments[review.grantId]);
+      await loadReviews();
+    } catch (err) {
+      console.error('[BREAK GLASS] Failed to acknowledge break-glass access:', err);
+      setError(err instanceof FOIError ? err.message : 'The acknowledgement could not be recorded.');
+    } finally {
+      setBusyGrantId(null);
+    }
+  };
+
+  return (
+    <section className={`break-glass-review ${className}`} aria-labelledby="break-glass-review-title">
+      <h2 id="break-glass-review-title">Break-Glass Access Awaiting Review</h2>
+      {error && <div className="form-error" role="alert">{error}</div>}
+
+      <ul className="break-glass-review__list">
+        {reviews.map(review => {
+          const isOwn = review.userId === user.id;
+          return (
+            <li key={review.grantId} className="break-glass-review__item">
+              <p>
+                <strong>User {review.userId}</strong>
+                {' '}· {review.startedAt.toLocaleString()} to {review.endedAt.toLocaleString()}
+                {review.endedEarly && ' (ended early)'}
+              </p>
+              <p className="break-glass-review__justification">{review.justification}</p>
+              <p className="help-text">
+                {review.actions.length === 0
+                  ? 'No actions were taken.'
+                  : `${review.actions.length} ${review.actions.length === 1 ? 'action' : 'actions'}: `
+                    + Array.from(new Set(review.actions.map(event => event.action))).join(', ')}
+              </p>
+
+              {isOwn ? (
+                <p className="help-text">Another supervisor must review your own break-glass access.</p>
+              ) : (
+                <div className="break-glass-review__acknowledge">
+                  <label htmlFor={`break-glass-comment-${review.grantId}`} className="sr-only">Comment</label>
+                  <input
+                    id={`break-glass-comment-${review.grantId}`}
+                    type="text"
+                    className="form-input"
+                    placeholder="Comment (optional)"
+                    value={comments[review.grantId] || ''}
+                    onChange={e => setComments(prev => ({ ...prev, [review.grantId]: e.target.value }))}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn--primary btn--small"
+                    onClick={() => handleAcknowledge(review)}
+                    disabled={busyGrantId === review.grantId}
+                  >
+                    Acknowledge
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
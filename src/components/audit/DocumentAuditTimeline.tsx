@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { AuditEvent } from '@/types';
+import { getDocumentAuditTrail } from '@/utils/audit';
+
+interface DocumentAuditTimelineProps {
+  events: AuditEvent[];
+  documentId: string;
+  onSelectEvent: (event: AuditEvent) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function DocumentAuditTimeline({
+  events,
+  documentId,
+  onSelectEvent,
+  onClose,
+  className = '',
+}: DocumentAuditTimelineProps) {
+  const trail = useMemo(() => getDocumentAuditTrail(events, documentId), [events, documentId]);
+
+  return (
+    <section className={`audit-timeline ${className}`} aria-labelledby="audit-timeline-title">
+      <div className="audit-panel__header">
+        <h3 id="audit-timeline-title">Document Timeline</h3>
+        <button type="button" className="btn btn--secondary btn--small" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <p className="help-text">
+        Document <code>{documentId}</code> — {trail.length} {trail.length === 1 ? 'event' : 'events'}
+      </p>
+
+      <ol className="audit-timeline__items">
+        {trail.map(event => (
+          <li key={event.id} className="audit-timeline__item">
+            <time className="audit-timeline__time" dateTime={event.timestamp.toISOString()}>
+              {event.timestamp.toLocaleString()}
+            </time>
+            <button
+              type="button"
+              className="audit-timeline__event"
+              onClick={() => onSelectEvent(event)}
+            >
+              <span className="audit-action">{event.action}</span>
+              <span className="audit-timeline__meta">
+                by {event.userId}
+                {event.resourceType !== 'document' && ` on ${event.resourceType} ${event.resourceId}`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useBreakGlass } from '@/hooks/useBreakGlass';
+
+interface BreakGlassBannerProps {
+  className?: string;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Shown on every page for as long as the user has break-glass access
+export function BreakGlassBanner({ className = '' }: BreakGlassBannerProps) {
+  const { grant, end } = useBreakGlass();
+  const [now, setNow] = useState(() => Date.now());
+  const [isEnding, setIsEnding] = useState(false);
+
+  useEffect(() => {
+    if (!grant) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [grant]);
+
+  if (!grant) return null;
+
+  const handleEnd = async () => {
+    setIsEnding(true);
+    try {
+      await end();
+    } catch (error) {
+      console.error('[BREAK GLASS] Failed to end break-glass access:', error);
+    } finally {
+      setIsEnding(false);
+    }
+  };
+
+  return (
+    <section className={`break-glass-banner ${className}`} aria-label="Break-glass access">
+      <p>
+        <strong>Break-glass access is active.</strong>{' '}
+        Everything you do is recorded against it and will be reviewed by a supervisor.
+        {' '}Ends in <span className="break-glass-banner__remaining">{formatRemaining(grant.expiresAt.getTime() - now)}</span>.
+      </p>
+      <p className="break-glass-banner__justification">Justification: {grant.justification}</p>
+      <button type="button" className="btn btn--secondary btn--small" onClick={handleEnd} disabled={isEnding}>
+        End Now
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import { FormEvent, useState } from 'react';
+import { useBreakGlass } from '@/hooks/useBreakGlass';
+import { usePermissions } from '@/hooks/usePermissions';
+import { breakGlassService } from '@/services/breakGlass.service';
+import { FOIError } from '@/types';
+
+interface BreakGlassRequestProps {
+  className?: string;
+}
+
+// Takes break-glass access for an urgent request: the user's justification
+// is recorded and a supervisor reviews the access once it ends
+export function BreakGlassRequest({ className = '' }: BreakGlassRequestProps) {
+  const { canRequestBreakGlass } = usePermissions();
+  const { grant, start } = useBreakGlass();
+  const [justification, setJustification] = useState('');
+  const [duration, setDuration] = useState(breakGlassService.DURATIONS[0]);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  if (!canRequestBreakGlass) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    setError(null);
+    try {
+      await start(justification, duration);
+      setJustification('');
+    } catch (err) {
+      setError(err instanceof FOIError ? err.message : 'Break-glass access could not be started');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className={`break-glass-request ${className}`}>
+      <h4>Break-Glass Access</h4>
+      {grant ? (
+        <p>
+          Active until {grant.expiresAt.toLocaleTimeString()}. You can end it early from the banner.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <p className="help-text">
+            For urgent requests only. Lets you open and redact other departments&apos; documents
+            within your clearance for a limited time. Everything you do is recorded and reviewed
+            by a supervisor.
+          </p>
+          <div className="form-group">
+            <label htmlFor="break-glass-justification" className="form-label">Justification</label>
+            <textarea
+              id="break-glass-justification"
+              className="form-input"
+              value={justification}
+              onChange={e => setJustification(e.target.value)}
+              rows={3}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="break-glass-duration" className="form-label">Duration</label>
+            <select
+              id="break-glass-duration"
+              className="form-input"
+              value={duration}
+              onChange={e => setDuration(Number(e.target.value))}
+            >
+              {breakGlassService.DURATIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+          </div>
+          {error && <div className="form-error" role="alert">{error}</div>}
+          <button
+            type="submit"
+            className="btn btn--danger btn--small"
+            disabled={isStarting || !justification.trim()}
+          >
+            {isStarting ? 'Starting...' : 'Break Glass'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { FormEvent, useState } from 'react';
+import { useCachePassphrase } from '@/hooks/useCachePassphrase';
+import { FOIError } from '@/types';
+
+interface CacheUnlockPromptProps {
+  className?: string;
+}
+
+// Shown after a reload when the cache is passphrase protected but locked
+export function CacheUnlockPrompt({ className = '' }: CacheUnlockPromptProps) {
+  const { status, unlock } = useCachePassphrase();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!status?.enabled || status.unlocked || dismissed) return null;
+
+  const lockedUntil = status.lockedUntil;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      if (err instanceof FOIError && err.code === 'CACHE_PASSPHRASE_INCORRECT') {
+        const remaining = err.details?.attemptsRemaining;
+        setError(`Incorrect passphrase. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} remaining.`);
+      } else if (err instanceof FOIError && err.code === 'CACHE_LOCKED_OUT') {
+        setError(null);
+      } else {
+        console.error('[CACHE] Unlock failed:', err);
+        setError('The cache could not be unlocked.');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <section className={`cache-unlock ${className}`} aria-labelledby="cache-unlock-title">
+      <h2 id="cache-unlock-title" className="cache-unlock__title">Unlock Cached Documents</h2>
+
+      {lockedUntil ? (
+        <p className="form-error" role="alert">
+          Too many incorrect passphrases. Try again after {lockedUntil.toLocaleTimeString()}.
+        </p>
+      ) : (
+        <form className="cache-unlock__form" onSubmit={handleSubmit}>
+          <label htmlFor="cache-unlock-passphrase" className="form-label">
+            Enter your cache passphrase to restore documents from your last session.
+          </label>
+          <input
+            id="cache-unlock-passphrase"
+            type="password"
+            className={`form-input ${error ? 'form-input--error' : ''}`}
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            disabled={isUnlocking}
+          />
+          {error && <div className="form-error" role="alert">{error}</div>}
+          <div className="cache-unlock__actions">
+            <button
+              type="submit"
+              className="btn btn--primary btn--small"
+              disabled={isUnlocking || !passphrase}
+            >
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <button
+        type="button"
+        className="btn btn--secondary btn--small"
+        onClick={() => setDismissed(true)}
+      >
+        Continue without cached documents
+      </button>
+    </section>
+  );
+}
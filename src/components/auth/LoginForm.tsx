@@ -49,12 +49,50 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
     }
   };
 
+  // With a real identity provider the credentials are entered on its page
+  const handleRedirectLogin = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await authService.beginLogin();
+    } catch (error) {
+      console.error('[AUTH] Could not start sign-in:', error);
+      setError('Unable to reach the identity provider. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const header = (
+    <div className="login-header">
+      <h1>FOI Redaction Tool</h1>
+      <p>Australian Commonwealth FOI Officer Portal</p>
+    </div>
+  );
+
+  if (authService.usesRedirectLogin()) {
+    return (
+      <div className="login-form">
+        {header}
+        <button
+          type="button"
+          className="btn btn--primary btn--full-width"
+          onClick={handleRedirectLogin}
+          disabled={isSubmitting}
+          aria-describedby="login-help"
+        >
+          {isSubmitting ? 'Redirecting...' : 'Sign In with SSO'}
+        </button>
+        <div id="login-help" className="login-help">
+          <p>You will be redirected to your agency's identity provider to sign in with multi-factor authentication.</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="login-form">
-      <div className="login-header">
-        <h1>FOI Redaction Tool</h1>
-        <p>Australian Commonwealth FOI Officer Portal</p>
-      </div>
+      {header}
 
       <form onSubmit={handleSubmit(onSubmit)} noValidate>
         <div className="form-group">
@@ -106,14 +144,15 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
         </button>
 
         <div id="login-help" className="login-help">
-          <p>This system uses OIDC/SAML 2.0 SSO with multi-factor authentication.</p>
+          <p>No identity provider is configured, so sign-in uses the local mock OIDC provider.</p>
           <p>Demo accounts:</p>
           <ul>
             <li><strong>Viewer:</strong> viewer@foi.gov.au</li>
             <li><strong>Redactor:</strong> redactor@foi.gov.au</li>
             <li><strong>Approver:</strong> approver@foi.gov.au</li>
+            <li><strong>Administrator:</strong> admin@foi.gov.au</li>
           </ul>
-          <p><em>Use any password for demo purposes.</em></p>
+          <p><em>The password for every demo account is &quot;password&quot;.</em></p>
         </div>
       </form>
     </div>
@@ -0,0 +1,25 @@
+import { usePanicClearSync } from '@/hooks/usePanicClearSync';
+
+interface PanicClearNoticeProps {
+  className?: string;
+}
+
+// Keeps every open tab in step with a panic clear, and tells the user when
+// this tab was cleared from another one
+export function PanicClearNotice({ className = '' }: PanicClearNoticeProps) {
+  const { clearedAt, dismiss } = usePanicClearSync();
+
+  if (!clearedAt) return null;
+
+  return (
+    <div className={`panic-notice ${className}`} role="status">
+      <p>
+        A panic clear was started in another tab. All cached data in this tab was cleared at{' '}
+        {clearedAt.toLocaleTimeString()}.
+      </p>
+      <button type="button" className="btn btn--secondary btn--small" onClick={dismiss}>
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/stores/app.store';
 import { usePermissions } from '@/hooks/usePermissions';
 import { UserRole } from '@/types';
+import { ResourceAttributes } from '@/utils/policy';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -10,6 +11,7 @@ interface ProtectedRouteProps {
   requiredPermission?: {
     resource: string;
     action: string;
+    attributes?: ResourceAttributes; // Of the resource behind the route, for scoped checks
   };
   fallback?: React.ReactNode;
 }
@@ -21,7 +23,7 @@ export function ProtectedRoute({
   fallback 
 }: ProtectedRouteProps) {
   const { user, isAuthenticated } = useAuth();
-  const { hasPermission } = usePermissions();
+  const { explainPermission } = usePermissions();
   const location = useLocation();
 
   // Not authenticated - redirect to login
@@ -41,13 +43,21 @@ export function ProtectedRoute({
   }
 
   // Check permission requirement
-  if (requiredPermission && !hasPermission(requiredPermission.resource, requiredPermission.action)) {
-    return fallback || (
-      <div className="access-denied">
-        <h2>Access Denied</h2>
-        <p>You don't have permission to {requiredPermission.action} {requiredPermission.resource}.</p>
-      </div>
+  if (requiredPermission) {
+    const decision = explainPermission(
+      requiredPermission.resource,
+      requiredPermission.action,
+      requiredPermission.attributes
     );
+    if (!decision.allowed) {
+      return fallback || (
+        <div className="access-denied">
+          <h2>Access Denied</h2>
+          <p>You don't have permission to {requiredPermission.action} {requiredPermission.resource}.</p>
+          <p>{decision.reason}</p>
+        </div>
+      );
+    }
   }
 
   return <>{children}</>;
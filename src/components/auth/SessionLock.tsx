@@ -0,0 +1,126 @@
+import { FormEvent, ReactNode, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/stores/app.store';
+import { useIdleLock } from '@/hooks/useIdleLock';
+import { authService } from '@/services/auth.service';
+import { FOIError } from '@/types';
+
+interface SessionLockProps {
+  children: ReactNode;
+  className?: string;
+}
+
+// Blurs the workspace after a period of inactivity and asks the user to
+// sign in again, on the identity provider's page when one is configured.
+// The hidden content is made inert so it cannot be reached with the
+// keyboard either.
+export function SessionLock({ children, className = '' }: SessionLockProps) {
+  const { user } = useAuth();
+  const { isLocked, unlock, beginUnlock } = useIdleLock();
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    contentRef.current?.toggleAttribute('inert', isLocked);
+    if (!isLocked) {
+      setPassword('');
+      setError(null);
+    }
+  }, [isLocked]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      await unlock(password);
+    } catch (err) {
+      console.error('[SESSION] Unlock failed:', err);
+      setError(err instanceof FOIError ? err.message : 'Unable to verify your credentials.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleRedirectUnlock = async () => {
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      await beginUnlock();
+    } catch (err) {
+      console.error('[SESSION] Could not start sign-in:', err);
+      setError('Unable to reach the identity provider. Please try again.');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className={`session-lock ${className}`}>
+      <div
+        ref={contentRef}
+        className={`session-lock__content ${isLocked ? 'session-lock__content--locked' : ''}`}
+        aria-hidden={isLocked || undefined}
+      >
+        {children}
+      </div>
+
+      {isLocked && user && (
+        <div className="session-lock__overlay">
+          <div
+            className="session-lock__dialog"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="session-lock-title"
+          >
+            <h2 id="session-lock-title">Session Locked</h2>
+            <p>
+              Your workspace was locked after a period of inactivity. Sign in again as{' '}
+              <strong>{user.email}</strong> to continue.
+            </p>
+
+            {authService.usesRedirectLogin() ? (
+              <>
+                {error && <div className="form-error" role="alert">{error}</div>}
+                <button
+                  type="button"
+                  className="btn btn--primary"
+                  onClick={handleRedirectUnlock}
+                  disabled={isUnlocking}
+                >
+                  {isUnlocking ? 'Redirecting...' : 'Sign In Again with SSO'}
+                </button>
+              </>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                <div className="form-group">
+                  <label htmlFor="session-lock-password" className="form-label">Password</label>
+                  <input
+                    id="session-lock-password"
+                    type="password"
+                    className={`form-input ${error ? 'form-input--error' : ''}`}
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    disabled={isUnlocking}
+                    autoFocus
+                  />
+                </div>
+                {error && <div className="form-error" role="alert">{error}</div>}
+                <button
+                  type="submit"
+                  className="btn btn--primary"
+                  disabled={isUnlocking || !password}
+                >
+                  {isUnlocking ? 'Verifying...' : 'Unlock'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,30 @@
-import { useState } from 'react';
+import { FormEvent, useEffect, useState } from 'react';
 import { useAuth, useAppStore } from '@/stores/app.store';
 import { authService } from '@/services/auth.service';
+import { encryptionService } from '@/services/encryption.service';
+import { useCachePassphrase } from '@/hooks/useCachePassphrase';
+import { BreakGlassRequest } from './BreakGlassRequest';
 import { getRoleDisplayName, getRoleDescription } from '@/utils/permissions';
+import { formatFileSize } from '@/utils/file';
+import { CacheUsage, FOIError } from '@/types';
 
 export function UserProfile() {
   const { user } = useAuth();
   const { panicClear } = useAppStore();
   const [showPanicConfirm, setShowPanicConfirm] = useState(false);
   const [isPanicClearing, setIsPanicClearing] = useState(false);
+  const [cacheUsage, setCacheUsage] = useState<CacheUsage | null>(null);
+  const { status: cacheLock, enablePassphrase, disablePassphrase } = useCachePassphrase();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [isSavingPassphrase, setIsSavingPassphrase] = useState(false);
+
+  useEffect(() => {
+    encryptionService.getCacheUsage()
+      .then(setCacheUsage)
+      .catch(error => console.warn('[CACHE] Could not read cache usage:', error));
+  }, []);
 
   if (!user) return null;
 
@@ -20,6 +37,37 @@ export function UserProfile() {
     }
   };
 
+  const handleEnablePassphrase = async (e: FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setPassphraseError('Passphrases do not match');
+      return;
+    }
+
+    setIsSavingPassphrase(true);
+    setPassphraseError(null);
+    try {
+      await enablePassphrase(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      setPassphraseError(error instanceof FOIError ? error.message : 'Failed to set passphrase');
+    } finally {
+      setIsSavingPassphrase(false);
+    }
+  };
+
+  const handleDisablePassphrase = async () => {
+    if (!confirm('Remove the passphrase? Documents cached under it will be deleted.')) return;
+
+    try {
+      await disablePassphrase();
+    } catch (error) {
+      console.error('Failed to remove cache passphrase:', error);
+      alert('Failed to remove the passphrase. Please try again.');
+    }
+  };
+
   const handlePanicClear = async () => {
     if (!showPanicConfirm) {
       setShowPanicConfirm(true);
@@ -28,8 +76,9 @@ export function UserProfile() {
 
     setIsPanicClearing(true);
     try {
-      await panicClear();
-      alert('All cached data has been cleared. You will be redirected to login.');
+      const { otherTabsCleared } = await panicClear();
+      const otherTabs = otherTabsCleared === 1 ? '1 other tab' : `${otherTabsCleared} other tabs`;
+      alert(`All cached data has been cleared from this tab and ${otherTabs}. You will be redirected to login.`);
       window.location.href = '/login';
     } catch (error) {
       console.error('Panic clear failed:', error);
@@ -65,6 +114,66 @@ export function UserProfile() {
         <p>{getRoleDescription(user.role)}</p>
       </div>
 
+      {cacheLock && (
+        <div className="cache-passphrase">
+          <h4>Cache Passphrase</h4>
+          {cacheLock.enabled ? (
+            <>
+              <p>
+                Cached documents are protected by your passphrase and can be
+                restored after a reload.{!cacheLock.unlocked && ' The cache is currently locked.'}
+              </p>
+              <button
+                type="button"
+                className="btn btn--secondary btn--small"
+                onClick={handleDisablePassphrase}
+              >
+                Remove Passphrase
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleEnablePassphrase}>
+              <p className="help-text">
+                Set a passphrase to keep cached documents available after a reload.
+              </p>
+              <div className="form-group">
+                <label htmlFor="cache-passphrase" className="form-label">Passphrase</label>
+                <input
+                  id="cache-passphrase"
+                  type="password"
+                  className="form-input"
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  minLength={12}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="cache-passphrase-confirm" className="form-label">Confirm passphrase</label>
+                <input
+                  id="cache-passphrase-confirm"
+                  type="password"
+                  className="form-input"
+                  value={confirmPassphrase}
+                  onChange={e => setConfirmPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              {passphraseError && <div className="form-error" role="alert">{passphraseError}</div>}
+              <button
+                type="submit"
+                className="btn btn--secondary btn--small"
+                disabled={isSavingPassphrase || !passphrase}
+              >
+                {isSavingPassphrase ? 'Saving...' : 'Protect Cache'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <BreakGlassRequest />
+
       <div className="user-actions">
         <button
           type="button"
@@ -80,6 +189,16 @@ export function UserProfile() {
             Use this to immediately clear all cached documents and session data.
             This action cannot be undone.
           </p>
+
+          {cacheUsage && (
+            <p className="help-text">
+              {cacheUsage.documentCount} cached {cacheUsage.documentCount === 1 ? 'document' : 'documents'}
+              {' '}({formatFileSize(cacheUsage.cachedBytes)})
+              {cacheUsage.quota !== undefined && cacheUsage.usage !== undefined && (
+                <> · {formatFileSize(cacheUsage.usage)} of {formatFileSize(cacheUsage.quota)} storage used</>
+              )}
+            </p>
+          )}
           
           {!showPanicConfirm ? (
             <button
@@ -96,6 +215,8 @@ export function UserProfile() {
               <ul>
                 <li>Clear all cached documents</li>
                 <li>Remove all session data</li>
+                <li>Cancel any requests in progress</li>
+                <li>Clear every other open tab of this tool</li>
                 <li>Sign you out immediately</li>
               </ul>
               <div className="panic-actions">
@@ -1,6 +1,8 @@
 // React import not needed with new JSX transform
 import { useDocuments } from '@/stores/app.store';
+import { usePermissions } from '@/hooks/usePermissions';
 import { formatFileSize } from '@/utils/file';
+import { getDocumentMarking, getMarkingSlug } from '@/utils/markings';
 import { Document, DocumentVersionType } from '@/types';
 
 interface DocumentListProps {
@@ -10,8 +12,10 @@ interface DocumentListProps {
 
 export function DocumentList({ onDocumentSelect, className = '' }: DocumentListProps) {
   const { documents, currentDocument, setCurrentDocument } = useDocuments();
+  const { explainDocumentAccess } = usePermissions();
 
   const handleDocumentClick = (document: Document) => {
+    if (!explainDocumentAccess(document).allowed) return;
     setCurrentDocument(document);
     onDocumentSelect?.(document);
   };
@@ -53,67 +57,81 @@ export function DocumentList({ onDocumentSelect, className = '' }: DocumentListP
       </div>
       
       <div className="document-list__items" role="list">
-        {documents.map((document) => (
-          <div
-            key={document.id}
-            className={`
-              document-item
-              ${currentDocument?.id === document.id ? 'document-item--active' : ''}
-            `}
-            role="listitem"
-          >
-            <button
-              type="button"
-              className="document-item__button"
-              onClick={() => handleDocumentClick(document)}
-              aria-pressed={currentDocument?.id === document.id}
-              aria-describedby={`document-${document.id}-details`}
+        {documents.map((document) => {
+          const access = explainDocumentAccess(document);
+          return (
+            <div
+              key={document.id}
+              className={`
+                document-item
+                ${currentDocument?.id === document.id ? 'document-item--active' : ''}
+                ${access.allowed ? '' : 'document-item--restricted'}
+              `}
+              role="listitem"
             >
-              <div className="document-item__icon" aria-hidden="true">
-                {getDocumentTypeIcon(document.type)}
-              </div>
-              
-              <div className="document-item__content">
-                <h4 className="document-item__name">{document.name}</h4>
-                <div className="document-item__meta">
-                  <span className="document-item__size">
-                    {formatFileSize(document.size)}
-                  </span>
-                  <span className="document-item__type">
-                    {document.type.toUpperCase()}
-                  </span>
-                  <span className="document-item__date">
-                    {new Date(document.uploadedAt).toLocaleDateString()}
-                  </span>
+              <button
+                type="button"
+                className="document-item__button"
+                onClick={() => handleDocumentClick(document)}
+                disabled={!access.allowed}
+                aria-pressed={currentDocument?.id === document.id}
+                aria-describedby={`document-${document.id}-details`}
+              >
+                <div className="document-item__icon" aria-hidden="true">
+                  {getDocumentTypeIcon(document.type)}
                 </div>
+              
+                <div className="document-item__content">
+                  <h4 className="document-item__name">{document.name}</h4>
+                  <div className="document-item__meta">
+                    <span className="document-item__size">
+                      {formatFileSize(document.size)}
+                    </span>
+                    <span className="document-item__type">
+                      {document.type.toUpperCase()}
+                    </span>
+                    <span className="document-item__date">
+                      {new Date(document.uploadedAt).toLocaleDateString()}
+                    </span>
+                  </div>
                 
-                <div className="document-item__status">
-                  <span 
-                    className={`status-badge status-badge--${getVersionStatusColor(document.currentVersion)}`}
-                  >
-                    {getVersionStatusText(document.currentVersion)}
-                  </span>
-                  {document.versions.length > 1 && (
-                    <span className="version-count">
-                      {document.versions.length} versions
+                  <div className="document-item__status">
+                    <span className={`marking-chip marking-chip--${getMarkingSlug(getDocumentMarking(document))}`}>
+                      {getDocumentMarking(document)}
                     </span>
+                    <span 
+                      className={`status-badge status-badge--${getVersionStatusColor(document.currentVersion)}`}
+                    >
+                      {getVersionStatusText(document.currentVersion)}
+                    </span>
+                    {document.versions.length > 1 && (
+                      <span className="version-count">
+                        {document.versions.length} versions
+                      </span>
+                    )}
+                  </div>
+
+                  {!access.allowed && (
+                    <p className="document-item__restricted">{access.reason}</p>
                   )}
                 </div>
-              </div>
-            </button>
+              </button>
             
-            <div 
-              id={`document-${document.id}-details`} 
-              className="document-item__details sr-only"
-            >
-              Document: {document.name}, 
-              Size: {formatFileSize(document.size)}, 
-              Type: {document.type}, 
-              Status: {getVersionStatusText(document.currentVersion)}, 
-              Uploaded: {new Date(document.uploadedAt).toLocaleDateString()}
+              <div 
+                id={`document-${document.id}-details`} 
+                className="document-item__details sr-only"
+              >
+                Document: {document.name}, 
+                Size: {formatFileSize(document.size)}, 
+                Type: {document.type}, 
+                Marking: {getDocumentMarking(document)}, 
+                Status: {getVersionStatusText(document.currentVersion)}, 
+                Uploaded: {new Date(document.uploadedAt).toLocaleDateString()}
+                {!access.allowed && `, Restricted: ${access.reason}`}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
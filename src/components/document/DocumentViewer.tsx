@@ -1,10 +1,34 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Document as PDFDocument, Page, pdfjs } from 'react-pdf';
 import { fabric } from 'fabric';
 import { useDocuments, useRedactionTool } from '@/stores/app.store';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useRedactions } from '@/hooks/useRedactions';
 import { encryptionService } from '@/services/encryption.service';
-import { RedactionType } from '@/types';
+import { DocxPageView } from './DocxPageView';
+import { TextPageView } from './TextPageView';
+import { ProtectiveMarkingBanner } from './ProtectiveMarkingBanner';
+import { Redaction, RedactionCoordinates, RedactionStatus, RedactionType, TextSpan, FOIError } from '@/types';
+import {
+  PageSize,
+  DEFAULT_PAGE_SIZE,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  ZOOM_STEP,
+  clampZoom,
+  getPageRedactions,
+  isMeaningfulRedaction,
+  normalizeCoordinates,
+} from '@/utils/redaction';
+import { convertDocxToHtml, paginateHtml, DOCX_PAGE_SIZE } from '@/utils/docx';
+import {
+  TextPage,
+  extractDocumentText,
+  getPageForOffset,
+  normalizeTextSpan,
+  paginateText,
+} from '@/utils/text';
+import { getDocumentMarking } from '@/utils/markings';
 import { v4 as uuidv4 } from 'uuid';
 
 // Set up PDF.js worker
@@ -17,20 +41,42 @@ interface DocumentViewerProps {
 export function DocumentViewer({ className = '' }: DocumentViewerProps) {
   const { currentDocument } = useDocuments();
   const { redactionTool, setRedactionTool } = useRedactionTool();
-  const { canCreateRedactions, canEditRedactions } = usePermissions();
+  const { canCreateRedactions, canEditRedactions, explainDocumentAccess } = usePermissions();
+  const { redactions, hasWorkingVersion, createRedaction, updateRedaction, deleteRedaction } = useRedactions();
   
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [canvasElement, setCanvasElement] = useState<HTMLCanvasElement | null>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
   const [numPages, setNumPages] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0);
+  const [pageSize, setPageSize] = useState<PageSize>(DEFAULT_PAGE_SIZE);
   const [documentContent, setDocumentContent] = useState<ArrayBuffer | null>(null);
+  const [docxPages, setDocxPages] = useState<string[]>([]);
+  const [textDocument, setTextDocument] = useState<{ text: string; pages: TextPage[] } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  const access = currentDocument ? explainDocumentAccess(currentDocument) : null;
+  const currentVersion = currentDocument?.versions.find(
+    v => v.type === currentDocument.currentVersion
+  );
+  // Final versions of Word documents are stored as flattened PDFs
+  const contentFormat = currentVersion?.format ?? currentDocument?.type;
+  const isWordContent = contentFormat === 'docx' || contentFormat === 'doc';
+  // Text formats are redacted by character range instead of with the box overlay
+  const isTextContent = contentFormat === 'txt' || contentFormat === 'rtf';
+
+  // New redactions can only be drawn on the working version
+  const canRedactCurrentVersion = hasWorkingVersion && currentDocument?.currentVersion === 'working';
+  const pageRedactions = useMemo(
+    () => canRedactCurrentVersion ? getPageRedactions(redactions, currentPage) : [],
+    [canRedactCurrentVersion, redactions, currentPage]
+  );
+
   // Load document content
   useEffect(() => {
-    if (!currentDocument) {
+    // Documents above the user's clearance or outside their department are never decrypted
+    if (!currentDocument || !access?.allowed) {
       setDocumentContent(null);
       return;
     }
@@ -40,23 +86,43 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
       setError(null);
       
       try {
-        // Try to get from cache first
-        const cached = await encryptionService.getCachedDocument(currentDocument.id);
+        // The cache holds the original upload, so only use it for that version
+        const cached = currentDocument.currentVersion === 'original'
+          ? await encryptionService.getCachedDocument(currentDocument.id)
+          : null;
+        let content: ArrayBuffer;
         if (cached) {
-          setDocumentContent(cached);
-        } else {
+          content = cached;
+        } else if (currentVersion && currentVersion.content instanceof ArrayBuffer) {
           // Fallback to document versions
-          const currentVersion = currentDocument.versions.find(
-            v => v.type === currentDocument.currentVersion
-          );
-          if (currentVersion && currentVersion.content instanceof ArrayBuffer) {
-            setDocumentContent(currentVersion.content);
-          } else {
-            throw new Error('Document content not available');
-          }
+          content = currentVersion.content;
+        } else {
+          throw new Error('Document content not available');
+        }
+        setDocumentContent(content);
+        setDocxPages([]);
+        setTextDocument(null);
+
+        if (isWordContent) {
+          const pages = paginateHtml(await convertDocxToHtml(content), DOCX_PAGE_SIZE);
+          setDocxPages(pages);
+          setNumPages(pages.length);
+          setCurrentPage(1);
+          setPageSize(DOCX_PAGE_SIZE);
+        } else if (isTextContent) {
+          const text = extractDocumentText(content, contentFormat);
+          const pages = paginateText(text);
+          setTextDocument({ text, pages });
+          setNumPages(pages.length);
+          setCurrentPage(1);
+          setPageSize(DEFAULT_PAGE_SIZE);
+        } else if (contentFormat !== 'pdf') {
+          setNumPages(1);
+          setCurrentPage(1);
+          setPageSize(DEFAULT_PAGE_SIZE);
         }
       } catch (err) {
-        setError('Failed to load document content');
+        setError(err instanceof FOIError ? err.message : 'Failed to load document content');
         console.error('Document loading error:', err);
       } finally {
         setIsLoading(false);
@@ -64,13 +130,14 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
     };
 
     loadDocument();
-  }, [currentDocument]);
+    // Redaction edits replace currentDocument; only reload when the content changes
+  }, [currentDocument?.id, currentDocument?.currentVersion, access?.allowed]);
 
   // Initialize Fabric.js canvas for redaction overlay
   useEffect(() => {
-    if (!canvasRef.current) return;
+    if (!canvasElement) return;
 
-    const canvas = new fabric.Canvas(canvasRef.current, {
+    const canvas = new fabric.Canvas(canvasElement, {
       isDrawingMode: false,
       selection: canEditRedactions,
       preserveObjectStacking: true,
@@ -78,35 +145,90 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
 
     fabricCanvasRef.current = canvas;
 
-    // Set up event handlers
-    canvas.on('mouse:down', handleMouseDown);
-    canvas.on('mouse:move', handleMouseMove);
-    canvas.on('mouse:up', handleMouseUp);
-    canvas.on('object:selected', handleObjectSelected);
-    canvas.on('object:modified', handleObjectModified);
+    // Listeners are bound once, so route them through the ref to see current state
+    canvas.on('mouse:down', (event) => canvasHandlersRef.current.handleMouseDown(event));
+    canvas.on('mouse:move', (event) => canvasHandlersRef.current.handleMouseMove(event));
+    canvas.on('mouse:up', () => canvasHandlersRef.current.handleMouseUp());
+    canvas.on('selection:created', (event) => canvasHandlersRef.current.handleSelectionChanged(event));
+    canvas.on('selection:updated', (event) => canvasHandlersRef.current.handleSelectionChanged(event));
+    canvas.on('selection:cleared', (event) => canvasHandlersRef.current.handleSelectionChanged(event));
+    canvas.on('object:modified', (event) => canvasHandlersRef.current.handleObjectModified(event));
 
     return () => {
       canvas.dispose();
       fabricCanvasRef.current = null;
     };
-  }, [canEditRedactions]);
+  }, [canvasElement, canEditRedactions]);
+
+  // Size the overlay to the rendered page. Objects live in PDF page units and
+  // the canvas zoom maps them to screen pixels, so boxes track the page at
+  // every zoom level.
+  useEffect(() => {
+    if (!fabricCanvasRef.current) return;
+
+    const canvas = fabricCanvasRef.current;
+    canvas.setDimensions({
+      width: pageSize.width * scale,
+      height: pageSize.height * scale,
+    });
+    canvas.setZoom(scale);
+    canvas.requestRenderAll();
+  }, [canvasElement, canEditRedactions, pageSize, scale]);
+
+  // Re-render the current page's redaction layer from the store
+  useEffect(() => {
+    if (!fabricCanvasRef.current) return;
+
+    syncPageRedactions(fabricCanvasRef.current, pageRedactions, canEditRedactions);
+  }, [canvasElement, canEditRedactions, pageRedactions]);
 
   // Handle redaction tool changes
   useEffect(() => {
     if (!fabricCanvasRef.current) return;
 
     const canvas = fabricCanvasRef.current;
-    canvas.isDrawingMode = redactionTool.selectedTool !== null && redactionTool.isDrawing;
-    
-    if (redactionTool.selectedTool) {
-      canvas.setCursor('crosshair');
-    } else {
-      canvas.setCursor('default');
-    }
-  }, [redactionTool.selectedTool, redactionTool.isDrawing]);
+    // Boxes are drawn by the mouse handlers, never with Fabric's freehand brush
+    canvas.isDrawingMode = false;
+    canvas.selection = canEditRedactions && redactionTool.selectedTool === null;
+    canvas.defaultCursor = redactionTool.selectedTool ? 'crosshair' : 'default';
+    canvas.setCursor(canvas.defaultCursor);
+  }, [redactionTool.selectedTool, canEditRedactions]);
+
+  // Delete key removes the selected redaction
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Delete' || !canEditRedactions) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (isTextContent) {
+        const activeRedaction = redactionTool.activeRedaction;
+        if (!activeRedaction) return;
+
+        setRedactionTool({ activeRedaction: null });
+        deleteRedaction(activeRedaction.id);
+        return;
+      }
+
+      if (!fabricCanvasRef.current) return;
+      const canvas = fabricCanvasRef.current;
+      const activeObject = canvas.getActiveObject();
+      if (!activeObject?.data?.id) return;
+
+      canvas.remove(activeObject);
+      canvas.discardActiveObject();
+      canvas.renderAll();
+      setRedactionTool({ activeRedaction: null });
+      deleteRedaction(activeObject.data.id);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canEditRedactions, isTextContent, redactionTool.activeRedaction, deleteRedaction, setRedactionTool]);
 
   const handleMouseDown = useCallback((event: fabric.IEvent) => {
-    if (!canCreateRedactions || !redactionTool.selectedTool || !fabricCanvasRef.current) return;
+    if (!canCreateRedactions || !canRedactCurrentVersion || !redactionTool.selectedTool || !fabricCanvasRef.current) return;
 
     const canvas = fabricCanvasRef.current;
     const pointer = canvas.getPointer(event.e);
@@ -114,26 +236,20 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
     setRedactionTool({ isDrawing: true });
     
     // Start creating a new redaction
-    const redactionRect = new fabric.Rect({
-      left: pointer.x,
-      top: pointer.y,
-      width: 0,
-      height: 0,
-      fill: getRedactionColor(redactionTool.selectedTool),
-      stroke: getRedactionBorderColor(redactionTool.selectedTool),
-      strokeWidth: 2,
-      opacity: 0.7,
-      selectable: canEditRedactions,
-      data: {
-        type: redactionTool.selectedTool,
+    const redactionRect = createRedactionRect(
+      redactionTool.selectedTool,
+      { page: currentPage, x: pointer.x, y: pointer.y, width: 0, height: 0 },
+      {
         reasonCode: redactionTool.selectedReasonCode,
-        page: currentPage,
+        startX: pointer.x,
+        startY: pointer.y,
       },
-    });
+      canEditRedactions
+    );
 
     canvas.add(redactionRect);
     canvas.setActiveObject(redactionRect);
-  }, [canCreateRedactions, redactionTool, currentPage, canEditRedactions]);
+  }, [canCreateRedactions, canRedactCurrentVersion, redactionTool, currentPage, canEditRedactions]);
 
   const handleMouseMove = useCallback((event: fabric.IEvent) => {
     if (!redactionTool.isDrawing || !fabricCanvasRef.current) return;
@@ -144,8 +260,8 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
 
     if (activeObject && activeObject.type === 'rect') {
       const rect = activeObject as fabric.Rect;
-      const startX = rect.data?.startX || rect.left;
-      const startY = rect.data?.startY || rect.top;
+      const startX = rect.data?.startX ?? rect.left;
+      const startY = rect.data?.startY ?? rect.top;
 
       rect.set({
         width: Math.abs(pointer.x - startX),
@@ -171,54 +287,105 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
         const rect = activeObject as fabric.Rect;
         
         // Only keep redactions with meaningful size
-        if ((rect.width || 0) < 5 || (rect.height || 0) < 5) {
+        if (!isMeaningfulRedaction(getRectCoordinates(rect, pageSize))) {
           canvas.remove(rect);
         } else {
           // Add redaction ID for tracking
+          const id = uuidv4();
           rect.set('data', {
             ...rect.data,
-            id: uuidv4(),
+            id,
           });
+          rect.setCoords();
+
+          createRedaction({
+            type: rect.data.type,
+            reasonCode: rect.data.reasonCode,
+            coordinates: getRectCoordinates(rect, pageSize),
+          }, id);
         }
       }
     }
-  }, [redactionTool.isDrawing]);
+  }, [redactionTool.isDrawing, createRedaction, pageSize]);
 
-  const handleObjectSelected = useCallback((event: fabric.IEvent) => {
-    const selectedObject = event.target;
-    if (selectedObject && selectedObject.data) {
-      // Show redaction details or allow editing
-      console.log('Redaction selected:', selectedObject.data);
-    }
-  }, []);
+  const handleSelectionChanged = useCallback((event: fabric.IEvent) => {
+    const selectedObject = event.selected?.[0];
+    const redaction = selectedObject?.data?.id
+      ? redactions.find(r => r.id === selectedObject.data.id) || null
+      : null;
+    setRedactionTool({ activeRedaction: redaction });
+  }, [redactions, setRedactionTool]);
 
   const handleObjectModified = useCallback((event: fabric.IEvent) => {
     const modifiedObject = event.target;
-    if (modifiedObject && modifiedObject.data) {
-      // Update redaction coordinates
-      console.log('Redaction modified:', modifiedObject.data);
+    if (modifiedObject && modifiedObject.type === 'rect' && modifiedObject.data?.id) {
+      // Persist the moved or resized box
+      updateRedaction(modifiedObject.data.id, {
+        coordinates: getRectCoordinates(modifiedObject as fabric.Rect, pageSize),
+      });
     }
-  }, []);
+  }, [updateRedaction, pageSize]);
+
+  const handleTextSelection = (selected: TextSpan) => {
+    if (!textDocument || !canCreateRedactions || !canRedactCurrentVersion || !redactionTool.selectedTool) return;
+
+    const textSpan = normalizeTextSpan(textDocument.text, selected);
+    if (!textSpan) return;
+
+    createRedaction({
+      type: redactionTool.selectedTool,
+      reasonCode: redactionTool.selectedReasonCode,
+      textSpan,
+      // Text spans have no box; the page is kept for listing and navigation
+      coordinates: {
+        page: getPageForOffset(textDocument.pages, textSpan.start),
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+      },
+    });
+  };
+
+  const canvasHandlersRef = useRef({
+    handleMouseDown,
+    handleMouseMove,
+    handleMouseUp,
+    handleSelectionChanged,
+    handleObjectModified,
+  });
+  canvasHandlersRef.current = {
+    handleMouseDown,
+    handleMouseMove,
+    handleMouseUp,
+    handleSelectionChanged,
+    handleObjectModified,
+  };
 
   const handleDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
     setCurrentPage(1);
   };
 
+  const handlePageLoadSuccess = (page: pdfjs.PDFPageProxy) => {
+    // Unscaled viewport, in the same units as RedactionCoordinates
+    const { width, height } = page.getViewport({ scale: 1 });
+    setPageSize({ width, height });
+  };
+
   const handlePageChange = (page: number) => {
+    // The page's redaction layer is re-rendered from the store
+    fabricCanvasRef.current?.discardActiveObject();
+    setRedactionTool({ activeRedaction: null });
     setCurrentPage(page);
-    // Clear canvas when changing pages
-    if (fabricCanvasRef.current) {
-      fabricCanvasRef.current.clear();
-    }
   };
 
   const handleZoomIn = () => {
-    setScale(prev => Math.min(prev + 0.25, 3.0));
+    setScale(prev => clampZoom(prev + ZOOM_STEP));
   };
 
   const handleZoomOut = () => {
-    setScale(prev => Math.max(prev - 0.25, 0.5));
+    setScale(prev => clampZoom(prev - ZOOM_STEP));
   };
 
   const handleZoomReset = () => {
@@ -237,6 +404,19 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
     );
   }
 
+  if (access && !access.allowed) {
+    return (
+      <div className={`document-viewer document-viewer--error ${className}`}>
+        <div className="error-state" role="alert">
+          <h3>Access Denied</h3>
+          <p>{access.reason}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const marking = getDocumentMarking(currentDocument);
+
   if (isLoading) {
     return (
       <div className={`document-viewer document-viewer--loading ${className}`}>
@@ -261,6 +441,8 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
 
   return (
     <div className={`document-viewer ${className}`}>
+      <ProtectiveMarkingBanner marking={marking} />
+
       {/* Toolbar */}
       <div className="document-viewer__toolbar">
         <div className="toolbar-group">
@@ -268,7 +450,7 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
             type="button"
             className="btn btn--secondary btn--small"
             onClick={handleZoomOut}
-            disabled={scale <= 0.5}
+            disabled={scale <= MIN_ZOOM}
             aria-label="Zoom out"
           >
             −
@@ -278,7 +460,7 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
             type="button"
             className="btn btn--secondary btn--small"
             onClick={handleZoomIn}
-            disabled={scale >= 3.0}
+            disabled={scale >= MAX_ZOOM}
             aria-label="Zoom in"
           >
             +
@@ -316,12 +498,20 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
             ›
           </button>
         </div>
+
+        {redactionTool.selectedTool && !canRedactCurrentVersion && (
+          <div className="toolbar-group">
+            <span className="toolbar-notice">
+              Switch to the working version to add redactions.
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Document Content */}
       <div className="document-viewer__content">
-        <div className="document-container" style={{ transform: `scale(${scale})` }}>
-          {currentDocument.type === 'pdf' && documentContent ? (
+        <div className="document-container" style={{ position: 'relative' }}>
+          {contentFormat === 'pdf' && documentContent ? (
             <PDFDocument
               file={documentContent}
               onLoadSuccess={handleDocumentLoadSuccess}
@@ -329,30 +519,58 @@ export function DocumentViewer({ className = '' }: DocumentViewerProps) {
             >
               <Page
                 pageNumber={currentPage}
+                scale={scale}
+                onLoadSuccess={handlePageLoadSuccess}
                 renderTextLayer={false}
                 renderAnnotationLayer={false}
               />
             </PDFDocument>
+          ) : isTextContent && textDocument ? (
+            <TextPageView
+              text={textDocument.text}
+              lines={textDocument.pages[currentPage - 1] ?? []}
+              redactions={canRedactCurrentVersion ? redactions : []}
+              pageSize={pageSize}
+              scale={scale}
+              selectable={canCreateRedactions && canRedactCurrentVersion && redactionTool.selectedTool !== null}
+              activeRedactionId={redactionTool.activeRedaction?.id}
+              onSelectSpan={handleTextSelection}
+              onSelectRedaction={(redaction) => setRedactionTool({ activeRedaction: redaction })}
+            />
+          ) : isWordContent && docxPages.length > 0 ? (
+            <DocxPageView
+              pageHtml={docxPages[currentPage - 1] ?? ''}
+              pageSize={pageSize}
+              scale={scale}
+            />
           ) : (
-            <div className="document-placeholder">
-              <p>Document preview not available for {currentDocument.type.toUpperCase()} files.</p>
+            <div
+              className="document-placeholder"
+              style={{ width: pageSize.width * scale, minHeight: pageSize.height * scale }}
+            >
+              <p>Document preview not available for {(contentFormat ?? currentDocument.type).toUpperCase()} files.</p>
               <p>Redaction tools are still available.</p>
             </div>
           )}
           
-          {/* Redaction Overlay Canvas */}
-          <canvas
-            ref={canvasRef}
-            className="redaction-overlay"
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              pointerEvents: redactionTool.selectedTool ? 'auto' : 'none',
-            }}
-          />
+          {/* Redaction Overlay Canvas - Fabric wraps the canvas, so React only owns this container */}
+          {!isTextContent && (
+            <div
+              className="redaction-overlay"
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: redactionTool.selectedTool || canEditRedactions ? 'auto' : 'none',
+              }}
+            >
+              <canvas ref={setCanvasElement} />
+            </div>
+          )}
         </div>
       </div>
+
+      <ProtectiveMarkingBanner marking={marking} />
     </div>
   );
 }
@@ -373,4 +591,106 @@ function getRedactionBorderColor(type: RedactionType): string {
     case 'blackout': return '#000000';
     default: return '#000000';
   }
+}
+
+// Canvas objects are already in PDF page units; clamp them to the page
+function getRectCoordinates(rect: fabric.Rect, pageSize: PageSize): RedactionCoordinates {
+  return normalizeCoordinates({
+    page: rect.data.page,
+    x: rect.left || 0,
+    y: rect.top || 0,
+    width: (rect.width || 0) * (rect.scaleX || 1),
+    height: (rect.height || 0) * (rect.scaleY || 1),
+  }, pageSize);
+}
+
+// Suggestions from the detector are outlined until a redactor accepts them
+function getRedactionStyle(type: RedactionType, status: RedactionStatus = 'pending') {
+  if (status === 'suggested') {
+    return {
+      fill: 'rgba(249, 115, 22, 0.25)',
+      stroke: '#f97316',
+      strokeDashArray: [6, 4],
+    };
+  }
+  return {
+    fill: getRedactionColor(type),
+    stroke: getRedactionBorderColor(type),
+    strokeDashArray: undefined,
+  };
+}
+
+function createRedactionRect(
+  type: RedactionType,
+  coordinates: RedactionCoordinates,
+  data: Record<string, unknown>,
+  selectable: boolean,
+  status?: RedactionStatus
+): fabric.Rect {
+  return new fabric.Rect({
+    left: coordinates.x,
+    top: coordinates.y,
+    width: coordinates.width,
+    height: coordinates.height,
+    ...getRedactionStyle(type, status),
+    strokeWidth: 2,
+    strokeUniform: true,
+    opacity: 0.7,
+    selectable,
+    data: {
+      ...data,
+      type,
+      page: coordinates.page,
+    },
+  });
+}
+
+// Bring the canvas in line with the stored redactions for one page
+function syncPageRedactions(
+  canvas: fabric.Canvas,
+  pageRedactions: Redaction[],
+  selectable: boolean
+): void {
+  const wanted = new Map(pageRedactions.map(r => [r.id, r]));
+  const existing = new Map<string, fabric.Object>();
+
+  for (const object of canvas.getObjects()) {
+    const id = object.data?.id;
+    if (!id) continue; // Box still being drawn
+    if (wanted.has(id)) {
+      existing.set(id, object);
+    } else {
+      canvas.remove(object);
+    }
+  }
+
+  for (const redaction of pageRedactions) {
+    const { x, y, width, height } = redaction.coordinates;
+    const object = existing.get(redaction.id);
+
+    if (object) {
+      object.set({
+        left: x,
+        top: y,
+        width,
+        height,
+        scaleX: 1,
+        scaleY: 1,
+        selectable,
+        ...getRedactionStyle(redaction.type, redaction.status),
+      });
+      object.set('data', { ...object.data, reasonCode: redaction.reasonCode });
+      object.setCoords();
+    } else {
+      canvas.add(createRedactionRect(
+        redaction.type,
+        redaction.coordinates,
+        { id: redaction.id, reasonCode: redaction.reasonCode },
+        selectable,
+        redaction.status
+      ));
+    }
+  }
+
+  canvas.requestRenderAll();
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { PageSize } from '@/utils/redaction';
+import { DOCX_PAGE_MARGIN, DOCX_PAGE_STYLE } from '@/utils/docx';
+
+interface DocxPageViewProps {
+  pageHtml: string;
+  pageSize: PageSize;
+  scale: number;
+  className?: string;
+}
+
+// One paginated page of a converted Word document. The page is laid out at
+// its unscaled size and zoomed with a transform, so text wraps exactly as it
+// did when the document was paginated and redaction boxes stay aligned.
+export function DocxPageView({ pageHtml, pageSize, scale, className = '' }: DocxPageViewProps) {
+  return (
+    <div
+      className={`docx-page ${className}`}
+      style={{
+        width: pageSize.width * scale,
+        height: pageSize.height * scale,
+        overflow: 'hidden',
+        boxShadow: '0 1px 4px rgba(0, 0, 0, 0.2)',
+      }}
+    >
+      <div
+        className="docx-page__content"
+        style={{
+          ...DOCX_PAGE_STYLE,
+          width: pageSize.width,
+          height: pageSize.height,
+          padding: DOCX_PAGE_MARGIN,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+        // Markup is sanitised when the document is converted
+        dangerouslySetInnerHTML={{ __html: pageHtml }}
+      />
+    </div>
+  );
+}
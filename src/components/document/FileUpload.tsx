@@ -1,8 +1,10 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { useFileUpload } from '@/hooks/useFileUpload';
 import { usePermissions } from '@/hooks/usePermissions';
 import { formatFileSize, ALLOWED_EXTENSIONS, MAX_FILE_SIZE } from '@/utils/file';
+import { PROTECTIVE_MARKINGS } from '@/utils/markings';
+import { ProtectiveMarking } from '@/types';
 
 interface FileUploadProps {
   onUploadComplete?: (documentId: string) => void;
@@ -10,8 +12,10 @@ interface FileUploadProps {
 }
 
 export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps) {
-  const { canUpload } = usePermissions();
-  const { uploadState, uploadFile, resetUpload } = useFileUpload();
+  const { canUpload, canAccessMarking } = usePermissions();
+  const { uploadState, uploadFile, cancelUpload, resetUpload } = useFileUpload();
+  // Empty means read the marking from the document
+  const [marking, setMarking] = useState<ProtectiveMarking | ''>('');
   // const [dragActive, setDragActive] = useState(false);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -23,12 +27,12 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
     if (acceptedFiles.length === 0) return;
 
     const file = acceptedFiles[0]; // Only handle one file at a time
-    const document = await uploadFile(file);
+    const document = await uploadFile(file, marking || undefined);
     
     if (document) {
       onUploadComplete?.(document.id);
     }
-  }, [canUpload, uploadFile, onUploadComplete]);
+  }, [canUpload, uploadFile, onUploadComplete, marking]);
 
   const {
     getRootProps,
@@ -68,6 +72,26 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
 
   return (
     <div className={`file-upload ${className}`}>
+      <div className="form-group file-upload__marking">
+        <label htmlFor="upload-marking" className="form-label">Protective marking</label>
+        <select
+          id="upload-marking"
+          className="form-input"
+          value={marking}
+          onChange={e => setMarking(e.target.value as ProtectiveMarking | '')}
+          disabled={uploadState.isUploading}
+          aria-describedby="upload-marking-help"
+        >
+          <option value="">Detect from document</option>
+          {PROTECTIVE_MARKINGS.map(m => (
+            <option key={m} value={m} disabled={!canAccessMarking(m)}>{m}</option>
+          ))}
+        </select>
+        <p id="upload-marking-help" className="help-text">
+          Markings above your clearance cannot be selected. A marking lower than the one on the document is refused.
+        </p>
+      </div>
+
       <div
         {...getRootProps()}
         className={`
@@ -123,6 +147,18 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
         </div>
       </div>
 
+      {uploadState.isUploading && (
+        <div className="file-upload__cancel">
+          <button
+            type="button"
+            className="btn btn--secondary btn--small"
+            onClick={cancelUpload}
+          >
+            Cancel Upload
+          </button>
+        </div>
+      )}
+
       <div id="upload-instructions" className="file-upload__instructions">
         <h4>Upload Instructions</h4>
         <ul>
@@ -0,0 +1,20 @@
+import { ProtectiveMarking } from '@/types';
+import { getMarkingSlug } from '@/utils/markings';
+
+interface ProtectiveMarkingBannerProps {
+  marking: ProtectiveMarking;
+  className?: string;
+}
+
+// The document's marking, shown above and below it as on the printed page
+export function ProtectiveMarkingBanner({ marking, className = '' }: ProtectiveMarkingBannerProps) {
+  return (
+    <div
+      className={`marking-banner marking-banner--${getMarkingSlug(marking)} ${className}`}
+      role="note"
+      aria-label={`Protective marking: ${marking}`}
+    >
+      {marking}
+    </div>
+  );
+}
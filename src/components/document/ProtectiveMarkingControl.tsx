@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useAuth, useDocuments } from '@/stores/app.store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { apiService } from '@/services/api.service';
+import { auditService } from '@/services/audit.service';
+import { encryptionService } from '@/services/encryption.service';
+import { FOIError, ProtectiveMarking } from '@/types';
+import { PROTECTIVE_MARKINGS, getDocumentMarking } from '@/utils/markings';
+import { ProtectiveMarkingBanner } from './ProtectiveMarkingBanner';
+
+interface ProtectiveMarkingControlProps {
+  className?: string;
+}
+
+// Shows the selected document's marking and lets redactors raise it.
+// Lowering a marking is a downgrade: only an approver may do it, and only
+// with a recorded justification.
+export function ProtectiveMarkingControl({ className = '' }: ProtectiveMarkingControlProps) {
+  const { user } = useAuth();
+  const { currentDocument, updateDocument } = useDocuments();
+  const { hasPermission, checkMarkingChange } = usePermissions();
+  const [selected, setSelected] = useState<ProtectiveMarking | ''>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!currentDocument || !user) return null;
+
+  const current = getDocumentMarking(currentDocument);
+  const canChange = hasPermission('marking', 'change');
+  const check = selected ? checkMarkingChange(currentDocument, selected) : null;
+
+  const handleApply = async () => {
+    if (!selected || !check) return;
+    if (!check.allowed) {
+      setError(check.reason || 'This marking cannot be applied.');
+      return;
+    }
+
+    let justification: string | undefined;
+    if (check.downgrade) {
+      justification = window.prompt(
+        `Downgrading from ${current} to ${selected}.\n\nEnter the justification for the downgrade:`
+      )?.trim();
+      if (!justification) {
+        setError('A justification is required to downgrade a protective marking.');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      try {
+        await apiService.updateProtectiveMarking(currentDocument.id, selected, justification);
+      } catch (apiError) {
+        console.warn('[MARKING] Server update failed, continuing locally:', apiError);
+      }
+
+      updateDocument(currentDocument.id, { protectiveMarking: selected });
+
+      // Keep the marking with the cached copy so it survives a reload
+      const metadata = await encryptionService.getCachedDocumentMetadata(currentDocument.id);
+      if (metadata) {
+        await encryptionService.updateCachedDocumentMetadata(currentDocument.id, {
+          ...metadata,
+          protectiveMarking: selected,
+        });
+      }
+
+      await auditService.log({
+        userId: user.id,
+        action: check.downgrade ? 'marking.downgrade' : 'marking.change',
+        resourceType: 'document',
+        resourceId: currentDocument.id,
+        details: {
+          from: current,
+          to: selected,
+          ...(justification && { justification }),
+        },
+      });
+
+      setSelected('');
+    } catch (err) {
+      console.error('[MARKING] Failed to change protective marking:', err);
+      setError(err instanceof FOIError ? err.message : 'The marking could not be changed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={`marking-control ${className}`}>
+      <ProtectiveMarkingBanner marking={current} className="marking-control__current" />
+
+      {canChange && (
+        <div className="marking-control__change">
+          <label htmlFor="document-marking" className="form-label">Change marking</label>
+          <select
+            id="document-marking"
+            className="form-input"
+            value={selected}
+            onChange={e => {
+              setSelected(e.target.value as ProtectiveMarking | '');
+              setError(null);
+            }}
+            disabled={isSaving}
+          >
+            <option value="">Select a marking</option>
+            {PROTECTIVE_MARKINGS.filter(m => m !== current).map(m => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn--primary btn--small"
+            onClick={handleApply}
+            disabled={!check?.allowed || isSaving}
+          >
+            {check?.downgrade ? 'Downgrade' : 'Apply'}
+          </button>
+          {check && !check.allowed && (
+            <p className="marking-control__notice" role="note">{check.reason}.</p>
+          )}
+        </div>
+      )}
+
+      {error && <div className="form-error" role="alert">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { KeyboardEvent, useEffect, useRef } from 'react';
+import { Redaction, TextSpan } from '@/types';
+import { PageSize } from '@/utils/redaction';
+import { TextPage, getLineSegments } from '@/utils/text';
+
+interface TextPageViewProps {
+  text: string;
+  lines: TextPage;
+  redactions: Redaction[];
+  pageSize: PageSize;
+  scale: number;
+  selectable: boolean;
+  activeRedactionId?: string;
+  onSelectSpan: (span: TextSpan) => void;
+  onSelectRedaction: (redaction: Redaction | null) => void;
+  className?: string;
+}
+
+const TEXT_PAGE_STYLE = {
+  fontFamily: '"Courier New", Courier, monospace',
+  fontSize: '10px',
+  lineHeight: '14px',
+  padding: '28px',
+  whiteSpace: 'pre',
+  tabSize: 4,
+  color: '#000000',
+  background: '#ffffff',
+  boxSizing: 'border-box',
+} as const;
+
+// One page of a plain text or RTF document. Every run of text carries its
+// offset in the extracted text, so a browser selection maps straight back to
+// a character range. A selection made with the mouse becomes a redaction when
+// the button is released; one made with the keyboard (Shift with the arrow
+// keys) when Shift is released.
+export function TextPageView({
+  text,
+  lines,
+  redactions,
+  pageSize,
+  scale,
+  selectable,
+  activeRedactionId,
+  onSelectSpan,
+  onSelectRedaction,
+  className = '',
+}: TextPageViewProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!selectable) return;
+
+    const commitSelection = () => {
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+      // Every page listens, so only take selections made within this one
+      const range = selection.getRangeAt(0);
+      if (!contentRef.current?.contains(range.commonAncestorContainer)) return;
+
+      const start = getTextOffset(range.startContainer, range.startOffset);
+      const end = getTextOffset(range.endContainer, range.endOffset);
+      selection.removeAllRanges();
+
+      if (start !== null && end !== null && start !== end) {
+        onSelectSpan({ start, end });
+      }
+    };
+
+    // Arrow keys released while Shift is held are still extending the selection
+    const handleKeyUp = (event: globalThis.KeyboardEvent) => {
+      if (!event.shiftKey) commitSelection();
+    };
+
+    document.addEventListener('mouseup', commitSelection);
+    document.addEventListener('keyup', handleKeyUp);
+    return () => {
+      document.removeEventListener('mouseup', commitSelection);
+      document.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [selectable, onSelectSpan]);
+
+  const handleRedactionKeyDown = (event: KeyboardEvent, redaction: Redaction) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelectRedaction(redaction);
+    }
+  };
+
+  return (
+    <div
+      className={`text-page ${className}`}
+      style={{
+        width: pageSize.width * scale,
+        height: pageSize.height * scale,
+        overflow: 'hidden',
+        boxShadow: '0 1px 4px rgba(0, 0, 0, 0.2)',
+        cursor: selectable ? 'text' : 'default',
+      }}
+    >
+      <div
+        ref={contentRef}
+        className="text-page__content"
+        style={{
+          ...TEXT_PAGE_STYLE,
+          width: pageSize.width,
+          height: pageSize.height,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+      >
+        {lines.map(line => (
+          // Empty lines keep their height
+          <div key={line.start} className="text-page__line" data-start={line.start} style={{ minHeight: '14px' }}>
+            {getLineSegments(line, redactions).map(segment => {
+              const content = text.slice(segment.start, segment.end);
+              if (!segment.redaction) {
+                return <span key={segment.start} data-start={segment.start}>{content}</span>;
+              }
+
+              const redaction = segment.redaction;
+              return (
+                <span
+                  key={segment.start}
+                  data-start={segment.start}
+                  className={`text-redaction text-redaction--${redaction.status}`}
+                  style={getSpanStyle(redaction, redaction.id === activeRedactionId)}
+                  title={redaction.reasonCode}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => onSelectRedaction(redaction)}
+                  onKeyDown={(event) => handleRedactionKeyDown(event, redaction)}
+                >
+                  {content}
+                </span>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Map a DOM selection boundary to an offset in the extracted text
+function getTextOffset(node: Node, offset: number): number | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const run = node.parentElement?.closest<HTMLElement>('[data-start]');
+    if (!run) return null;
+    return Number(run.dataset.start) + offset;
+  }
+
+  const element = node instanceof HTMLElement ? node.closest<HTMLElement>('[data-start]') : null;
+  if (!element) return null;
+
+  const before = Array.from(element.childNodes)
+    .slice(0, offset)
+    .reduce((length, child) => length + (child.textContent?.length ?? 0), 0);
+  return Number(element.dataset.start) + before;
+}
+
+function getSpanStyle(redaction: Redaction, isActive: boolean) {
+  const outline = isActive ? '2px solid #2563eb' : undefined;
+
+  // Suggestions from the detector are outlined until a redactor accepts them
+  if (redaction.status === 'suggested') {
+    return { background: 'rgba(249, 115, 22, 0.25)', outline: outline ?? '1px dashed #f97316', color: 'inherit' };
+  }
+  if (redaction.type === 'highlight') {
+    return { background: 'rgba(255, 255, 0, 0.5)', outline, color: 'inherit' };
+  }
+  return { background: 'rgba(0, 0, 0, 0.7)', outline, color: '#ffffff' };
+}
@@ -1,11 +1,14 @@
 import { useState } from 'react';
-import { useDocuments } from '@/stores/app.store';
+import { useAuth, useDocuments } from '@/stores/app.store';
 import { usePermissions } from '@/hooks/usePermissions';
 import { apiService } from '@/services/api.service';
 import { auditService } from '@/services/audit.service';
 import { encryptionService } from '@/services/encryption.service';
-import { DocumentVersion, DocumentVersionType } from '@/types';
+import { redactionService } from '@/services/redaction.service';
+import { DocumentVersion, DocumentVersionType, FOIError } from '@/types';
 import { downloadBlob, sanitizeFilename } from '@/utils/file';
+import { getDocumentMarking } from '@/utils/markings';
+import { getUnreviewedRedactions } from '@/utils/redaction';
 import { v4 as uuidv4 } from 'uuid';
 
 interface VersionControlProps {
@@ -13,8 +16,9 @@ interface VersionControlProps {
 }
 
 export function VersionControl({ className = '' }: VersionControlProps) {
+  const { user } = useAuth();
   const { currentDocument, updateDocument } = useDocuments();
-  const { canApproveVersions } = usePermissions();
+  const { canApproveVersions, checkVersionFinalization, explainDocumentAccess } = usePermissions();
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingAction, setProcessingAction] = useState<string>('');
 
@@ -30,7 +34,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
   }
 
   const handleCreateWorkingVersion = async () => {
-    if (!currentDocument) return;
+    if (!currentDocument || !user) return;
 
     setIsProcessing(true);
     setProcessingAction('Creating working version...');
@@ -49,7 +53,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
         content: originalVersion.content,
         redactions: [], // Start with no redactions
         createdAt: new Date(),
-        createdBy: 'current-user', // Should come from auth context
+        createdBy: user.id,
         hash: originalVersion.hash, // Will be updated when redactions are applied
         encrypted: originalVersion.encrypted,
       };
@@ -63,7 +67,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
 
       // Audit log
       await auditService.log({
-        userId: 'current-user',
+        userId: user.id,
         action: 'version.create',
         resourceType: 'document',
         resourceId: currentDocument.id,
@@ -83,7 +87,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
   };
 
   const handleApproveVersion = async () => {
-    if (!currentDocument || !canApproveVersions) return;
+    if (!currentDocument || !user || !canApproveVersions) return;
 
     const workingVersion = currentDocument.versions.find(v => v.type === 'working');
     if (!workingVersion) {
@@ -91,23 +95,50 @@ export function VersionControl({ className = '' }: VersionControlProps) {
       return;
     }
 
+    const unreviewed = getUnreviewedRedactions(workingVersion.redactions);
+    if (unreviewed.length > 0) {
+      alert(`${unreviewed.length} redaction(s) are still pending or suggested. Approve or reject every redaction before finalizing.`);
+      return;
+    }
+
+    // Four-eyes: the finalizer must not have created the version's redactions
+    const separation = checkVersionFinalization(workingVersion);
+    let overrideJustification: string | null = null;
+    if (!separation.allowed) {
+      if (!separation.canOverride) {
+        alert(`Cannot finalize: ${separation.reason}.`);
+        return;
+      }
+      overrideJustification = window.prompt(
+        `${separation.reason}.\n\nEnter a justification to override separation of duties (break-glass):`
+      )?.trim() || null;
+      if (!overrideJustification) {
+        alert('A justification is required to override separation of duties.');
+        return;
+      }
+    }
+
     setIsProcessing(true);
     setProcessingAction('Finalizing document...');
 
     try {
-      // Generate final hash with redactions applied
-      const finalHash = await encryptionService.generateHash(
-        workingVersion.content as ArrayBuffer
-      );
+      // Burn the redactions into a new copy of the document
+      setProcessingAction('Applying redactions...');
+      const redacted = await redactionService.burnIn(currentDocument, workingVersion);
+
+      // Generate final hash over the redacted output
+      setProcessingAction('Finalizing document...');
+      const finalHash = await encryptionService.generateHash(redacted.content);
 
       // Create final version
       const finalVersion: DocumentVersion = {
         id: uuidv4(),
         type: 'final',
-        content: workingVersion.content,
+        content: redacted.content,
+        format: redacted.format,
         redactions: workingVersion.redactions,
         createdAt: new Date(),
-        createdBy: 'current-user',
+        createdBy: user.id,
         hash: finalHash,
         encrypted: false, // Final versions are not encrypted for export
       };
@@ -129,7 +160,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
 
       // Audit log
       await auditService.log({
-        userId: 'current-user',
+        userId: user.id,
         action: 'version.approve',
         resourceType: 'document',
         resourceId: currentDocument.id,
@@ -137,6 +168,8 @@ export function VersionControl({ className = '' }: VersionControlProps) {
           versionId: finalVersion.id,
           hash: finalHash,
           redactionCount: workingVersion.redactions.length,
+          separationOfDutiesOverride: overrideJustification !== null,
+          overrideJustification,
         },
       });
 
@@ -144,7 +177,9 @@ export function VersionControl({ className = '' }: VersionControlProps) {
 
     } catch (error) {
       console.error('Failed to approve version:', error);
-      alert('Failed to finalize document. Please try again.');
+      alert(error instanceof FOIError
+        ? `Failed to finalize document: ${error.message}`
+        : 'Failed to finalize document. Please try again.');
     } finally {
       setIsProcessing(false);
       setProcessingAction('');
@@ -152,7 +187,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
   };
 
   const handleDownloadVersion = async (versionType: DocumentVersionType) => {
-    if (!currentDocument) return;
+    if (!currentDocument || !user) return;
 
     const version = currentDocument.versions.find(v => v.type === versionType);
     if (!version) {
@@ -160,6 +195,19 @@ export function VersionControl({ className = '' }: VersionControlProps) {
       return;
     }
 
+    const access = explainDocumentAccess(currentDocument);
+    if (!access.allowed) {
+      await auditService.log({
+        userId: user.id,
+        action: 'access.denied',
+        resourceType: 'document',
+        resourceId: currentDocument.id,
+        details: { action: 'download', rule: access.ruleId, reason: access.reason },
+      });
+      alert(`Cannot download: ${access.reason}.`);
+      return;
+    }
+
     setIsProcessing(true);
     setProcessingAction(`Downloading ${versionType} version...`);
 
@@ -174,20 +222,23 @@ export function VersionControl({ className = '' }: VersionControlProps) {
         content = encoder.encode(version.content).buffer;
       }
 
+      // Final versions of Word documents are exported as PDF
+      const format = version.format ?? currentDocument.type;
+
       // Create blob and download
       const blob = new Blob([content], { 
-        type: getContentType(currentDocument.type) 
+        type: getContentType(format) 
       });
       
       const filename = sanitizeFilename(
-        `${currentDocument.name.replace(/\.[^/.]+$/, '')}_${versionType}.${currentDocument.type}`
+        `${currentDocument.name.replace(/\.[^/.]+$/, '')}_${versionType}.${format}`
       );
 
       downloadBlob(blob, filename);
 
       // Audit log
       await auditService.log({
-        userId: 'current-user',
+        userId: user.id,
         action: 'document.download',
         resourceType: 'document',
         resourceId: currentDocument.id,
@@ -195,6 +246,7 @@ export function VersionControl({ className = '' }: VersionControlProps) {
           versionType,
           versionId: version.id,
           filename,
+          protectiveMarking: getDocumentMarking(currentDocument),
         },
       });
 
@@ -241,6 +293,9 @@ export function VersionControl({ className = '' }: VersionControlProps) {
 
   const hasWorkingVersion = currentDocument.versions.some(v => v.type === 'working');
   const hasFinalVersion = currentDocument.versions.some(v => v.type === 'final');
+  const workingVersion = currentDocument.versions.find(v => v.type === 'working');
+  const finalization = workingVersion ? checkVersionFinalization(workingVersion) : null;
+  const finalizationBlocked = finalization !== null && !finalization.allowed && !finalization.canOverride;
 
   return (
     <div className={`version-control ${className}`}>
@@ -402,18 +457,25 @@ export function VersionControl({ className = '' }: VersionControlProps) {
                 type="button"
                 className="btn btn--primary btn--small"
                 onClick={handleApproveVersion}
-                disabled={!hasWorkingVersion || !canApproveVersions || isProcessing}
+                disabled={!hasWorkingVersion || !canApproveVersions || finalizationBlocked || isProcessing}
                 title={
                   !hasWorkingVersion 
                     ? 'Create a working version first'
                     : !canApproveVersions
                     ? 'You do not have permission to approve versions'
+                    : finalization && !finalization.allowed
+                    ? finalization.reason
                     : 'Finalize the working version'
                 }
               >
-                Finalize Document
+                {finalization && !finalization.allowed && finalization.canOverride
+                  ? 'Override & Finalize'
+                  : 'Finalize Document'}
               </button>
             )}
+            {!hasFinalVersion && canApproveVersions && finalization && !finalization.allowed && (
+              <p className="version-notice" role="note">{finalization.reason}.</p>
+            )}
           </div>
         </div>
       </div>
@@ -433,7 +495,10 @@ export function VersionControl({ className = '' }: VersionControlProps) {
           <li><strong>Original:</strong> Immutable source document, always preserved</li>
           <li><strong>Working:</strong> Editable draft with redactions, can be modified</li>
           <li><strong>Final:</strong> Approved document with applied redactions, immutable</li>
+          <li>Redacted content is permanently removed from the final version, not just hidden</li>
           <li>Only approvers can finalize working versions into final versions</li>
+          <li>Every redaction must be approved or rejected before finalizing</li>
+          <li>Redactions cannot be approved, or versions finalized, by the person who created them</li>
           <li>Final versions include a cryptographic hash for integrity verification</li>
         </ul>
       </div>
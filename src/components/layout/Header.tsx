@@ -1,12 +1,21 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth, useUI } from '@/stores/app.store';
 import { UserProfile } from '@/components/auth/UserProfile';
+import { usePermissions } from '@/hooks/usePermissions';
 import { getRoleDisplayName } from '@/utils/permissions';
+import { useAuditDelivery } from '@/hooks/useAuditDelivery';
 
-export function Header() {
+interface HeaderProps {
+  currentPage?: string;
+}
+
+export function Header({ currentPage = 'Document Redaction' }: HeaderProps) {
   const { user } = useAuth();
+  const { canViewAuditLog, canManageUsers } = usePermissions();
   const { sidebarOpen, setSidebarOpen } = useUI();
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const auditDelivery = useAuditDelivery();
 
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -47,10 +56,10 @@ export function Header() {
           <nav className="breadcrumb" aria-label="Breadcrumb">
             <ol className="breadcrumb-list">
               <li className="breadcrumb-item">
-                <a href="/" className="breadcrumb-link">Dashboard</a>
+                <Link to="/" className="breadcrumb-link">Dashboard</Link>
               </li>
               <li className="breadcrumb-item breadcrumb-item--current" aria-current="page">
-                Document Redaction
+                {currentPage}
               </li>
             </ol>
           </nav>
@@ -58,6 +67,18 @@ export function Header() {
 
         {/* Right Section */}
         <div className="header-right">
+          {canViewAuditLog && (
+            <Link to="/audit" className="header-link">
+              Audit Log
+            </Link>
+          )}
+
+          {canManageUsers && (
+            <Link to="/admin/users" className="header-link">
+              Users
+            </Link>
+          )}
+
           {/* User Menu */}
           <div className="user-menu">
             <button
@@ -94,6 +115,14 @@ export function Header() {
             )}
           </div>
 
+          {/* Audit Delivery */}
+          {auditDelivery.failing > 0 && (
+            <div className="audit-backlog" role="status" title={auditDelivery.lastError}>
+              <span className="audit-backlog-icon" aria-hidden="true">⚠</span>
+              {auditDelivery.pending} audit {auditDelivery.pending === 1 ? 'event' : 'events'} awaiting delivery
+            </div>
+          )}
+
           {/* System Status */}
           <div className="system-status">
             <div className="status-indicator status-indicator--online" title="System Online">
@@ -1,14 +1,18 @@
 // React import not needed with new JSX transform
-import { useUI } from '@/stores/app.store';
+import { useDocuments, useUI } from '@/stores/app.store';
 import { usePermissions } from '@/hooks/usePermissions';
 import { DocumentList } from '@/components/document/DocumentList';
 import { FileUpload } from '@/components/document/FileUpload';
 import { RedactionTools } from '@/components/redaction/RedactionTools';
+import { SuggestionReviewPanel } from '@/components/redaction/SuggestionReviewPanel';
+import { ApprovalReviewPanel } from '@/components/redaction/ApprovalReviewPanel';
 import { VersionControl } from '@/components/document/VersionControl';
+import { ProtectiveMarkingControl } from '@/components/document/ProtectiveMarkingControl';
 
 export function Sidebar() {
   const { sidebarOpen } = useUI();
-  const { canUpload } = usePermissions();
+  const { currentDocument } = useDocuments();
+  const { canUpload, canCreateRedactions, canApproveRedactions } = usePermissions();
 
   return (
     <aside 
@@ -37,6 +41,30 @@ export function Sidebar() {
           <RedactionTools />
         </section>
 
+        {/* Suggested Redactions Section */}
+        {canCreateRedactions && (
+          <section className="sidebar-section">
+            <h2 className="sidebar-section-title">Suggested Redactions</h2>
+            <SuggestionReviewPanel />
+          </section>
+        )}
+
+        {/* Redaction Review Section */}
+        {canApproveRedactions && (
+          <section className="sidebar-section">
+            <h2 className="sidebar-section-title">Redaction Review</h2>
+            <ApprovalReviewPanel />
+          </section>
+        )}
+
+        {/* Protective Marking Section */}
+        {currentDocument && (
+          <section className="sidebar-section">
+            <h2 className="sidebar-section-title">Protective Marking</h2>
+            <ProtectiveMarkingControl />
+          </section>
+        )}
+
         {/* Version Control Section */}
         <section className="sidebar-section">
           <h2 className="sidebar-section-title">Version Control</h2>
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDocuments } from '@/stores/app.store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useRedactions } from '@/hooks/useRedactions';
+import { redactionService } from '@/services/redaction.service';
+import { extractDocumentText } from '@/utils/text';
+import { Redaction, FOIError } from '@/types';
+
+interface ApprovalReviewPanelProps {
+  className?: string;
+}
+
+const EXCERPT_CONTEXT = 30; // characters either side of a text span
+
+export function ApprovalReviewPanel({ className = '' }: ApprovalReviewPanelProps) {
+  const { currentDocument } = useDocuments();
+  const { canApproveRedactions, checkRedactionApproval } = usePermissions();
+  const { redactions, hasWorkingVersion, approveRedactions, rejectRedactions } = useRedactions();
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workingVersion = currentDocument?.versions.find(v => v.type === 'working');
+  const format = workingVersion?.format ?? currentDocument?.type;
+
+  const pending = useMemo(
+    () => redactions
+      .filter(r => r.status === 'pending')
+      .sort((a, b) => a.coordinates.page - b.coordinates.page || a.coordinates.y - b.coordinates.y),
+    [redactions]
+  );
+  const reviewedCount = redactions.filter(r => r.status === 'approved' || r.status === 'rejected').length;
+
+  // Text-span redactions are previewed as an excerpt of the text they cover
+  const documentText = useMemo(() => {
+    if (!workingVersion || (format !== 'txt' && format !== 'rtf')) return null;
+    if (!(workingVersion.content instanceof ArrayBuffer)) return null;
+    return extractDocumentText(workingVersion.content, format);
+  }, [workingVersion?.id, format]);
+
+  // Render previews of the pending areas; re-rendered when the set changes
+  const pendingKey = pending.map(r => `${r.id}:${r.coordinates.x},${r.coordinates.y},${r.coordinates.width},${r.coordinates.height}`).join('|');
+  useEffect(() => {
+    if (!canApproveRedactions || !currentDocument || !workingVersion || pending.length === 0) {
+      setThumbnails({});
+      return;
+    }
+
+    let cancelled = false;
+    redactionService.renderThumbnails(currentDocument, workingVersion, pending)
+      .then(rendered => {
+        if (!cancelled) setThumbnails(rendered);
+      })
+      .catch(err => {
+        console.warn('[REDACTION] Failed to render previews:', err);
+        if (!cancelled) setThumbnails({});
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canApproveRedactions, currentDocument?.id, workingVersion?.id, pendingKey]);
+
+  if (!canApproveRedactions) {
+    return null;
+  }
+
+  if (!currentDocument || !hasWorkingVersion) {
+    return (
+      <div className={`approval-review approval-review--empty ${className}`}>
+        <div className="empty-state">
+          <h3>Redaction Review</h3>
+          <p>There is no working version awaiting review.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handleCommentChange = (redactionId: string, value: string) => {
+    setComments(prev => ({ ...prev, [redactionId]: value }));
+  };
+
+  const handleDecision = async (redaction: Redaction, decision: 'approve' | 'override' | 'reject') => {
+    const comment = comments[redaction.id]?.trim() || '';
+    if (decision === 'reject' && !comment) {
+      setError('Add a comment explaining why the redaction is rejected.');
+      return;
+    }
+    if (decision === 'override' && !comment) {
+      setError('Add a justification for overriding separation of duties.');
+      return;
+    }
+
+    setBusyId(redaction.id);
+    setError(null);
+
+    try {
+      if (decision === 'reject') {
+        await rejectRedactions([redaction.id], comment);
+      } else {
+        await approveRedactions([redaction.id], comment, { override: decision === 'override' });
+      }
+      setComments(prev => {
+        const next = { ...prev };
+        delete next[redaction.id];
+        return next;
+      });
+    } catch (err) {
+      console.error('Redaction review failed:', err);
+      setError(err instanceof FOIError ? err.message : 'Review failed. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className={`approval-review ${className}`}>
+      <div className="approval-header">
+        <h3>Redaction Review</h3>
+        <p>
+          {pending.length} pending · {reviewedCount} reviewed
+        </p>
+      </div>
+
+      {error && (
+        <div className="form-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {pending.length === 0 ? (
+        <p className="help-text">No redactions awaiting approval.</p>
+      ) : (
+        <ul className="approval-list" aria-label="Redactions awaiting approval">
+          {pending.map((redaction) => {
+            const approval = checkRedactionApproval(redaction);
+            return (
+              <li key={redaction.id} className="approval-item">
+                <div className="approval-item__preview">
+                  {redaction.textSpan && documentText !== null ? (
+                    <p className="approval-item__excerpt">
+                      {getExcerpt(documentText, redaction.textSpan.start, redaction.textSpan.end)}
+                    </p>
+                  ) : thumbnails[redaction.id] ? (
+                    <img
+                      src={thumbnails[redaction.id]}
+                      alt={`Area redacted on page ${redaction.coordinates.page}`}
+                      className="approval-item__thumbnail"
+                    />
+                  ) : (
+                    <div className="approval-item__thumbnail approval-item__thumbnail--loading" aria-hidden="true" />
+                  )}
+                </div>
+
+                <div className="approval-item__meta">
+                  <span className="approval-item__reason">{redaction.reasonCode}</span>
+                  <span>
+                    Page {redaction.coordinates.page} · by {redaction.createdByName || redaction.createdBy}
+                  </span>
+                  {redaction.customReason && <span>{redaction.customReason}</span>}
+                </div>
+
+                {!approval.allowed && approval.reason && (
+                  <p className="approval-item__notice">{approval.reason}</p>
+                )}
+
+                <label className="form-label" htmlFor={`review-comment-${redaction.id}`}>
+                  Comment
+                </label>
+                <textarea
+                  id={`review-comment-${redaction.id}`}
+                  className="form-input"
+                  rows={2}
+                  value={comments[redaction.id] || ''}
+                  onChange={(event) => handleCommentChange(redaction.id, event.target.value)}
+                  placeholder={approval.canOverride ? 'Required when rejecting or overriding' : 'Required when rejecting'}
+                />
+
+                <div className="approval-item__actions">
+                  <button
+                    type="button"
+                    className="btn btn--primary btn--small"
+                    onClick={() => handleDecision(redaction, 'approve')}
+                    disabled={busyId !== null || !approval.allowed}
+                    title={approval.reason}
+                  >
+                    Approve
+                  </button>
+                  {approval.canOverride && (
+                    <button
+                      type="button"
+                      className="btn btn--danger btn--small"
+                      onClick={() => handleDecision(redaction, 'override')}
+                      disabled={busyId !== null}
+                    >
+                      Override &amp; Approve
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="btn btn--secondary btn--small"
+                    onClick={() => handleDecision(redaction, 'reject')}
+                    disabled={busyId !== null}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function getExcerpt(text: string, start: number, end: number) {
+  const before = text.slice(Math.max(0, start - EXCERPT_CONTEXT), start);
+  const after = text.slice(end, end + EXCERPT_CONTEXT);
+  return (
+    <>
+      {start > EXCERPT_CONTEXT && '…'}
+      {before}
+      <strong className="approval-item__excerpt-match">{text.slice(start, end)}</strong>
+      {after}
+      {end + EXCERPT_CONTEXT < text.length && '…'}
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import { useMemo, useState } from 'react';
+import { useAuth, useDocuments } from '@/stores/app.store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useRedactions } from '@/hooks/useRedactions';
+import { detectionService } from '@/services/detection.service';
+import { SENSITIVE_DATA_LABELS } from '@/utils/detection';
+import { FOIError } from '@/types';
+
+interface SuggestionReviewPanelProps {
+  className?: string;
+}
+
+export function SuggestionReviewPanel({ className = '' }: SuggestionReviewPanelProps) {
+  const { user } = useAuth();
+  const { currentDocument } = useDocuments();
+  const { canCreateRedactions } = usePermissions();
+  const {
+    redactions,
+    hasWorkingVersion,
+    replaceSuggestions,
+    acceptSuggestions,
+    dismissSuggestions,
+  } = useRedactions();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions = useMemo(
+    () => redactions
+      .filter(r => r.status === 'suggested')
+      .sort((a, b) => a.coordinates.page - b.coordinates.page || a.coordinates.y - b.coordinates.y),
+    [redactions]
+  );
+
+  // Drop selections for suggestions that have since been reviewed
+  const activeSelection = selectedIds.filter(id => suggestions.some(s => s.id === id));
+  const allSelected = suggestions.length > 0 && activeSelection.length === suggestions.length;
+
+  if (!canCreateRedactions) {
+    return null;
+  }
+
+  if (!currentDocument || !hasWorkingVersion) {
+    return (
+      <div className={`suggestion-review suggestion-review--empty ${className}`}>
+        <div className="empty-state">
+          <h3>Suggested Redactions</h3>
+          <p>Create a working version to scan it for sensitive information.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handleScan = async () => {
+    const workingVersion = currentDocument.versions.find(v => v.type === 'working');
+    if (!user || !workingVersion) return;
+
+    setIsScanning(true);
+    setError(null);
+
+    try {
+      const found = await detectionService.scanDocument(currentDocument, workingVersion, {
+        userId: user.id,
+      });
+      await replaceSuggestions(found);
+      setSelectedIds([]);
+    } catch (err) {
+      console.error('Sensitive data scan failed:', err);
+      setError(err instanceof FOIError ? err.message : 'Scan failed. Please try again.');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleToggle = (redactionId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(redactionId)
+        ? prev.filter(id => id !== redactionId)
+        : [...prev, redactionId]
+    );
+  };
+
+  const handleToggleAll = () => {
+    setSelectedIds(allSelected ? [] : suggestions.map(s => s.id));
+  };
+
+  const handleAccept = async () => {
+    setIsApplying(true);
+    try {
+      await acceptSuggestions(activeSelection);
+      setSelectedIds([]);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setIsApplying(true);
+    try {
+      await dismissSuggestions(activeSelection);
+      setSelectedIds([]);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className={`suggestion-review ${className}`}>
+      <div className="suggestion-header">
+        <h3>Suggested Redactions</h3>
+        <p>Scan the working version for TFNs, Medicare numbers and other personal information.</p>
+      </div>
+
+      <button
+        type="button"
+        className="btn btn--secondary"
+        onClick={handleScan}
+        disabled={isScanning || isApplying}
+      >
+        {isScanning ? 'Scanning...' : 'Scan for Sensitive Data'}
+      </button>
+
+      {error && (
+        <div className="form-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {suggestions.length === 0 ? (
+        <p className="help-text">No suggestions awaiting review.</p>
+      ) : (
+        <>
+          <div className="suggestion-actions">
+            <label className="suggestion-select-all">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={handleToggleAll}
+              />
+              Select all ({suggestions.length})
+            </label>
+            <button
+              type="button"
+              className="btn btn--primary btn--small"
+              onClick={handleAccept}
+              disabled={activeSelection.length === 0 || isApplying}
+            >
+              Accept ({activeSelection.length})
+            </button>
+            <button
+              type="button"
+              className="btn btn--secondary btn--small"
+              onClick={handleDismiss}
+              disabled={activeSelection.length === 0 || isApplying}
+            >
+              Dismiss ({activeSelection.length})
+            </button>
+          </div>
+
+          <ul className="suggestion-list" aria-label="Suggested redactions">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion.id} className="suggestion-item">
+                <label className="suggestion-item__label">
+                  <input
+                    type="checkbox"
+                    checked={activeSelection.includes(suggestion.id)}
+                    onChange={() => handleToggle(suggestion.id)}
+                  />
+                  <span className="suggestion-item__type">
+                    {suggestion.detectedType
+                      ? SENSITIVE_DATA_LABELS[suggestion.detectedType]
+                      : 'Sensitive data'}
+                  </span>
+                  <span className="suggestion-item__meta">
+                    Page {suggestion.coordinates.page} · {suggestion.reasonCode} ·{' '}
+                    {Math.round((suggestion.confidence ?? 0) * 100)}% confidence
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useRedactions } from '../useRedactions';
+import { useAppStore } from '@/stores/app.store';
+import { apiService } from '@/services/api.service';
+import { auditService } from '@/services/audit.service';
+import { Document, Redaction, User } from '@/types';
+
+vi.mock('@/services/api.service', () => ({
+  apiService: {
+    saveRedactions: vi.fn(),
+    approveRedactions: vi.fn(),
+    rejectRedactions: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/audit.service', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const APPROVER: User = { id: '3', email: 'approver@foi.gov.au', name: 'Sarah Approver', role: 'approver' };
+
+function makeRedaction(id: string, createdBy: string): Redaction {
+  return {
+    id,
+    type: 'rectangle',
+    coordinates: { x: 10, y: 10, width: 100, height: 20, page: 1 },
+    reasonCode: 'FOI s 22',
+    createdAt: new Date(0),
+    createdBy,
+    status: 'pending',
+  };
+}
+
+function makeDocument(redactions: Redaction[]): Document {
+  return {
+    id: 'd1',
+    name: 'brief.pdf',
+    type: 'pdf',
+    size: 1024,
+    uploadedAt: new Date(0),
+    uploadedBy: '2',
+    currentVersion: 'working',
+    versions: [{
+      id: 'v1',
+      type: 'working',
+      content: '',
+      redactions,
+      createdAt: new Date(0),
+      createdBy: '2',
+      hash: 'h1',
+    }],
+  };
+}
+
+function getStoredRedaction(id: string): Redaction | undefined {
+  return useAppStore.getState().currentDocument?.versions[0].redactions.find(r => r.id === id);
+}
+
+describe('useRedactions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const document = makeDocument([makeRedaction('r1', '2'), makeRedaction('r2', APPROVER.id)]);
+    useAppStore.setState({ user: APPROVER, isAuthenticated: true, documents: [document], currentDocument: document });
+  });
+
+  it('should approve another officer\'s redaction and audit it', async () => {
+    const { result } = renderHook(() => useRedactions());
+
+    await act(() => result.current.approveRedactions(['r1'], ' Agreed '));
+
+    expect(getStoredRedaction('r1')).toMatchObject({ status: 'approved', approvedBy: '3', reviewComment: 'Agreed' });
+    expect(apiService.approveRedactions).toHaveBeenCalledWith('d1', ['r1'], 'Agreed');
+    expect(auditService.log).toHaveBeenCalledWith({
+      userId: '3',
+      action: 'redaction.approve',
+      resourceType: 'redaction',
+      resourceId: 'r1',
+      details: {
+        documentId: 'd1',
+        versionId: 'v1',
+        createdBy: '2',
+        reasonCode: 'FOI s 22',
+        comment: 'Agreed',
+        separationOfDutiesOverride: false,
+      },
+    });
+  });
+
+  it('should refuse to let an approver approve their own redaction', async () => {
+    const { result } = renderHook(() => useRedactions());
+
+    await expect(result.current.approveRedactions(['r1', 'r2'], 'Fine', { override: true })).rejects.toMatchObject({
+      code: 'SEPARATION_OF_DUTIES',
+      details: { redactionIds: ['r2'] },
+    });
+
+    expect(getStoredRedaction('r1')?.status).toBe('pending');
+    expect(getStoredRedaction('r2')?.status).toBe('pending');
+    expect(apiService.approveRedactions).not.toHaveBeenCalled();
+    expect(auditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should reject a redaction with the reviewer\'s comment and audit it', async () => {
+    const { result } = renderHook(() => useRedactions());
+
+    await act(() => result.current.rejectRedactions(['r1'], ' Not exempt '));
+
+    expect(getStoredRedaction('r1')).toMatchObject({ status: 'rejected', rejectedBy: '3', reviewComment: 'Not exempt' });
+    expect(apiService.rejectRedactions).toHaveBeenCalledWith('d1', ['r1'], 'Not exempt');
+    expect(auditService.log).toHaveBeenCalledWith({
+      userId: '3',
+      action: 'redaction.reject',
+      resourceType: 'redaction',
+      resourceId: 'r1',
+      details: {
+        documentId: 'd1',
+        versionId: 'v1',
+        createdBy: '2',
+        reasonCode: 'FOI s 22',
+        comment: 'Not exempt',
+      },
+    });
+  });
+});
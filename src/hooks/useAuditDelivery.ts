@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { auditService } from '@/services/audit.service';
+import { AuditDeliveryStatus } from '@/types';
+
+// Live view of the audit outbox, for surfacing events the audit endpoint
+// has not yet accepted
+export function useAuditDelivery(): AuditDeliveryStatus {
+  const [status, setStatus] = useState<AuditDeliveryStatus>(() => auditService.getDeliveryStatus());
+
+  useEffect(() => auditService.subscribe(setStatus), []);
+
+  return status;
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/stores/app.store';
+import { authService } from '@/services/auth.service';
+import { breakGlassService } from '@/services/breakGlass.service';
+import { BreakGlassGrant } from '@/types';
+
+interface UseBreakGlassReturn {
+  grant: BreakGlassGrant | null; // The signed-in user's active grant
+  start: (justification: string, durationMinutes: number) => Promise<BreakGlassGrant>;
+  end: () => Promise<void>;
+}
+
+export function useBreakGlass(): UseBreakGlassReturn {
+  const { user } = useAuth();
+  const [grant, setGrant] = useState<BreakGlassGrant | null>(
+    () => (user ? breakGlassService.getActiveGrant(user.id) : null)
+  );
+
+  useEffect(() => {
+    setGrant(user ? breakGlassService.getActiveGrant(user.id) : null);
+    return breakGlassService.onChange(() => {
+      setGrant(user ? breakGlassService.getActiveGrant(user.id) : null);
+    });
+  }, [user]);
+
+  const start = useCallback(
+    (justification: string, durationMinutes: number) => authService.startBreakGlass(justification, durationMinutes),
+    []
+  );
+
+  const end = useCallback(() => authService.endBreakGlass(), []);
+
+  return { grant, start, end };
+}
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '@/stores/app.store';
+import { auditService } from '@/services/audit.service';
+import { encryptionService } from '@/services/encryption.service';
+import { CacheLockStatus, Document, DocumentType, FOIError, ProtectiveMarking } from '@/types';
+
+// What useFileUpload stores with each cached upload, so the document can be
+// rebuilt once the cache is unlocked after a reload
+export interface CachedDocumentMetadata {
+  name: string;
+  type: DocumentType;
+  size: number;
+  uploadedAt: string;
+  uploadedBy: string;
+  department?: string;
+  protectiveMarking?: ProtectiveMarking;
+  hash: string;
+  versionId: string;
+}
+
+interface UseCachePassphraseReturn {
+  status: CacheLockStatus | null;
+  enablePassphrase: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<number>;
+  disablePassphrase: () => Promise<void>;
+}
+
+export function useCachePassphrase(): UseCachePassphraseReturn {
+  const { user, addDocument } = useAppStore(state => ({
+    user: state.user,
+    addDocument: state.addDocument,
+  }));
+  const [status, setStatus] = useState<CacheLockStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setStatus(null);
+      return;
+    }
+    setStatus(await encryptionService.getCacheLockStatus(user.id));
+  }, [user]);
+
+  useEffect(() => {
+    refresh().catch(error => console.warn('[CACHE] Could not read cache lock status:', error));
+  }, [refresh]);
+
+  // Rebuild documents from the cache that are not already open
+  const restoreDocuments = useCallback(async (): Promise<number> => {
+    const open = new Set(useAppStore.getState().documents.map(d => d.id));
+    let restored = 0;
+
+    for (const documentId of await encryptionService.getCachedDocumentIds()) {
+      if (open.has(documentId)) continue;
+
+      const metadata = await encryptionService.getCachedDocumentMetadata(documentId) as CachedDocumentMetadata | null;
+      const content = metadata && await encryptionService.getCachedDocument(documentId);
+      if (!metadata || !content) continue;
+
+      const uploadedAt = new Date(metadata.uploadedAt);
+      const document: Document = {
+        id: documentId,
+        name: metadata.name,
+        type: metadata.type,
+        size: metadata.size,
+        uploadedAt,
+        uploadedBy: metadata.uploadedBy,
+        department: metadata.department,
+        protectiveMarking: metadata.protectiveMarking,
+        currentVersion: 'original',
+        hash: metadata.hash,
+        versions: [
+          {
+            id: metadata.versionId,
+            type: 'original',
+            content,
+            redactions: [],
+            createdAt: uploadedAt,
+            createdBy: metadata.uploadedBy,
+            hash: metadata.hash,
+            encrypted: false,
+          },
+        ],
+      };
+      addDocument(document);
+      restored++;
+    }
+
+    return restored;
+  }, [addDocument]);
+
+  const enablePassphrase = useCallback(async (passphrase: string) => {
+    if (!user) return;
+
+    await encryptionService.enableCachePassphrase(user.id, passphrase);
+    await auditService.log({
+      userId: user.id,
+      action: 'cache.protect',
+      resourceType: 'cache',
+      resourceId: user.id,
+      details: {},
+    });
+    await refresh();
+  }, [user, refresh]);
+
+  // Resolves with the number of documents restored from the cache
+  const unlock = useCallback(async (passphrase: string): Promise<number> => {
+    if (!user) return 0;
+
+    try {
+      await encryptionService.unlockCache(user.id, passphrase);
+    } catch (error) {
+      if (error instanceof FOIError && error.code === 'CACHE_PASSPHRASE_INCORRECT') {
+        await auditService.log({
+          userId: user.id,
+          action: 'cache.unlock_failed',
+          resourceType: 'cache',
+          resourceId: user.id,
+          details: { failedAttempts: error.details?.failedAttempts },
+        });
+      } else if (error instanceof FOIError && error.code === 'CACHE_LOCKED_OUT' && error.details?.triggered) {
+        await auditService.log({
+          userId: user.id,
+          action: 'cache.lockout',
+          resourceType: 'cache',
+          resourceId: user.id,
+          details: {
+            failedAttempts: error.details.failedAttempts,
+            lockedUntil: new Date(error.details.lockedUntil).toISOString(),
+          },
+        });
+      }
+      await refresh();
+      throw error;
+    }
+
+    const restored = await restoreDocuments();
+    await auditService.log({
+      userId: user.id,
+      action: 'cache.unlock',
+      resourceType: 'cache',
+      resourceId: user.id,
+      details: { restoredDocuments: restored },
+    });
+    await refresh();
+    return restored;
+  }, [user, refresh, restoreDocuments]);
+
+  const disablePassphrase = useCallback(async () => {
+    if (!user) return;
+
+    await encryptionService.disableCachePassphrase(user.id);
+    await auditService.log({
+      userId: user.id,
+      action: 'cache.unprotect',
+      resourceType: 'cache',
+      resourceId: user.id,
+      details: {},
+    });
+    await refresh();
+  }, [user, refresh]);
+
+  return { status, enablePassphrase, unlock, disablePassphrase };
+}
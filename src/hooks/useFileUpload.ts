@@ -1,8 +1,9 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useAppStore } from '@/stores/app.store';
 import { apiService } from '@/services/api.service';
 import { encryptionService } from '@/services/encryption.service';
 import { auditService } from '@/services/audit.service';
+import { detectionService } from '@/services/detection.service';
 import { 
   isValidFileType, 
   isValidFileSize, 
@@ -10,7 +11,9 @@ import {
   getDocumentType,
   readFileAsArrayBuffer 
 } from '@/utils/file';
-import { Document, FOIError } from '@/types';
+import { canAccessMarking, getMarkingRank } from '@/utils/markings';
+import { CachedDocumentMetadata } from '@/hooks/useCachePassphrase';
+import { Document, FOIError, ProtectiveMarking } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 interface UploadState {
@@ -21,10 +24,16 @@ interface UploadState {
 
 interface UseFileUploadReturn {
   uploadState: UploadState;
-  uploadFile: (file: File) => Promise<Document | null>;
+  uploadFile: (file: File, marking?: ProtectiveMarking) => Promise<Document | null>;
+  cancelUpload: () => void;
   resetUpload: () => void;
 }
 
+// Maps a crypto task's progress (0 to 1) onto a slice of the upload bar
+function progressBetween(from: number, to: number, progress: number): number {
+  return Math.round(from + (to - from) * progress);
+}
+
 export function useFileUpload(): UseFileUploadReturn {
   const { user, addDocument, setError } = useAppStore();
   const [uploadState, setUploadState] = useState<UploadState>({
@@ -32,6 +41,7 @@ export function useFileUpload(): UseFileUploadReturn {
     progress: 0,
     error: null,
   });
+  const abortController = useRef<AbortController | null>(null);
 
   const resetUpload = useCallback(() => {
     setUploadState({
@@ -41,13 +51,23 @@ export function useFileUpload(): UseFileUploadReturn {
     });
   }, []);
 
-  const uploadFile = useCallback(async (file: File): Promise<Document | null> => {
+  // Hashing and encryption stop at their next chunk; the upload then resolves null
+  const cancelUpload = useCallback(() => {
+    abortController.current?.abort();
+  }, []);
+
+  const uploadFile = useCallback(async (file: File, marking?: ProtectiveMarking): Promise<Document | null> => {
     if (!user) {
       const error = 'User not authenticated';
       setUploadState(prev => ({ ...prev, error }));
       return null;
     }
 
+    const controller = new AbortController();
+    abortController.current = controller;
+    const trackProgress = (from: number, to: number) => (progress: number) =>
+      setUploadState(prev => ({ ...prev, progress: progressBetween(from, to, progress) }));
+
     try {
       setUploadState({
         isUploading: true,
@@ -88,7 +108,10 @@ export function useFileUpload(): UseFileUploadReturn {
       setUploadState(prev => ({ ...prev, progress: 20 }));
 
       // Generate document hash for integrity
-      const hash = await encryptionService.generateHash(fileBuffer);
+      const hash = await encryptionService.generateHash(fileBuffer, {
+        signal: controller.signal,
+        onProgress: trackProgress(20, 30),
+      });
       setUploadState(prev => ({ ...prev, progress: 30 }));
 
       // Create document object
@@ -101,6 +124,36 @@ export function useFileUpload(): UseFileUploadReturn {
         );
       }
 
+      // Every document must carry a protective marking. One written on the
+      // document is read from it; the uploader may raise it but not lower it.
+      const detectedMarking = await detectionService.detectMarking(fileBuffer, documentType);
+      const protectiveMarking = marking ?? detectedMarking;
+      if (!protectiveMarking) {
+        throw new FOIError(
+          'No protective marking was found on this document. Select one before uploading.',
+          'MARKING_REQUIRED',
+          400
+        );
+      }
+
+      if (detectedMarking && getMarkingRank(protectiveMarking) < getMarkingRank(detectedMarking)) {
+        throw new FOIError(
+          `This document is marked ${detectedMarking}. It cannot be uploaded with a lower marking.`,
+          'MARKING_BELOW_DETECTED',
+          400,
+          { detectedMarking, marking: protectiveMarking }
+        );
+      }
+
+      if (!canAccessMarking(user.clearance, protectiveMarking)) {
+        throw new FOIError(
+          `You cannot upload ${protectiveMarking} documents, which are above your clearance.`,
+          'MARKING_ABOVE_CLEARANCE',
+          403,
+          { marking: protectiveMarking }
+        );
+      }
+
       const document: Document = {
         id: uuidv4(),
         name: file.name,
@@ -108,6 +161,8 @@ export function useFileUpload(): UseFileUploadReturn {
         size: file.size,
         uploadedAt: new Date(),
         uploadedBy: user.id,
+        department: user.department,
+        protectiveMarking,
         currentVersion: 'original',
         hash,
         versions: [
@@ -126,14 +181,28 @@ export function useFileUpload(): UseFileUploadReturn {
 
       setUploadState(prev => ({ ...prev, progress: 50 }));
 
-      // Cache document locally (encrypted)
-      await encryptionService.cacheDocument(document.id, fileBuffer);
+      // Cache document locally (encrypted), with what is needed to restore it
+      const metadata: CachedDocumentMetadata = {
+        name: document.name,
+        type: document.type,
+        size: document.size,
+        uploadedAt: document.uploadedAt.toISOString(),
+        uploadedBy: document.uploadedBy,
+        department: document.department,
+        protectiveMarking,
+        hash,
+        versionId: document.versions[0].id,
+      };
+      await encryptionService.cacheDocument(document.id, fileBuffer, { ...metadata }, {
+        signal: controller.signal,
+        onProgress: trackProgress(50, 70),
+      });
       setUploadState(prev => ({ ...prev, progress: 70 }));
 
       // In a real implementation, this would upload to the server
       // For now, we'll simulate the API call
       try {
-        const uploadResponse = await apiService.uploadDocument(file);
+        const uploadResponse = await apiService.uploadDocument(file, protectiveMarking);
         console.log('[UPLOAD] Mock server response:', uploadResponse);
       } catch (apiError) {
         // Continue with local-only mode if API fails
@@ -156,6 +225,8 @@ export function useFileUpload(): UseFileUploadReturn {
           fileSize: file.size,
           fileType: file.type,
           hash,
+          protectiveMarking,
+          markingSource: marking ? 'selected' : 'detected',
         },
       });
 
@@ -168,6 +239,12 @@ export function useFileUpload(): UseFileUploadReturn {
       return document;
 
     } catch (error) {
+      // Nothing was stored or sent, so there is nothing to report
+      if (error instanceof FOIError && error.code === 'CRYPTO_CANCELLED') {
+        resetUpload();
+        return null;
+      }
+
       const errorMessage = error instanceof FOIError 
         ? error.message 
         : 'Upload failed. Please try again.';
@@ -195,12 +272,17 @@ export function useFileUpload(): UseFileUploadReturn {
       }
 
       return null;
+    } finally {
+      if (abortController.current === controller) {
+        abortController.current = null;
+      }
     }
-  }, [user, addDocument, setError]);
+  }, [user, addDocument, setError, resetUpload]);
 
   return {
     uploadState,
     uploadFile,
+    cancelUpload,
     resetUpload,
   };
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '@/stores/app.store';
+import { authService } from '@/services/auth.service';
+import { auditService } from '@/services/audit.service';
+import { sessionManager } from '@/services/session.service';
+import { getIdleSettings, getIdleState } from '@/utils/session';
+
+interface UseIdleLockReturn {
+  isLocked: boolean;
+  unlock: (password: string) => Promise<void>; // With the mock identity provider
+  beginUnlock: () => Promise<void>; // Through a real identity provider; the page redirects
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+const IDLE_CHECK_INTERVAL = 5000; // ms
+
+// Watches for user inactivity while signed in. Idle time is measured from
+// the last activity rather than by timers, so a sleeping laptop or a
+// throttled background tab is still locked or cleared on its return. The
+// lock itself is held by sessionManager, so it survives a reload and a
+// locked tab does not share its session with new tabs.
+export function useIdleLock(): UseIdleLockReturn {
+  const { user, panicClear } = useAppStore(state => ({
+    user: state.user,
+    panicClear: state.panicClear,
+  }));
+  const settings = useMemo(() => getIdleSettings(), []);
+  const [isLocked, setIsLocked] = useState(() => sessionManager.isLocked());
+  const lastActivity = useRef(Date.now());
+  const timingOut = useRef(false);
+
+  useEffect(() => sessionManager.onLockChange(setIsLocked), []);
+
+  useEffect(() => {
+    lastActivity.current = Date.now();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Activity behind the lock screen does not count towards unlocking
+    const onActivity = () => {
+      if (!isLocked) lastActivity.current = Date.now();
+    };
+
+    const lock = async () => {
+      sessionManager.lock();
+      await auditService.log({
+        userId: user.id,
+        action: 'session.lock',
+        resourceType: 'session',
+        resourceId: user.id,
+        details: { idleMinutes: settings.lockAfter / 60000 },
+      });
+    };
+
+    const timeout = async () => {
+      if (timingOut.current) return;
+      timingOut.current = true;
+      try {
+        await auditService.log({
+          userId: user.id,
+          action: 'session.timeout',
+          resourceType: 'session',
+          resourceId: user.id,
+          details: { idleMinutes: settings.timeoutAfter / 60000 },
+        });
+        // Other tabs may still be in use, so only this one is cleared
+        await panicClear({ localOnly: true });
+      } finally {
+        timingOut.current = false;
+      }
+    };
+
+    const check = () => {
+      const state = getIdleState(Date.now() - lastActivity.current, settings);
+      if (state === 'timedOut') {
+        timeout().catch(error => console.error('[SESSION] Idle timeout failed:', error));
+      } else if (state === 'locked' && !isLocked) {
+        lock().catch(error => console.warn('[SESSION] Failed to audit session lock:', error));
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, IDLE_CHECK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [user, isLocked, settings, panicClear]);
+
+  // Signing in again as the same user lifts the lock
+  const unlock = useCallback(async (password: string) => {
+    if (!user) return;
+
+    await authService.reauthenticate(user, password);
+    lastActivity.current = Date.now();
+  }, [user]);
+
+  const beginUnlock = useCallback(async () => {
+    if (user) await authService.beginReauthentication(user);
+  }, [user]);
+
+  return { isLocked, unlock, beginUnlock };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '@/stores/app.store';
+import { panicService } from '@/services/panic.service';
+
+interface UsePanicClearSyncReturn {
+  clearedAt: Date | null; // When another tab's panic clear last reached this one
+  dismiss: () => void;
+}
+
+// Clears this tab whenever a panic clear is started in another tab
+export function usePanicClearSync(): UsePanicClearSyncReturn {
+  const panicClear = useAppStore(state => state.panicClear);
+  const [clearedAt, setClearedAt] = useState<Date | null>(null);
+
+  useEffect(() => panicService.onRemotePanic(panicId => {
+    panicClear({ remotePanicId: panicId })
+      .then(() => setClearedAt(new Date()))
+      .catch(error => console.error('[PANIC] Panic clear from another tab failed:', error));
+  }), [panicClear]);
+
+  const dismiss = useCallback(() => setClearedAt(null), []);
+
+  return { clearedAt, dismiss };
+}
@@ -1,37 +1,99 @@
 import { useMemo } from 'react';
 import { useAuth } from '@/stores/app.store';
+import { useBreakGlass } from '@/hooks/useBreakGlass';
+import { Document, DocumentVersion, ProtectiveMarking, Redaction } from '@/types';
+import { AccessContext, AccessDecision, ResourceAttributes } from '@/utils/policy';
 import { 
   hasPermission, 
+  explainPermission,
+  canViewDocument,
+  getDocumentAttributes,
   canUploadDocuments, 
-  canCreateRedactions, 
-  canEditRedactions, 
   canApproveRedactions, 
-  canApproveVersions 
+  canApproveVersions,
+  canViewAuditLog,
+  canManageUsers,
+  canAcknowledgeBreakGlass,
+  canRequestBreakGlass,
+  canOverrideSeparationOfDuties,
+  checkRedactionApproval,
+  checkVersionFinalization,
+  checkMarkingChange,
+  MarkingChangeCheck,
+  SeparationOfDutiesCheck,
 } from '@/utils/permissions';
+import { canAccessMarking } from '@/utils/markings';
+
+const NOT_SIGNED_IN: SeparationOfDutiesCheck = {
+  allowed: false,
+  reason: 'You must be signed in',
+  canOverride: false,
+};
+
+const NOT_SIGNED_IN_DECISION: AccessDecision = { allowed: false, reason: 'You must be signed in' };
+
+const NOT_SIGNED_IN_MARKING: MarkingChangeCheck = {
+  allowed: false,
+  reason: 'You must be signed in',
+  downgrade: false,
+};
 
 export function usePermissions() {
   const { user } = useAuth();
+  const { grant } = useBreakGlass();
 
   return useMemo(() => {
     if (!user) {
       return {
         hasPermission: () => false,
+        explainPermission: () => NOT_SIGNED_IN_DECISION,
+        canViewDocument: () => false,
+        explainDocumentAccess: () => NOT_SIGNED_IN_DECISION,
         canUpload: false,
         canCreateRedactions: false,
         canEditRedactions: false,
         canApproveRedactions: false,
         canApproveVersions: false,
+        canViewAuditLog: false,
+        canManageUsers: false,
+        canRequestBreakGlass: false,
+        canAcknowledgeBreakGlass: false,
+        isBreakGlassActive: false,
+        canOverrideSeparationOfDuties: false,
+        checkRedactionApproval: () => NOT_SIGNED_IN,
+        checkVersionFinalization: () => NOT_SIGNED_IN,
+        canAccessMarking: () => false,
+        checkMarkingChange: () => NOT_SIGNED_IN_MARKING,
       };
     }
 
+    // Break-glass access widens what the user may do while it lasts
+    const context: AccessContext | undefined = grant ? { breakGlass: grant.id } : undefined;
+
     return {
-      hasPermission: (resource: string, action: string) => 
-        hasPermission(user.role, resource, action),
+      hasPermission: (resource: string, action: string, attributes?: ResourceAttributes) => 
+        hasPermission(user, resource, action, attributes, context),
+      explainPermission: (resource: string, action: string, attributes?: ResourceAttributes) =>
+        explainPermission(user, resource, action, attributes, context),
+      canViewDocument: (document: Document) => canViewDocument(user, document, context),
+      explainDocumentAccess: (document: Document) =>
+        explainPermission(user, 'document', 'view', getDocumentAttributes(document), context),
       canUpload: canUploadDocuments(user.role),
-      canCreateRedactions: canCreateRedactions(user.role),
-      canEditRedactions: canEditRedactions(user.role),
+      canCreateRedactions: hasPermission(user, 'redaction', 'create', undefined, context),
+      canEditRedactions: hasPermission(user, 'redaction', 'edit', undefined, context),
       canApproveRedactions: canApproveRedactions(user.role),
       canApproveVersions: canApproveVersions(user.role),
+      canViewAuditLog: canViewAuditLog(user.role),
+      canManageUsers: canManageUsers(user.role),
+      canRequestBreakGlass: canRequestBreakGlass(user.role),
+      canAcknowledgeBreakGlass: canAcknowledgeBreakGlass(user.role),
+      isBreakGlassActive: grant !== null,
+      canOverrideSeparationOfDuties: canOverrideSeparationOfDuties(user.role),
+      checkRedactionApproval: (redaction: Redaction) => checkRedactionApproval(user, redaction),
+      checkVersionFinalization: (version: DocumentVersion) => checkVersionFinalization(user, version),
+      canAccessMarking: (marking: ProtectiveMarking) => canAccessMarking(user.clearance, marking),
+      checkMarkingChange: (document: Document, marking: ProtectiveMarking) =>
+        checkMarkingChange(user, document, marking, context),
     };
-  }, [user]);
-}
\ No newline at end of file
+  }, [user, grant]);
+}
@@ -0,0 +1,390 @@
+import { useCallback, useMemo } from 'react';
+import { useAppStore, useAuth, useDocuments } from '@/stores/app.store';
+import { apiService } from '@/services/api.service';
+import { auditService } from '@/services/audit.service';
+import { checkRedactionApproval } from '@/utils/permissions';
+import { Redaction, RedactionCoordinates, RedactionType, TextSpan, FOIError } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface CreateRedactionInput {
+  type: RedactionType;
+  coordinates: RedactionCoordinates;
+  textSpan?: TextSpan;
+  reasonCode: string;
+  customReason?: string;
+}
+
+interface ApprovalOptions {
+  // Break-glass override of separation of duties; requires a comment
+  override?: boolean;
+}
+
+interface UseRedactionsReturn {
+  redactions: Redaction[];
+  hasWorkingVersion: boolean;
+  createRedaction: (input: CreateRedactionInput, id?: string) => Promise<Redaction | null>;
+  updateRedaction: (redactionId: string, updates: Partial<Pick<Redaction, 'coordinates' | 'reasonCode' | 'customReason'>>) => Promise<void>;
+  deleteRedaction: (redactionId: string) => Promise<void>;
+  replaceSuggestions: (suggestions: Redaction[]) => Promise<void>;
+  acceptSuggestions: (redactionIds: string[]) => Promise<void>;
+  dismissSuggestions: (redactionIds: string[]) => Promise<void>;
+  approveRedactions: (redactionIds: string[], comment?: string, options?: ApprovalOptions) => Promise<void>;
+  rejectRedactions: (redactionIds: string[], comment: string) => Promise<void>;
+}
+
+export function useRedactions(): UseRedactionsReturn {
+  const { user } = useAuth();
+  const {
+    currentDocument,
+    addRedaction,
+    updateRedaction: updateStoredRedaction,
+    removeRedaction,
+  } = useDocuments();
+
+  const workingVersion = useMemo(
+    () => currentDocument?.versions.find(v => v.type === 'working') || null,
+    [currentDocument]
+  );
+
+  // Push the full redaction set for the working version to the server
+  const persist = useCallback(async (documentId: string) => {
+    const document = useAppStore.getState().documents.find(d => d.id === documentId)
+      || useAppStore.getState().currentDocument;
+    const redactions = document?.versions.find(v => v.type === 'working')?.redactions || [];
+
+    try {
+      await apiService.saveRedactions(documentId, redactions);
+    } catch (apiError) {
+      // Continue with local-only mode if API fails
+      console.warn('[REDACTION] Failed to save redactions, continuing in local mode:', apiError);
+    }
+  }, []);
+
+  const createRedaction = useCallback(async (
+    input: CreateRedactionInput,
+    id: string = uuidv4()
+  ): Promise<Redaction | null> => {
+    if (!user || !currentDocument || !workingVersion) return null;
+
+    const redaction: Redaction = {
+      id,
+      type: input.type,
+      coordinates: input.coordinates,
+      textSpan: input.textSpan,
+      reasonCode: input.reasonCode,
+      customReason: input.customReason,
+      createdAt: new Date(),
+      createdBy: user.id,
+      createdByName: user.name,
+      status: 'pending',
+    };
+
+    addRedaction(currentDocument.id, redaction);
+    await persist(currentDocument.id);
+
+    await auditService.log({
+      userId: user.id,
+      action: 'redaction.create',
+      resourceType: 'redaction',
+      resourceId: redaction.id,
+      details: {
+        documentId: currentDocument.id,
+        versionId: workingVersion.id,
+        type: redaction.type,
+        reasonCode: redaction.reasonCode,
+        coordinates: redaction.coordinates,
+        textSpan: redaction.textSpan,
+      },
+    });
+
+    return redaction;
+  }, [user, currentDocument, workingVersion, addRedaction, persist]);
+
+  const updateRedaction = useCallback(async (
+    redactionId: string,
+    updates: Partial<Pick<Redaction, 'coordinates' | 'reasonCode' | 'customReason'>>
+  ) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const existing = workingVersion.redactions.find(r => r.id === redactionId);
+    if (!existing) return;
+
+    // Any edit sends the redaction back for review; suggestions stay unreviewed
+    updateStoredRedaction(currentDocument.id, redactionId, {
+      ...updates,
+      status: existing.status === 'suggested' ? 'suggested' : 'pending',
+      approvedAt: undefined,
+      approvedBy: undefined,
+      rejectedAt: undefined,
+      rejectedBy: undefined,
+      reviewComment: undefined,
+    });
+    await persist(currentDocument.id);
+
+    await auditService.log({
+      userId: user.id,
+      action: 'redaction.edit',
+      resourceType: 'redaction',
+      resourceId: redactionId,
+      details: {
+        documentId: currentDocument.id,
+        versionId: workingVersion.id,
+        change: 'update',
+        previous: {
+          coordinates: existing.coordinates,
+          reasonCode: existing.reasonCode,
+          customReason: existing.customReason,
+        },
+        updates,
+      },
+    });
+  }, [user, currentDocument, workingVersion, updateStoredRedaction, persist]);
+
+  const deleteRedaction = useCallback(async (redactionId: string) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const existing = workingVersion.redactions.find(r => r.id === redactionId);
+    if (!existing) return;
+
+    removeRedaction(currentDocument.id, redactionId);
+    await persist(currentDocument.id);
+
+    await auditService.log({
+      userId: user.id,
+      action: 'redaction.edit',
+      resourceType: 'redaction',
+      resourceId: redactionId,
+      details: {
+        documentId: currentDocument.id,
+        versionId: workingVersion.id,
+        change: 'delete',
+        previous: {
+          type: existing.type,
+          coordinates: existing.coordinates,
+          reasonCode: existing.reasonCode,
+          textSpan: existing.textSpan,
+          status: existing.status,
+        },
+      },
+    });
+  }, [user, currentDocument, workingVersion, removeRedaction, persist]);
+
+  // A fresh scan replaces any suggestions that have not been reviewed yet
+  const replaceSuggestions = useCallback(async (suggestions: Redaction[]) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    workingVersion.redactions
+      .filter(r => r.status === 'suggested')
+      .forEach(r => removeRedaction(currentDocument.id, r.id));
+    suggestions.forEach(r => addRedaction(currentDocument.id, r));
+    await persist(currentDocument.id);
+
+    // Record what was found, never the matched values themselves
+    const countsByType = suggestions.reduce<Record<string, number>>((counts, r) => {
+      const key = r.detectedType || 'unknown';
+      counts[key] = (counts[key] || 0) + 1;
+      return counts;
+    }, {});
+
+    await auditService.log({
+      userId: user.id,
+      action: 'redaction.suggest',
+      resourceType: 'document',
+      resourceId: currentDocument.id,
+      details: {
+        versionId: workingVersion.id,
+        suggestionCount: suggestions.length,
+        countsByType,
+      },
+    });
+  }, [user, currentDocument, workingVersion, addRedaction, removeRedaction, persist]);
+
+  const acceptSuggestions = useCallback(async (redactionIds: string[]) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const accepted = workingVersion.redactions.filter(
+      r => r.status === 'suggested' && redactionIds.includes(r.id)
+    );
+    if (accepted.length === 0) return;
+
+    accepted.forEach(r => updateStoredRedaction(currentDocument.id, r.id, {
+      status: 'pending',
+      createdBy: user.id,
+      createdByName: user.name,
+      createdAt: new Date(),
+    }));
+    await persist(currentDocument.id);
+
+    for (const redaction of accepted) {
+      await auditService.log({
+        userId: user.id,
+        action: 'redaction.create',
+        resourceType: 'redaction',
+        resourceId: redaction.id,
+        details: {
+          documentId: currentDocument.id,
+          versionId: workingVersion.id,
+          source: 'suggestion',
+          type: redaction.type,
+          reasonCode: redaction.reasonCode,
+          coordinates: redaction.coordinates,
+          detectedType: redaction.detectedType,
+          confidence: redaction.confidence,
+        },
+      });
+    }
+  }, [user, currentDocument, workingVersion, updateStoredRedaction, persist]);
+
+  const dismissSuggestions = useCallback(async (redactionIds: string[]) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const dismissed = workingVersion.redactions.filter(
+      r => r.status === 'suggested' && redactionIds.includes(r.id)
+    );
+    if (dismissed.length === 0) return;
+
+    dismissed.forEach(r => removeRedaction(currentDocument.id, r.id));
+    await persist(currentDocument.id);
+
+    for (const redaction of dismissed) {
+      await auditService.log({
+        userId: user.id,
+        action: 'redaction.edit',
+        resourceType: 'redaction',
+        resourceId: redaction.id,
+        details: {
+          documentId: currentDocument.id,
+          versionId: workingVersion.id,
+          change: 'dismiss',
+          detectedType: redaction.detectedType,
+          confidence: redaction.confidence,
+        },
+      });
+    }
+  }, [user, currentDocument, workingVersion, removeRedaction, persist]);
+
+  const approveRedactions = useCallback(async (
+    redactionIds: string[],
+    comment?: string,
+    options: ApprovalOptions = {}
+  ) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const approved = workingVersion.redactions.filter(
+      r => r.status === 'pending' && redactionIds.includes(r.id)
+    );
+    if (approved.length === 0) return;
+
+    const reviewComment = comment?.trim() || undefined;
+
+    // Four-eyes: nobody approves their own redactions unless break-glass applies
+    const conflicts = approved.filter(r => !checkRedactionApproval(user, r).allowed);
+    const override = conflicts.length > 0 && options.override === true;
+    if (conflicts.length > 0) {
+      const check = checkRedactionApproval(user, conflicts[0]);
+      if (!override || !check.canOverride) {
+        throw new FOIError(
+          check.reason || 'Separation of duties prevents this approval',
+          'SEPARATION_OF_DUTIES',
+          403,
+          { redactionIds: conflicts.map(r => r.id) }
+        );
+      }
+      if (!reviewComment) {
+        throw new FOIError(
+          'A justification is required to override separation of duties',
+          'SEPARATION_OF_DUTIES_JUSTIFICATION_REQUIRED',
+          400
+        );
+      }
+    }
+    approved.forEach(r => updateStoredRedaction(currentDocument.id, r.id, {
+      status: 'approved',
+      approvedAt: new Date(),
+      approvedBy: user.id,
+      rejectedAt: undefined,
+      rejectedBy: undefined,
+      reviewComment,
+    }));
+
+    try {
+      await apiService.approveRedactions(currentDocument.id, approved.map(r => r.id), reviewComment);
+    } catch (apiError) {
+      // Continue with local-only mode if API fails
+      console.warn('[REDACTION] Failed to record approval, continuing in local mode:', apiError);
+    }
+
+    for (const redaction of approved) {
+      await auditService.log({
+        userId: user.id,
+        action: 'redaction.approve',
+        resourceType: 'redaction',
+        resourceId: redaction.id,
+        details: {
+          documentId: currentDocument.id,
+          versionId: workingVersion.id,
+          createdBy: redaction.createdBy,
+          reasonCode: redaction.reasonCode,
+          comment: reviewComment,
+          separationOfDutiesOverride: override && conflicts.includes(redaction),
+        },
+      });
+    }
+  }, [user, currentDocument, workingVersion, updateStoredRedaction]);
+
+  // Rejected redactions stay on the version, visible, so the decision is kept
+  const rejectRedactions = useCallback(async (redactionIds: string[], comment: string) => {
+    if (!user || !currentDocument || !workingVersion) return;
+
+    const rejected = workingVersion.redactions.filter(
+      r => r.status === 'pending' && redactionIds.includes(r.id)
+    );
+    if (rejected.length === 0) return;
+
+    const reviewComment = comment.trim();
+    rejected.forEach(r => updateStoredRedaction(currentDocument.id, r.id, {
+      status: 'rejected',
+      rejectedAt: new Date(),
+      rejectedBy: user.id,
+      approvedAt: undefined,
+      approvedBy: undefined,
+      reviewComment,
+    }));
+
+    try {
+      await apiService.rejectRedactions(currentDocument.id, rejected.map(r => r.id), reviewComment);
+    } catch (apiError) {
+      // Continue with local-only mode if API fails
+      console.warn('[REDACTION] Failed to record rejection, continuing in local mode:', apiError);
+    }
+
+    for (const redaction of rejected) {
+      await auditService.log({
+        userId: user.id,
+        action: 'redaction.reject',
+        resourceType: 'redaction',
+        resourceId: redaction.id,
+        details: {
+          documentId: currentDocument.id,
+          versionId: workingVersion.id,
+          createdBy: redaction.createdBy,
+          reasonCode: redaction.reasonCode,
+          comment: reviewComment,
+        },
+      });
+    }
+  }, [user, currentDocument, workingVersion, updateStoredRedaction]);
+
+  return {
+    redactions: workingVersion?.redactions || [],
+    hasWorkingVersion: workingVersion !== null,
+    createRedaction,
+    updateRedaction,
+    deleteRedaction,
+    replaceSuggestions,
+    acceptSuggestions,
+    dismissSuggestions,
+    approveRedactions,
+    rejectRedactions,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '@/stores/app.store';
+import { sessionManager } from '@/services/session.service';
+
+interface UseSessionSyncReturn {
+  isRestoring: boolean; // Still asking other tabs for their session
+}
+
+// Keeps this tab signed in and out with the others. A new tab picks up the
+// session from any open, unlocked one, and a token refresh in any tab
+// updates the user's role, department and clearance here. Signing out
+// elsewhere reloads this tab at the login page, which drops its documents
+// just as a local sign-out does.
+export function useSessionSync(): UseSessionSyncReturn {
+  const setUser = useAppStore(state => state.setUser);
+  const [isRestoring, setIsRestoring] = useState(() => sessionManager.getSession() === null);
+
+  useEffect(() => {
+    const unsubscribe = sessionManager.onChange(session => {
+      if (session) {
+        setUser(session.user);
+      } else if (useAppStore.getState().user) {
+        setUser(null);
+        window.location.href = '/login';
+      }
+    });
+
+    sessionManager.restore()
+      .then(session => {
+        if (session) setUser(session.user);
+      })
+      .finally(() => setIsRestoring(false));
+
+    return unsubscribe;
+  }, [setUser]);
+
+  return { isRestoring };
+}
@@ -0,0 +1,22 @@
+// React import not needed with new JSX transform
+import { Header } from '@/components/layout/Header';
+import { AuditLogViewer } from '@/components/audit/AuditLogViewer';
+import { BreakGlassReviewPanel } from '@/components/audit/BreakGlassReviewPanel';
+
+export function AuditLogPage() {
+  return (
+    <div className="audit-page">
+      <Header currentPage="Audit Log" />
+
+      <main
+        id="main-content"
+        className="audit-page__content"
+        role="main"
+        aria-label="Audit log"
+      >
+        <BreakGlassReviewPanel />
+        <AuditLogViewer />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/stores/app.store';
+import { authService } from '@/services/auth.service';
+
+// Where the identity provider redirects back to after sign-in
+export function AuthCallbackPage() {
+  const { setUser } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // The authorization code is single use, so never exchange it twice
+    // (StrictMode runs effects twice in development)
+    if (handled.current) return;
+    handled.current = true;
+
+    authService.completeLogin(window.location.href)
+      .then(user => {
+        setUser(user);
+        navigate('/', { replace: true });
+      })
+      .catch(err => {
+        console.error('[AUTH] Sign-in callback failed:', err);
+        setError('Sign-in could not be completed. Please try again.');
+      });
+  }, []);
+
+  return (
+    <div className="login-page">
+      <div className="login-container">
+        <div className="login-card">
+          {error ? (
+            <>
+              <div className="form-error" role="alert">{error}</div>
+              <Link to="/login" className="btn btn--primary btn--full-width">Back to Sign In</Link>
+            </>
+          ) : (
+            <p role="status">Completing sign-in...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
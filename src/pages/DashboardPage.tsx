@@ -2,6 +2,7 @@
 import { Header } from '@/components/layout/Header';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { DocumentViewer } from '@/components/document/DocumentViewer';
+import { CacheUnlockPrompt } from '@/components/auth/CacheUnlockPrompt';
 import { useUI } from '@/stores/app.store';
 
 export function DashboardPage() {
@@ -21,6 +22,7 @@ export function DashboardPage() {
           aria-label="Document viewer and redaction workspace"
         >
           <div className="main-content-inner">
+            <CacheUnlockPrompt />
             <DocumentViewer />
           </div>
         </main>
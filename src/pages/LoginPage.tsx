@@ -1,10 +1,11 @@
 // React import not needed with new JSX transform
-import { Navigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/stores/app.store';
 import { LoginForm } from '@/components/auth/LoginForm';
 
 export function LoginPage() {
   const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
 
   // Redirect if already authenticated
   if (isAuthenticated) {
@@ -15,7 +16,8 @@ export function LoginPage() {
     <div className="login-page">
       <div className="login-container">
         <div className="login-card">
-          <LoginForm onSuccess={() => window.location.href = '/'} />
+          {/* Navigate in-app: a full reload would drop the signed-in user */}
+          <LoginForm onSuccess={() => navigate('/', { replace: true })} />
         </div>
       </div>
       
@@ -0,0 +1,20 @@
+// React import not needed with new JSX transform
+import { Header } from '@/components/layout/Header';
+import { UserManagement } from '@/components/admin/UserManagement';
+
+export function UserAdminPage() {
+  return (
+    <div className="audit-page">
+      <Header currentPage="Users" />
+
+      <main
+        id="main-content"
+        className="audit-page__content"
+        role="main"
+        aria-label="User administration"
+      >
+        <UserManagement />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { auditService } from '../audit.service';
+import { AuditEvent } from '@/types';
+import { breakGlassService } from '../breakGlass.service';
+
+// crypto.subtle is stubbed in the test setup, so hash with Node's crypto
+vi.mock('../encryption.service', () => ({
+  encryptionService: {
+    generateHash: vi.fn(async (data: ArrayBuffer) =>
+      createHash('sha256').update(new Uint8Array(data)).digest('base64')
+    ),
+  },
+}));
+
+async function logEvents(count: number) {
+  for (let i = 0; i < count; i++) {
+    await auditService.log({
+      userId: '2',
+      action: 'redaction.create',
+      resourceType: 'redaction',
+      resourceId: `r${i}`,
+      details: { reasonCode: 'FOI s 47F', index: i },
+    });
+  }
+}
+
+// The mock endpoint fails at random, so tests decide delivery themselves
+const sendToMockEndpoint = (auditService as any).sendToAuditEndpoint.bind(auditService);
+const sendSpy = vi.spyOn(auditService as any, 'sendToAuditEndpoint');
+
+describe('AuditService', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    sendSpy.mockReset().mockResolvedValue(undefined);
+    await auditService.clear();
+  });
+
+  it('should link each event to the one before it', async () => {
+    await logEvents(3);
+
+    const chain = await auditService.getChain();
+
+    expect(chain.map(e => e.sequence)).toEqual([1, 2, 3]);
+    expect(chain[0].previousHash).toBe('GENESIS');
+    expect(chain[1].previousHash).toBe(chain[0].hash);
+    expect(chain[2].previousHash).toBe(chain[1].hash);
+  });
+
+  it('should verify an untouched chain', async () => {
+    await logEvents(3);
+
+    await expect(auditService.verifyChain()).resolves.toEqual({ valid: true, checkedCount: 3 });
+  });
+
+  it('should report the event that was modified', async () => {
+    await logEvents(3);
+    const chain = await auditService.getChain();
+    chain[1].details = { ...chain[1].details, reasonCode: 'FOI s 22' };
+
+    const result = await auditService.verifyChain(chain);
+
+    expect(result.valid).toBe(false);
+    expect(result.checkedCount).toBe(1);
+    expect(result.failure).toMatchObject({ sequence: 2, eventId: chain[1].id, reason: 'hash_mismatch' });
+  });
+
+  it('should report a removed event as a gap', async () => {
+    await logEvents(3);
+    const chain = await auditService.getChain();
+
+    const result = await auditService.verifyChain([chain[0], chain[2]]);
+
+    expect(result.failure).toMatchObject({ sequence: 3, reason: 'sequence_gap' });
+  });
+
+  it('should export the hashes with each event', async () => {
+    await logEvents(1);
+    const [event] = await auditService.getChain();
+
+    const csv = await auditService.exportAuditLog(new Date(0), new Date(Date.now() + 1000));
+    const [header, row] = csv.split('\n');
+
+    expect(header).toContain('"Previous Hash","Hash"');
+    expect(row).toContain(`"GENESIS","${event.hash}"`);
+    expect(row).toContain('"{""index"":0,""reasonCode"":""FOI s 47F""}"');
+  });
+
+  it('should export events as JSON', async () => {
+    await logEvents(2);
+
+    const json = await auditService.exportAuditLog(new Date(0), new Date(Date.now() + 1000), 'json');
+    const exported = JSON.parse(json);
+
+    expect(exported.map((e: { sequence: number }) => e.sequence)).toEqual([1, 2]);
+    expect(exported[1]).toMatchObject({ action: 'redaction.create', previousHash: exported[0].hash });
+  });
+
+  it('should tag events recorded under break-glass access with the grant', async () => {
+    const grant = {
+      id: 'bg1',
+      userId: '2',
+      justification: 'Ministerial brief due today',
+      startedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+    };
+    const grantSpy = vi.spyOn(breakGlassService, 'getActiveGrant')
+      .mockImplementation(userId => (userId === '2' ? grant : null));
+
+    await logEvents(1);
+    await auditService.log({ userId: '3', action: 'document.view', resourceType: 'document', resourceId: 'd1', details: {} });
+    grantSpy.mockRestore();
+
+    const [tagged, untagged] = await auditService.getChain();
+    expect(tagged.details).toMatchObject({ reasonCode: 'FOI s 47F', breakGlassId: 'bg1' });
+    expect(untagged.details).not.toHaveProperty('breakGlassId');
+  });
+
+  describe('delivery outbox', () => {
+    it('should remove an event from the outbox once delivered', async () => {
+      await logEvents(1);
+
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(auditService.getDeliveryStatus()).toEqual({ pending: 0, failing: 0, lastError: undefined });
+    });
+
+    it('should keep failed events queued with the error', async () => {
+      sendSpy.mockRejectedValue(new Error('Endpoint unavailable'));
+
+      await logEvents(2);
+
+      expect(auditService.getDeliveryStatus()).toEqual({
+        pending: 2,
+        failing: 2,
+        lastError: 'Endpoint unavailable',
+      });
+    });
+
+    it('should resend queued events with the same ID on flush', async () => {
+      sendSpy.mockRejectedValueOnce(new Error('Endpoint unavailable'));
+      await logEvents(1);
+      const [event] = await auditService.getChain();
+
+      const remaining = await auditService.flush();
+
+      expect(remaining).toBe(0);
+      expect(sendSpy).toHaveBeenCalledTimes(2);
+      expect(sendSpy).toHaveBeenLastCalledWith(expect.objectContaining({ id: event.id, hash: event.hash }));
+      expect(auditService.getDeliveryStatus().pending).toBe(0);
+    });
+
+    it('should store an event only once when a delivery is retried', async () => {
+      // Stored but the response is lost, then retried successfully. Retry
+      // backoff draws on Math.random too, so later draws all succeed.
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0.5).mockReturnValueOnce(0.92);
+      sendSpy.mockImplementation(sendToMockEndpoint);
+      await logEvents(1);
+      const [event] = await auditService.getChain();
+      expect(auditService.getDeliveryStatus().pending).toBe(1);
+
+      await expect(auditService.flush()).resolves.toBe(0);
+      random.mockRestore();
+
+      const stored = (auditService as any).endpointEvents.filter((e: AuditEvent) => e.id === event.id);
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should report what is still undelivered after a flush', async () => {
+      sendSpy.mockRejectedValue(new Error('Endpoint unavailable'));
+      await logEvents(2);
+
+      await expect(auditService.flush()).resolves.toBe(2);
+    });
+
+    it('should notify subscribers when delivery fails', async () => {
+      const listener = vi.fn();
+      const unsubscribe = auditService.subscribe(listener);
+      sendSpy.mockRejectedValue(new Error('Endpoint unavailable'));
+
+      await logEvents(1);
+      unsubscribe();
+
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ pending: 1, failing: 1 }));
+    });
+  });
+});
@@ -1,14 +1,24 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { authService } from '../auth.service';
 import { auditService } from '../audit.service';
+import { samlService } from '../saml.service';
+import { sessionManager } from '../session.service';
+import { breakGlassService } from '../breakGlass.service';
+import { oidcClient } from '../oidc.service';
+import { mockIdentityProvider } from '../mockIdp.service';
+import { FOIError } from '@/types';
+import { routeSubtleCryptoToNode } from '@/test/webcrypto';
 
 // Mock audit service
 vi.mock('../audit.service', () => ({
   auditService: {
     log: vi.fn(),
+    flush: vi.fn(),
   },
 }));
 
+routeSubtleCryptoToNode();
+
 describe('AuthService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -47,6 +57,13 @@ describe('AuthService', () => {
       expect(authService.getCurrentUser()).toBeNull();
     });
 
+    it('should fail login with the wrong password', async () => {
+      await expect(authService.login('viewer@foi.gov.au', 'wrong-password'))
+        .rejects.toThrow('Authentication failed');
+
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+
     it('should login redactor user', async () => {
       const user = await authService.login('redactor@foi.gov.au', 'password');
       
@@ -117,6 +134,105 @@ describe('AuthService', () => {
     });
   });
 
+  describe('unlocking', () => {
+    const unlockEvent = expect.objectContaining({ userId: '2', action: 'session.unlock' });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should unlock with the mock provider\'s password', async () => {
+      const user = await authService.login('redactor@foi.gov.au', 'password');
+      sessionManager.lock();
+
+      await expect(authService.reauthenticate(user, 'wrong-password')).rejects.toMatchObject({ code: 'AUTH_FAILED' });
+      expect(sessionManager.isLocked()).toBe(true);
+
+      await authService.reauthenticate(user, 'password');
+      expect(sessionManager.isLocked()).toBe(false);
+      expect(auditService.log).toHaveBeenCalledWith(unlockEvent);
+    });
+
+    it('should unlock through the identity provider only as the locked user', async () => {
+      const user = await authService.login('redactor@foi.gov.au', 'password');
+      sessionManager.lock();
+      vi.spyOn(authService, 'usesRedirectLogin').mockReturnValue(true);
+      const createUrl = vi.spyOn(oidcClient, 'createAuthorizationUrl');
+      vi.spyOn(console, 'error').mockImplementation(() => undefined); // jsdom does not navigate
+
+      await expect(authService.reauthenticate(user, 'password')).rejects.toMatchObject({
+        details: { originalError: expect.objectContaining({ code: 'AUTH_REDIRECT_REQUIRED' }) },
+      });
+
+      await authService.beginReauthentication(user);
+      const asOther = await createUrl.mock.results[0].value;
+      expect(new URL(asOther).searchParams.get('prompt')).toBe('login');
+      await expect(authService.completeLogin(
+        await mockIdentityProvider.authorize(asOther, 'approver@foi.gov.au', 'password')
+      )).rejects.toMatchObject({ details: { originalError: expect.objectContaining({ code: 'SESSION_USER_MISMATCH' }) } });
+      expect(sessionManager.isLocked()).toBe(true);
+      expect(authService.getCurrentUser()?.id).toBe('2');
+
+      await authService.beginReauthentication(user);
+      const asUser = await createUrl.mock.results[1].value;
+      await authService.completeLogin(await mockIdentityProvider.authorize(asUser, 'redactor@foi.gov.au', 'password'));
+      expect(sessionManager.isLocked()).toBe(false);
+      expect(auditService.log).toHaveBeenCalledWith(unlockEvent);
+    });
+  });
+
+  describe('break-glass access', () => {
+    it('should end the grant before recording why', async () => {
+      await authService.login('redactor@foi.gov.au', 'password');
+      const grant = await authService.startBreakGlass('Ministerial brief due today, officer on leave', 15);
+
+      const ending = authService.endBreakGlass('cleared');
+      expect(breakGlassService.getActiveGrant('2')).toBeNull();
+      await ending;
+
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'breakglass.end',
+        details: { breakGlassId: grant.id, reason: 'cleared' },
+      }));
+    });
+  });
+
+  describe('break-glass review', () => {
+    const review = {
+      grantId: 'bg1',
+      userId: '2',
+      justification: 'Ministerial brief due today',
+      startedAt: new Date(Date.now() - 30 * 60 * 1000),
+      endedAt: new Date(Date.now() - 15 * 60 * 1000),
+      endedEarly: false,
+      actions: [],
+    };
+
+    it('should record a supervisor\'s acknowledgement', async () => {
+      await authService.login('approver@foi.gov.au', 'password');
+
+      await authService.acknowledgeBreakGlass(review, '  Justified  ');
+
+      expect(auditService.log).toHaveBeenCalledWith({
+        userId: '3',
+        action: 'breakglass.acknowledge',
+        resourceType: 'breakglass',
+        resourceId: 'bg1',
+        details: { grantedTo: '2', actionCount: 0, comment: 'Justified' },
+      });
+    });
+
+    it('should refuse self-review and access that has not ended', async () => {
+      await authService.login('approver@foi.gov.au', 'password');
+
+      await expect(authService.acknowledgeBreakGlass({ ...review, userId: '3' }))
+        .rejects.toMatchObject({ code: 'BREAK_GLASS_SELF_REVIEW' });
+      await expect(authService.acknowledgeBreakGlass({ ...review, endedAt: new Date(Date.now() + 60000) }))
+        .rejects.toMatchObject({ code: 'BREAK_GLASS_NOT_REVIEWABLE' });
+      expect(auditService.log).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'breakglass.acknowledge' }));
+    });
+  });
+
   describe('permissions', () => {
     it('should check viewer permissions', async () => {
       await authService.login('viewer@foi.gov.au', 'password');
@@ -154,17 +270,50 @@ describe('AuthService', () => {
   });
 
   describe('SAML handling', () => {
-    it('should handle SAML response', async () => {
-      const mockSamlResponse = 'mock-saml-response';
-      const user = await authService.handleSAMLResponse(mockSamlResponse);
-      
-      expect(user).toEqual({
-        id: '2',
-        email: 'redactor@foi.gov.au',
-        name: 'John Redactor',
-        role: 'redactor',
-        department: 'Department of Home Affairs'
+    it('should start a session from a validated SAML response', async () => {
+      const samlUser = {
+        id: 'saml.redactor@foi.gov.au',
+        email: 'saml.redactor@foi.gov.au',
+        name: 'Sam Federated',
+        role: 'redactor' as const,
+        department: 'Department of the Prime Minister & Cabinet',
+      };
+      const sessionEnd = Date.now() + 60 * 60 * 1000;
+      const validate = vi.spyOn(samlService, 'validateResponse').mockResolvedValue({
+        user: samlUser,
+        assertion: {
+          id: '_assertion-1',
+          issuer: 'https://idp.example.gov.au/saml',
+          nameId: samlUser.id,
+          inResponseTo: '_req-1',
+          notOnOrAfter: Date.now(),
+          sessionNotOnOrAfter: sessionEnd,
+          attributes: {},
+        },
       });
+
+      const user = await authService.handleSAMLResponse('PHNhbWxwOlJlc3BvbnNlLz4=');
+
+      expect(validate).toHaveBeenCalledWith('PHNhbWxwOlJlc3BvbnNlLz4=');
+      expect(user).toEqual(samlUser);
+      expect(authService.isAuthenticated()).toBe(true);
+      expect(authService.getAccessToken()).toBeNull();
+      expect(authService.isTokenExpired()).toBe(false);
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        userId: samlUser.id,
+        action: 'auth.login',
+      }));
+      await expect(authService.refreshToken()).rejects.toMatchObject({ code: 'AUTH_NO_REFRESH_TOKEN' });
+    });
+
+    it('should not sign in when the SAML response is rejected', async () => {
+      vi.spyOn(samlService, 'validateResponse').mockRejectedValue(
+        new FOIError('SAML signature is invalid', 'SAML_INVALID_SIGNATURE', 401)
+      );
+
+      await expect(authService.handleSAMLResponse('mock-saml-response'))
+        .rejects.toMatchObject({ code: 'AUTH_FAILED' });
+      expect(authService.isAuthenticated()).toBe(false);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BreakGlassService } from '../breakGlass.service';
+import { User } from '@/types';
+
+const REDACTOR: User = {
+  id: '2',
+  email: 'redactor@agency.gov.au',
+  name: 'Test Redactor',
+  role: 'redactor',
+};
+
+const JUSTIFICATION = 'Ministerial brief due today, case officer on leave';
+
+describe('BreakGlassService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.mocked(sessionStorage.getItem).mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should grant access for the chosen window', () => {
+    const service = new BreakGlassService();
+
+    const grant = service.start(REDACTOR, `  ${JUSTIFICATION}  `, 15);
+
+    expect(grant.justification).toBe(JUSTIFICATION);
+    expect(grant.expiresAt.getTime() - grant.startedAt.getTime()).toBe(15 * 60 * 1000);
+    expect(service.getAccessContext('2')).toEqual({ breakGlass: grant.id });
+    expect(service.getAccessContext('3')).toEqual({});
+  });
+
+  it('should refuse a short justification, an unlisted duration and a second grant', () => {
+    const service = new BreakGlassService();
+
+    expect(() => service.start(REDACTOR, 'urgent', 15)).toThrow(
+      expect.objectContaining({ code: 'BREAK_GLASS_JUSTIFICATION_REQUIRED' })
+    );
+    expect(() => service.start(REDACTOR, JUSTIFICATION, 240)).toThrow(
+      expect.objectContaining({ code: 'BREAK_GLASS_INVALID_DURATION' })
+    );
+
+    service.start(REDACTOR, JUSTIFICATION, 15);
+    expect(() => service.start(REDACTOR, JUSTIFICATION, 15)).toThrow(
+      expect.objectContaining({ code: 'BREAK_GLASS_ACTIVE' })
+    );
+  });
+
+  it('should refuse roles that cannot use break-glass access', () => {
+    const service = new BreakGlassService();
+
+    expect(() => service.start({ ...REDACTOR, role: 'admin' }, JUSTIFICATION, 15)).toThrow(
+      expect.objectContaining({ code: 'BREAK_GLASS_NOT_PERMITTED' })
+    );
+  });
+
+  it('should end the grant when the window closes and tell listeners', () => {
+    const service = new BreakGlassService();
+    const listener = vi.fn();
+    service.onChange(listener);
+
+    service.start(REDACTOR, JUSTIFICATION, 15);
+    vi.advanceTimersByTime(15 * 60 * 1000);
+
+    expect(service.getActiveGrant('2')).toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(null);
+    expect(sessionStorage.removeItem).toHaveBeenCalledWith('foi_break_glass');
+  });
+
+  it('should restore an unexpired grant after a reload', () => {
+    const grant = new BreakGlassService().start(REDACTOR, JUSTIFICATION, 30);
+    vi.mocked(sessionStorage.getItem).mockReturnValue(JSON.stringify(grant));
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    const reloaded = new BreakGlassService();
+
+    expect(reloaded.getActiveGrant('2')).toEqual(grant);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CryptoWorkerRequest } from '@/utils/crypto';
+import { routeSubtleCryptoToNode } from '@/test/webcrypto';
+
+routeSubtleCryptoToNode();
+
+// Records what the client posts and lets tests answer for the worker
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  messages: CryptoWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: CryptoWorkerRequest) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(data: unknown) {
+    this.onmessage?.({ data });
+  }
+}
+
+describe('CryptoService', () => {
+  let cryptoService: typeof import('../crypto.service').cryptoService;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    ({ cryptoService } = await import('../crypto.service'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve with the worker result and forward progress', async () => {
+    const onProgress = vi.fn();
+    const promise = cryptoService.hash(new ArrayBuffer(4), { onProgress });
+    const worker = FakeWorker.instances[0];
+    const { id } = worker.messages[0];
+
+    worker.reply({ id, type: 'progress', progress: 1 });
+    worker.reply({ id, type: 'result', result: 'hash' });
+
+    await expect(promise).resolves.toBe('hash');
+    expect(onProgress).toHaveBeenCalledWith(1);
+  });
+
+  it('should reject with the error code from the worker', async () => {
+    const promise = cryptoService.hash(new ArrayBuffer(4));
+    const worker = FakeWorker.instances[0];
+
+    worker.reply({ id: worker.messages[0].id, type: 'error', code: 'CRYPTO_FAILED', message: 'boom' });
+
+    await expect(promise).rejects.toMatchObject({ code: 'CRYPTO_FAILED', message: 'boom' });
+  });
+
+  it('should cancel a task when its signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = cryptoService.hash(new ArrayBuffer(4), { signal: controller.signal });
+    const worker = FakeWorker.instances[0];
+
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: 'CRYPTO_CANCELLED' });
+    expect(worker.messages[1]).toEqual({ id: worker.messages[0].id, type: 'cancel' });
+  });
+
+  it('should reject pending tasks and start a new worker after terminate', async () => {
+    const promise = cryptoService.hash(new ArrayBuffer(4));
+
+    cryptoService.terminate();
+
+    await expect(promise).rejects.toMatchObject({ code: 'CRYPTO_TERMINATED' });
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    cryptoService.hash(new ArrayBuffer(4)).catch(() => undefined);
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('should run on the main thread when the worker cannot start', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const pending = cryptoService.hash(new TextEncoder().encode('abc').buffer as ArrayBuffer);
+    const worker = FakeWorker.instances[0];
+
+    worker.onerror?.({ message: 'Failed to load module script', preventDefault: () => undefined });
+
+    const expected = 'ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=';
+    await expect(pending).resolves.toBe(expected);
+    expect(worker.terminated).toBe(true);
+    await expect(cryptoService.hash(new TextEncoder().encode('abc').buffer as ArrayBuffer)).resolves.toBe(expected);
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encryptionService } from '../encryption.service';
+import { ENCRYPTION_ENVELOPE_VERSION } from '@/types';
+
+const subtle = vi.mocked(crypto.subtle);
+
+function ivOf(call: number): Uint8Array {
+  return (subtle.encrypt.mock.calls[call][0] as AesGcmParams).iv as Uint8Array;
+}
+
+describe('EncryptionService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    subtle.generateKey.mockResolvedValue({} as CryptoKeyPair);
+    subtle.encrypt.mockResolvedValue(new Uint8Array([1, 2, 3]).buffer);
+    subtle.decrypt.mockResolvedValue(new Uint8Array([9]).buffer);
+    await encryptionService.initializeSession();
+  });
+
+  describe('encryptData', () => {
+    it('should use a fresh IV for every encryption', async () => {
+      const first = await encryptionService.encryptData('same data');
+      const second = await encryptionService.encryptData('same data');
+
+      expect(ivOf(0)).toHaveLength(12);
+      expect(ivOf(0)).not.toEqual(ivOf(1));
+      expect(first.iv).not.toBe(second.iv);
+    });
+
+    it('should return a versioned envelope', async () => {
+      const envelope = await encryptionService.encryptData('data', 'doc-1');
+
+      expect(envelope).toEqual({
+        version: ENCRYPTION_ENVELOPE_VERSION,
+        algorithm: 'AES-GCM',
+        iv: btoa(String.fromCharCode(...ivOf(0))),
+        ciphertext: btoa(String.fromCharCode(1, 2, 3)),
+        aad: 'doc-1',
+      });
+      expect(subtle.encrypt.mock.calls[0][0]).toHaveProperty('additionalData', new TextEncoder().encode('doc-1'));
+    });
+  });
+
+  describe('decryptData', () => {
+    it('should decrypt with the IV stored in the envelope', async () => {
+      const envelope = await encryptionService.encryptData('data');
+
+      await encryptionService.decryptData(envelope);
+
+      const params = subtle.decrypt.mock.calls[0][0] as AesGcmParams;
+      expect(params.iv).toEqual(ivOf(0));
+      expect(params).not.toHaveProperty('additionalData');
+    });
+
+    it('should reject an unknown envelope version', async () => {
+      const envelope = await encryptionService.encryptData('data');
+
+      await expect(encryptionService.decryptData({ ...envelope, version: 99 }))
+        .rejects.toMatchObject({ code: 'ENCRYPTION_UNSUPPORTED_ENVELOPE' });
+      expect(subtle.decrypt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache', () => {
+    const CHUNK_SIZE = 1024 * 1024;
+
+    // Stand-in cipher: the ciphertext is the plaintext, so round trips can be
+    // checked while the calls themselves are inspected
+    const copy = async (_params: unknown, _key: unknown, data: BufferSource) =>
+      (ArrayBuffer.isView(data)
+        ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+        : new Uint8Array(data).slice()
+      ).buffer;
+
+    beforeEach(async () => {
+      subtle.encrypt.mockImplementation(copy);
+      subtle.decrypt.mockImplementation(copy);
+      for (const id of await encryptionService.getCachedDocumentIds()) {
+        await encryptionService.removeCachedDocument(id);
+      }
+    });
+
+    it('should encrypt large documents in chunks and reassemble them', async () => {
+      const original = new Uint8Array(CHUNK_SIZE * 2 + 10);
+      for (let i = 0; i < original.length; i++) original[i] = i % 251;
+
+      await encryptionService.cacheDocument('doc-1', original.buffer);
+      const cached = await encryptionService.getCachedDocument('doc-1');
+
+      expect(subtle.encrypt).toHaveBeenCalledTimes(3);
+      // Compared as buffers; element-wise matching is too slow at this size
+      expect(Buffer.from(cached!).equals(Buffer.from(original.buffer))).toBe(true);
+      expect(await encryptionService.getCachedDocumentIds()).toEqual(['doc-1']);
+    });
+
+    it('should bind each chunk to its document and position', async () => {
+      await encryptionService.cacheDocument('doc-1', new ArrayBuffer(CHUNK_SIZE + 1));
+
+      const aads = subtle.encrypt.mock.calls.map(([params]) =>
+        new TextDecoder().decode((params as AesGcmParams).additionalData as Uint8Array)
+      );
+      expect(aads).toEqual(['doc-1:0/2', 'doc-1:1/2']);
+      expect(ivOf(0)).not.toEqual(ivOf(1));
+    });
+
+    it('should drop a document that fails to decrypt', async () => {
+      await encryptionService.cacheDocument('doc-1', new ArrayBuffer(16));
+      subtle.decrypt.mockRejectedValue(new Error('OperationError'));
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(encryptionService.getCachedDocument('doc-1')).resolves.toBeNull();
+      expect(await encryptionService.getCachedDocumentIds()).toEqual([]);
+    });
+
+    it('should report the space used by cached documents', async () => {
+      await encryptionService.cacheDocument('doc-1', new ArrayBuffer(100));
+      await encryptionService.cacheDocument('doc-2', new ArrayBuffer(50));
+
+      await expect(encryptionService.getCacheUsage()).resolves.toMatchObject({
+        documentCount: 2,
+        cachedBytes: 150,
+      });
+    });
+
+    it('should clear cached documents on panic clear', async () => {
+      await encryptionService.cacheDocument('doc-1', new ArrayBuffer(100));
+
+      await encryptionService.panicClear();
+
+      expect(await encryptionService.getCachedDocumentIds()).toEqual([]);
+    });
+  });
+
+  describe('passphrase protection', () => {
+    const PASSPHRASE = 'correct horse battery';
+
+    // Stand-in key wrapping: a wrapped key only unwraps with the passphrase
+    // it was wrapped under
+    const keyOps = subtle as unknown as Record<string, ReturnType<typeof vi.fn>>;
+    keyOps.importKey = vi.fn(async (_format: string, raw: Uint8Array) => ({ passphrase: new TextDecoder().decode(raw) }));
+    keyOps.deriveKey = vi.fn(async (_params: unknown, material: { passphrase: string }) => material);
+    keyOps.wrapKey = vi.fn(async (_format: string, _key: unknown, wrapping: { passphrase: string }) =>
+      new TextEncoder().encode(wrapping.passphrase).buffer
+    );
+    keyOps.unwrapKey = vi.fn(async (_format: string, wrapped: Uint8Array, wrapping: { passphrase: string }) => {
+      if (new TextDecoder().decode(wrapped) !== wrapping.passphrase) {
+        throw new DOMException('Unwrap failed', 'OperationError');
+      }
+      return {};
+    });
+
+    const copy = async (_params: unknown, _key: unknown, data: BufferSource) =>
+      (ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data))
+        .slice().buffer;
+
+    beforeEach(async () => {
+      subtle.encrypt.mockImplementation(copy);
+      subtle.decrypt.mockImplementation(copy);
+      await encryptionService.panicClear();
+      await encryptionService.initializeSession();
+    });
+
+    it('should keep protected documents across a new session and restore them on unlock', async () => {
+      await encryptionService.cacheDocument('doc-1', 'draft', { name: 'brief.pdf' });
+      await encryptionService.enableCachePassphrase('2', PASSPHRASE);
+
+      // A reload starts a new session key
+      await encryptionService.initializeSession();
+      await expect(encryptionService.getCachedDocument('doc-1')).resolves.toBeNull();
+      await expect(encryptionService.getCacheLockStatus('2')).resolves.toMatchObject({ enabled: true, unlocked: false });
+
+      await encryptionService.unlockCache('2', PASSPHRASE);
+
+      const cached = await encryptionService.getCachedDocument('doc-1');
+      expect(new TextDecoder().decode(cached!)).toBe('draft');
+      await expect(encryptionService.getCachedDocumentMetadata('doc-1')).resolves.toEqual({ name: 'brief.pdf' });
+    });
+
+    it('should reject a short passphrase', async () => {
+      await expect(encryptionService.enableCachePassphrase('2', 'short'))
+        .rejects.toMatchObject({ code: 'CACHE_PASSPHRASE_TOO_SHORT' });
+    });
+
+    it('should count wrong passphrases and lock out after five', async () => {
+      await encryptionService.enableCachePassphrase('2', PASSPHRASE);
+      await encryptionService.initializeSession();
+
+      await expect(encryptionService.unlockCache('2', 'wrong passphrase'))
+        .rejects.toMatchObject({ code: 'CACHE_PASSPHRASE_INCORRECT', details: { attemptsRemaining: 4 } });
+      for (let i = 0; i < 3; i++) {
+        await expect(encryptionService.unlockCache('2', 'wrong passphrase')).rejects.toBeDefined();
+      }
+      await expect(encryptionService.unlockCache('2', 'wrong passphrase'))
+        .rejects.toMatchObject({ code: 'CACHE_LOCKED_OUT', details: { triggered: true } });
+
+      keyOps.unwrapKey.mockClear();
+      await expect(encryptionService.unlockCache('2', PASSPHRASE))
+        .rejects.toMatchObject({ code: 'CACHE_LOCKED_OUT' });
+      expect(keyOps.unwrapKey).not.toHaveBeenCalled();
+      expect((await encryptionService.getCacheLockStatus('2')).lockedUntil).toBeInstanceOf(Date);
+    });
+
+    it('should reset the attempt count after a correct passphrase', async () => {
+      await encryptionService.enableCachePassphrase('2', PASSPHRASE);
+      await encryptionService.initializeSession();
+      await expect(encryptionService.unlockCache('2', 'wrong passphrase')).rejects.toBeDefined();
+
+      await encryptionService.unlockCache('2', PASSPHRASE);
+
+      await expect(encryptionService.getCacheLockStatus('2'))
+        .resolves.toMatchObject({ unlocked: true, failedAttempts: 0 });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OidcClient, OidcTransport } from '../oidc.service';
+import { mockIdentityProvider } from '../mockIdp.service';
+import { decodeJwt, getOidcConfig, OidcTokenResponse } from '@/utils/oidc';
+import { routeSubtleCryptoToNode } from '@/test/webcrypto';
+
+routeSubtleCryptoToNode();
+
+const config = getOidcConfig({}, 'http://localhost:5173');
+
+// Lets a test rewrite token responses on their way from the provider
+function interceptTokens(rewrite: (response: OidcTokenResponse) => OidcTokenResponse): OidcTransport {
+  return {
+    getJson: url => mockIdentityProvider.getJson(url),
+    postForm: async <T,>(url: string, params: Record<string, string>) =>
+      rewrite(await mockIdentityProvider.postForm<OidcTokenResponse>(url, params)) as T,
+  };
+}
+
+async function signIn(client: OidcClient, email = 'redactor@foi.gov.au') {
+  const authorizationUrl = await client.createAuthorizationUrl();
+  return mockIdentityProvider.authorize(authorizationUrl, email, 'password');
+}
+
+describe('OidcClient', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('should send an S256 PKCE challenge, state and nonce', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+
+    const params = new URL(await client.createAuthorizationUrl()).searchParams;
+
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+    expect(params.get('state')).toBeTruthy();
+    expect(params.get('nonce')).toBeTruthy();
+  });
+
+  it('should exchange the code for verified tokens', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+
+    const { tokens, claims } = await client.handleCallback(await signIn(client));
+
+    expect(claims).toMatchObject({ sub: '2', email: 'redactor@foi.gov.au', roles: ['redactor'] });
+    expect(tokens.refreshToken).toBeTruthy();
+    expect(tokens.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reject a callback with an unknown state', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const callback = new URL(await signIn(client));
+    callback.searchParams.set('state', 'forged');
+
+    await expect(client.handleCallback(callback.toString()))
+      .rejects.toMatchObject({ code: 'OIDC_STATE_MISMATCH' });
+  });
+
+  it('should not redeem a callback twice', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const callback = await signIn(client);
+    await client.handleCallback(callback);
+
+    await expect(client.handleCallback(callback))
+      .rejects.toMatchObject({ code: 'OIDC_STATE_MISMATCH' });
+  });
+
+  it('should reject an ID token with a tampered payload', async () => {
+    const client = new OidcClient(config, interceptTokens(response => {
+      const [header, , signature] = response.id_token!.split('.');
+      const payload = btoa(JSON.stringify({ ...decodeJwt(response.id_token!).payload, roles: ['approver'] }))
+        .replace(/=+$/, '');
+      return { ...response, id_token: `${header}.${payload}.${signature}` };
+    }));
+
+    await expect(client.handleCallback(await signIn(client)))
+      .rejects.toMatchObject({ code: 'OIDC_INVALID_SIGNATURE' });
+  });
+
+  it('should reject an ID token issued for another sign-in', async () => {
+    const other = new OidcClient(config, mockIdentityProvider);
+    const { tokens } = await other.handleCallback(await signIn(other));
+    const client = new OidcClient(config, interceptTokens(response => ({ ...response, id_token: tokens.idToken })));
+
+    await expect(client.handleCallback(await signIn(client)))
+      .rejects.toMatchObject({ code: 'OIDC_INVALID_TOKEN', details: { reason: 'nonce mismatch' } });
+  });
+
+  it('should prompt for credentials and refuse another user when re-authenticating', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const authorizationUrl = await client.createAuthorizationUrl({ prompt: 'login', subject: '2' });
+    expect(new URL(authorizationUrl).searchParams.get('prompt')).toBe('login');
+
+    const callback = await mockIdentityProvider.authorize(authorizationUrl, 'approver@foi.gov.au', 'password');
+
+    await expect(client.handleCallback(callback)).rejects.toMatchObject({ code: 'SESSION_USER_MISMATCH' });
+  });
+
+  it('should rotate the refresh token and keep the subject', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const session = await client.handleCallback(await signIn(client));
+
+    const refreshed = await client.refresh(session.tokens.refreshToken, session.claims);
+
+    expect(refreshed.claims.sub).toBe('2');
+    expect(refreshed.tokens.refreshToken).not.toBe(session.tokens.refreshToken);
+    await expect(client.refresh(session.tokens.refreshToken, session.claims))
+      .rejects.toMatchObject({ code: 'OIDC_TOKEN_ERROR', details: { error: 'invalid_grant' } });
+  });
+});
+
+describe('MockIdentityProvider', () => {
+  it('should refuse a code redeemed without the PKCE verifier', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const code = new URL(await signIn(client)).searchParams.get('code')!;
+
+    await expect(mockIdentityProvider.postForm(`${config.issuer}/token`, {
+      grant_type: 'authorization_code',
+      code,
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      code_verifier: 'not-the-verifier',
+    })).rejects.toMatchObject({ details: { error: 'invalid_grant' } });
+  });
+
+  it('should refuse the wrong password', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const authorizationUrl = await client.createAuthorizationUrl();
+
+    await expect(mockIdentityProvider.authorize(authorizationUrl, 'viewer@foi.gov.au', 'guess'))
+      .rejects.toMatchObject({ code: 'AUTH_INVALID_CREDENTIALS' });
+  });
+
+  it('should stop a disabled account signing in or refreshing', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const account = await mockIdentityProvider.createUser({ email: 'temp@foi.gov.au', name: 'Temp', role: 'viewer' });
+    const session = await client.handleCallback(await signIn(client, account.email));
+
+    await mockIdentityProvider.updateUser(account.id, { disabled: true });
+
+    await expect(signIn(client, account.email)).rejects.toMatchObject({ code: 'AUTH_ACCOUNT_DISABLED' });
+    await expect(client.refresh(session.tokens.refreshToken, session.claims))
+      .rejects.toMatchObject({ details: { error: 'invalid_grant' } });
+  });
+
+  it('should issue a changed role with the next refresh', async () => {
+    const client = new OidcClient(config, mockIdentityProvider);
+    const account = await mockIdentityProvider.createUser({ email: 'promoted@foi.gov.au', name: 'Promoted', role: 'viewer' });
+    const session = await client.handleCallback(await signIn(client, account.email));
+
+    await mockIdentityProvider.updateUser(account.id, { role: 'redactor' });
+    const refreshed = await client.refresh(session.tokens.refreshToken, session.claims);
+
+    expect(refreshed.claims.roles).toEqual(['redactor']);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Delivers messages between channels of the same name, as browsers do
+// between tabs, but never back to the sender
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => channel.onmessage?.({ data }));
+  }
+}
+
+async function openTab() {
+  vi.resetModules();
+  const { panicService } = await import('../panic.service');
+  return panicService;
+}
+
+describe('PanicService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeBroadcastChannel.channels = [];
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should notify other tabs and count their confirmations', async () => {
+    const initiator = await openTab();
+    const other = await openTab();
+    const listener = vi.fn((panicId: string) => other.confirm(panicId));
+    other.onRemotePanic(listener);
+    const ownListener = vi.fn();
+    initiator.onRemotePanic(ownListener);
+
+    initiator.broadcast('panic-1');
+    const confirmed = initiator.waitForConfirmations('panic-1');
+    await vi.runAllTimersAsync();
+
+    expect(listener).toHaveBeenCalledWith('panic-1');
+    expect(ownListener).not.toHaveBeenCalled();
+    await expect(confirmed).resolves.toBe(1);
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    const initiator = await openTab();
+    const other = await openTab();
+    const listener = vi.fn();
+    const unsubscribe = other.onRemotePanic(listener);
+
+    unsubscribe();
+    initiator.broadcast('panic-1');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should delete Cache Storage and unpreserved databases', async () => {
+    const cacheStorage = { keys: vi.fn().mockResolvedValue(['app-shell']), delete: vi.fn().mockResolvedValue(true) };
+    const deleted: string[] = [];
+    const fakeIndexedDB = {
+      databases: vi.fn().mockResolvedValue([{ name: 'foi-audit' }, { name: 'foi-cache' }, { name: 'pdfjs-cache' }]),
+      deleteDatabase: vi.fn((name: string) => {
+        deleted.push(name);
+        const request: { onsuccess?: () => void } = {};
+        queueMicrotask(() => request.onsuccess?.());
+        return request;
+      }),
+    };
+    vi.stubGlobal('caches', cacheStorage);
+    vi.stubGlobal('indexedDB', fakeIndexedDB);
+    const panicService = await openTab();
+
+    await panicService.clearBrowserStorage();
+
+    expect(cacheStorage.delete).toHaveBeenCalledWith('app-shell');
+    expect(deleted).toEqual(['pdfjs-cache']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { redactionService } from '../redaction.service';
+import { Document, DocumentVersion, Redaction, RedactionStatus } from '@/types';
+
+// pdf.js needs a real canvas and worker, which jsdom does not provide
+vi.mock('react-pdf', () => ({
+  pdfjs: {
+    getDocument: vi.fn(),
+  },
+}));
+
+function makeRedaction(id: string, status: RedactionStatus): Redaction {
+  return {
+    id,
+    type: 'blackout',
+    coordinates: { page: 1, x: 10, y: 10, width: 50, height: 20 },
+    reasonCode: 'FOI s 47F',
+    createdAt: new Date(),
+    createdBy: '2',
+    status,
+  };
+}
+
+function makeDocument(type: Document['type'], redactions: Redaction[]): [Document, DocumentVersion] {
+  const version: DocumentVersion = {
+    id: 'v1',
+    type: 'working',
+    content: 'Plain text content',
+    redactions,
+    createdAt: new Date(),
+    createdBy: '2',
+    hash: 'hash',
+  };
+  const document: Document = {
+    id: 'doc1',
+    name: `test.${type}`,
+    type,
+    size: 18,
+    uploadedAt: new Date(),
+    uploadedBy: '2',
+    versions: [version],
+    currentVersion: 'working',
+  };
+  return [document, version];
+}
+
+describe('RedactionService', () => {
+  describe('getBurnableRedactions', () => {
+    it('should exclude rejected and suggested redactions', () => {
+      const redactions = [
+        makeRedaction('a', 'pending'),
+        makeRedaction('b', 'approved'),
+        makeRedaction('c', 'rejected'),
+        makeRedaction('d', 'suggested'),
+      ];
+
+      const burnable = redactionService.getBurnableRedactions(redactions);
+
+      expect(burnable.map(r => r.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('burnIn', () => {
+    it('should pass through unredacted non-PDF content unchanged', async () => {
+      const [document, version] = makeDocument('txt', [makeRedaction('a', 'rejected')]);
+
+      const output = await redactionService.burnIn(document, version);
+
+      expect(new TextDecoder().decode(output.content)).toBe('Plain text content');
+      expect(output.format).toBe('txt');
+    });
+
+    it('should replace redacted text spans with a placeholder', async () => {
+      const redaction = { ...makeRedaction('a', 'pending'), textSpan: { start: 6, end: 10 } };
+      const [document, version] = makeDocument('txt', [redaction]);
+
+      const output = await redactionService.burnIn(document, version);
+
+      expect(new TextDecoder().decode(output.content)).toBe('Plain [REDACTED s 47F] content');
+      expect(output.format).toBe('txt');
+    });
+
+    it('should stamp the protective marking on the first and last lines of text exports', async () => {
+      const [document, version] = makeDocument('txt', []);
+
+      const output = await redactionService.burnIn({ ...document, protectiveMarking: 'OFFICIAL: Sensitive' }, version);
+
+      expect(new TextDecoder().decode(output.content))
+        .toBe('OFFICIAL: Sensitive\n\nPlain text content\n\nOFFICIAL: Sensitive\n');
+    });
+
+    it('should refuse to finalise area redactions on text documents', async () => {
+      const [document, version] = makeDocument('txt', [makeRedaction('a', 'pending')]);
+
+      await expect(redactionService.burnIn(document, version))
+        .rejects.toMatchObject({ code: 'REDACTION_UNSUPPORTED_TYPE' });
+    });
+  });
+});
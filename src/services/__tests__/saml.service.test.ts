@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { SamlServiceProvider } from '../saml.service';
+import { getSamlConfig, SamlConfig } from '@/utils/saml';
+import { toBase64 } from '@/utils/crypto';
+import { routeSubtleCryptoToNode } from '@/test/webcrypto';
+import idpCertificate from '@/test/fixtures/saml/idp-cert.pem?raw';
+import signedResponse from '@/test/fixtures/saml/signed-response.xml?raw';
+
+routeSubtleCryptoToNode();
+
+// The fixture was issued at 2025-01-01T00:00:00Z in answer to request _req-1
+// and its bearer confirmation is good for five minutes
+const now = Date.parse('2025-01-01T00:01:00Z');
+
+const config: SamlConfig = {
+  ...getSamlConfig({}, 'http://localhost:5173'),
+  idpEntityId: 'https://idp.example.gov.au/saml',
+  idpSsoUrl: 'https://idp.example.gov.au/saml/sso',
+  idpCertificate,
+};
+
+function encode(xml: string): string {
+  return toBase64(new TextEncoder().encode(xml));
+}
+
+function createService(overrides: Partial<SamlConfig> = {}): SamlServiceProvider {
+  const service = new SamlServiceProvider({ ...config, ...overrides });
+  (service as any).savePending({ id: '_req-1', createdAt: Date.now() });
+  return service;
+}
+
+describe('SamlServiceProvider', () => {
+  it('should accept a signed response and map its attributes to a user', async () => {
+    const { user, assertion } = await createService().validateResponse(encode(signedResponse), now);
+
+    expect(user).toEqual({
+      id: 'saml.redactor@foi.gov.au',
+      email: 'saml.redactor@foi.gov.au',
+      name: 'Sam Federated',
+      role: 'redactor',
+      department: 'Department of the Prime Minister & Cabinet',
+    });
+    expect(assertion).toMatchObject({
+      id: '_assertion-1',
+      inResponseTo: '_req-1',
+      sessionIndex: '_session-1',
+      sessionNotOnOrAfter: Date.parse('2025-01-01T08:00:00Z'),
+    });
+  });
+
+  it('should create an AuthnRequest for the ACS URL and remember its ID', () => {
+    const service = new SamlServiceProvider(config);
+    const { id, samlRequest } = service.createAuthnRequest();
+    const xml = atob(samlRequest);
+
+    expect(id).toMatch(/^_[\w-]+$/);
+    expect(xml).toContain(`ID="${id}"`);
+    expect(xml).toContain('AssertionConsumerServiceURL="http://localhost:5173/auth/saml"');
+    expect(xml).toContain('<saml:Issuer>foi-redaction-tool</saml:Issuer>');
+    expect((service as any).pending.has(id)).toBe(true);
+  });
+
+  it('should reject a tampered assertion', async () => {
+    const tampered = signedResponse.replace(
+      '<saml:AttributeValue>redactor</saml:AttributeValue>',
+      '<saml:AttributeValue>approver</saml:AttributeValue>'
+    );
+    expect(tampered).not.toBe(signedResponse);
+
+    await expect(createService().validateResponse(encode(tampered), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_SIGNATURE', message: 'SAML response has been modified after signing' });
+  });
+
+  it('should reject a forged signature value', async () => {
+    const forged = signedResponse.replace(/<ds:SignatureValue>(.)/, (_match, first) =>
+      `<ds:SignatureValue>${first === 'A' ? 'B' : 'A'}`
+    );
+
+    await expect(createService().validateResponse(encode(forged), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_SIGNATURE', message: 'SAML signature is invalid' });
+  });
+
+  it('should reject a response signed by another key', async () => {
+    const { publicKey } = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+    const otherKey = `-----BEGIN PUBLIC KEY-----\n${toBase64(spki)}\n-----END PUBLIC KEY-----`;
+
+    await expect(createService({ idpCertificate: otherKey }).validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_SIGNATURE' });
+  });
+
+  it('should reject an unsigned response', async () => {
+    const unsigned = signedResponse.replace(/<ds:Signature [\s\S]*<\/ds:Signature>/, '');
+
+    await expect(createService().validateResponse(encode(unsigned), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_SIGNATURE', message: 'SAML response is not signed' });
+  });
+
+  it('should reject an unsigned assertion wrapped alongside the signed one', async () => {
+    const forgedAssertion =
+      '<saml:Assertion ID="_assertion-1" IssueInstant="2025-01-01T00:00:00Z" Version="2.0">' +
+      '<saml:Issuer>https://idp.example.gov.au/saml</saml:Issuer>' +
+      '<saml:Subject><saml:NameID>attacker@example.com</saml:NameID></saml:Subject></saml:Assertion>';
+    const wrapped = signedResponse.replace('</samlp:Status>', `</samlp:Status>${forgedAssertion}`);
+
+    await expect(createService().validateResponse(encode(wrapped), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE' });
+  });
+
+  it('should reject a response for another service provider', async () => {
+    await expect(createService({ spEntityId: 'another-sp' }).validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE', details: { reason: 'audience mismatch' } });
+  });
+
+  it('should reject a response posted to another ACS URL', async () => {
+    await expect(createService({ acsUrl: 'https://foi.example.gov.au/auth/saml' }).validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE', details: { reason: 'destination mismatch' } });
+  });
+
+  it('should reject an expired assertion', async () => {
+    const later = Date.parse('2025-01-01T00:10:00Z');
+
+    await expect(createService().validateResponse(encode(signedResponse), later))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE' });
+  });
+
+  it('should reject an assertion that is not yet valid', async () => {
+    const earlier = Date.parse('2024-12-31T23:50:00Z');
+
+    await expect(createService().validateResponse(encode(signedResponse), earlier))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE', details: { reason: 'not yet valid' } });
+  });
+
+  it('should reject an unsolicited response', async () => {
+    const service = new SamlServiceProvider(config);
+
+    await expect(service.validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_REQUEST_MISMATCH' });
+  });
+
+  it('should accept each response only once', async () => {
+    const service = createService();
+    await service.validateResponse(encode(signedResponse), now);
+
+    await expect(service.validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_REQUEST_MISMATCH' });
+
+    // Even if the request ID were somehow reissued, the assertion is spent
+    (service as any).savePending({ id: '_req-1', createdAt: Date.now() });
+    await expect(service.validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_INVALID_RESPONSE', details: { reason: 'assertion replayed' } });
+  });
+
+  it('should report a failed status from the IdP', async () => {
+    const refused = signedResponse.replace(
+      'urn:oasis:names:tc:SAML:2.0:status:Success"/>',
+      'urn:oasis:names:tc:SAML:2.0:status:Responder"/><samlp:StatusMessage>Account disabled</samlp:StatusMessage>'
+    );
+
+    await expect(createService().validateResponse(encode(refused), now))
+      .rejects.toMatchObject({ code: 'SAML_AUTHN_FAILED', message: 'Account disabled' });
+  });
+
+  it('should refuse responses when SAML is not configured', async () => {
+    const service = new SamlServiceProvider(getSamlConfig({}, 'http://localhost:5173'));
+
+    expect(service.isConfigured()).toBe(false);
+    await expect(service.validateResponse(encode(signedResponse), now))
+      .rejects.toMatchObject({ code: 'SAML_NOT_CONFIGURED' });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuthTokens } from '@/types';
+import { IdTokenClaims } from '@/utils/oidc';
+import type { Session } from '../session.service';
+
+const { refresh } = vi.hoisted(() => ({ refresh: vi.fn() }));
+
+vi.mock('../oidc.service', () => ({
+  oidcClient: {
+    refresh,
+    config: { roleClaim: 'roles', roleMap: { redactor: 'redactor', approver: 'approver' } },
+  },
+}));
+
+// Delivers messages between channels of the same name, as browsers do
+// between tabs, but never back to the sender
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    const message = structuredClone(data);
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => channel.onmessage?.({ data: message }));
+  }
+}
+
+const claims: IdTokenClaims = {
+  iss: 'https://mock-idp.foi.local',
+  sub: '2',
+  aud: 'foi-redaction-tool',
+  iat: 0,
+  exp: 0,
+  email: 'redactor@foi.gov.au',
+  name: 'John Redactor',
+  roles: ['redactor'],
+};
+
+function tokens(name: string, expiresIn = 60 * 60 * 1000): AuthTokens {
+  return {
+    accessToken: `access-${name}`,
+    refreshToken: `refresh-${name}`,
+    expiresAt: new Date(Date.now() + expiresIn),
+  };
+}
+
+function session(name: string, expiresIn?: number): Session {
+  return {
+    user: { id: '2', email: 'redactor@foi.gov.au', name: 'John Redactor', role: 'redactor' },
+    tokens: tokens(name, expiresIn),
+    claims,
+  };
+}
+
+// The first tab to ask gets the lock and keeps it, as with navigator.locks
+function stubLeaderLock() {
+  let held = false;
+  vi.stubGlobal('navigator', {
+    locks: {
+      request: (_name: string, callback: () => Promise<never>) => {
+        if (held) return new Promise(() => undefined);
+        held = true;
+        return callback();
+      },
+    },
+  });
+}
+
+async function openTab() {
+  vi.resetModules();
+  const { sessionManager } = await import('../session.service');
+  return sessionManager;
+}
+
+describe('SessionManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    refresh.mockReset();
+    refresh.mockImplementation(async () => ({ tokens: tokens('refreshed'), claims }));
+    FakeBroadcastChannel.channels = [];
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    const tab = await openTab();
+    tab.start(session('initial'));
+
+    const [first, second] = await Promise.all([tab.refresh(), tab.refresh()]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith('refresh-initial', claims);
+    expect(first).toBe(second);
+    expect(tab.getAccessToken()).toBe('access-refreshed');
+  });
+
+  it('should refresh a minute before the access token expires', async () => {
+    const tab = await openTab();
+    tab.start(session('initial', 5 * 60 * 1000));
+
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(tab.getAccessToken()).toBe('access-refreshed');
+  });
+
+  it('should hold requests until a refresh in progress completes', async () => {
+    let finish: () => void = () => undefined;
+    refresh.mockImplementation(() => new Promise(resolve => {
+      finish = () => resolve({ tokens: tokens('refreshed'), claims });
+    }));
+    const tab = await openTab();
+    tab.start(session('initial'));
+
+    const refreshing = tab.refresh();
+    const token = tab.getFreshAccessToken();
+    finish();
+    await refreshing;
+
+    await expect(token).resolves.toBe('access-refreshed');
+  });
+
+  it('should refresh before a request when the token is about to expire', async () => {
+    const tab = await openTab();
+    tab.start(session('initial', 30 * 1000));
+
+    await expect(tab.getFreshAccessToken()).resolves.toBe('access-refreshed');
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell this tab when a refresh changes the user', async () => {
+    refresh.mockImplementation(async () => ({ tokens: tokens('refreshed'), claims: { ...claims, roles: ['approver'] } }));
+    const tab = await openTab();
+    const listener = vi.fn();
+    tab.onChange(listener);
+    tab.start(session('initial'));
+
+    await tab.refresh();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ user: expect.objectContaining({ role: 'approver' }) }));
+  });
+
+  it('should sign other tabs in and out', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const listener = vi.fn();
+    second.onChange(listener);
+
+    first.start(session('initial'));
+    expect(second.getAccessToken()).toBe('access-initial');
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ user: expect.objectContaining({ id: '2' }) }));
+
+    first.end();
+    expect(second.getSession()).toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should restore the session from a tab that is already signed in', async () => {
+    const first = await openTab();
+    first.start(session('initial'));
+    const second = await openTab();
+
+    const restored = await second.restore();
+
+    expect(restored?.tokens.accessToken).toBe('access-initial');
+    expect(restored?.tokens.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('should restore nothing when no tab is signed in', async () => {
+    const tab = await openTab();
+
+    const restored = tab.restore();
+    await vi.advanceTimersByTimeAsync(300);
+
+    await expect(restored).resolves.toBeNull();
+  });
+
+  it('should not hand the session to a new tab while locked', async () => {
+    const first = await openTab();
+    first.start(session('initial'));
+    first.lock();
+    const second = await openTab();
+
+    const restored = second.restore();
+    await vi.advanceTimersByTimeAsync(300);
+
+    await expect(restored).resolves.toBeNull();
+    expect(second.getSession()).toBeNull();
+  });
+
+  it('should keep a reloaded tab locked when another tab restores its session', async () => {
+    const first = await openTab();
+    first.start(session('initial'));
+    vi.mocked(sessionStorage.getItem).mockImplementation(key => (key === 'foi_session_locked' ? 'true' : null));
+    const reloaded = await openTab();
+    vi.mocked(sessionStorage.getItem).mockReset();
+
+    await expect(reloaded.restore()).resolves.toMatchObject({ tokens: { accessToken: 'access-initial' } });
+    expect(reloaded.isLocked()).toBe(true);
+  });
+
+  it('should leave refreshing to the leader tab', async () => {
+    stubLeaderLock();
+    const leader = await openTab();
+    const follower = await openTab();
+    leader.start(session('initial'));
+
+    await expect(follower.refresh()).resolves.toMatchObject({ accessToken: 'access-refreshed' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(leader.getAccessToken()).toBe('access-refreshed');
+  });
+
+  it('should fail a follower refresh when the leader cannot refresh', async () => {
+    refresh.mockRejectedValue(new Error('invalid_grant'));
+    stubLeaderLock();
+    const leader = await openTab();
+    const follower = await openTab();
+    leader.start(session('initial'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(follower.refresh()).rejects.toMatchObject({ code: 'AUTH_REFRESH_FAILED' });
+  });
+});
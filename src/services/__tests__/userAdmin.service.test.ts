@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserAdminService, UserDirectory } from '../userAdmin.service';
+import { auditService } from '../audit.service';
+import { ManagedUser, NewUser, User, UserChanges } from '@/types';
+
+vi.mock('../audit.service', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const ADMIN: User = { id: '4', email: 'admin@foi.gov.au', name: 'Alex Admin', role: 'admin' };
+const APPROVER: User = { id: '3', email: 'approver@foi.gov.au', name: 'Sarah Approver', role: 'approver' };
+
+class InMemoryDirectory implements UserDirectory {
+  users: ManagedUser[] = [
+    { ...ADMIN, disabled: false, createdAt: new Date(0) },
+    { id: '2', email: 'redactor@foi.gov.au', name: 'John Redactor', role: 'redactor', department: 'Home Affairs', disabled: false, createdAt: new Date(0) },
+  ];
+
+  async listUsers() {
+    return this.users.map(u => ({ ...u }));
+  }
+
+  async createUser(user: NewUser) {
+    const created = { ...user, id: String(this.users.length + 10), disabled: false, createdAt: new Date() };
+    this.users.push(created);
+    return { ...created };
+  }
+
+  async updateUser(id: string, changes: UserChanges) {
+    const index = this.users.findIndex(u => u.id === id);
+    const { clearance, ...rest } = changes;
+    this.users[index] = {
+      ...this.users[index],
+      ...rest,
+      ...(clearance !== undefined && { clearance: clearance ?? undefined }),
+    };
+    return { ...this.users[index] };
+  }
+}
+
+describe('UserAdminService', () => {
+  let directory: InMemoryDirectory;
+  let service: UserAdminService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    directory = new InMemoryDirectory();
+    service = new UserAdminService(directory);
+  });
+
+  it('should create a user and audit it', async () => {
+    const created = await service.createUser(ADMIN, {
+      name: ' Pat Officer ',
+      email: 'Pat.Officer@FOI.gov.au',
+      role: 'redactor',
+      department: 'Department of Finance',
+    });
+
+    expect(created).toMatchObject({ name: 'Pat Officer', email: 'pat.officer@foi.gov.au', role: 'redactor' });
+    expect(auditService.log).toHaveBeenCalledWith({
+      userId: '4',
+      action: 'user.create',
+      resourceType: 'user',
+      resourceId: created.id,
+      details: { email: 'pat.officer@foi.gov.au', role: 'redactor', department: 'Department of Finance' },
+    });
+  });
+
+  it('should reject an invalid email address', async () => {
+    await expect(service.createUser(ADMIN, { name: 'Pat', email: 'pat', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'USER_INVALID', details: { field: 'email' } });
+    expect(auditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should reject a role name inherited from Object', async () => {
+    await expect(service.createUser(ADMIN, { name: 'Pat', email: 'pat@foi.gov.au', role: 'toString' as NewUser['role'] }))
+      .rejects.toMatchObject({ code: 'USER_INVALID', details: { field: 'role' } });
+    await expect(service.updateUser(ADMIN, '2', { role: 'constructor' as NewUser['role'] }))
+      .rejects.toMatchObject({ code: 'USER_INVALID', details: { field: 'role' } });
+  });
+
+  it('should audit a role change and a department move separately', async () => {
+    await service.updateUser(ADMIN, '2', { role: 'approver', department: 'Department of Finance' });
+
+    expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'user.role_change',
+      resourceId: '2',
+      details: { email: 'redactor@foi.gov.au', previousRole: 'redactor', role: 'approver' },
+    }));
+    expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'user.update',
+      details: {
+        email: 'redactor@foi.gov.au',
+        changes: { department: { from: 'Home Affairs', to: 'Department of Finance' } },
+      },
+    }));
+  });
+
+  it('should audit a clearance being granted and revoked', async () => {
+    await service.updateUser(ADMIN, '2', { clearance: 'nv1' });
+    await service.updateUser(ADMIN, '2', { clearance: null });
+
+    expect(directory.users[1].clearance).toBeUndefined();
+    expect(vi.mocked(auditService.log).mock.calls.map(([event]) => event.details?.changes)).toEqual([
+      { clearance: { from: 'Uncleared', to: 'Negative Vetting 1' } },
+      { clearance: { from: 'Negative Vetting 1', to: 'Uncleared' } },
+    ]);
+  });
+
+  it('should not audit a save that changes nothing', async () => {
+    await service.updateUser(ADMIN, '2', { role: 'redactor', department: 'Home Affairs' });
+
+    expect(auditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should disable and re-enable a user', async () => {
+    await service.updateUser(ADMIN, '2', { disabled: true });
+    await service.updateUser(ADMIN, '2', { disabled: false });
+
+    expect(vi.mocked(auditService.log).mock.calls.map(([event]) => event.action))
+      .toEqual(['user.disable', 'user.enable']);
+  });
+
+  it('should not let an administrator demote or disable themselves', async () => {
+    await expect(service.updateUser(ADMIN, '4', { role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'USER_SELF_CHANGE' });
+    await expect(service.updateUser(ADMIN, '4', { disabled: true }))
+      .rejects.toMatchObject({ code: 'USER_SELF_CHANGE' });
+
+    await expect(service.updateUser(ADMIN, '4', { department: 'Department of Finance' })).resolves.toBeTruthy();
+  });
+
+  it('should refuse users without the manage permission', async () => {
+    await expect(service.listUsers(APPROVER)).rejects.toMatchObject({ code: 'ACCESS_DENIED' });
+    await expect(service.updateUser(APPROVER, '2', { role: 'approver' })).rejects.toMatchObject({ code: 'ACCESS_DENIED' });
+    expect(directory.users[1].role).toBe('redactor');
+  });
+});
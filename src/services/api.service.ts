@@ -1,7 +1,19 @@
-import axios, { AxiosInstance } from 'axios';
-import { ApiResponse, UploadResponse, Document, FOIError } from '@/types';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  ApiResponse,
+  UploadResponse,
+  Document,
+  Redaction,
+  FOIError,
+  ManagedUser,
+  NewUser,
+  ProtectiveMarking,
+  UserChanges,
+} from '@/types';
 import { authService } from './auth.service';
 import { auditService } from './audit.service';
+import { getDocumentAttributes } from '@/utils/permissions';
+import { ResourceAttributes } from '@/utils/policy';
 
 interface ApiConfig {
   baseURL: string;
@@ -12,6 +24,9 @@ interface ApiConfig {
 class ApiService {
   private client: AxiosInstance;
   private config: ApiConfig;
+  // Shared by every request without its own signal, so panic clear can
+  // abort them all at once
+  private abortController = new AbortController();
 
   constructor(config?: Partial<ApiConfig>) {
     this.config = {
@@ -34,10 +49,18 @@ class ApiService {
   }
 
   private setupInterceptors(): void {
-    // Request interceptor for auth
+    // Request interceptor for auth. Requests made while the token is being
+    // refreshed wait for the new one. The abort signal is taken first, so a
+    // panic clear during the wait still cancels the request.
     this.client.interceptors.request.use(
       async (config) => {
-        const token = authService.getAccessToken();
+        const signal = config.signal ?? this.abortController.signal;
+        config.signal = signal;
+
+        const token = await authService.getFreshAccessToken();
+        if (signal.aborted) {
+          throw new FOIError('Request cancelled', 'REQUEST_CANCELLED', 0, { url: config.url });
+        }
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -62,18 +85,22 @@ class ApiService {
       async (error) => {
         const originalRequest = error.config;
 
-        // Handle 401 errors with token refresh
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle 401 errors with token refresh. Requests that fail together
+        // share one refresh; one sent before a refresh that has since
+        // finished just retries with the new token.
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
           originalRequest._retry = true;
 
           try {
-            if (authService.isTokenExpired()) {
+            const sentToken = originalRequest.headers?.Authorization;
+            let newToken = authService.getAccessToken();
+            if (!newToken || sentToken === `Bearer ${newToken}`) {
               await authService.refreshToken();
-              const newToken = authService.getAccessToken();
-              if (newToken) {
-                originalRequest.headers.Authorization = `Bearer ${newToken}`;
-                return this.client(originalRequest);
-              }
+              newToken = authService.getAccessToken();
+            }
+            if (newToken) {
+              originalRequest.headers.Authorization = `Bearer ${newToken}`;
+              return this.client(originalRequest);
             }
           } catch (refreshError) {
             // Refresh failed, redirect to login
@@ -91,7 +118,14 @@ class ApiService {
   }
 
   private transformError(error: any): FOIError {
-    if (error.response) {
+    if (axios.isCancel(error)) {
+      return new FOIError(
+        'Request cancelled',
+        'REQUEST_CANCELLED',
+        0,
+        { url: error.config?.url }
+      );
+    } else if (error.response) {
       // Server responded with error status
       return new FOIError(
         error.response.data?.message || 'Server error',
@@ -126,12 +160,46 @@ class ApiService {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // The request ID sent with a call, so audit events can be traced to it
+  private getRequestId(response: AxiosResponse): string | undefined {
+    const requestId = response.config.headers?.['X-Request-ID'];
+    return typeof requestId === 'string' ? requestId : undefined;
+  }
+
+  // Refuses, and audits, a request the access policy denies. The server
+  // enforces its own policy; this keeps the client from asking for, or
+  // showing, what the user may not see.
+  private async authorize(
+    resource: string,
+    action: string,
+    resourceId: string,
+    attributes?: ResourceAttributes
+  ): Promise<void> {
+    const decision = authService.explainPermission(resource, action, attributes);
+    if (decision.allowed) return;
+
+    const user = authService.getCurrentUser();
+    if (user) {
+      await auditService.log({
+        userId: user.id,
+        action: 'access.denied',
+        resourceType: resource,
+        resourceId,
+        details: { action, rule: decision.ruleId, reason: decision.reason },
+      });
+    }
+
+    throw new FOIError(decision.reason, 'ACCESS_DENIED', 403, { resource, action, rule: decision.ruleId });
+  }
+
   // Document operations
-  async uploadDocument(file: File): Promise<UploadResponse> {
+  // The marking goes with the file so the server can enforce clearance too
+  async uploadDocument(file: File, protectiveMarking: ProtectiveMarking): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('file', file);
     formData.append('type', file.type);
     formData.append('size', file.size.toString());
+    formData.append('protectiveMarking', protectiveMarking);
 
     const response = await this.client.post<ApiResponse<UploadResponse>>(
       '/documents/upload',
@@ -171,6 +239,7 @@ class ApiService {
           fileSize: file.size,
           fileType: file.type,
         },
+        requestId: this.getRequestId(response),
       });
     }
 
@@ -190,10 +259,16 @@ class ApiService {
       );
     }
 
-    return response.data.data;
+    const document = response.data.data;
+    await this.authorize('document', 'view', document.id, getDocumentAttributes(document));
+
+    return document;
   }
 
-  async downloadDocument(documentId: string, version: 'original' | 'working' | 'final'): Promise<Blob> {
+  async downloadDocument(document: Document, version: 'original' | 'working' | 'final'): Promise<Blob> {
+    const documentId = document.id;
+    await this.authorize('document', 'view', documentId, getDocumentAttributes(document));
+
     const response = await this.client.get(
       `/documents/${documentId}/download/${version}`,
       {
@@ -210,6 +285,7 @@ class ApiService {
         resourceType: 'document',
         resourceId: documentId,
         details: { version },
+        requestId: this.getRequestId(response),
       });
     }
 
@@ -250,7 +326,7 @@ class ApiService {
   }
 
   // Redaction operations
-  async saveRedactions(documentId: string, redactions: any[]): Promise<void> {
+  async saveRedactions(documentId: string, redactions: Redaction[]): Promise<void> {
     const response = await this.client.put<ApiResponse<void>>(
       `/documents/${documentId}/redactions`,
       { redactions }
@@ -265,10 +341,10 @@ class ApiService {
     }
   }
 
-  async approveRedactions(documentId: string, redactionIds: string[]): Promise<void> {
+  async approveRedactions(documentId: string, redactionIds: string[], comment?: string): Promise<void> {
     const response = await this.client.post<ApiResponse<void>>(
       `/documents/${documentId}/redactions/approve`,
-      { redactionIds }
+      { redactionIds, comment }
     );
 
     if (!response.data.success) {
@@ -280,6 +356,21 @@ class ApiService {
     }
   }
 
+  async rejectRedactions(documentId: string, redactionIds: string[], comment: string): Promise<void> {
+    const response = await this.client.post<ApiResponse<void>>(
+      `/documents/${documentId}/redactions/reject`,
+      { redactionIds, comment }
+    );
+
+    if (!response.data.success) {
+      throw new FOIError(
+        response.data.message || 'Failed to reject redactions',
+        'REDACTION_REJECTION_FAILED',
+        400
+      );
+    }
+  }
+
   async finalizeDocument(documentId: string): Promise<{ hash: string }> {
     const response = await this.client.post<ApiResponse<{ hash: string }>>(
       `/documents/${documentId}/finalize`
@@ -296,12 +387,81 @@ class ApiService {
     return response.data.data;
   }
 
+  async updateProtectiveMarking(
+    documentId: string,
+    marking: ProtectiveMarking,
+    justification?: string
+  ): Promise<void> {
+    const response = await this.client.put<ApiResponse<void>>(`/documents/${documentId}/marking`, {
+      marking,
+      justification,
+    });
+
+    if (!response.data.success) {
+      throw new FOIError(
+        response.data.message || 'Failed to update protective marking',
+        'MARKING_UPDATE_FAILED',
+        400
+      );
+    }
+  }
+
+  // User administration
+  async listUsers(): Promise<ManagedUser[]> {
+    const response = await this.client.get<ApiResponse<ManagedUser[]>>('/admin/users');
+
+    if (!response.data.success) {
+      throw new FOIError(
+        response.data.message || 'Failed to fetch users',
+        'USER_FETCH_FAILED',
+        400
+      );
+    }
+
+    return response.data.data;
+  }
+
+  async createUser(user: NewUser): Promise<ManagedUser> {
+    const response = await this.client.post<ApiResponse<ManagedUser>>('/admin/users', user);
+
+    if (!response.data.success) {
+      throw new FOIError(
+        response.data.message || 'Failed to create user',
+        'USER_CREATE_FAILED',
+        400
+      );
+    }
+
+    return response.data.data;
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<ManagedUser> {
+    const response = await this.client.patch<ApiResponse<ManagedUser>>(`/admin/users/${id}`, changes);
+
+    if (!response.data.success) {
+      throw new FOIError(
+        response.data.message || 'Failed to update user',
+        'USER_UPDATE_FAILED',
+        400
+      );
+    }
+
+    return response.data.data;
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     const response = await this.client.get<{ status: string; timestamp: string }>('/health');
     return response.data;
   }
 
+  // Aborts every request in flight. Later requests go ahead as normal.
+  abortPendingRequests(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+    console.log('[API] Pending requests aborted');
+  }
+
   // Update configuration
   updateConfig(newConfig: Partial<ApiConfig>): void {
     this.config = { ...this.config, ...newConfig };
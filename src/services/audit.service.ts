@@ -1,4 +1,20 @@
-import { AuditEvent, AuditAction } from '@/types';
+import { AuditEvent, AuditAction, AuditDeliveryStatus, AuditExportFormat } from '@/types';
+import { breakGlassService } from './breakGlass.service';
+import { encryptionService } from './encryption.service';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditChainVerification,
+  getAuditHashInput,
+  getAuditRetryDelay,
+  verifyAuditChain,
+} from '@/utils/audit';
+import { renderAuditExport } from '@/utils/auditExport';
+import {
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from '@/utils/indexeddb';
 import { v4 as uuidv4 } from 'uuid';
 
 interface AuditLogRequest {
@@ -7,31 +23,163 @@ interface AuditLogRequest {
   resourceType: string;
   resourceId: string;
   details: Record<string, any>;
+  requestId?: string;
 }
 
-class AuditService {
+// An event waiting to be delivered to the audit endpoint
+interface OutboxEntry {
+  id: string; // AuditEvent.id, which the server uses to drop duplicates
+  event: AuditEvent;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// Durable storage for the chain, keyed by sequence number, and for the
+// delivery outbox, keyed by event ID
+interface AuditStore {
+  append(event: AuditEvent, outbox: OutboxEntry): Promise<void>;
+  getAll(): Promise<AuditEvent[]>;
+  clear(): Promise<void>;
+  getOutbox(): Promise<OutboxEntry[]>;
+  putOutbox(entry: OutboxEntry): Promise<void>;
+  deleteOutbox(id: string): Promise<void>;
+}
+
+class IndexedDBAuditStore implements AuditStore {
+  private readonly DB_NAME = 'foi-audit';
+  private readonly STORE_NAME = 'events';
+  private readonly OUTBOX_NAME = 'outbox';
+  private db: Promise<IDBDatabase> | null = null;
+
+  // The event and its outbox entry are written together, so nothing is
+  // recorded without also being queued for delivery
+  async append(event: AuditEvent, outbox: OutboxEntry): Promise<void> {
+    const transaction = (await this.open()).transaction([this.STORE_NAME, this.OUTBOX_NAME], 'readwrite');
+    // add() rejects a sequence number that is already taken
+    transaction.objectStore(this.STORE_NAME).add(event);
+    transaction.objectStore(this.OUTBOX_NAME).put(outbox);
+    await transactionDone(transaction);
+  }
+
+  async getAll(): Promise<AuditEvent[]> {
+    const transaction = (await this.open()).transaction(this.STORE_NAME, 'readonly');
+    return requestToPromise(transaction.objectStore(this.STORE_NAME).getAll() as IDBRequest<AuditEvent[]>);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction([this.STORE_NAME, this.OUTBOX_NAME], 'readwrite');
+    transaction.objectStore(this.STORE_NAME).clear();
+    transaction.objectStore(this.OUTBOX_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const transaction = (await this.open()).transaction(this.OUTBOX_NAME, 'readonly');
+    return requestToPromise(transaction.objectStore(this.OUTBOX_NAME).getAll() as IDBRequest<OutboxEntry[]>);
+  }
+
+  async putOutbox(entry: OutboxEntry): Promise<void> {
+    const transaction = (await this.open()).transaction(this.OUTBOX_NAME, 'readwrite');
+    transaction.objectStore(this.OUTBOX_NAME).put(entry);
+    await transactionDone(transaction);
+  }
+
+  async deleteOutbox(id: string): Promise<void> {
+    const transaction = (await this.open()).transaction(this.OUTBOX_NAME, 'readwrite');
+    transaction.objectStore(this.OUTBOX_NAME).delete(id);
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(this.DB_NAME, 2, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(this.STORE_NAME, { keyPath: 'sequence' });
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore(this.OUTBOX_NAME, { keyPath: 'id' });
+        }
+      });
+    }
+    return this.db;
+  }
+}
+
+// Used where IndexedDB is unavailable (private browsing in some browsers, tests)
+class MemoryAuditStore implements AuditStore {
   private events: AuditEvent[] = [];
-  private readonly MAX_EVENTS = 1000; // Keep last 1000 events in memory
+  private outbox = new Map<string, OutboxEntry>();
+
+  async append(event: AuditEvent, outbox: OutboxEntry): Promise<void> {
+    if (this.events.some(e => e.sequence === event.sequence)) {
+      throw new Error(`Audit sequence ${event.sequence} already recorded`);
+    }
+    this.events.push(structuredClone(event));
+    this.outbox.set(outbox.id, structuredClone(outbox));
+  }
+
+  async getAll(): Promise<AuditEvent[]> {
+    return structuredClone(this.events);
+  }
+
+  async clear(): Promise<void> {
+    this.events = [];
+    this.outbox.clear();
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return structuredClone(Array.from(this.outbox.values()));
+  }
+
+  async putOutbox(entry: OutboxEntry): Promise<void> {
+    this.outbox.set(entry.id, structuredClone(entry));
+  }
+
+  async deleteOutbox(id: string): Promise<void> {
+    this.outbox.delete(id);
+  }
+}
+
+// Append-only, hash-chained audit log. Every event records its sequence
+// number and the hash of the event before it, so any edit, deletion or
+// reordering of stored events is detected by verifyChain().
+//
+// Delivery to the audit endpoint goes through a persistent outbox: an event
+// stays queued, across reloads, until the endpoint accepts it, and failed
+// deliveries are retried with exponential backoff.
+class AuditService {
+  private readonly FLUSH_TIMEOUT = 5000;
+  private events: AuditEvent[] = []; // Newest first, mirrors the store
+  private store: AuditStore = isIndexedDBAvailable() ? new IndexedDBAuditStore() : new MemoryAuditStore();
+  private ready: Promise<void> | null = null;
+  private appendQueue: Promise<void> = Promise.resolve();
+  private head = { sequence: 0, hash: AUDIT_GENESIS_HASH };
+  private outbox = new Map<string, OutboxEntry>(); // Mirrors the stored outbox
+  private inFlight = new Set<string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(status: AuditDeliveryStatus) => void>();
+  private endpointEvents: AuditEvent[] = []; // What the mock endpoint has stored
 
   async log(request: AuditLogRequest): Promise<void> {
-    const event: AuditEvent = {
-      id: uuidv4(),
-      userId: request.userId,
-      action: request.action,
-      resourceType: request.resourceType,
-      resourceId: request.resourceId,
-      details: request.details,
-      timestamp: new Date(),
-      ipAddress: this.getClientIP(),
-      userAgent: navigator.userAgent,
-    };
+    // Tagged when logged, not when appended, in case the grant ends meanwhile
+    const tagged = this.tagBreakGlass(request);
+    await this.init();
 
-    // Add to in-memory store
-    this.events.unshift(event);
-    if (this.events.length > this.MAX_EVENTS) {
-      this.events = this.events.slice(0, this.MAX_EVENTS);
+    // Appends are serialised so sequence numbers and links stay in order
+    const appended = this.appendQueue.then(() => this.append(tagged));
+    this.appendQueue = appended.then(() => undefined, () => undefined);
+
+    let entry: OutboxEntry;
+    try {
+      entry = await appended;
+    } catch (error) {
+      console.error('[AUDIT] Failed to record audit event:', error);
+      return;
     }
 
+    const { event } = entry;
+
     // Log to console for development
     console.log('[AUDIT]', {
       action: event.action,
@@ -41,13 +189,58 @@ class AuditService {
       details: event.details,
     });
 
-    // Send to mock endpoint (in production, this would be a real audit service)
-    try {
-      await this.sendToAuditEndpoint(event);
-    } catch (error) {
-      console.error('[AUDIT] Failed to send audit event:', error);
-      // In production, you might want to queue failed events for retry
+    // First delivery attempt; failures stay in the outbox for retry
+    await this.deliver(entry);
+  }
+
+  getDeliveryStatus(): AuditDeliveryStatus {
+    const entries = Array.from(this.outbox.values());
+    const failing = entries.filter(e => e.attempts > 0);
+    return {
+      pending: entries.length,
+      failing: failing.length,
+      lastError: failing.sort((a, b) => b.nextAttemptAt - a.nextAttemptAt)[0]?.lastError,
+    };
+  }
+
+  subscribe(listener: (status: AuditDeliveryStatus) => void): () => void {
+    this.listeners.add(listener);
+    // Loading the outbox also resumes delivery of events left from earlier sessions
+    void this.init().then(() => listener(this.getDeliveryStatus()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Try to deliver everything in the outbox now, ignoring backoff. Resolves
+  // with the number of events still undelivered once the outbox is empty or
+  // the timeout passes; those events stay queued.
+  async flush(timeoutMs = this.FLUSH_TIMEOUT): Promise<number> {
+    await this.init();
+    await this.appendQueue;
+
+    const attemptAll = async () => {
+      const entries = Array.from(this.outbox.values())
+        .sort((a, b) => a.event.sequence - b.event.sequence);
+      for (const entry of entries) {
+        await this.deliver(entry);
+      }
+    };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      attemptAll(),
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    const remaining = this.outbox.size;
+    if (remaining > 0) {
+      console.warn(`[AUDIT] ${remaining} audit event(s) could not be delivered and remain queued`);
     }
+    return remaining;
   }
 
   getEvents(userId?: string, action?: AuditAction, limit = 50): AuditEvent[] {
@@ -64,37 +257,187 @@ class AuditService {
     return filtered.slice(0, limit);
   }
 
-  async exportAuditLog(startDate: Date, endDate: Date): Promise<string> {
-    const filtered = this.events.filter(e => 
+  // The full stored chain, oldest first
+  async getChain(): Promise<AuditEvent[]> {
+    await this.init();
+    await this.appendQueue;
+    const events = await this.store.getAll();
+    return events.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Verify the stored chain, or a chain loaded from elsewhere (e.g. an export)
+  async verifyChain(events?: AuditEvent[]): Promise<AuditChainVerification> {
+    return verifyAuditChain(events ?? await this.getChain(), input => this.hash(input));
+  }
+
+  async exportAuditLog(startDate: Date, endDate: Date, format: AuditExportFormat = 'csv'): Promise<string> {
+    const filtered = (await this.getChain()).filter(e =>
       e.timestamp >= startDate && e.timestamp <= endDate
     );
 
-    // Convert to CSV format
-    const headers = ['ID', 'User ID', 'Action', 'Resource Type', 'Resource ID', 'Timestamp', 'IP Address', 'Details'];
-    const rows = filtered.map(e => [
-      e.id,
-      e.userId,
-      e.action,
-      e.resourceType,
-      e.resourceId,
-      e.timestamp.toISOString(),
-      e.ipAddress || '',
-      JSON.stringify(e.details),
-    ]);
+    return renderAuditExport(filtered, format);
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadChain()
+        .then(() => this.loadOutbox())
+        .catch(error => {
+          console.error('[AUDIT] Durable audit storage unavailable, using memory:', error);
+          this.store = new MemoryAuditStore();
+        });
+
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => {
+          void this.flush();
+        });
+      }
+    }
+    return this.ready;
+  }
+
+  private async loadOutbox(): Promise<void> {
+    const entries = await this.store.getOutbox();
+    this.outbox = new Map(entries.map(e => [e.id, e]));
+    this.notify();
+    this.scheduleRetry();
+  }
+
+  private async loadChain(): Promise<void> {
+    const stored = (await this.store.getAll()).sort((a, b) => a.sequence - b.sequence);
+    const last = stored[stored.length - 1];
+    this.head = last
+      ? { sequence: last.sequence, hash: last.hash }
+      : { sequence: 0, hash: AUDIT_GENESIS_HASH };
+    this.events = stored.reverse();
+  }
+
+  // Everything a user does under break-glass access carries the grant's ID
+  private tagBreakGlass(request: AuditLogRequest): AuditLogRequest {
+    const grant = breakGlassService.getActiveGrant(request.userId);
+    return grant ? { ...request, details: { ...request.details, breakGlassId: grant.id } } : request;
+  }
+
+  private async append(request: AuditLogRequest): Promise<OutboxEntry> {
+    try {
+      return await this.appendAt(request);
+    } catch (error) {
+      // Another tab may have extended the chain; pick up its head and retry once
+      await this.loadChain();
+      return this.appendAt(request);
+    }
+  }
+
+  private async appendAt(request: AuditLogRequest): Promise<OutboxEntry> {
+    const unsigned: Omit<AuditEvent, 'hash'> = {
+      id: uuidv4(),
+      userId: request.userId,
+      action: request.action,
+      resourceType: request.resourceType,
+      resourceId: request.resourceId,
+      details: request.details,
+      timestamp: new Date(),
+      ipAddress: this.getClientIP(),
+      userAgent: navigator.userAgent,
+      requestId: request.requestId,
+      sequence: this.head.sequence + 1,
+      previousHash: this.head.hash,
+    };
+    const event: AuditEvent = { ...unsigned, hash: await this.hash(getAuditHashInput(unsigned)) };
+
+    const entry: OutboxEntry = { id: event.id, event, attempts: 0, nextAttemptAt: Date.now() };
+
+    await this.store.append(event, entry);
+    this.head = { sequence: event.sequence, hash: event.hash };
+    this.events.unshift(event);
+    this.outbox.set(entry.id, entry);
+
+    return entry;
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    if (this.inFlight.has(entry.id) || !this.outbox.has(entry.id)) return;
+    this.inFlight.add(entry.id);
+
+    try {
+      await this.sendToAuditEndpoint(entry.event);
+      this.outbox.delete(entry.id);
+      await this.store.deleteOutbox(entry.id);
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + getAuditRetryDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+      this.outbox.set(entry.id, updated);
+      console.error(`[AUDIT] Failed to send audit event (attempt ${attempts}), will retry:`, error);
 
-    const csv = [headers, ...rows]
-      .map(row => row.map(cell => `"${cell}"`).join(','))
-      .join('\n');
+      try {
+        await this.store.putOutbox(updated);
+      } catch (storeError) {
+        console.error('[AUDIT] Failed to update audit outbox:', storeError);
+      }
+    } finally {
+      this.inFlight.delete(entry.id);
+      this.notify();
+      this.scheduleRetry();
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = Array.from(this.outbox.values()).filter(e => !this.inFlight.has(e.id));
+    if (waiting.length === 0) return;
+
+    const next = Math.min(...waiting.map(e => e.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.retryDue();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private async retryDue(): Promise<void> {
+    const due = Array.from(this.outbox.values())
+      .filter(e => e.nextAttemptAt <= Date.now())
+      .sort((a, b) => a.event.sequence - b.event.sequence);
 
-    return csv;
+    for (const entry of due) {
+      await this.deliver(entry);
+    }
+  }
+
+  private notify(): void {
+    const status = this.getDeliveryStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private hash(input: string): Promise<string> {
+    return encryptionService.generateHash(new TextEncoder().encode(input).buffer as ArrayBuffer);
   }
 
-  private async sendToAuditEndpoint(_event: AuditEvent): Promise<void> {
-    // Mock API call - in production this would be a real endpoint
+  private async sendToAuditEndpoint(event: AuditEvent): Promise<void> {
+    // Mock API call - in production this would be a real endpoint. The event
+    // ID is the idempotency key: the server acknowledges an ID it has already
+    // accepted without storing it again, so retries never duplicate events.
     return new Promise((resolve, reject) => {
       setTimeout(() => {
-        if (Math.random() > 0.95) { // 5% failure rate for testing
+        const outcome = Math.random();
+        if (outcome > 0.95) { // 5% of requests fail before reaching the server
           reject(new Error('Mock audit endpoint failure'));
+          return;
+        }
+
+        if (!this.endpointEvents.some(stored => stored.id === event.id)) {
+          this.endpointEvents.push(event);
+        }
+        if (outcome > 0.9) { // and 5% are stored but the response is lost
+          reject(new Error('Mock audit endpoint response lost'));
         } else {
           resolve();
         }
@@ -109,10 +452,17 @@ class AuditService {
   }
 
   // Clear audit logs (for testing/development)
-  clear(): void {
+  async clear(): Promise<void> {
+    await this.init();
+    await this.appendQueue;
+    await this.store.clear();
     this.events = [];
+    this.head = { sequence: 0, hash: AUDIT_GENESIS_HASH };
+    this.outbox.clear();
+    this.scheduleRetry();
+    this.notify();
     console.log('[AUDIT] Audit log cleared');
   }
 }
 
-export const auditService = new AuditService();
\ No newline at end of file
+export const auditService = new AuditService();
@@ -1,67 +1,84 @@
-import { User, AuthTokens, FOIError, ROLE_PERMISSIONS } from '@/types';
+import { User, AuthTokens, BreakGlassGrant, FOIError } from '@/types';
 import { auditService } from './audit.service';
+import { breakGlassService } from './breakGlass.service';
+import { mockIdentityProvider } from './mockIdp.service';
+import { oidcClient, OidcSession } from './oidc.service';
+import { samlService } from './saml.service';
+import { sessionManager } from './session.service';
+import { IdTokenClaims, claimsToUser } from '@/utils/oidc';
+import { BreakGlassReview, isAwaitingAcknowledgement } from '@/utils/breakGlass';
+import { canAcknowledgeBreakGlass, explainPermission } from '@/utils/permissions';
+import { AccessContext, AccessDecision, ResourceAttributes } from '@/utils/policy';
 
-// Mock OIDC/SAML 2.0 SSO implementation
+// OIDC sign-in (authorization code with PKCE) through oidcClient. Without a
+// configured issuer the bundled mock identity provider is used. Agencies
+// that federate over SAML 2.0 sign in through samlService instead. The
+// session itself is held by sessionManager and shared between tabs.
 class AuthService {
-  private readonly MOCK_USERS: User[] = [
-    {
-      id: '1',
-      email: 'viewer@foi.gov.au',
-      name: 'Jane Viewer',
-      role: 'viewer',
-      department: 'Department of Prime Minister and Cabinet'
-    },
-    {
-      id: '2',
-      email: 'redactor@foi.gov.au',
-      name: 'John Redactor',
-      role: 'redactor',
-      department: 'Department of Home Affairs'
-    },
-    {
-      id: '3',
-      email: 'approver@foi.gov.au',
-      name: 'Sarah Approver',
-      role: 'approver',
-      department: 'Attorney-General\'s Department'
-    }
-  ];
+  private readonly SAML_SESSION_LIFETIME = 8 * 60 * 60 * 1000; // When the IdP sets no SessionNotOnOrAfter
 
-  private currentUser: User | null = null;
-  private tokens: AuthTokens | null = null;
+  // True when sign-in happens on the identity provider's own page, rather
+  // than with the credentials form backed by the mock provider
+  usesRedirectLogin(): boolean {
+    return !oidcClient.config.useMockIdp;
+  }
 
-  async login(email: string, _password: string): Promise<User> {
+  // Signs in with the mock identity provider; the login form stands in for
+  // its sign-in page
+  async login(email: string, password: string): Promise<User> {
     try {
-      // Simulate OIDC/SAML flow
-      await this.simulateOIDCFlow(email);
-      
-      const user = this.MOCK_USERS.find(u => u.email === email);
-      if (!user) {
-        throw new FOIError('Invalid credentials', 'AUTH_INVALID_CREDENTIALS', 401);
+      if (this.usesRedirectLogin()) {
+        throw new FOIError('Sign in through your identity provider', 'AUTH_REDIRECT_REQUIRED', 400);
       }
 
-      // Simulate MFA (assumed to be handled by OIDC provider)
-      await this.simulateMFA();
+      const authorizationUrl = await oidcClient.createAuthorizationUrl();
+      const callbackUrl = await mockIdentityProvider.authorize(authorizationUrl, email, password);
+      return await this.startOidcSession(await oidcClient.handleCallback(callbackUrl));
+    } catch (error) {
+      throw new FOIError(
+        'Authentication failed',
+        'AUTH_FAILED',
+        401,
+        { originalError: error }
+      );
+    }
+  }
 
-      // Generate mock tokens
-      this.tokens = {
-        accessToken: this.generateMockJWT(user),
-        refreshToken: this.generateMockRefreshToken(),
-        expiresAt: new Date(Date.now() + 3600000) // 1 hour
-      };
+  // Sends the browser to the identity provider; it returns to
+  // /auth/callback, which calls completeLogin
+  async beginLogin(): Promise<void> {
+    window.location.assign(await oidcClient.createAuthorizationUrl());
+  }
 
-      this.currentUser = user;
+  async completeLogin(callbackUrl: string): Promise<User> {
+    try {
+      const session = await oidcClient.handleCallback(callbackUrl);
+      const user = await this.startOidcSession(session);
+      if (session.reauthenticated) await this.unlockSession(user);
+      return user;
+    } catch (error) {
+      throw new FOIError(
+        'Authentication failed',
+        'AUTH_FAILED',
+        401,
+        { originalError: error }
+      );
+    }
+  }
 
-      // Audit log
-      await auditService.log({
-        userId: user.id,
-        action: 'auth.login',
-        resourceType: 'auth',
-        resourceId: user.id,
-        details: { email, role: user.role },
-      });
+  // Unlocks a tab locked for inactivity with the mock identity provider's
+  // password. The ID token must be for the locked user, which is checked
+  // before any session starts.
+  async reauthenticate(user: User, password: string): Promise<void> {
+    try {
+      if (this.usesRedirectLogin()) {
+        throw new FOIError('Sign in through your identity provider', 'AUTH_REDIRECT_REQUIRED', 400);
+      }
 
-      return user;
+      const authorizationUrl = await oidcClient.createAuthorizationUrl({ prompt: 'login', subject: user.id });
+      const callbackUrl = await mockIdentityProvider.authorize(authorizationUrl, user.email, password);
+      const session = await oidcClient.handleCallback(callbackUrl);
+      await this.unlockSession(await this.startOidcSession(session));
     } catch (error) {
       throw new FOIError(
         'Authentication failed',
@@ -72,120 +89,206 @@ class AuthService {
     }
   }
 
+  // Unlocks through the identity provider, which is asked to prompt for
+  // credentials again; completeLogin unlocks the tab on its return
+  async beginReauthentication(user: User): Promise<void> {
+    window.location.assign(await oidcClient.createAuthorizationUrl({ prompt: 'login', subject: user.id }));
+  }
+
+  // Signs out every open tab
   async logout(): Promise<void> {
-    if (this.currentUser) {
+    const user = this.getCurrentUser();
+    if (user) {
+      await this.endBreakGlass('signed out');
       await auditService.log({
-        userId: this.currentUser.id,
+        userId: user.id,
         action: 'auth.logout',
         resourceType: 'auth',
-        resourceId: this.currentUser.id,
+        resourceId: user.id,
         details: {},
       });
+
+      // Deliver queued audit events while the session is still valid
+      await auditService.flush();
     }
 
-    this.currentUser = null;
-    this.tokens = null;
+    sessionManager.end();
     
     // Clear any cached data
     localStorage.removeItem('foi_session');
     sessionStorage.clear();
   }
 
-  async refreshToken(): Promise<AuthTokens> {
-    if (!this.tokens?.refreshToken || !this.currentUser) {
-      throw new FOIError('No valid refresh token', 'AUTH_NO_REFRESH_TOKEN', 401);
-    }
-
-    // Simulate token refresh
-    this.tokens = {
-      accessToken: this.generateMockJWT(this.currentUser),
-      refreshToken: this.generateMockRefreshToken(),
-      expiresAt: new Date(Date.now() + 3600000)
-    };
-
-    return this.tokens;
+  // Also runs silently shortly before the access token expires. Concurrent
+  // calls, from this tab or others, share one refresh.
+  refreshToken(): Promise<AuthTokens> {
+    return sessionManager.refresh();
   }
 
   getCurrentUser(): User | null {
-    return this.currentUser;
+    return sessionManager.getSession()?.user ?? null;
   }
 
   getAccessToken(): string | null {
-    return this.tokens?.accessToken || null;
+    return sessionManager.getAccessToken();
+  }
+
+  // Waits for any refresh in progress, so the token is current
+  getFreshAccessToken(): Promise<string | null> {
+    return sessionManager.getFreshAccessToken();
   }
 
   isAuthenticated(): boolean {
-    return this.currentUser !== null && this.tokens !== null;
+    return sessionManager.getSession() !== null;
   }
 
   isTokenExpired(): boolean {
-    if (!this.tokens) return true;
-    return new Date() >= this.tokens.expiresAt;
+    return sessionManager.isExpired();
   }
 
-  hasPermission(resource: string, action: string): boolean {
-    if (!this.currentUser) return false;
-    
-    const permissions = ROLE_PERMISSIONS[this.currentUser.role];
-    
-    return permissions.some(p => 
-      p.resource === resource && 
-      p.action === action && 
-      p.granted
-    );
-  }
-
-  private async simulateOIDCFlow(email: string): Promise<void> {
-    // Simulate OIDC discovery and authorization flow
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        console.log(`[MOCK OIDC] Redirecting to identity provider for ${email}`);
-        console.log('[MOCK OIDC] User authenticated with MFA');
-        resolve();
-      }, 500);
+  hasPermission(resource: string, action: string, attributes?: ResourceAttributes, context?: AccessContext): boolean {
+    return this.explainPermission(resource, action, attributes, context).allowed;
+  }
+
+  explainPermission(
+    resource: string,
+    action: string,
+    attributes?: ResourceAttributes,
+    context?: AccessContext
+  ): AccessDecision {
+    const user = this.getCurrentUser();
+    if (!user) return { allowed: false, reason: 'You must be signed in' };
+
+    return explainPermission(user, resource, action, attributes, {
+      ...breakGlassService.getAccessContext(user.id),
+      ...context,
     });
   }
 
-  private async simulateMFA(): Promise<void> {
-    // Simulate MFA challenge (assumed handled by OIDC provider)
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        console.log('[MOCK MFA] Multi-factor authentication successful');
-        resolve();
-      }, 200);
+  async startBreakGlass(justification: string, durationMinutes: number): Promise<BreakGlassGrant> {
+    const user = this.getCurrentUser();
+    if (!user) {
+      throw new FOIError('You must be signed in', 'AUTH_REQUIRED', 401);
+    }
+
+    const grant = breakGlassService.start(user, justification, durationMinutes);
+    await auditService.log({
+      userId: user.id,
+      action: 'breakglass.start',
+      resourceType: 'breakglass',
+      resourceId: grant.id,
+      details: {
+        justification: grant.justification,
+        role: user.role,
+        department: user.department,
+        expiresAt: grant.expiresAt.toISOString(),
+      },
     });
+    return grant;
   }
 
-  private generateMockJWT(user: User): string {
-    const header = btoa(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
-    const payload = btoa(JSON.stringify({
-      sub: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      department: user.department,
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 3600,
-      iss: 'foi-redaction-tool',
-      aud: 'foi-redaction-tool'
-    }));
-    const signature = 'mock-signature-' + Math.random().toString(36).substr(2, 9);
-    
-    return `${header}.${payload}.${signature}`;
+  // An expired grant needs no event; its window is in the start event. The
+  // grant ends before anything is awaited, so a caller clearing the tab
+  // need not wait for the event.
+  async endBreakGlass(reason: 'ended' | 'signed out' | 'cleared' = 'ended'): Promise<void> {
+    const user = this.getCurrentUser();
+    const grant = user && breakGlassService.getActiveGrant(user.id);
+    if (!user || !grant) return;
+
+    breakGlassService.end();
+    await auditService.log({
+      userId: user.id,
+      action: 'breakglass.end',
+      resourceType: 'breakglass',
+      resourceId: grant.id,
+      details: { breakGlassId: grant.id, reason },
+    });
   }
 
-  private generateMockRefreshToken(): string {
-    return 'refresh-' + Math.random().toString(36).substr(2, 32);
+  // A supervisor's sign-off once the window has closed. getBreakGlassReviews
+  // ignores acknowledgements that break these rules as well.
+  async acknowledgeBreakGlass(review: BreakGlassReview, comment?: string): Promise<void> {
+    const user = this.getCurrentUser();
+    if (!user) {
+      throw new FOIError('You must be signed in', 'AUTH_REQUIRED', 401);
+    }
+    if (!canAcknowledgeBreakGlass(user.role)) {
+      throw new FOIError('Your role cannot review break-glass access', 'BREAK_GLASS_NOT_PERMITTED', 403);
+    }
+    if (review.userId === user.id) {
+      throw new FOIError('Another supervisor must review your own break-glass access', 'BREAK_GLASS_SELF_REVIEW', 403);
+    }
+    if (!isAwaitingAcknowledgement(review)) {
+      throw new FOIError(
+        review.acknowledgement ? 'This break-glass access has already been reviewed' : 'This break-glass access has not ended',
+        'BREAK_GLASS_NOT_REVIEWABLE',
+        409,
+        { grantId: review.grantId }
+      );
+    }
+
+    const note = comment?.trim();
+    await auditService.log({
+      userId: user.id,
+      action: 'breakglass.acknowledge',
+      resourceType: 'breakglass',
+      resourceId: review.grantId,
+      details: {
+        grantedTo: review.userId,
+        actionCount: review.actions.length,
+        ...(note && { comment: note }),
+      },
+    });
   }
 
-  // Mock SAML response handler
-  async handleSAMLResponse(_samlResponse: string): Promise<User> {
-    // In a real implementation, this would validate the SAML response
-    console.log('[MOCK SAML] Processing SAML response');
-    
-    // Extract user info from SAML response (mocked)
-    const mockEmail = 'redactor@foi.gov.au'; // Would be extracted from SAML
-    return this.login(mockEmail, 'mock-password');
+  private async unlockSession(user: User): Promise<void> {
+    await auditService.log({
+      userId: user.id,
+      action: 'session.unlock',
+      resourceType: 'session',
+      resourceId: user.id,
+      details: {},
+    });
+    sessionManager.unlock();
+  }
+
+  private startOidcSession({ tokens, claims }: OidcSession): Promise<User> {
+    return this.startSession(claimsToUser(claims, oidcClient.config), tokens, claims);
+  }
+
+  private async startSession(user: User, tokens: AuthTokens, claims: IdTokenClaims | null): Promise<User> {
+    sessionManager.start({ user, tokens, claims });
+
+    // Audit log
+    await auditService.log({
+      userId: user.id,
+      action: 'auth.login',
+      resourceType: 'auth',
+      resourceId: user.id,
+      details: { email: user.email, role: user.role },
+    });
+
+    return user;
+  }
+
+  // The IdP posts its response to the ACS URL, which the backend serves: a
+  // static app cannot read a form POST, so the backend receives it and hands
+  // the SAMLResponse over to be passed here. A SAML session carries no OAuth
+  // tokens: there is nothing to refresh, and it lasts until the IdP's
+  // SessionNotOnOrAfter
+  async handleSAMLResponse(samlResponse: string): Promise<User> {
+    try {
+      const { user, assertion } = await samlService.validateResponse(samlResponse);
+      const expiresAt = new Date(assertion.sessionNotOnOrAfter ?? Date.now() + this.SAML_SESSION_LIFETIME);
+      return await this.startSession(user, { accessToken: '', refreshToken: '', expiresAt }, null);
+    } catch (error) {
+      throw new FOIError(
+        'Authentication failed',
+        'AUTH_FAILED',
+        401,
+        { originalError: error }
+      );
+    }
   }
 }
 
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BreakGlassGrant, FOIError, User } from '@/types';
+import { canRequestBreakGlass } from '@/utils/permissions';
+import { AccessContext } from '@/utils/policy';
+
+type BreakGlassListener = (grant: BreakGlassGrant | null) => void;
+
+// Break-glass (emergency) access. A user gives a justification and, for a
+// fixed window, the access policy adds BREAK_GLASS_PERMISSIONS to their role
+// and lifts department scoping. auditService tags every event recorded while
+// the grant lasts with its ID, and a supervisor acknowledges it afterwards
+// (see BreakGlassReviewPanel). The grant is kept in sessionStorage so it
+// survives a reload but not the tab.
+class BreakGlassService {
+  private readonly STORAGE_KEY = 'foi_break_glass';
+  private readonly MIN_JUSTIFICATION_LENGTH = 20;
+  readonly DURATIONS = [15, 30, 60]; // Minutes a user may choose from
+  private grant: BreakGlassGrant | null = this.loadGrant();
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<BreakGlassListener>();
+
+  constructor() {
+    this.scheduleExpiry();
+  }
+
+  // The grant, if it belongs to this user and has not expired
+  getActiveGrant(userId: string): BreakGlassGrant | null {
+    if (!this.grant || this.grant.userId !== userId || Date.now() >= this.grant.expiresAt.getTime()) {
+      return null;
+    }
+    return this.grant;
+  }
+
+  // Passed to the access policy as the request's context
+  getAccessContext(userId: string): AccessContext {
+    const grant = this.getActiveGrant(userId);
+    return grant ? { breakGlass: grant.id } : {};
+  }
+
+  start(user: User, justification: string, durationMinutes: number): BreakGlassGrant {
+    if (!canRequestBreakGlass(user.role)) {
+      throw new FOIError('Your role cannot use break-glass access', 'BREAK_GLASS_NOT_PERMITTED', 403);
+    }
+    if (this.getActiveGrant(user.id)) {
+      throw new FOIError('Break-glass access is already active', 'BREAK_GLASS_ACTIVE', 409);
+    }
+
+    const reason = justification.trim();
+    if (reason.length < this.MIN_JUSTIFICATION_LENGTH) {
+      throw new FOIError(
+        `Explain why break-glass access is needed (at least ${this.MIN_JUSTIFICATION_LENGTH} characters)`,
+        'BREAK_GLASS_JUSTIFICATION_REQUIRED',
+        400
+      );
+    }
+    if (!this.DURATIONS.includes(durationMinutes)) {
+      throw new FOIError(
+        `Break-glass access lasts ${this.DURATIONS.join(', ')} minutes`,
+        'BREAK_GLASS_INVALID_DURATION',
+        400,
+        { durationMinutes }
+      );
+    }
+
+    const startedAt = new Date();
+    this.setGrant({
+      id: uuidv4(),
+      userId: user.id,
+      justification: reason,
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + durationMinutes * 60 * 1000),
+    });
+    return this.grant!;
+  }
+
+  // Ends the grant early; returns it so the caller can audit the end
+  end(): BreakGlassGrant | null {
+    const ended = this.grant;
+    this.setGrant(null);
+    return ended;
+  }
+
+  // Called with the new grant, or null when it ends or expires; returns an
+  // unsubscribe function
+  onChange(listener: BreakGlassListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setGrant(grant: BreakGlassGrant | null): void {
+    this.grant = grant;
+    try {
+      if (grant) {
+        sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(grant));
+      } else {
+        sessionStorage.removeItem(this.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('[BREAK GLASS] Could not store the grant:', error);
+    }
+    this.scheduleExpiry();
+    this.listeners.forEach(listener => listener(grant));
+  }
+
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (!this.grant) return;
+
+    const remaining = this.grant.expiresAt.getTime() - Date.now();
+    if (remaining <= 0) {
+      this.setGrant(null);
+      return;
+    }
+    this.expiryTimer = setTimeout(() => {
+      console.log('[BREAK GLASS] Access expired:', this.grant?.id);
+      this.setGrant(null);
+    }, remaining);
+  }
+
+  private loadGrant(): BreakGlassGrant | null {
+    try {
+      const stored = sessionStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return null;
+
+      const grant = JSON.parse(stored);
+      return { ...grant, startedAt: new Date(grant.startedAt), expiresAt: new Date(grant.expiresAt) };
+    } catch (error) {
+      console.warn('[BREAK GLASS] Stored grant is unreadable:', error);
+      return null;
+    }
+  }
+}
+
+export const breakGlassService = new BreakGlassService();
+
+// Export class for testing
+export { BreakGlassService };
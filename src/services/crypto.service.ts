@@ -0,0 +1,190 @@
+import { FOIError } from '@/types';
+import {
+  CryptoTask,
+  CryptoWorkerResponse,
+  EncryptedChunk,
+  runCryptoTask,
+} from '@/utils/crypto';
+
+export interface CryptoTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0 to 1
+}
+
+interface PendingTask {
+  task: CryptoTask;
+  signal?: AbortSignal;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+  cleanup: () => void;
+}
+
+// Runs hashing and encryption in a dedicated worker so large documents do
+// not block the UI. Falls back to the main thread where workers are not
+// available (older browsers, tests) or the worker cannot start (blocked by
+// the CSP, its chunk missing or failing to load).
+class CryptoService {
+  private worker: Worker | null = null;
+  private workerUnavailable = false;
+  private nextTaskId = 1;
+  private pending = new Map<number, PendingTask>();
+
+  hash(data: ArrayBuffer, options?: CryptoTaskOptions): Promise<string> {
+    return this.run({ type: 'hash', data }, options);
+  }
+
+  // aads gives the additional authenticated data for each chunk, by index
+  encryptChunks(
+    key: CryptoKey,
+    data: ArrayBuffer,
+    chunkSize: number,
+    aads: Array<string | undefined>,
+    options?: CryptoTaskOptions
+  ): Promise<EncryptedChunk[]> {
+    return this.run({ type: 'encrypt', key, data, chunkSize, aads }, options);
+  }
+
+  decryptChunks(
+    key: CryptoKey,
+    chunks: EncryptedChunk[],
+    options?: CryptoTaskOptions
+  ): Promise<ArrayBuffer> {
+    return this.run({ type: 'decrypt', key, chunks }, options);
+  }
+
+  // Stops the worker, and with it any keys it was handed. Tasks in flight
+  // are rejected; the next task starts a fresh worker.
+  terminate(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.rejectAll(new FOIError('Crypto worker terminated', 'CRYPTO_TERMINATED', 499));
+    console.log('[CRYPTO] Worker terminated');
+  }
+
+  private run<T>(task: CryptoTask, options: CryptoTaskOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      return Promise.reject(this.cancelledError());
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.runHere(task, options) as Promise<T>;
+    }
+
+    const id = this.nextTaskId++;
+    return new Promise<T>((resolve, reject) => {
+      // Rejected straight away; the worker stops at its next chunk boundary
+      const onAbort = () => {
+        worker.postMessage({ id, type: 'cancel' });
+        this.settle(id)?.reject(this.cancelledError());
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        task,
+        signal: options.signal,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress: options.onProgress,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      });
+      worker.postMessage({ ...task, id });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) {
+      return this.worker;
+    }
+    if (typeof Worker === 'undefined') {
+      this.workerUnavailable = true;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('../workers/crypto.worker.ts', import.meta.url), { type: 'module' });
+      let started = false; // Set by the first message from the worker
+      worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+        started = true;
+        this.handleMessage(event.data);
+      };
+      worker.onerror = event => {
+        console.error('[CRYPTO] Worker failed:', event.message);
+        event.preventDefault();
+        if (started) {
+          this.terminate();
+        } else {
+          // Every later worker would fail to start the same way
+          this.fallBackToMainThread();
+        }
+      };
+      this.worker = worker;
+    } catch (error) {
+      console.warn('[CRYPTO] Worker unavailable, running on the main thread:', error);
+      this.workerUnavailable = true;
+    }
+    return this.worker;
+  }
+
+  private runHere(task: CryptoTask, options: CryptoTaskOptions): Promise<unknown> {
+    return runCryptoTask(task, {
+      onProgress: options.onProgress,
+      isCancelled: () => options.signal?.aborted ?? false,
+    });
+  }
+
+  // Tasks already handed to the worker run again here
+  private fallBackToMainThread(): void {
+    console.warn('[CRYPTO] Worker could not start, running on the main thread');
+    this.workerUnavailable = true;
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const id of Array.from(this.pending.keys())) {
+      const pending = this.settle(id);
+      if (!pending) continue;
+      this.runHere(pending.task, { signal: pending.signal, onProgress: pending.onProgress })
+        .then(pending.resolve, pending.reject);
+    }
+  }
+
+  private handleMessage(message: CryptoWorkerResponse): void {
+    if (message.type === 'progress') {
+      this.pending.get(message.id)?.onProgress?.(message.progress);
+      return;
+    }
+
+    const task = this.settle(message.id);
+    if (!task) return; // Cancelled or terminated
+
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new FOIError(message.message, message.code, message.code === 'CRYPTO_CANCELLED' ? 499 : 500));
+    }
+  }
+
+  private settle(id: number): PendingTask | undefined {
+    const task = this.pending.get(id);
+    if (task) {
+      this.pending.delete(id);
+      task.cleanup();
+    }
+    return task;
+  }
+
+  private rejectAll(error: FOIError): void {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private cancelledError(): FOIError {
+    return new FOIError('Operation cancelled', 'CRYPTO_CANCELLED', 499);
+  }
+}
+
+export const cryptoService = new CryptoService();
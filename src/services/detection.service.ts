@@ -0,0 +1,234 @@
+import { pdfjs } from 'react-pdf';
+import {
+  Document,
+  DocumentType,
+  DocumentVersion,
+  FOIError,
+  ProtectiveMarking,
+  Redaction,
+  RedactionCoordinates,
+} from '@/types';
+import { detectSensitiveData, SensitiveDataMatch } from '@/utils/detection';
+import { convertDocxToHtml } from '@/utils/docx';
+import { detectProtectiveMarking } from '@/utils/markings';
+import { extractDocumentText } from '@/utils/text';
+import { normalizeCoordinates } from '@/utils/redaction';
+import { v4 as uuidv4 } from 'uuid';
+
+interface PositionedText {
+  start: number;
+  end: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ScanOptions {
+  userId: string;
+  minConfidence?: number;
+}
+
+// Sensitive data detector. Extracts the text layer of each page, runs the
+// pattern detectors over it and maps every match back to boxes on the page,
+// producing redactions in the 'suggested' state for a redactor to review.
+class DetectionService {
+  private readonly DEFAULT_MIN_CONFIDENCE = 0.5;
+  private readonly BOX_PADDING = 1; // PDF points around each match
+
+  async scanDocument(
+    document: Document,
+    version: DocumentVersion,
+    options: ScanOptions
+  ): Promise<Redaction[]> {
+    if (document.type !== 'pdf') {
+      throw new FOIError(
+        `Sensitive data detection is not supported for ${document.type.toUpperCase()} documents`,
+        'DETECTION_UNSUPPORTED_TYPE',
+        400,
+        { documentId: document.id, type: document.type }
+      );
+    }
+
+    if (!(version.content instanceof ArrayBuffer)) {
+      throw new FOIError('Document content not available', 'DETECTION_NO_CONTENT', 400);
+    }
+
+    const minConfidence = options.minConfidence ?? this.DEFAULT_MIN_CONFIDENCE;
+    // pdf.js transfers the buffer to its worker, so hand it a copy
+    const source = await pdfjs.getDocument({ data: new Uint8Array(version.content.slice(0)) }).promise;
+
+    try {
+      const suggestions: Redaction[] = [];
+
+      for (let pageNumber = 1; pageNumber <= source.numPages; pageNumber++) {
+        const page = await source.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+
+        const { text, items } = this.layoutText(textContent.items, viewport.transform);
+        const matches = detectSensitiveData(text, minConfidence);
+
+        for (const match of matches) {
+          for (const coordinates of this.getMatchBoxes(match, items, pageNumber)) {
+            suggestions.push(this.createSuggestion(
+              match,
+              normalizeCoordinates(coordinates, viewport),
+              options.userId
+            ));
+          }
+        }
+
+        page.cleanup();
+      }
+
+      return suggestions;
+    } catch (error) {
+      if (error instanceof FOIError) throw error;
+      throw new FOIError(
+        'Failed to scan document for sensitive data',
+        'DETECTION_FAILED',
+        500,
+        { error }
+      );
+    } finally {
+      await source.destroy();
+    }
+  }
+
+  // The protective marking written on the document, usually in the header
+  // and footer of its pages. PDFs are read from their first and last pages.
+  // Returns null when no marking is found or the content cannot be read.
+  async detectMarking(content: ArrayBuffer, type: DocumentType): Promise<ProtectiveMarking | null> {
+    try {
+      return detectProtectiveMarking(await this.extractMarkingText(content, type));
+    } catch (error) {
+      console.warn('[DETECTION] Could not read document to detect its marking:', error);
+      return null;
+    }
+  }
+
+  private async extractMarkingText(content: ArrayBuffer, type: DocumentType): Promise<string> {
+    if (type === 'doc' || type === 'docx') {
+      const html = await convertDocxToHtml(content);
+      return new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+    }
+
+    if (type !== 'pdf') {
+      return extractDocumentText(content, type);
+    }
+
+    const source = await pdfjs.getDocument({ data: new Uint8Array(content.slice(0)) }).promise;
+    try {
+      const pageNumbers = Array.from(new Set([1, source.numPages]));
+      const pages: string[] = [];
+      for (const pageNumber of pageNumbers) {
+        const page = await source.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        pages.push(this.layoutText(textContent.items, page.getViewport({ scale: 1 }).transform).text);
+        page.cleanup();
+      }
+      return pages.join('\n');
+    } finally {
+      await source.destroy();
+    }
+  }
+
+  // Join the page's text runs into one string, remembering where each run sits
+  private layoutText(
+    rawItems: unknown[],
+    viewportTransform: number[]
+  ): { text: string; items: PositionedText[] } {
+    let text = '';
+    const items: PositionedText[] = [];
+
+    for (const raw of rawItems) {
+      const item = raw as { str?: string; transform?: number[]; width?: number; hasEOL?: boolean };
+      if (typeof item.str !== 'string' || !item.transform) continue;
+
+      const [, , c, d, e, f] = pdfjs.Util.transform(viewportTransform, item.transform);
+      const fontHeight = Math.hypot(c, d);
+
+      items.push({
+        start: text.length,
+        end: text.length + item.str.length,
+        x: e,
+        y: f - fontHeight,
+        width: item.width || 0,
+        height: fontHeight,
+      });
+
+      text += item.str + (item.hasEOL ? '\n' : ' ');
+    }
+
+    return { text, items };
+  }
+
+  // Text runs have no per-character positions, so glyphs are assumed to be
+  // evenly spaced within a run. One box is produced per run the match touches.
+  private getMatchBoxes(
+    match: SensitiveDataMatch,
+    items: PositionedText[],
+    page: number
+  ): RedactionCoordinates[] {
+    const boxes: RedactionCoordinates[] = [];
+
+    for (const item of items) {
+      if (item.end <= match.start || item.start >= match.end || item.end === item.start) continue;
+
+      const charWidth = item.width / (item.end - item.start);
+      const from = Math.max(match.start, item.start) - item.start;
+      const to = Math.min(match.end, item.end) - item.start;
+
+      boxes.push({
+        page,
+        x: item.x + from * charWidth - this.BOX_PADDING,
+        y: item.y - this.BOX_PADDING,
+        width: (to - from) * charWidth + this.BOX_PADDING * 2,
+        height: item.height + this.BOX_PADDING * 2,
+      });
+    }
+
+    return this.mergeLineBoxes(boxes);
+  }
+
+  private mergeLineBoxes(boxes: RedactionCoordinates[]): RedactionCoordinates[] {
+    const merged: RedactionCoordinates[] = [];
+
+    for (const box of boxes) {
+      const previous = merged[merged.length - 1];
+      if (previous && Math.abs(previous.y - box.y) < box.height / 2) {
+        const right = Math.max(previous.x + previous.width, box.x + box.width);
+        const bottom = Math.max(previous.y + previous.height, box.y + box.height);
+        previous.x = Math.min(previous.x, box.x);
+        previous.y = Math.min(previous.y, box.y);
+        previous.width = right - previous.x;
+        previous.height = bottom - previous.y;
+      } else {
+        merged.push({ ...box });
+      }
+    }
+
+    return merged;
+  }
+
+  private createSuggestion(
+    match: SensitiveDataMatch,
+    coordinates: RedactionCoordinates,
+    userId: string
+  ): Redaction {
+    return {
+      id: uuidv4(),
+      type: 'blackout',
+      coordinates,
+      reasonCode: match.reasonCode,
+      createdAt: new Date(),
+      createdBy: userId,
+      status: 'suggested',
+      detectedType: match.type,
+      confidence: match.confidence,
+    };
+  }
+}
+
+export const detectionService = new DetectionService();
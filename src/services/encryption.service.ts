@@ -1,10 +1,200 @@
-import { EncryptionKey, SecureCache, FOIError } from '@/types';
+import {
+  CacheLockStatus,
+  CacheUsage,
+  EncryptionKey,
+  EncryptedEnvelope,
+  SecureCache,
+  SecureCacheChunk,
+  WrappedCacheKey,
+  FOIError,
+  ENCRYPTION_ENVELOPE_VERSION,
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { cryptoService, CryptoTaskOptions } from './crypto.service';
+import { EncryptedChunk, fromBase64, getChunkCount, toBase64 } from '@/utils/crypto';
+import {
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from '@/utils/indexeddb';
+
+// Storage for the encrypted document cache: one entry per document
+// describing it, its encrypted chunks keyed by [documentId, index], and
+// passphrase-wrapped data keys keyed by user ID
+interface DocumentCacheStore {
+  getEntry(documentId: string): Promise<SecureCache | undefined>;
+  getEntries(): Promise<SecureCache[]>;
+  putEntry(entry: SecureCache): Promise<void>;
+  getChunk(documentId: string, index: number): Promise<SecureCacheChunk | undefined>;
+  putChunk(chunk: SecureCacheChunk): Promise<void>;
+  remove(documentId: string): Promise<void>;
+  getKeys(): Promise<WrappedCacheKey[]>;
+  putKey(key: WrappedCacheKey): Promise<void>;
+  deleteKey(userId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Chunks are stored as Blobs, which browsers can keep out of the database
+// file itself, rather than as base64 strings
+interface StoredChunk extends Omit<SecureCacheChunk, 'data'> {
+  data: Blob;
+}
+
+class IndexedDBDocumentCacheStore implements DocumentCacheStore {
+  private readonly DB_NAME = 'foi-cache';
+  private readonly ENTRIES = 'entries';
+  private readonly CHUNKS = 'chunks';
+  private readonly KEYS = 'keys';
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getEntry(documentId: string): Promise<SecureCache | undefined> {
+    const transaction = (await this.open()).transaction(this.ENTRIES, 'readonly');
+    return requestToPromise(transaction.objectStore(this.ENTRIES).get(documentId) as IDBRequest<SecureCache | undefined>);
+  }
+
+  async getEntries(): Promise<SecureCache[]> {
+    const transaction = (await this.open()).transaction(this.ENTRIES, 'readonly');
+    return requestToPromise(transaction.objectStore(this.ENTRIES).getAll() as IDBRequest<SecureCache[]>);
+  }
+
+  async putEntry(entry: SecureCache): Promise<void> {
+    const transaction = (await this.open()).transaction(this.ENTRIES, 'readwrite');
+    transaction.objectStore(this.ENTRIES).put(entry);
+    await transactionDone(transaction);
+  }
+
+  async getChunk(documentId: string, index: number): Promise<SecureCacheChunk | undefined> {
+    const transaction = (await this.open()).transaction(this.CHUNKS, 'readonly');
+    const stored = await requestToPromise(
+      transaction.objectStore(this.CHUNKS).get([documentId, index]) as IDBRequest<StoredChunk | undefined>
+    );
+    return stored && { ...stored, data: await stored.data.arrayBuffer() };
+  }
+
+  async putChunk(chunk: SecureCacheChunk): Promise<void> {
+    const stored: StoredChunk = { ...chunk, data: new Blob([chunk.data]) };
+    const transaction = (await this.open()).transaction(this.CHUNKS, 'readwrite');
+    transaction.objectStore(this.CHUNKS).put(stored);
+    await transactionDone(transaction);
+  }
+
+  async remove(documentId: string): Promise<void> {
+    const transaction = (await this.open()).transaction([this.ENTRIES, this.CHUNKS], 'readwrite');
+    transaction.objectStore(this.ENTRIES).delete(documentId);
+    transaction.objectStore(this.CHUNKS).delete(
+      IDBKeyRange.bound([documentId, 0], [documentId, Number.MAX_SAFE_INTEGER])
+    );
+    await transactionDone(transaction);
+  }
+
+  async getKeys(): Promise<WrappedCacheKey[]> {
+    const transaction = (await this.open()).transaction(this.KEYS, 'readonly');
+    return requestToPromise(transaction.objectStore(this.KEYS).getAll() as IDBRequest<WrappedCacheKey[]>);
+  }
+
+  async putKey(key: WrappedCacheKey): Promise<void> {
+    const transaction = (await this.open()).transaction(this.KEYS, 'readwrite');
+    transaction.objectStore(this.KEYS).put(key);
+    await transactionDone(transaction);
+  }
+
+  async deleteKey(userId: string): Promise<void> {
+    const transaction = (await this.open()).transaction(this.KEYS, 'readwrite');
+    transaction.objectStore(this.KEYS).delete(userId);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction([this.ENTRIES, this.CHUNKS, this.KEYS], 'readwrite');
+    transaction.objectStore(this.ENTRIES).clear();
+    transaction.objectStore(this.CHUNKS).clear();
+    transaction.objectStore(this.KEYS).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(this.DB_NAME, 2, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(this.ENTRIES, { keyPath: 'documentId' });
+          db.createObjectStore(this.CHUNKS, { keyPath: ['documentId', 'index'] });
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore(this.KEYS, { keyPath: 'userId' });
+        }
+      });
+    }
+    return this.db;
+  }
+}
+
+// Used where IndexedDB is unavailable (private browsing in some browsers, tests)
+class MemoryDocumentCacheStore implements DocumentCacheStore {
+  private entries = new Map<string, SecureCache>();
+  private chunks = new Map<string, SecureCacheChunk>();
+  private keys = new Map<string, WrappedCacheKey>();
+
+  async getEntry(documentId: string): Promise<SecureCache | undefined> {
+    return this.entries.get(documentId);
+  }
+
+  async getEntries(): Promise<SecureCache[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async putEntry(entry: SecureCache): Promise<void> {
+    this.entries.set(entry.documentId, entry);
+  }
+
+  async getChunk(documentId: string, index: number): Promise<SecureCacheChunk | undefined> {
+    return this.chunks.get(`${documentId}:${index}`);
+  }
+
+  async putChunk(chunk: SecureCacheChunk): Promise<void> {
+    this.chunks.set(`${chunk.documentId}:${chunk.index}`, chunk);
+  }
+
+  async remove(documentId: string): Promise<void> {
+    this.entries.delete(documentId);
+    for (const key of Array.from(this.chunks.keys())) {
+      if (key.startsWith(`${documentId}:`)) {
+        this.chunks.delete(key);
+      }
+    }
+  }
+
+  async getKeys(): Promise<WrappedCacheKey[]> {
+    return Array.from(this.keys.values());
+  }
+
+  async putKey(key: WrappedCacheKey): Promise<void> {
+    this.keys.set(key.userId, key);
+  }
+
+  async deleteKey(userId: string): Promise<void> {
+    this.keys.delete(userId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.chunks.clear();
+    this.keys.clear();
+  }
+}
 
 class EncryptionService {
   private sessionKey: EncryptionKey | null = null;
-  private readonly CACHE_PREFIX = 'foi_secure_';
+  private readonly LEGACY_CACHE_PREFIX = 'foi_secure_'; // localStorage cache before IndexedDB
   private readonly SESSION_DURATION = 8 * 60 * 60 * 1000; // 8 hours
+  private readonly CHUNK_SIZE = 1024 * 1024; // Plaintext bytes per cache chunk
+  private readonly PBKDF2_ITERATIONS = 600000; // OWASP guidance for PBKDF2-SHA256
+  private readonly MIN_PASSPHRASE_LENGTH = 12;
+  private readonly MAX_UNLOCK_ATTEMPTS = 5;
+  private readonly LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+  private cacheStore: DocumentCacheStore = isIndexedDBAvailable()
+    ? new IndexedDBDocumentCacheStore()
+    : new MemoryDocumentCacheStore();
 
   async initializeSession(): Promise<void> {
     try {
@@ -18,15 +208,17 @@ class EncryptionService {
         ['encrypt', 'decrypt']
       );
 
-      const iv = crypto.getRandomValues(new Uint8Array(12));
       const sessionId = uuidv4();
 
       this.sessionKey = {
         key,
-        iv,
         sessionId,
       };
 
+      // The old localStorage cache reused one IV and cannot be decrypted
+      // with the new key anyway
+      this.removeLegacyCache();
+
       console.log('[ENCRYPTION] Session initialized with key:', sessionId);
     } catch (error) {
       throw new FOIError(
@@ -38,28 +230,38 @@ class EncryptionService {
     }
   }
 
-  async encryptData(data: string | ArrayBuffer): Promise<string> {
+  // Every call uses a fresh random IV, returned in the envelope. When given,
+  // aad is authenticated with the ciphertext, so the envelope only decrypts
+  // in the context it was created for.
+  async encryptData(
+    data: string | ArrayBuffer,
+    aad?: string,
+    options?: CryptoTaskOptions
+  ): Promise<EncryptedEnvelope> {
     if (!this.sessionKey) {
       await this.initializeSession();
     }
 
     try {
-      const encoder = new TextEncoder();
-      const dataBuffer = typeof data === 'string' ? encoder.encode(data) : data;
-      
-      const encrypted = await crypto.subtle.encrypt(
-        {
-          name: 'AES-GCM',
-          iv: new Uint8Array(this.sessionKey!.iv),
-        },
+      const dataBuffer = typeof data === 'string' ? new TextEncoder().encode(data).buffer : data;
+      const [chunk] = await cryptoService.encryptChunks(
         this.sessionKey!.key,
-        dataBuffer
+        dataBuffer,
+        Math.max(1, dataBuffer.byteLength), // The whole buffer as one chunk
+        [aad],
+        options
       );
 
       // Convert to base64 for storage
-      const encryptedArray = new Uint8Array(encrypted);
-      return btoa(String.fromCharCode(...encryptedArray));
+      return {
+        version: ENCRYPTION_ENVELOPE_VERSION,
+        algorithm: 'AES-GCM',
+        iv: toBase64(chunk.iv),
+        ciphertext: toBase64(new Uint8Array(chunk.data)),
+        ...(aad !== undefined && { aad }),
+      };
     } catch (error) {
+      this.rethrowIfCancelled(error);
       throw new FOIError(
         'Failed to encrypt data',
         'ENCRYPTION_FAILED',
@@ -69,7 +271,13 @@ class EncryptionService {
     }
   }
 
-  async decryptData(encryptedData: string): Promise<ArrayBuffer> {
+  // The aad to check defaults to the one recorded in the envelope; callers
+  // that know the expected context should pass it instead
+  async decryptData(
+    envelope: EncryptedEnvelope,
+    aad = envelope.aad,
+    options?: CryptoTaskOptions
+  ): Promise<ArrayBuffer> {
     if (!this.sessionKey) {
       throw new FOIError(
         'No encryption session available',
@@ -78,23 +286,23 @@ class EncryptionService {
       );
     }
 
-    try {
-      // Convert from base64
-      const encryptedArray = new Uint8Array(
-        atob(encryptedData).split('').map(char => char.charCodeAt(0))
+    if (envelope.version !== ENCRYPTION_ENVELOPE_VERSION || envelope.algorithm !== 'AES-GCM') {
+      throw new FOIError(
+        'Unsupported encrypted data format',
+        'ENCRYPTION_UNSUPPORTED_ENVELOPE',
+        400,
+        { version: envelope.version, algorithm: envelope.algorithm }
       );
+    }
 
-      const decrypted = await crypto.subtle.decrypt(
-        {
-          name: 'AES-GCM',
-          iv: new Uint8Array(this.sessionKey.iv),
-        },
+    try {
+      return await cryptoService.decryptChunks(
         this.sessionKey.key,
-        encryptedArray
+        [{ iv: fromBase64(envelope.iv), data: fromBase64(envelope.ciphertext).buffer, aad }],
+        options
       );
-
-      return decrypted;
     } catch (error) {
+      this.rethrowIfCancelled(error);
       throw new FOIError(
         'Failed to decrypt data',
         'DECRYPTION_FAILED',
@@ -104,78 +312,331 @@ class EncryptionService {
     }
   }
 
-  async cacheDocument(documentId: string, data: string | ArrayBuffer): Promise<void> {
+  // Documents are encrypted one chunk at a time, so a large file never has
+  // to exist as a single ciphertext. Each chunk has its own IV and is bound
+  // to its document, position and the chunk count, so chunks cannot be
+  // swapped, reordered or dropped without decryption failing.
+  // metadata, if given, is encrypted with the document so it can be
+  // restored after a reload (see getCachedDocumentMetadata). Progress is
+  // reported as the chunks are encrypted.
+  async cacheDocument(
+    documentId: string,
+    data: string | ArrayBuffer,
+    metadata?: Record<string, unknown>,
+    options?: CryptoTaskOptions
+  ): Promise<void> {
+    if (!this.sessionKey) {
+      await this.initializeSession();
+    }
+
+    const buffer = typeof data === 'string' ? new TextEncoder().encode(data).buffer : data;
+    const chunkCount = getChunkCount(buffer.byteLength, this.CHUNK_SIZE);
+
     try {
-      const encryptedData = await this.encryptData(data);
-      const iv = btoa(String.fromCharCode(...this.sessionKey!.iv));
-      
-      const cache: SecureCache = {
+      // Replace any earlier copy; the entry is written last, so a document
+      // only counts as cached once all of its chunks are stored
+      await this.cacheStore.remove(documentId);
+
+      const chunks = await cryptoService.encryptChunks(
+        this.sessionKey!.key,
+        buffer,
+        this.CHUNK_SIZE,
+        Array.from({ length: chunkCount }, (_, index) => this.getChunkAad(documentId, index, chunkCount)),
+        options
+      );
+
+      let storedBytes = 0;
+      for (const [index, chunk] of chunks.entries()) {
+        await this.cacheStore.putChunk({ documentId, index, iv: toBase64(chunk.iv), data: chunk.data });
+        storedBytes += chunk.data.byteLength;
+      }
+
+      await this.cacheStore.putEntry({
         documentId,
-        encryptedData,
-        iv,
+        keyId: this.sessionKey!.sessionId,
+        ...(metadata && {
+          metadata: await this.encryptData(JSON.stringify(metadata), `${documentId}:metadata`),
+        }),
+        version: ENCRYPTION_ENVELOPE_VERSION,
+        algorithm: 'AES-GCM',
+        size: buffer.byteLength,
+        storedBytes,
+        chunkSize: this.CHUNK_SIZE,
+        chunkCount,
         timestamp: new Date(),
         expiresAt: new Date(Date.now() + this.SESSION_DURATION),
-      };
-
-      localStorage.setItem(
-        `${this.CACHE_PREFIX}${documentId}`,
-        JSON.stringify(cache)
-      );
+      });
 
       console.log('[ENCRYPTION] Document cached securely:', documentId);
     } catch (error) {
+      await this.cacheStore.remove(documentId).catch(() => undefined);
+      this.rethrowIfCancelled(error);
+
+      const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
       throw new FOIError(
-        'Failed to cache document',
-        'CACHE_FAILED',
-        500,
+        quotaExceeded ? 'Not enough storage space to cache document' : 'Failed to cache document',
+        quotaExceeded ? 'CACHE_QUOTA_EXCEEDED' : 'CACHE_FAILED',
+        quotaExceeded ? 507 : 500,
         { documentId, error }
       );
     }
   }
 
-  async getCachedDocument(documentId: string): Promise<ArrayBuffer | null> {
+  // A cancelled read rejects with CRYPTO_CANCELLED and leaves the entry in place
+  async getCachedDocument(documentId: string, options?: CryptoTaskOptions): Promise<ArrayBuffer | null> {
     try {
-      const cacheData = localStorage.getItem(`${this.CACHE_PREFIX}${documentId}`);
-      if (!cacheData) {
+      const cache = await this.cacheStore.getEntry(documentId);
+      if (!cache) {
         return null;
       }
 
-      const cache: SecureCache = JSON.parse(cacheData);
-      
       // Check if cache has expired
       if (new Date() > new Date(cache.expiresAt)) {
-        this.removeCachedDocument(documentId);
+        await this.removeCachedDocument(documentId);
         return null;
       }
 
-      return await this.decryptData(cache.encryptedData);
+      // Encrypted under another key. A passphrase-protected key can still be
+      // unlocked, so keep the entry; a lost session key never comes back.
+      if (!this.sessionKey || cache.keyId !== this.sessionKey.sessionId) {
+        if (!(await this.isWrappedKey(cache.keyId))) {
+          await this.removeCachedDocument(documentId);
+        }
+        return null;
+      }
+      if (cache.version !== ENCRYPTION_ENVELOPE_VERSION || cache.algorithm !== 'AES-GCM') {
+        throw new FOIError('Unsupported encrypted data format', 'ENCRYPTION_UNSUPPORTED_ENVELOPE', 400);
+      }
+
+      const chunks: EncryptedChunk[] = [];
+      for (let index = 0; index < cache.chunkCount; index++) {
+        const chunk = await this.cacheStore.getChunk(documentId, index);
+        if (!chunk) {
+          throw new FOIError('Cached document is incomplete', 'CACHE_CHUNK_MISSING', 500, { documentId, index });
+        }
+        chunks.push({
+          iv: fromBase64(chunk.iv),
+          data: chunk.data,
+          aad: this.getChunkAad(documentId, index, cache.chunkCount),
+        });
+      }
+
+      return await cryptoService.decryptChunks(this.sessionKey.key, chunks, options);
     } catch (error) {
+      this.rethrowIfCancelled(error);
       console.error('[ENCRYPTION] Failed to retrieve cached document:', error);
-      this.removeCachedDocument(documentId);
+      await this.removeCachedDocument(documentId);
       return null;
     }
   }
 
-  removeCachedDocument(documentId: string): void {
-    localStorage.removeItem(`${this.CACHE_PREFIX}${documentId}`);
-    console.log('[ENCRYPTION] Cached document removed:', documentId);
+  async getCachedDocumentMetadata(documentId: string): Promise<Record<string, unknown> | null> {
+    const cache = await this.cacheStore.getEntry(documentId);
+    if (!cache?.metadata || cache.keyId !== this.sessionKey?.sessionId) {
+      return null;
+    }
+
+    try {
+      const json = await this.decryptData(cache.metadata, `${documentId}:metadata`);
+      return JSON.parse(new TextDecoder().decode(json));
+    } catch (error) {
+      console.error('[ENCRYPTION] Failed to read cached document metadata:', error);
+      return null;
+    }
+  }
+
+  // Replace the metadata of a document cached under the current key, e.g.
+  // after it is re-marked. The document's chunks are left as they are.
+  async updateCachedDocumentMetadata(documentId: string, metadata: Record<string, unknown>): Promise<boolean> {
+    const cache = await this.cacheStore.getEntry(documentId);
+    if (!cache || cache.keyId !== this.sessionKey?.sessionId) {
+      return false;
+    }
+
+    await this.cacheStore.putEntry({
+      ...cache,
+      metadata: await this.encryptData(JSON.stringify(metadata), `${documentId}:metadata`),
+    });
+    return true;
+  }
+
+  async removeCachedDocument(documentId: string): Promise<void> {
+    try {
+      await this.cacheStore.remove(documentId);
+      console.log('[ENCRYPTION] Cached document removed:', documentId);
+    } catch (error) {
+      console.error('[ENCRYPTION] Failed to remove cached document:', error);
+    }
+  }
+
+  async getCachedDocumentIds(): Promise<string[]> {
+    const entries = await this.cacheStore.getEntries();
+    return entries.map(entry => entry.documentId);
+  }
+
+  // Space used by the cache, and origin-wide usage and quota where the
+  // browser reports them
+  async getCacheUsage(): Promise<CacheUsage> {
+    const entries = await this.cacheStore.getEntries();
+    const usage: CacheUsage = {
+      documentCount: entries.length,
+      cachedBytes: entries.reduce((total, entry) => total + entry.storedBytes, 0),
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      try {
+        const estimate = await navigator.storage.estimate();
+        usage.usage = estimate.usage;
+        usage.quota = estimate.quota;
+      } catch (error) {
+        console.warn('[ENCRYPTION] Storage estimate unavailable:', error);
+      }
+    }
+
+    return usage;
+  }
+
+  // Passphrase protection. The cache is normally encrypted with a session key
+  // that is lost on reload. With a passphrase, a data key is generated once,
+  // wrapped (AES-KW) with a key stretched from the passphrase by PBKDF2 and
+  // stored beside the cache, so entries can be decrypted again after unlock.
+
+  async getCacheLockStatus(userId: string): Promise<CacheLockStatus> {
+    const record = await this.getWrappedKey(userId);
+    if (!record) {
+      return { enabled: false, unlocked: false, failedAttempts: 0 };
+    }
+
+    return {
+      enabled: true,
+      unlocked: this.sessionKey?.sessionId === record.keyId,
+      failedAttempts: record.failedAttempts,
+      lockedUntil: this.getLockedUntil(record),
+    };
+  }
+
+  async enableCachePassphrase(userId: string, passphrase: string): Promise<void> {
+    if (passphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      throw new FOIError(
+        `Passphrase must be at least ${this.MIN_PASSPHRASE_LENGTH} characters`,
+        'CACHE_PASSPHRASE_TOO_SHORT',
+        400
+      );
+    }
+
+    try {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const wrappingKey = await this.deriveWrappingKey(passphrase, salt, this.PBKDF2_ITERATIONS);
+
+      // Extractable only long enough to be wrapped; the key kept in memory
+      // is the non-extractable unwrapped copy
+      const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+      const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW');
+      const key = await this.unwrapDataKey(wrappedKey, wrappingKey);
+
+      const record: WrappedCacheKey = {
+        userId,
+        keyId: uuidv4(),
+        salt: toBase64(salt),
+        iterations: this.PBKDF2_ITERATIONS,
+        wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+        failedAttempts: 0,
+        createdAt: new Date(),
+      };
+
+      const previousKey = this.sessionKey;
+      await this.cacheStore.putKey(record);
+      this.sessionKey = { key, sessionId: record.keyId };
+      await this.reencryptCache(previousKey);
+
+      console.log('[ENCRYPTION] Cache passphrase enabled');
+    } catch (error) {
+      throw new FOIError(
+        'Failed to protect the cache with a passphrase',
+        'CACHE_PASSPHRASE_SETUP_FAILED',
+        500,
+        { error }
+      );
+    }
+  }
+
+  // Repeated wrong passphrases lock the cache for LOCKOUT_DURATION. The
+  // attempt count is stored with the wrapped key, so reloading does not
+  // reset it.
+  async unlockCache(userId: string, passphrase: string): Promise<void> {
+    const record = await this.getWrappedKey(userId);
+    if (!record) {
+      throw new FOIError('Cache is not passphrase protected', 'CACHE_PASSPHRASE_NOT_SET', 400);
+    }
+
+    const lockedUntil = this.getLockedUntil(record);
+    if (lockedUntil) {
+      throw new FOIError('Too many incorrect passphrases', 'CACHE_LOCKED_OUT', 423, { lockedUntil });
+    }
+
+    let key: CryptoKey;
+    try {
+      const wrappingKey = await this.deriveWrappingKey(passphrase, fromBase64(record.salt), record.iterations);
+      key = await this.unwrapDataKey(fromBase64(record.wrappedKey), wrappingKey);
+    } catch {
+      // AES-KW's integrity check fails when the wrapping key is wrong
+      const failedAttempts = record.failedAttempts + 1;
+      const lockedOut = failedAttempts >= this.MAX_UNLOCK_ATTEMPTS;
+      const updated: WrappedCacheKey = {
+        ...record,
+        failedAttempts: lockedOut ? 0 : failedAttempts,
+        lockedUntil: lockedOut ? new Date(Date.now() + this.LOCKOUT_DURATION) : undefined,
+      };
+      await this.cacheStore.putKey(updated);
+
+      if (lockedOut) {
+        throw new FOIError('Too many incorrect passphrases', 'CACHE_LOCKED_OUT', 423, {
+          lockedUntil: updated.lockedUntil,
+          failedAttempts,
+          triggered: true,
+        });
+      }
+      throw new FOIError('Incorrect passphrase', 'CACHE_PASSPHRASE_INCORRECT', 401, {
+        failedAttempts,
+        attemptsRemaining: this.MAX_UNLOCK_ATTEMPTS - failedAttempts,
+      });
+    }
+
+    await this.cacheStore.putKey({ ...record, failedAttempts: 0, lockedUntil: undefined });
+    this.sessionKey = { key, sessionId: record.keyId };
+    console.log('[ENCRYPTION] Cache unlocked');
+  }
+
+  // Without the wrapped key the protected entries are unreadable, so they go too
+  async disableCachePassphrase(userId: string): Promise<void> {
+    const record = await this.getWrappedKey(userId);
+    if (!record) return;
+
+    for (const entry of await this.cacheStore.getEntries()) {
+      if (entry.keyId === record.keyId) {
+        await this.removeCachedDocument(entry.documentId);
+      }
+    }
+    await this.cacheStore.deleteKey(userId);
+
+    if (this.sessionKey?.sessionId === record.keyId) {
+      this.sessionKey = null;
+    }
+    console.log('[ENCRYPTION] Cache passphrase removed');
   }
 
   async panicClear(): Promise<void> {
     try {
       // Clear all cached documents
-      const keys = Object.keys(localStorage);
-      for (const key of keys) {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          localStorage.removeItem(key);
-        }
-      }
+      await this.cacheStore.clear();
+      this.removeLegacyCache();
 
       // Clear session storage
       sessionStorage.clear();
 
-      // Reset session key
+      // Reset session key, and stop the worker along with any key it holds
       this.sessionKey = null;
+      cryptoService.terminate();
 
       // Clear any temporary DOM elements or canvases
       const tempElements = document.querySelectorAll('[data-temp="true"]');
@@ -198,11 +659,89 @@ class EncryptionService {
     }
   }
 
-  getCachedDocumentIds(): string[] {
-    const keys = Object.keys(localStorage);
-    return keys
-      .filter(key => key.startsWith(this.CACHE_PREFIX))
-      .map(key => key.replace(this.CACHE_PREFIX, ''));
+  private removeLegacyCache(): void {
+    for (const key of Object.keys(localStorage)) {
+      if (key.startsWith(this.LEGACY_CACHE_PREFIX)) {
+        localStorage.removeItem(key);
+      }
+    }
+  }
+
+  private async getWrappedKey(userId: string): Promise<WrappedCacheKey | undefined> {
+    const keys = await this.cacheStore.getKeys();
+    return keys.find(key => key.userId === userId);
+  }
+
+  private async isWrappedKey(keyId: string | undefined): Promise<boolean> {
+    const keys = await this.cacheStore.getKeys();
+    return keys.some(key => key.keyId === keyId);
+  }
+
+  private getLockedUntil(record: WrappedCacheKey): Date | undefined {
+    return record.lockedUntil && new Date(record.lockedUntil) > new Date()
+      ? new Date(record.lockedUntil)
+      : undefined;
+  }
+
+  private async deriveWrappingKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private unwrapDataKey(wrappedKey: BufferSource, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'raw',
+      wrappedKey,
+      wrappingKey,
+      'AES-KW',
+      'AES-GCM',
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  // Move documents cached under the previous session key to the current key,
+  // one document at a time
+  private async reencryptCache(previousKey: EncryptionKey | null): Promise<void> {
+    if (!previousKey) return;
+
+    const currentKey = this.sessionKey;
+    for (const entry of await this.cacheStore.getEntries()) {
+      if (entry.keyId !== previousKey.sessionId) continue;
+
+      this.sessionKey = previousKey;
+      const content = await this.getCachedDocument(entry.documentId);
+      const metadata = await this.getCachedDocumentMetadata(entry.documentId);
+      this.sessionKey = currentKey;
+
+      if (content) {
+        await this.cacheDocument(entry.documentId, content, metadata ?? undefined);
+      } else {
+        await this.removeCachedDocument(entry.documentId);
+      }
+    }
+  }
+
+  private getChunkAad(documentId: string, index: number, chunkCount: number): string {
+    return `${documentId}:${index}/${chunkCount}`;
+  }
+
+  private rethrowIfCancelled(error: unknown): void {
+    if (error instanceof FOIError && (error.code === 'CRYPTO_CANCELLED' || error.code === 'CRYPTO_TERMINATED')) {
+      throw error;
+    }
   }
 
   getSessionInfo(): { sessionId: string | null; hasKey: boolean } {
@@ -213,14 +752,12 @@ class EncryptionService {
   }
 
   // Generate hash for document integrity
-  async generateHash(data: ArrayBuffer): Promise<string> {
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = new Uint8Array(hashBuffer);
-    return btoa(String.fromCharCode(...hashArray));
+  async generateHash(data: ArrayBuffer, options?: CryptoTaskOptions): Promise<string> {
+    return cryptoService.hash(data, options);
   }
 
-  async verifyHash(data: ArrayBuffer, expectedHash: string): Promise<boolean> {
-    const actualHash = await this.generateHash(data);
+  async verifyHash(data: ArrayBuffer, expectedHash: string, options?: CryptoTaskOptions): Promise<boolean> {
+    const actualHash = await this.generateHash(data, options);
     return actualHash === expectedHash;
   }
 }
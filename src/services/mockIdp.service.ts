@@ -0,0 +1,366 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FOIError, ManagedUser, NewUser, SecurityClearance, UserChanges } from '@/types';
+import {
+  IdTokenClaims,
+  MOCK_IDP_ISSUER,
+  OidcProviderMetadata,
+  OidcTokenResponse,
+  base64UrlEncode,
+  base64UrlEncodeJson,
+  createCodeChallenge,
+  generateRandomString,
+  mapRoleValues,
+  parseRoleMap,
+} from '@/utils/oidc';
+import type { OidcTransport } from './oidc.service';
+import type { UserDirectory } from './userAdmin.service';
+
+interface MockIdpAccount {
+  sub: string;
+  email: string;
+  name: string;
+  department: string;
+  roles: string[];
+  clearance?: SecurityClearance;
+  disabled?: boolean;
+  createdAt?: string; // ISO 8601
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  scope: string;
+  sub: string;
+  expiresAt: number;
+}
+
+interface RefreshGrant {
+  clientId: string;
+  scope: string;
+  sub: string;
+}
+
+// A local stand-in for an OpenID provider, used when no VITE_OIDC_ISSUER is
+// configured so development, Vitest and Playwright run without a network.
+// It signs real RS256 tokens with a key generated per page load and
+// enforces PKCE, single-use codes and refresh token rotation, so the client
+// is exercised exactly as against a real provider. It also serves as the
+// user store behind the administration page, kept in localStorage so
+// accounts survive the reload on sign-out. Not for production use.
+class MockIdentityProvider implements OidcTransport, UserDirectory {
+  private readonly ISSUER = MOCK_IDP_ISSUER;
+  private readonly KEY_ID = 'mock-idp-1';
+  private readonly PASSWORD = 'password'; // Shared by every demo account
+  private readonly CODE_TTL = 60 * 1000; // 1 minute
+  private readonly TOKEN_LIFETIME = 3600; // seconds
+  private readonly STORAGE_KEY = 'foi_mock_idp_accounts';
+  private readonly DEFAULT_ACCOUNTS: MockIdpAccount[] = [
+    {
+      sub: '1',
+      email: 'viewer@foi.gov.au',
+      name: 'Jane Viewer',
+      roles: ['viewer'],
+      department: 'Department of Prime Minister and Cabinet'
+    },
+    {
+      sub: '2',
+      email: 'redactor@foi.gov.au',
+      name: 'John Redactor',
+      roles: ['redactor'],
+      department: 'Department of Home Affairs',
+      clearance: 'baseline'
+    },
+    {
+      sub: '3',
+      email: 'approver@foi.gov.au',
+      name: 'Sarah Approver',
+      roles: ['approver'],
+      department: 'Attorney-General\'s Department',
+      clearance: 'nv1'
+    },
+    {
+      sub: '4',
+      email: 'admin@foi.gov.au',
+      name: 'Alex Admin',
+      roles: ['admin'],
+      department: 'Attorney-General\'s Department',
+      clearance: 'baseline'
+    }
+  ];
+  private accounts: MockIdpAccount[] = this.loadAccounts();
+  private keyPair: Promise<CryptoKeyPair> | null = null;
+  private codes = new Map<string, AuthorizationCode>();
+  private refreshTokens = new Map<string, RefreshGrant>();
+
+  async getJson<T>(url: string): Promise<T> {
+    switch (this.getPath(url)) {
+      case '/.well-known/openid-configuration':
+        return this.getMetadata() as T;
+      case '/jwks': {
+        const { publicKey } = await this.getKeyPair();
+        const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+        return { keys: [{ kty: jwk.kty, n: jwk.n, e: jwk.e, kid: this.KEY_ID, use: 'sig', alg: 'RS256' }] } as T;
+      }
+      default:
+        throw new FOIError('Not found', 'OIDC_REQUEST_FAILED', 404, { url });
+    }
+  }
+
+  async postForm<T>(url: string, params: Record<string, string>): Promise<T> {
+    if (this.getPath(url) !== '/token') {
+      throw new FOIError('Not found', 'OIDC_REQUEST_FAILED', 404, { url });
+    }
+
+    switch (params.grant_type) {
+      case 'authorization_code':
+        return this.exchangeCode(params) as Promise<T>;
+      case 'refresh_token':
+        return this.refresh(params) as Promise<T>;
+      default:
+        throw this.tokenError('unsupported_grant_type', 'Grant type is not supported');
+    }
+  }
+
+  // Stands in for the provider's sign-in page: checks the credentials and
+  // returns the redirect back to the client, carrying the code or an error
+  async authorize(authorizationUrl: string, email: string, password: string): Promise<string> {
+    const params = new URL(authorizationUrl).searchParams;
+    const redirectUri = params.get('redirect_uri');
+    if (!redirectUri) {
+      throw new FOIError('Missing redirect_uri', 'OIDC_AUTHORIZATION_ERROR', 400);
+    }
+
+    const redirect = new URL(redirectUri);
+    const state = params.get('state');
+    if (state) redirect.searchParams.set('state', state);
+
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      redirect.searchParams.set('error', 'invalid_request');
+      redirect.searchParams.set('error_description', 'Authorization code with S256 PKCE is required');
+      return redirect.toString();
+    }
+
+    const account = this.accounts.find(a => a.email === email.trim().toLowerCase());
+    if (!account || password !== this.PASSWORD) {
+      throw new FOIError('Invalid credentials', 'AUTH_INVALID_CREDENTIALS', 401);
+    }
+    if (account.disabled) {
+      throw new FOIError('This account has been disabled', 'AUTH_ACCOUNT_DISABLED', 403);
+    }
+
+    const code = generateRandomString();
+    this.codes.set(code, {
+      clientId: params.get('client_id') ?? '',
+      redirectUri,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce') ?? undefined,
+      scope: params.get('scope') ?? 'openid',
+      sub: account.sub,
+      expiresAt: Date.now() + this.CODE_TTL,
+    });
+
+    console.log(`[MOCK IDP] ${account.email} signed in`);
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
+  async listUsers(): Promise<ManagedUser[]> {
+    return this.accounts.map(account => this.toManagedUser(account));
+  }
+
+  async createUser(user: NewUser): Promise<ManagedUser> {
+    const email = user.email.trim().toLowerCase();
+    if (this.accounts.some(a => a.email === email)) {
+      throw new FOIError('A user with this email address already exists', 'USER_EXISTS', 409, { email });
+    }
+
+    const account: MockIdpAccount = {
+      sub: uuidv4(),
+      email,
+      name: user.name,
+      department: user.department || '',
+      roles: [user.role],
+      ...(user.clearance && { clearance: user.clearance }),
+      createdAt: new Date().toISOString(),
+    };
+    this.accounts.push(account);
+    this.saveAccounts();
+    return this.toManagedUser(account);
+  }
+
+  // Role changes reach the user's session with its next token refresh;
+  // disabling an account stops its refreshes
+  async updateUser(id: string, changes: UserChanges): Promise<ManagedUser> {
+    const account = this.accounts.find(a => a.sub === id);
+    if (!account) {
+      throw new FOIError('User not found', 'USER_NOT_FOUND', 404, { userId: id });
+    }
+
+    if (changes.name !== undefined) account.name = changes.name;
+    if (changes.role !== undefined) account.roles = [changes.role];
+    if (changes.department !== undefined) account.department = changes.department;
+    if (changes.clearance !== undefined) account.clearance = changes.clearance ?? undefined;
+    if (changes.disabled !== undefined) account.disabled = changes.disabled;
+    this.saveAccounts();
+    return this.toManagedUser(account);
+  }
+
+  private toManagedUser(account: MockIdpAccount): ManagedUser {
+    return {
+      id: account.sub,
+      email: account.email,
+      name: account.name,
+      role: mapRoleValues(account.roles, parseRoleMap(undefined)) ?? 'viewer',
+      ...(account.department && { department: account.department }),
+      ...(account.clearance && { clearance: account.clearance }),
+      disabled: !!account.disabled,
+      createdAt: new Date(account.createdAt ?? 0),
+    };
+  }
+
+  private loadAccounts(): MockIdpAccount[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const accounts: unknown = stored ? JSON.parse(stored) : null;
+      if (Array.isArray(accounts)) return accounts;
+    } catch (error) {
+      console.warn('[MOCK IDP] Stored accounts are unreadable, using the demo accounts:', error);
+    }
+    return this.DEFAULT_ACCOUNTS.map(account => ({ ...account, roles: [...account.roles] }));
+  }
+
+  private saveAccounts(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.accounts));
+    } catch (error) {
+      console.warn('[MOCK IDP] Could not save accounts:', error);
+    }
+  }
+
+  private getMetadata(): OidcProviderMetadata {
+    return {
+      issuer: this.ISSUER,
+      authorization_endpoint: `${this.ISSUER}/authorize`,
+      token_endpoint: `${this.ISSUER}/token`,
+      jwks_uri: `${this.ISSUER}/jwks`,
+      code_challenge_methods_supported: ['S256'],
+    };
+  }
+
+  // Codes are single use, bound to the client and redirect URI, and only
+  // redeemable with the verifier matching the PKCE challenge
+  private async exchangeCode(params: Record<string, string>): Promise<OidcTokenResponse> {
+    const grant = this.codes.get(params.code);
+    this.codes.delete(params.code);
+
+    if (!grant || grant.expiresAt < Date.now()) {
+      throw this.tokenError('invalid_grant', 'Authorization code is invalid or expired');
+    }
+    if (grant.clientId !== params.client_id || grant.redirectUri !== params.redirect_uri) {
+      throw this.tokenError('invalid_grant', 'Authorization code was issued to another client');
+    }
+    if (!params.code_verifier || (await createCodeChallenge(params.code_verifier)) !== grant.codeChallenge) {
+      throw this.tokenError('invalid_grant', 'PKCE verification failed');
+    }
+
+    return this.issueTokens(grant.sub, grant.clientId, grant.scope, grant.nonce);
+  }
+
+  // Refresh tokens rotate: each one can be used once
+  private async refresh(params: Record<string, string>): Promise<OidcTokenResponse> {
+    const grant = this.refreshTokens.get(params.refresh_token);
+    this.refreshTokens.delete(params.refresh_token);
+
+    if (!grant || grant.clientId !== params.client_id) {
+      throw this.tokenError('invalid_grant', 'Refresh token is invalid');
+    }
+    return this.issueTokens(grant.sub, grant.clientId, grant.scope);
+  }
+
+  private async issueTokens(sub: string, clientId: string, scope: string, nonce?: string): Promise<OidcTokenResponse> {
+    const account = this.accounts.find(a => a.sub === sub);
+    if (!account) {
+      throw this.tokenError('invalid_grant', 'Account no longer exists');
+    }
+    if (account.disabled) {
+      throw this.tokenError('invalid_grant', 'Account has been disabled');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idClaims: IdTokenClaims = {
+      iss: this.ISSUER,
+      sub,
+      aud: clientId,
+      iat: now,
+      exp: now + this.TOKEN_LIFETIME,
+      auth_time: now,
+      amr: ['pwd', 'mfa'],
+      ...(nonce && { nonce }),
+      email: account.email,
+      name: account.name,
+      department: account.department,
+      ...(account.clearance && { clearance: account.clearance }),
+      roles: account.roles,
+    };
+
+    const refreshToken = scope.split(' ').includes('offline_access') ? generateRandomString() : undefined;
+    if (refreshToken) {
+      this.refreshTokens.set(refreshToken, { clientId, scope, sub });
+    }
+
+    return {
+      access_token: await this.sign({
+        iss: this.ISSUER,
+        sub,
+        aud: clientId,
+        iat: now,
+        exp: now + this.TOKEN_LIFETIME,
+        jti: generateRandomString(),
+        scope,
+        roles: account.roles,
+      }),
+      token_type: 'Bearer',
+      expires_in: this.TOKEN_LIFETIME,
+      id_token: await this.sign(idClaims),
+      ...(refreshToken && { refresh_token: refreshToken }),
+    };
+  }
+
+  private async sign(claims: Record<string, unknown>): Promise<string> {
+    const { privateKey } = await this.getKeyPair();
+    const signingInput = `${base64UrlEncodeJson({ alg: 'RS256', typ: 'JWT', kid: this.KEY_ID })}.${base64UrlEncodeJson(claims)}`;
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(signingInput));
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  private getKeyPair(): Promise<CryptoKeyPair> {
+    if (!this.keyPair) {
+      this.keyPair = crypto.subtle.generateKey(
+        {
+          name: 'RSASSA-PKCS1-v1_5',
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: 'SHA-256',
+        },
+        true, // The public half is published in the JWKS
+        ['sign', 'verify']
+      );
+      this.keyPair.catch(() => {
+        this.keyPair = null;
+      });
+    }
+    return this.keyPair;
+  }
+
+  private getPath(url: string): string {
+    return url.startsWith(this.ISSUER) ? url.slice(this.ISSUER.length).split('?')[0] : url;
+  }
+
+  private tokenError(error: string, description: string): FOIError {
+    return new FOIError(description, 'OIDC_TOKEN_ERROR', 400, { error });
+  }
+}
+
+export const mockIdentityProvider = new MockIdentityProvider();
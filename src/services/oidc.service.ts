@@ -0,0 +1,288 @@
+import { AuthTokens, FOIError } from '@/types';
+import {
+  IdTokenClaims,
+  OidcConfig,
+  OidcProviderMetadata,
+  OidcTokenResponse,
+  createCodeChallenge,
+  decodeJwt,
+  generateRandomString,
+  getOidcConfig,
+  validateIdTokenClaims,
+} from '@/utils/oidc';
+import { mockIdentityProvider } from './mockIdp.service';
+
+// How the client reaches the identity provider. The bundled mock provider
+// implements the same interface in memory.
+export interface OidcTransport {
+  getJson<T>(url: string): Promise<T>;
+  postForm<T>(url: string, params: Record<string, string>): Promise<T>;
+}
+
+export interface OidcSession {
+  tokens: AuthTokens;
+  claims: IdTokenClaims;
+  reauthenticated?: boolean; // The expected user signed in again, e.g. to unlock
+}
+
+// A sign-in to confirm who is at the keyboard: the provider is asked to
+// prompt for credentials even with a session of its own, and the ID token
+// must be for the given subject
+export interface ReauthenticationOptions {
+  prompt: 'login';
+  subject: string;
+}
+
+interface PendingAuthorization {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  createdAt: number;
+  subject?: string;
+}
+
+export const fetchTransport: OidcTransport = {
+  async getJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new FOIError(`Identity provider request failed (${response.status})`, 'OIDC_REQUEST_FAILED', response.status, { url });
+    }
+    return response.json();
+  },
+
+  async postForm<T>(url: string, params: Record<string, string>): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams(params),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new FOIError(
+        body.error_description || body.error || 'Token request failed',
+        'OIDC_TOKEN_ERROR',
+        response.status,
+        { error: body.error }
+      );
+    }
+    return body;
+  },
+};
+
+// OpenID Connect authorization code flow with PKCE (RFC 7636). ID tokens
+// are verified against the provider's JWKS before any claim is trusted.
+class OidcClient {
+  private readonly PENDING_PREFIX = 'foi_oidc_pending_';
+  private readonly PENDING_TTL = 10 * 60 * 1000; // 10 minutes to complete sign-in
+  private metadata: Promise<OidcProviderMetadata> | null = null;
+  private signingKeys = new Map<string, CryptoKey>();
+  private pending = new Map<string, PendingAuthorization>();
+
+  constructor(
+    readonly config: OidcConfig,
+    private readonly transport: OidcTransport
+  ) {}
+
+  // The URL to send the browser to. state, nonce and the code verifier are
+  // kept until the provider redirects back.
+  async createAuthorizationUrl(reauthentication?: ReauthenticationOptions): Promise<string> {
+    const metadata = await this.discover();
+    const pending: PendingAuthorization = {
+      state: generateRandomString(),
+      nonce: generateRandomString(),
+      codeVerifier: generateRandomString(),
+      createdAt: Date.now(),
+      ...(reauthentication && { subject: reauthentication.subject }),
+    };
+    this.savePending(pending);
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scope,
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256',
+      ...(reauthentication && { prompt: reauthentication.prompt }),
+    }).toString();
+    return url.toString();
+  }
+
+  async handleCallback(callbackUrl: string): Promise<OidcSession> {
+    const params = new URL(callbackUrl).searchParams;
+
+    const error = params.get('error');
+    if (error) {
+      throw new FOIError(params.get('error_description') || 'Sign-in was refused', 'OIDC_AUTHORIZATION_ERROR', 401, { error });
+    }
+
+    const pending = this.takePending(params.get('state'));
+    if (!pending) {
+      throw new FOIError('Sign-in response does not match a pending request', 'OIDC_STATE_MISMATCH', 401);
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new FOIError('Sign-in response has no authorization code', 'OIDC_NO_CODE', 401);
+    }
+
+    const metadata = await this.discover();
+    const response = await this.transport.postForm<OidcTokenResponse>(metadata.token_endpoint, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: pending.codeVerifier,
+    });
+
+    if (!response.id_token) {
+      throw new FOIError('Identity provider returned no ID token', 'OIDC_INVALID_TOKEN', 401);
+    }
+    const claims = await this.verifyIdToken(response.id_token, pending.nonce);
+    if (pending.subject && claims.sub !== pending.subject) {
+      throw new FOIError('Signed in as a different user', 'SESSION_USER_MISMATCH', 403);
+    }
+    return { tokens: this.toTokens(response), claims, reauthenticated: !!pending.subject };
+  }
+
+  // A refreshed ID token must be about the same subject (OIDC Core 12.2);
+  // when the provider sends none, the earlier claims still stand
+  async refresh(refreshToken: string, previousClaims: IdTokenClaims): Promise<OidcSession> {
+    const metadata = await this.discover();
+    const response = await this.transport.postForm<OidcTokenResponse>(metadata.token_endpoint, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: this.config.clientId,
+      scope: this.config.scope,
+    });
+
+    let claims = previousClaims;
+    if (response.id_token) {
+      claims = await this.verifyIdToken(response.id_token);
+      if (claims.sub !== previousClaims.sub) {
+        throw new FOIError('Refreshed ID token is for a different user', 'OIDC_INVALID_TOKEN', 401);
+      }
+    }
+
+    return {
+      tokens: this.toTokens({ ...response, refresh_token: response.refresh_token ?? refreshToken }),
+      claims,
+    };
+  }
+
+  private discover(): Promise<OidcProviderMetadata> {
+    if (!this.metadata) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.metadata = this.transport.getJson<OidcProviderMetadata>(url).then(metadata => {
+        if (metadata.issuer !== this.config.issuer) {
+          throw new FOIError('Identity provider issuer mismatch', 'OIDC_DISCOVERY_FAILED', 500, {
+            expected: this.config.issuer,
+            actual: metadata.issuer,
+          });
+        }
+        return metadata;
+      });
+      this.metadata.catch(() => {
+        this.metadata = null; // Retry discovery next time
+      });
+    }
+    return this.metadata;
+  }
+
+  private async verifyIdToken(idToken: string, nonce?: string): Promise<IdTokenClaims> {
+    const { header, payload, signingInput, signature } = decodeJwt(idToken);
+    if (header.alg !== 'RS256') {
+      throw new FOIError(`Unsupported ID token algorithm ${header.alg}`, 'OIDC_INVALID_TOKEN', 401);
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      signature,
+      new TextEncoder().encode(signingInput)
+    );
+    if (!valid) {
+      throw new FOIError('ID token signature is invalid', 'OIDC_INVALID_SIGNATURE', 401);
+    }
+
+    validateIdTokenClaims(payload, { issuer: this.config.issuer, clientId: this.config.clientId, nonce });
+    return payload;
+  }
+
+  // Keys are cached by kid. An unknown kid refetches the JWKS once, which
+  // picks up a provider's key rotation.
+  private async getSigningKey(kid: string | undefined): Promise<CryptoKey> {
+    const cached = kid && this.signingKeys.get(kid);
+    if (cached) return cached;
+
+    const metadata = await this.discover();
+    const { keys } = await this.transport.getJson<{ keys: Array<JsonWebKey & { kid?: string }> }>(metadata.jwks_uri);
+    this.signingKeys.clear();
+    for (const jwk of keys) {
+      if (jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig') || !jwk.kid) continue;
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        jwk,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      this.signingKeys.set(jwk.kid, key);
+    }
+
+    const key = kid ? this.signingKeys.get(kid) : this.signingKeys.values().next().value;
+    if (!key) {
+      throw new FOIError('No signing key matches the ID token', 'OIDC_INVALID_SIGNATURE', 401, { kid });
+    }
+    return key;
+  }
+
+  private toTokens(response: OidcTokenResponse): AuthTokens {
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token ?? '',
+      expiresAt: new Date(Date.now() + response.expires_in * 1000),
+      ...(response.id_token && { idToken: response.id_token }),
+    };
+  }
+
+  // Kept in sessionStorage as well, so a full-page redirect to the provider
+  // and back can still complete
+  private savePending(pending: PendingAuthorization): void {
+    this.pending.set(pending.state, pending);
+    try {
+      sessionStorage.setItem(this.PENDING_PREFIX + pending.state, JSON.stringify(pending));
+    } catch (error) {
+      console.warn('[OIDC] Could not store pending sign-in:', error);
+    }
+  }
+
+  // Each state can be used once
+  private takePending(state: string | null): PendingAuthorization | null {
+    if (!state) return null;
+
+    let pending = this.pending.get(state) ?? null;
+    if (!pending) {
+      const stored = sessionStorage.getItem(this.PENDING_PREFIX + state);
+      pending = stored ? JSON.parse(stored) : null;
+    }
+    this.pending.delete(state);
+    sessionStorage.removeItem(this.PENDING_PREFIX + state);
+
+    if (!pending || pending.state !== state || Date.now() - pending.createdAt > this.PENDING_TTL) {
+      return null;
+    }
+    return pending;
+  }
+}
+
+const config = getOidcConfig();
+
+export const oidcClient = new OidcClient(config, config.useMockIdp ? mockIdentityProvider : fetchTransport);
+
+// Export class for testing
+export { OidcClient };
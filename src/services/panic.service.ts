@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+
+type PanicMessage =
+  | { type: 'panic'; panicId: string; tabId: string }
+  | { type: 'complete'; panicId: string; tabId: string };
+
+type RemotePanicListener = (panicId: string) => void;
+
+// Carries panic clear to every open tab over a BroadcastChannel, and clears
+// the browser storage that is not owned by a particular service. Each tab
+// clears itself and reports back, so the tab that started the clear can
+// tell how many others completed.
+class PanicService {
+  private readonly CHANNEL_NAME = 'foi-panic';
+  private readonly CONFIRMATION_WINDOW = 1500; // ms to wait for other tabs
+  // The audit outbox must survive a panic clear, and the document cache is
+  // cleared in place by EncryptionService
+  private readonly PRESERVED_DATABASES = ['foi-audit', 'foi-cache'];
+  private readonly tabId = uuidv4();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<RemotePanicListener>();
+  private confirmations = new Map<string, Set<string>>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<PanicMessage>) => this.handleMessage(event.data);
+    }
+  }
+
+  // Called when another tab starts a panic clear; returns an unsubscribe function
+  onRemotePanic(listener: RemotePanicListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  broadcast(panicId: string): void {
+    this.confirmations.set(panicId, new Set());
+    this.post({ type: 'panic', panicId, tabId: this.tabId });
+  }
+
+  // Tells the tab that started the clear that this one has finished
+  confirm(panicId: string): void {
+    this.post({ type: 'complete', panicId, tabId: this.tabId });
+  }
+
+  // Resolves with the number of other tabs that confirmed
+  async waitForConfirmations(panicId: string): Promise<number> {
+    if (this.channel) {
+      await new Promise(resolve => setTimeout(resolve, this.CONFIRMATION_WINDOW));
+    }
+    const confirmed = this.confirmations.get(panicId)?.size ?? 0;
+    this.confirmations.delete(panicId);
+    return confirmed;
+  }
+
+  // Cache Storage (including service worker caches) and any IndexedDB
+  // databases other than the preserved ones
+  async clearBrowserStorage(): Promise<void> {
+    if (typeof caches !== 'undefined') {
+      const names = await caches.keys();
+      await Promise.all(names.map(name => caches.delete(name)));
+    }
+
+    if (typeof indexedDB !== 'undefined' && typeof indexedDB.databases === 'function') {
+      const databases = await indexedDB.databases();
+      await Promise.all(
+        databases
+          .map(database => database.name)
+          .filter((name): name is string => !!name && !this.PRESERVED_DATABASES.includes(name))
+          .map(name => this.deleteDatabase(name))
+      );
+    }
+  }
+
+  private handleMessage(message: PanicMessage): void {
+    if (message.tabId === this.tabId) return;
+
+    if (message.type === 'panic') {
+      console.log('[PANIC] Panic clear received from another tab:', message.panicId);
+      this.listeners.forEach(listener => listener(message.panicId));
+    } else {
+      this.confirmations.get(message.panicId)?.add(message.tabId);
+    }
+  }
+
+  private post(message: PanicMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[PANIC] Failed to reach other tabs:', error);
+    }
+  }
+
+  // A database another tab still has open cannot be deleted until it closes;
+  // that tab clears it when it handles the broadcast
+  private deleteDatabase(name: string): Promise<void> {
+    return new Promise(resolve => {
+      const request = indexedDB.deleteDatabase(name);
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.warn('[PANIC] Failed to delete database:', name, request.error);
+        resolve();
+      };
+      request.onblocked = () => {
+        console.warn('[PANIC] Database deletion blocked by another connection:', name);
+        resolve();
+      };
+    });
+  }
+}
+
+export const panicService = new PanicService();
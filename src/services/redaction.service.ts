@@ -0,0 +1,373 @@
+import { PDFDocument as PDFLibDocument } from 'pdf-lib';
+import { pdfjs } from 'react-pdf';
+import { Document, DocumentType, DocumentVersion, ProtectiveMarking, Redaction, FOIError } from '@/types';
+import { convertDocxToHtml, paginateHtml, renderHtmlPage, DOCX_PAGE_SIZE } from '@/utils/docx';
+import { PageSize } from '@/utils/redaction';
+import { applyTextRedactions, extractDocumentText } from '@/utils/text';
+
+export interface BurnInResult {
+  content: ArrayBuffer;
+  format: DocumentType;
+}
+
+interface RenderedPage {
+  canvas: HTMLCanvasElement;
+  pageSize: PageSize;
+}
+
+// Pages of a fixed-layout document, rendered on demand
+interface PageSource {
+  pageCount: number;
+  renderPage: (pageNumber: number, scale: number) => Promise<RenderedPage>;
+  close: () => Promise<void>;
+}
+
+// Burn-in redaction engine.
+//
+// Overlay boxes only hide content on screen. For a final version the content
+// underneath each box has to be removed from the file itself, otherwise the
+// redacted words can still be selected, searched or extracted. PDFs are
+// flattened: every page is rasterised, the redaction boxes are painted into
+// the pixels, and a new PDF is assembled from those page images. No text,
+// vector or image objects from the source survive, and neither does its
+// metadata. Word documents are laid out onto pages the same way the viewer
+// shows them and flattened to PDF in the same way. Text documents have their
+// redacted character ranges replaced with a placeholder.
+//
+// A document's recorded protective marking is stamped at the top and bottom
+// of every exported page, and on the first and last lines of text exports.
+class RedactionService {
+  private readonly RENDER_SCALE = 2; // ~144 DPI, legible when printed
+  private readonly BOX_COLOR = '#000000';
+  private readonly LABEL_COLOR = '#ffffff';
+  private readonly THUMBNAIL_SCALE = 1.5;
+  private readonly THUMBNAIL_PADDING = 12; // PDF points of context around the area
+  private readonly THUMBNAIL_OUTLINE_COLOR = '#dc2626';
+  private readonly MARKING_COLOR = '#c00000';
+  private readonly MARKING_FONT_SIZE = 10; // PDF points
+  private readonly MARKING_MARGIN = 14; // PDF points from the page edge to the text
+
+  async burnIn(document: Document, version: DocumentVersion): Promise<BurnInResult> {
+    const redactions = this.getBurnableRedactions(version.redactions);
+    const format = version.format ?? document.type;
+    const marking = document.protectiveMarking;
+
+    switch (format) {
+      case 'pdf':
+      case 'docx':
+      case 'doc':
+        // Word layout is only fixed once paginated, so Word sources are
+        // exported as a PDF of the same pages the redactor marked up
+        return {
+          content: await this.burnInPages(this.toArrayBuffer(version.content), format, redactions, marking),
+          format: 'pdf',
+        };
+      case 'txt':
+      case 'rtf':
+        // Nothing to remove or stamp - the working bytes are already the final bytes
+        if (redactions.length === 0 && !marking) {
+          return { content: this.toArrayBuffer(version.content), format };
+        }
+        return {
+          content: this.burnInText(this.toArrayBuffer(version.content), format, redactions, marking),
+          format: 'txt',
+        };
+    }
+  }
+
+  // Rejected redactions are left visible; everything else is removed
+  getBurnableRedactions(redactions: Redaction[]): Redaction[] {
+    return redactions.filter(r => r.status !== 'rejected' && r.status !== 'suggested');
+  }
+
+  // Crop the area under each redaction so an approver can see what it
+  // covers. Returns PNG data URLs keyed by redaction ID; text-span
+  // redactions are skipped because their text is shown directly.
+  async renderThumbnails(
+    document: Document,
+    version: DocumentVersion,
+    redactions: Redaction[]
+  ): Promise<Record<string, string>> {
+    const areaRedactions = redactions.filter(r => !r.textSpan);
+    if (areaRedactions.length === 0) {
+      return {};
+    }
+
+    const format = version.format ?? document.type;
+    const source = await this.openPages(this.toArrayBuffer(version.content), format);
+    const thumbnails: Record<string, string> = {};
+
+    try {
+      const pages = Array.from(new Set(areaRedactions.map(r => r.coordinates.page)));
+
+      for (const pageNumber of pages) {
+        if (pageNumber < 1 || pageNumber > source.pageCount) continue;
+
+        const { canvas } = await source.renderPage(pageNumber, this.THUMBNAIL_SCALE);
+        for (const redaction of areaRedactions.filter(r => r.coordinates.page === pageNumber)) {
+          thumbnails[redaction.id] = this.cropThumbnail(canvas, redaction);
+        }
+
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+
+      return thumbnails;
+    } catch (error) {
+      if (error instanceof FOIError) throw error;
+      throw new FOIError(
+        'Failed to render redaction previews',
+        'REDACTION_RENDER_FAILED',
+        500,
+        { error }
+      );
+    } finally {
+      await source.close();
+    }
+  }
+
+  private async burnInPages(
+    content: ArrayBuffer,
+    format: DocumentType,
+    redactions: Redaction[],
+    marking?: ProtectiveMarking
+  ): Promise<ArrayBuffer> {
+    const source = await this.openPages(content, format);
+
+    try {
+      return await this.flattenPages(source, redactions, marking);
+    } catch (error) {
+      if (error instanceof FOIError) throw error;
+      throw new FOIError(
+        `Failed to apply redactions to ${format.toUpperCase()} document`,
+        'REDACTION_BURN_IN_FAILED',
+        500,
+        { error }
+      );
+    } finally {
+      await source.close();
+    }
+  }
+
+  private async openPages(content: ArrayBuffer, format: DocumentType): Promise<PageSource> {
+    if (format === 'pdf') {
+      return this.openPdfPages(content);
+    }
+    if (format === 'docx' || format === 'doc') {
+      return this.openWordPages(content);
+    }
+    throw new FOIError(
+      `Page rendering is not supported for ${format.toUpperCase()} documents`,
+      'REDACTION_UNSUPPORTED_TYPE',
+      400,
+      { type: format }
+    );
+  }
+
+  private async openPdfPages(content: ArrayBuffer): Promise<PageSource> {
+    // pdf.js transfers the buffer to its worker, so hand it a copy
+    const source = await pdfjs.getDocument({ data: new Uint8Array(content.slice(0)) }).promise;
+
+    return {
+      pageCount: source.numPages,
+      renderPage: async (pageNumber, scale) => {
+        const page = await source.getPage(pageNumber);
+        const pageSize = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale });
+
+        const canvas = window.document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new FOIError('Canvas rendering is not available', 'REDACTION_RENDER_FAILED', 500);
+        }
+
+        await page.render({ canvas, canvasContext: context, viewport }).promise;
+        page.cleanup();
+
+        return { canvas, pageSize: { width: pageSize.width, height: pageSize.height } };
+      },
+      close: () => source.destroy(),
+    };
+  }
+
+  private async openWordPages(content: ArrayBuffer): Promise<PageSource> {
+    const pages = paginateHtml(await convertDocxToHtml(content));
+
+    return {
+      pageCount: pages.length,
+      renderPage: async (pageNumber, scale) => ({
+        canvas: await renderHtmlPage(pages[pageNumber - 1], scale),
+        pageSize: DOCX_PAGE_SIZE,
+      }),
+      close: async () => undefined,
+    };
+  }
+
+  // Redacted spans are replaced in the extracted text. RTF is exported as
+  // plain text, since its markup could still carry the removed words.
+  private burnInText(
+    content: ArrayBuffer,
+    format: DocumentType,
+    redactions: Redaction[],
+    marking?: ProtectiveMarking
+  ): ArrayBuffer {
+    const unsupported = redactions.filter(r => !r.textSpan);
+    if (unsupported.length > 0) {
+      throw new FOIError(
+        'Area redactions cannot be applied to text documents. Redact the text directly instead.',
+        'REDACTION_UNSUPPORTED_TYPE',
+        400,
+        { redactionIds: unsupported.map(r => r.id) }
+      );
+    }
+
+    const redacted = applyTextRedactions(extractDocumentText(content, format), redactions);
+    const output = marking ? `${marking}\n\n${redacted}\n\n${marking}\n` : redacted;
+    return new TextEncoder().encode(output).buffer as ArrayBuffer;
+  }
+
+  // Paint the redactions into each rendered page and assemble a new PDF from
+  // the page images
+  private async flattenPages(
+    source: PageSource,
+    redactions: Redaction[],
+    marking?: ProtectiveMarking
+  ): Promise<ArrayBuffer> {
+    const output = await PDFLibDocument.create();
+    output.setProducer('FOI Redaction Tool');
+    output.setCreator('FOI Redaction Tool');
+
+    for (let pageNumber = 1; pageNumber <= source.pageCount; pageNumber++) {
+      const { canvas, pageSize } = await source.renderPage(pageNumber, this.RENDER_SCALE);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new FOIError('Canvas rendering is not available', 'REDACTION_RENDER_FAILED', 500);
+      }
+
+      this.paintRedactions(
+        context,
+        redactions.filter(r => r.coordinates.page === pageNumber)
+      );
+      if (marking) {
+        this.paintMarking(context, marking);
+      }
+
+      const image = await output.embedPng(await this.canvasToPng(canvas));
+      output
+        .addPage([pageSize.width, pageSize.height])
+        .drawImage(image, { x: 0, y: 0, width: pageSize.width, height: pageSize.height });
+
+      // Release the page bitmap straight away
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+
+    const bytes = await output.save();
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  }
+
+  // Coordinates are in PDF page units (points, top-left origin)
+  private paintRedactions(context: CanvasRenderingContext2D, redactions: Redaction[]): void {
+    const scale = this.RENDER_SCALE;
+
+    for (const redaction of redactions) {
+      const { x, y, width, height } = redaction.coordinates;
+      const left = Math.floor(x * scale);
+      const top = Math.floor(y * scale);
+      const right = Math.ceil((x + width) * scale);
+      const bottom = Math.ceil((y + height) * scale);
+
+      context.fillStyle = this.BOX_COLOR;
+      context.fillRect(left, top, right - left, bottom - top);
+
+      // Stamp the exemption code when the box is large enough to hold it
+      const fontSize = Math.min(12 * scale, (bottom - top) * 0.6);
+      if (fontSize >= 6 * scale) {
+        context.save();
+        context.beginPath();
+        context.rect(left, top, right - left, bottom - top);
+        context.clip();
+        context.fillStyle = this.LABEL_COLOR;
+        context.font = `${fontSize}px sans-serif`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(redaction.reasonCode, (left + right) / 2, (top + bottom) / 2);
+        context.restore();
+      }
+    }
+  }
+
+  // Centred at the top and bottom of the page, on a white backing so the
+  // marking stays legible over page content
+  private paintMarking(context: CanvasRenderingContext2D, marking: ProtectiveMarking): void {
+    const scale = this.RENDER_SCALE;
+    const fontSize = this.MARKING_FONT_SIZE * scale;
+    const { width, height } = context.canvas;
+
+    context.save();
+    context.font = `bold ${fontSize}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    const backingWidth = context.measureText(marking).width + fontSize;
+    const backingHeight = fontSize * 1.5;
+
+    for (const y of [this.MARKING_MARGIN * scale, height - this.MARKING_MARGIN * scale]) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(width / 2 - backingWidth / 2, y - backingHeight / 2, backingWidth, backingHeight);
+      context.fillStyle = this.MARKING_COLOR;
+      context.fillText(marking, width / 2, y);
+    }
+    context.restore();
+  }
+
+  private cropThumbnail(page: HTMLCanvasElement, redaction: Redaction): string {
+    const scale = this.THUMBNAIL_SCALE;
+    const padding = this.THUMBNAIL_PADDING * scale;
+    const { x, y, width, height } = redaction.coordinates;
+
+    const left = Math.max(0, Math.floor(x * scale - padding));
+    const top = Math.max(0, Math.floor(y * scale - padding));
+    const right = Math.min(page.width, Math.ceil((x + width) * scale + padding));
+    const bottom = Math.min(page.height, Math.ceil((y + height) * scale + padding));
+
+    const canvas = window.document.createElement('canvas');
+    canvas.width = Math.max(1, right - left);
+    canvas.height = Math.max(1, bottom - top);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new FOIError('Canvas rendering is not available', 'REDACTION_RENDER_FAILED', 500);
+    }
+
+    context.drawImage(page, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+
+    // Outline the redacted area, leaving the content visible for review
+    context.strokeStyle = this.THUMBNAIL_OUTLINE_COLOR;
+    context.lineWidth = 2;
+    context.strokeRect(x * scale - left, y * scale - top, width * scale, height * scale);
+
+    return canvas.toDataURL('image/png');
+  }
+
+  private canvasToPng(canvas: HTMLCanvasElement): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new FOIError('Failed to encode redacted page', 'REDACTION_RENDER_FAILED', 500));
+          return;
+        }
+        blob.arrayBuffer().then(resolve, reject);
+      }, 'image/png');
+    });
+  }
+
+  private toArrayBuffer(content: string | ArrayBuffer): ArrayBuffer {
+    if (content instanceof ArrayBuffer) {
+      return content;
+    }
+    return new TextEncoder().encode(content).buffer as ArrayBuffer;
+  }
+}
+
+export const redactionService = new RedactionService();
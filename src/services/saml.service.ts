@@ -0,0 +1,238 @@
+import { FOIError, User } from '@/types';
+import { fromBase64, toBase64 } from '@/utils/crypto';
+import { generateRandomString } from '@/utils/oidc';
+import {
+  ENVELOPED_SIGNATURE,
+  EXC_C14N,
+  RSA_SHA256,
+  SAML_ASSERTION_NS,
+  SAML_CLOCK_SKEW,
+  SAML_PROTOCOL_NS,
+  SHA256,
+  SamlAssertion,
+  SamlConfig,
+  SignatureParts,
+  XMLDSIG_NS,
+  buildAuthnRequest,
+  canonicalize,
+  checkSamlStatus,
+  decodeSamlResponse,
+  getChildElement,
+  getChildElements,
+  getEnvelopedSignature,
+  getInclusivePrefixes,
+  getSamlConfig,
+  getSpkiFromPem,
+  samlAssertionToUser,
+  validateSamlAssertion,
+} from '@/utils/saml';
+
+export interface SamlLogin {
+  user: User;
+  assertion: SamlAssertion;
+}
+
+export interface SamlAuthnRequest {
+  id: string;
+  samlRequest: string; // Base64, the SAMLRequest form field
+}
+
+interface PendingRequest {
+  id: string;
+  createdAt: number;
+}
+
+// SAML 2.0 Web Browser SSO as a service provider. Nothing in a response is
+// read until its signature has been verified against the configured IdP
+// certificate; the certificate carried in the response's KeyInfo is never
+// trusted. Only solicited responses are accepted, each one once.
+class SamlServiceProvider {
+  private readonly PENDING_PREFIX = 'foi_saml_pending_';
+  private readonly PENDING_TTL = 10 * 60 * 1000; // 10 minutes to complete sign-in
+  private verificationKey: Promise<CryptoKey> | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private consumedAssertions = new Map<string, number>(); // Assertion ID to when it can be forgotten
+
+  constructor(readonly config: SamlConfig) {}
+
+  isConfigured(): boolean {
+    return !!(this.config.idpEntityId && this.config.idpCertificate);
+  }
+
+  // The request ID is kept until the IdP responds to it
+  createAuthnRequest(): SamlAuthnRequest {
+    const pending: PendingRequest = { id: `_${generateRandomString()}`, createdAt: Date.now() };
+    this.savePending(pending);
+
+    const xml = buildAuthnRequest(pending.id, this.config);
+    return { id: pending.id, samlRequest: toBase64(new TextEncoder().encode(xml)) };
+  }
+
+  async validateResponse(samlResponse: string, now = Date.now()): Promise<SamlLogin> {
+    if (!this.isConfigured()) {
+      throw new FOIError('SAML sign-in is not configured', 'SAML_NOT_CONFIGURED', 500);
+    }
+
+    const response = decodeSamlResponse(samlResponse).documentElement;
+    if (response.namespaceURI !== SAML_PROTOCOL_NS || response.localName !== 'Response') {
+      throw new FOIError('Not a SAML response', 'SAML_MALFORMED', 400);
+    }
+    checkSamlStatus(response);
+
+    if (getChildElement(response, SAML_ASSERTION_NS, 'EncryptedAssertion')) {
+      throw new FOIError('Encrypted assertions are not supported', 'SAML_UNSUPPORTED', 400);
+    }
+    const assertions = getChildElements(response, SAML_ASSERTION_NS, 'Assertion');
+    if (assertions.length !== 1) {
+      throw new FOIError('SAML response must contain exactly one assertion', 'SAML_INVALID_RESPONSE', 401, {
+        reason: 'assertion count',
+      });
+    }
+    const [assertion] = assertions;
+
+    // Either the assertion or the whole response must be signed, and every
+    // signature present must verify
+    const signatures = [getEnvelopedSignature(response), getEnvelopedSignature(assertion)].filter(
+      (parts): parts is SignatureParts => parts !== null
+    );
+    if (signatures.length === 0) {
+      throw new FOIError('SAML response is not signed', 'SAML_INVALID_SIGNATURE', 401);
+    }
+    for (const parts of signatures) {
+      await this.verifySignature(parts);
+    }
+
+    const requestId = this.takePending(response.getAttribute('InResponseTo'), now);
+    if (!requestId) {
+      throw new FOIError('SAML response does not match a pending request', 'SAML_REQUEST_MISMATCH', 401);
+    }
+
+    const validated = validateSamlAssertion(response, assertion, { ...this.config, requestId }, now);
+    this.rememberAssertion(validated, now);
+    return { user: samlAssertionToUser(validated, this.config), assertion: validated };
+  }
+
+  // XML-DSig restricted to what SAML IdPs use today: exclusive
+  // canonicalization, RSA-SHA256 and an enveloped signature with a single
+  // reference
+  private async verifySignature({ signature, signedElement }: SignatureParts): Promise<void> {
+    const invalid = (message: string) => new FOIError(message, 'SAML_INVALID_SIGNATURE', 401);
+
+    const signedInfo = getChildElement(signature, XMLDSIG_NS, 'SignedInfo')!;
+    const canonicalization = getChildElement(signedInfo, XMLDSIG_NS, 'CanonicalizationMethod');
+    const signatureMethod = getChildElement(signedInfo, XMLDSIG_NS, 'SignatureMethod');
+    const reference = getChildElement(signedInfo, XMLDSIG_NS, 'Reference')!;
+    const transformList = getChildElement(reference, XMLDSIG_NS, 'Transforms');
+    const transforms = transformList ? getChildElements(transformList, XMLDSIG_NS, 'Transform') : [];
+    const digestMethod = getChildElement(reference, XMLDSIG_NS, 'DigestMethod');
+    const digestValue = getChildElement(reference, XMLDSIG_NS, 'DigestValue')?.textContent ?? '';
+    const signatureValue = getChildElement(signature, XMLDSIG_NS, 'SignatureValue')?.textContent ?? '';
+
+    const algorithms = transforms.map(transform => transform.getAttribute('Algorithm'));
+    if (
+      !canonicalization ||
+      canonicalization.getAttribute('Algorithm') !== EXC_C14N ||
+      signatureMethod?.getAttribute('Algorithm') !== RSA_SHA256 ||
+      digestMethod?.getAttribute('Algorithm') !== SHA256 ||
+      algorithms.length !== 2 ||
+      !algorithms.includes(ENVELOPED_SIGNATURE) ||
+      !algorithms.includes(EXC_C14N)
+    ) {
+      throw invalid('Unsupported signature algorithm');
+    }
+
+    const c14nTransform = transforms.find(transform => transform.getAttribute('Algorithm') === EXC_C14N)!;
+    const signedContent = canonicalize(signedElement, {
+      exclude: signature,
+      inclusivePrefixes: getInclusivePrefixes(c14nTransform),
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(signedContent));
+    if (toBase64(new Uint8Array(digest)) !== digestValue.replace(/\s+/g, '')) {
+      throw invalid('SAML response has been modified after signing');
+    }
+
+    let signatureBytes: Uint8Array<ArrayBuffer>;
+    try {
+      signatureBytes = fromBase64(signatureValue.replace(/\s+/g, ''));
+    } catch {
+      throw invalid('SAML signature value is malformed');
+    }
+
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      await this.getVerificationKey(),
+      signatureBytes,
+      new TextEncoder().encode(canonicalize(signedInfo, { inclusivePrefixes: getInclusivePrefixes(canonicalization) }))
+    );
+    if (!valid) {
+      throw invalid('SAML signature is invalid');
+    }
+  }
+
+  private getVerificationKey(): Promise<CryptoKey> {
+    if (!this.verificationKey) {
+      this.verificationKey = Promise.resolve().then(() =>
+        crypto.subtle.importKey(
+          'spki',
+          getSpkiFromPem(this.config.idpCertificate),
+          { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+          false,
+          ['verify']
+        )
+      );
+      this.verificationKey.catch(() => {
+        this.verificationKey = null;
+      });
+    }
+    return this.verificationKey;
+  }
+
+  // Each assertion is accepted once, and remembered for as long as it could
+  // otherwise still be presented
+  private rememberAssertion(assertion: SamlAssertion, now: number): void {
+    for (const [id, expiresAt] of this.consumedAssertions) {
+      if (expiresAt <= now) this.consumedAssertions.delete(id);
+    }
+
+    if (this.consumedAssertions.has(assertion.id)) {
+      throw new FOIError('Invalid SAML response: assertion replayed', 'SAML_INVALID_RESPONSE', 401, {
+        reason: 'assertion replayed',
+      });
+    }
+    this.consumedAssertions.set(assertion.id, assertion.notOnOrAfter + SAML_CLOCK_SKEW);
+  }
+
+  // Kept in sessionStorage as well, so the round trip through the IdP can
+  // still complete after a full-page navigation
+  private savePending(pending: PendingRequest): void {
+    this.pending.set(pending.id, pending);
+    try {
+      sessionStorage.setItem(this.PENDING_PREFIX + pending.id, JSON.stringify(pending));
+    } catch (error) {
+      console.warn('[SAML] Could not store pending sign-in:', error);
+    }
+  }
+
+  // Each request ID can be answered once
+  private takePending(id: string | null, now: number): string | null {
+    if (!id) return null;
+
+    let pending = this.pending.get(id) ?? null;
+    if (!pending) {
+      const stored = sessionStorage.getItem(this.PENDING_PREFIX + id);
+      pending = stored ? JSON.parse(stored) : null;
+    }
+    this.pending.delete(id);
+    sessionStorage.removeItem(this.PENDING_PREFIX + id);
+
+    if (!pending || pending.id !== id || now - pending.createdAt > this.PENDING_TTL) {
+      return null;
+    }
+    return id;
+  }
+}
+
+export const samlService = new SamlServiceProvider(getSamlConfig());
+
+// Export class for testing
+export { SamlServiceProvider };
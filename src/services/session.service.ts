@@ -0,0 +1,350 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuthTokens, FOIError, User } from '@/types';
+import { IdTokenClaims, claimsToUser } from '@/utils/oidc';
+import { oidcClient } from './oidc.service';
+
+export interface Session {
+  user: User;
+  tokens: AuthTokens;
+  claims: IdTokenClaims | null; // SAML sessions have no ID token and cannot be refreshed
+}
+
+type SessionMessage =
+  | { type: 'session-request'; tabId: string }
+  | { type: 'session'; tabId: string; session: Session }
+  | { type: 'logout'; tabId: string }
+  | { type: 'refresh-request'; tabId: string }
+  | { type: 'refresh-failed'; tabId: string };
+
+type SessionListener = (session: Session | null) => void;
+type LockListener = (locked: boolean) => void;
+
+interface PendingRefresh {
+  accessToken: string;
+  resolve: (tokens: AuthTokens) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Holds the signed-in session and keeps it current in every tab. Tokens
+// live only in memory: a new tab asks the open ones for the session over a
+// BroadcastChannel rather than reading it from storage. Refresh tokens
+// rotate, so only one tab (the leader, elected with the Web Locks API)
+// refreshes; the others ask it to and take the tokens it shares. A tab
+// locked for inactivity keeps its session but does not share it, and stays
+// locked across a reload, so a new tab cannot be used to get past the lock.
+class SessionManager {
+  private readonly CHANNEL_NAME = 'foi-session';
+  private readonly LEADER_LOCK = 'foi-session-leader';
+  private readonly LOCK_KEY = 'foi_session_locked';
+  private readonly REFRESH_MARGIN = 60 * 1000; // Refresh a minute before expiry
+  private readonly RESTORE_WINDOW = 300; // ms to wait for another tab's session
+  private readonly REFRESH_WAIT = 10 * 1000; // ms to wait for the leader before refreshing here
+  private readonly tabId = uuidv4();
+  private channel: BroadcastChannel | null = null;
+  private session: Session | null = null;
+  private isLeader = false;
+  private refreshing: Promise<AuthTokens> | null = null;
+  private pendingRefresh: PendingRefresh | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private restoring: Promise<Session | null> | null = null;
+  private resolveRestore: ((session: Session | null) => void) | null = null;
+  private listeners = new Set<SessionListener>();
+  private locked = this.loadLocked();
+  private lockListeners = new Set<LockListener>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionMessage>) => this.handleMessage(event.data);
+    }
+    this.electLeader();
+  }
+
+  getSession(): Session | null {
+    return this.session;
+  }
+
+  getAccessToken(): string | null {
+    return this.session?.tokens.accessToken || null;
+  }
+
+  isExpired(): boolean {
+    return !this.session || Date.now() >= this.session.tokens.expiresAt.getTime();
+  }
+
+  // Called when another tab signs in or out, or a refresh in any tab
+  // changes the session; returns an unsubscribe function
+  onChange(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  lock(): void {
+    this.setLocked(true);
+  }
+
+  // Only once the user has signed in again
+  unlock(): void {
+    this.setLocked(false);
+  }
+
+  // Called when this tab is locked or unlocked; returns an unsubscribe
+  // function
+  onLockChange(listener: LockListener): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  // Signing in in one tab signs in every open tab
+  start(session: Session): void {
+    this.apply(session);
+    this.post({ type: 'session', tabId: this.tabId, session });
+  }
+
+  // Signing out in one tab signs out every open tab
+  end(): void {
+    this.apply(null);
+    this.post({ type: 'logout', tabId: this.tabId });
+  }
+
+  // Drops the session in this tab only
+  clear(): void {
+    this.apply(null);
+  }
+
+  // Resolves with the session held by another open, unlocked tab, if any.
+  // A tab that was locked when reloaded stays locked; with no session to
+  // restore there is nothing left to lock.
+  restore(): Promise<Session | null> {
+    if (this.session) return Promise.resolve(this.session);
+    if (!this.channel) {
+      this.setLocked(false);
+      return Promise.resolve(null);
+    }
+
+    if (!this.restoring) {
+      this.restoring = new Promise(resolve => {
+        const timer = setTimeout(() => this.finishRestore(), this.RESTORE_WINDOW);
+        this.resolveRestore = session => {
+          clearTimeout(timer);
+          this.restoring = null;
+          if (!session) this.setLocked(false);
+          resolve(session);
+        };
+        this.post({ type: 'session-request', tabId: this.tabId });
+      });
+    }
+    return this.restoring;
+  }
+
+  // Concurrent callers share one refresh
+  refresh(): Promise<AuthTokens> {
+    if (!this.refreshing) {
+      this.refreshing = (this.isLeader ? this.refreshHere() : this.requestRefresh()).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // The token for an outgoing request. Requests made during a refresh wait
+  // for it, and a token about to expire is refreshed first, since the
+  // refresh timer can fire late after the machine sleeps.
+  async getFreshAccessToken(): Promise<string | null> {
+    const pending = this.refreshing ?? (this.needsRefresh() ? this.refresh() : null);
+    if (pending) {
+      // On failure the request goes out with the old token and its 401 is
+      // handled as usual
+      await pending.catch(error => console.warn('[SESSION] Token refresh before request failed:', error));
+    }
+    return this.getAccessToken();
+  }
+
+  private needsRefresh(): boolean {
+    return (
+      !!this.session?.tokens.refreshToken &&
+      this.session.tokens.expiresAt.getTime() - Date.now() <= this.REFRESH_MARGIN
+    );
+  }
+
+  private async refreshHere(): Promise<AuthTokens> {
+    const session = this.session;
+    if (!session?.tokens.refreshToken || !session.claims) {
+      throw new FOIError('No valid refresh token', 'AUTH_NO_REFRESH_TOKEN', 401);
+    }
+
+    try {
+      const { tokens, claims } = await oidcClient.refresh(session.tokens.refreshToken, session.claims);
+      if (this.session !== session) {
+        throw new FOIError('Session ended during refresh', 'AUTH_SESSION_ENDED', 401);
+      }
+      const refreshed = { user: claimsToUser(claims, oidcClient.config), tokens, claims };
+      this.apply(refreshed);
+      this.post({ type: 'session', tabId: this.tabId, session: refreshed });
+      // The refreshed claims may change the user's role, department or clearance
+      this.listeners.forEach(listener => listener(refreshed));
+      return tokens;
+    } catch (error) {
+      this.post({ type: 'refresh-failed', tabId: this.tabId });
+      throw error;
+    }
+  }
+
+  // Asks the leader to refresh and waits for the tokens it shares. If it
+  // does not answer, this tab refreshes itself.
+  private requestRefresh(): Promise<AuthTokens> {
+    if (!this.session?.tokens.refreshToken) {
+      return Promise.reject(new FOIError('No valid refresh token', 'AUTH_NO_REFRESH_TOKEN', 401));
+    }
+
+    return new Promise<AuthTokens>((resolve, reject) => {
+      this.pendingRefresh = {
+        accessToken: this.session!.tokens.accessToken,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.pendingRefresh = null;
+          this.refreshHere().then(resolve, reject);
+        }, this.REFRESH_WAIT),
+      };
+      this.post({ type: 'refresh-request', tabId: this.tabId });
+    });
+  }
+
+  private settlePendingRefresh(outcome: { tokens: AuthTokens } | { error: unknown }): void {
+    if (!this.pendingRefresh) return;
+
+    const { resolve, reject, timer } = this.pendingRefresh;
+    clearTimeout(timer);
+    this.pendingRefresh = null;
+    if ('tokens' in outcome) {
+      resolve(outcome.tokens);
+    } else {
+      reject(outcome.error);
+    }
+  }
+
+  private apply(session: Session | null): void {
+    this.session = session;
+    this.scheduleRefresh();
+
+    if (!session) {
+      this.setLocked(false);
+      this.settlePendingRefresh({ error: new FOIError('Signed out', 'AUTH_SESSION_ENDED', 401) });
+    } else if (this.pendingRefresh && session.tokens.accessToken !== this.pendingRefresh.accessToken) {
+      this.settlePendingRefresh({ tokens: session.tokens });
+    }
+
+    if (session) this.finishRestore();
+  }
+
+  private setLocked(locked: boolean): void {
+    if (this.locked === locked) return;
+
+    this.locked = locked;
+    try {
+      if (locked) {
+        sessionStorage.setItem(this.LOCK_KEY, 'true');
+      } else {
+        sessionStorage.removeItem(this.LOCK_KEY);
+      }
+    } catch (error) {
+      console.warn('[SESSION] Could not store the lock:', error);
+    }
+    this.lockListeners.forEach(listener => listener(locked));
+  }
+
+  private loadLocked(): boolean {
+    try {
+      return sessionStorage.getItem(this.LOCK_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  private finishRestore(): void {
+    this.resolveRestore?.(this.session);
+    this.resolveRestore = null;
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (!this.isLeader || !this.session?.tokens.refreshToken) return;
+
+    const delay = Math.max(0, this.session.tokens.expiresAt.getTime() - Date.now() - this.REFRESH_MARGIN);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch(error => console.warn('[SESSION] Silent token refresh failed:', error));
+    }, delay);
+  }
+
+  // Leadership passes to another tab when the leader closes. Without a
+  // channel or Web Locks each tab refreshes for itself.
+  private electLeader(): void {
+    if (!this.channel || typeof navigator === 'undefined' || !navigator.locks) {
+      this.isLeader = true;
+      return;
+    }
+
+    navigator.locks
+      .request(this.LEADER_LOCK, () => {
+        this.isLeader = true;
+        this.scheduleRefresh();
+        return new Promise<never>(() => undefined); // Held for the life of the tab
+      })
+      .catch(error => {
+        console.warn('[SESSION] Leader election failed, refreshing in this tab:', error);
+        this.isLeader = true;
+        this.scheduleRefresh();
+      });
+  }
+
+  private handleMessage(message: SessionMessage): void {
+    if (message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'session-request':
+        if (this.session && !this.locked) this.post({ type: 'session', tabId: this.tabId, session: this.session });
+        break;
+      case 'session':
+        this.apply(message.session);
+        this.listeners.forEach(listener => listener(message.session));
+        break;
+      case 'logout':
+        if (!this.session) break;
+        this.apply(null);
+        this.listeners.forEach(listener => listener(null));
+        break;
+      case 'refresh-request':
+        if (this.isLeader && this.session) {
+          this.refresh().catch(error => console.warn('[SESSION] Refresh for another tab failed:', error));
+        }
+        break;
+      case 'refresh-failed':
+        this.settlePendingRefresh({ error: new FOIError('Token refresh failed', 'AUTH_REFRESH_FAILED', 401) });
+        break;
+    }
+  }
+
+  private post(message: SessionMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[SESSION] Failed to reach other tabs:', error);
+    }
+  }
+}
+
+export const sessionManager = new SessionManager();
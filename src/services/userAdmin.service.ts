@@ -0,0 +1,169 @@
+import { FOIError, ManagedUser, NewUser, SecurityClearance, User, UserChanges } from '@/types';
+import { getClearanceDisplayName, isSecurityClearance } from '@/utils/markings';
+import { isUserRole } from '@/utils/oidc';
+import { canManageUsers } from '@/utils/permissions';
+import { apiService } from './api.service';
+import { auditService } from './audit.service';
+import { mockIdentityProvider } from './mockIdp.service';
+import { oidcClient } from './oidc.service';
+
+// Where accounts are kept: the API's /admin/users endpoints, or the mock
+// identity provider in development
+export interface UserDirectory {
+  listUsers(): Promise<ManagedUser[]>;
+  createUser(user: NewUser): Promise<ManagedUser>;
+  updateUser(id: string, changes: UserChanges): Promise<ManagedUser>;
+}
+
+// Creates, re-roles, moves and disables user accounts. Each call checks that
+// the acting user may manage users, and every change is audited.
+class UserAdminService {
+  private readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+  constructor(private directory: UserDirectory) {}
+
+  async listUsers(actor: User): Promise<ManagedUser[]> {
+    this.assertCanManage(actor);
+    return this.directory.listUsers();
+  }
+
+  async createUser(actor: User, input: NewUser): Promise<ManagedUser> {
+    this.assertCanManage(actor);
+
+    const department = input.department?.trim();
+    const user: NewUser = {
+      name: this.validateName(input.name),
+      email: this.validateEmail(input.email),
+      role: this.validateRole(input.role),
+      ...(department && { department }),
+      ...(input.clearance && { clearance: this.validateClearance(input.clearance) }),
+    };
+    const created = await this.directory.createUser(user);
+
+    await auditService.log({
+      userId: actor.id,
+      action: 'user.create',
+      resourceType: 'user',
+      resourceId: created.id,
+      details: {
+        email: created.email,
+        role: created.role,
+        department: created.department,
+        clearance: created.clearance,
+      },
+    });
+
+    return created;
+  }
+
+  async updateUser(actor: User, id: string, changes: UserChanges): Promise<ManagedUser> {
+    this.assertCanManage(actor);
+
+    // An administrator locking themselves out could leave no one to undo it
+    if (id === actor.id && ((changes.role !== undefined && changes.role !== actor.role) || changes.disabled)) {
+      throw new FOIError('You cannot change your own role or disable your own account', 'USER_SELF_CHANGE', 400);
+    }
+
+    const previous = (await this.directory.listUsers()).find(u => u.id === id);
+    if (!previous) {
+      throw new FOIError('User not found', 'USER_NOT_FOUND', 404, { userId: id });
+    }
+
+    const normalized: UserChanges = {
+      ...(changes.name !== undefined && { name: this.validateName(changes.name) }),
+      ...(changes.role !== undefined && { role: this.validateRole(changes.role) }),
+      ...(changes.department !== undefined && { department: changes.department.trim() }),
+      ...(changes.clearance !== undefined && {
+        clearance: changes.clearance && this.validateClearance(changes.clearance),
+      }),
+      ...(changes.disabled !== undefined && { disabled: changes.disabled }),
+    };
+    const updated = await this.directory.updateUser(id, normalized);
+    await this.auditChanges(actor, previous, updated);
+
+    return updated;
+  }
+
+  private async auditChanges(actor: User, previous: ManagedUser, updated: ManagedUser): Promise<void> {
+    const event = { userId: actor.id, resourceType: 'user', resourceId: updated.id };
+
+    if (previous.role !== updated.role) {
+      await auditService.log({
+        ...event,
+        action: 'user.role_change',
+        details: { email: updated.email, previousRole: previous.role, role: updated.role },
+      });
+    }
+
+    const fieldChanges: Record<string, { from: string; to: string }> = {};
+    (['name', 'department'] as const).forEach(field => {
+      const from = previous[field] || '';
+      const to = updated[field] || '';
+      if (from !== to) fieldChanges[field] = { from, to };
+    });
+    if (previous.clearance !== updated.clearance) {
+      fieldChanges.clearance = {
+        from: getClearanceDisplayName(previous.clearance),
+        to: getClearanceDisplayName(updated.clearance),
+      };
+    }
+    if (Object.keys(fieldChanges).length > 0) {
+      await auditService.log({
+        ...event,
+        action: 'user.update',
+        details: { email: updated.email, changes: fieldChanges },
+      });
+    }
+
+    if (previous.disabled !== updated.disabled) {
+      await auditService.log({
+        ...event,
+        action: updated.disabled ? 'user.disable' : 'user.enable',
+        details: { email: updated.email },
+      });
+    }
+  }
+
+  private assertCanManage(actor: User): void {
+    if (!canManageUsers(actor.role)) {
+      throw new FOIError('You do not have permission to manage users', 'ACCESS_DENIED', 403);
+    }
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new FOIError('Name is required', 'USER_INVALID', 400, { field: 'name' });
+    }
+    return trimmed;
+  }
+
+  private validateEmail(email: string): string {
+    const normalized = email.trim().toLowerCase();
+    if (!this.EMAIL_PATTERN.test(normalized)) {
+      throw new FOIError('Enter a valid email address', 'USER_INVALID', 400, { field: 'email' });
+    }
+    return normalized;
+  }
+
+  private validateClearance(clearance: string): SecurityClearance {
+    if (!isSecurityClearance(clearance)) {
+      throw new FOIError(`Unknown clearance: ${clearance}`, 'USER_INVALID', 400, { field: 'clearance' });
+    }
+    return clearance;
+  }
+
+  private validateRole(role: string): NewUser['role'] {
+    if (!isUserRole(role)) {
+      throw new FOIError(`Unknown role: ${role}`, 'USER_INVALID', 400, { field: 'role' });
+    }
+    return role;
+  }
+}
+
+export const userAdminService = new UserAdminService(
+  oidcClient.config.useMockIdp ? mockIdentityProvider : apiService
+);
+
+// Export class for testing
+export { UserAdminService };
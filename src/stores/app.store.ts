@@ -1,8 +1,28 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import { User, Document, RedactionToolState, ReasonCode, DEFAULT_REASON_CODES } from '@/types';
+import { User, Document, Redaction, RedactionToolState, ReasonCode, DEFAULT_REASON_CODES } from '@/types';
 // import { authService } from '@/services/auth.service';
 import { encryptionService } from '@/services/encryption.service';
+import { auditService } from '@/services/audit.service';
+import { apiService } from '@/services/api.service';
+import { authService } from '@/services/auth.service';
+import { panicService } from '@/services/panic.service';
+import { sessionManager } from '@/services/session.service';
+import { revokeAllObjectUrls } from '@/utils/file';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface PanicClearOptions {
+  // Set when another tab started the clear; this tab confirms to it
+  // instead of broadcasting again
+  remotePanicId?: string;
+  // Clear this tab only, without telling the others (idle timeout)
+  localOnly?: boolean;
+}
+
+export interface PanicClearResult {
+  panicId: string;
+  otherTabsCleared: number;
+}
 
 interface AppState {
   // Auth state
@@ -30,13 +50,16 @@ interface AppState {
   addDocument: (document: Document) => void;
   updateDocument: (documentId: string, updates: Partial<Document>) => void;
   removeDocument: (documentId: string) => void;
+  addRedaction: (documentId: string, redaction: Redaction) => void;
+  updateRedaction: (documentId: string, redactionId: string, updates: Partial<Redaction>) => void;
+  removeRedaction: (documentId: string, redactionId: string) => void;
   setRedactionTool: (tool: Partial<RedactionToolState>) => void;
   addReasonCode: (reasonCode: ReasonCode) => void;
   updateReasonCode: (code: string, updates: Partial<ReasonCode>) => void;
   removeReasonCode: (code: string) => void;
   setSidebarOpen: (open: boolean) => void;
   reset: () => void;
-  panicClear: () => Promise<void>;
+  panicClear: (options?: PanicClearOptions) => Promise<PanicClearResult>;
 }
 
 const initialRedactionToolState: RedactionToolState = {
@@ -46,6 +69,21 @@ const initialRedactionToolState: RedactionToolState = {
   activeRedaction: null,
 };
 
+// Redactions are only ever made against the working version
+function updateWorkingRedactions(
+  document: Document,
+  update: (redactions: Redaction[]) => Redaction[]
+): Document {
+  return {
+    ...document,
+    versions: document.versions.map(version =>
+      version.type === 'working'
+        ? { ...version, redactions: update(version.redactions) }
+        : version
+    ),
+  };
+}
+
 export const useAppStore = create<AppState>()(
   devtools(
     persist(
@@ -107,6 +145,53 @@ export const useAppStore = create<AppState>()(
           }), false, 'removeDocument');
         },
 
+        addRedaction: (documentId, redaction) => {
+          const update = (doc: Document) => updateWorkingRedactions(
+            doc,
+            redactions => [...redactions, redaction]
+          );
+          set((state) => ({
+            documents: state.documents.map(doc =>
+              doc.id === documentId ? update(doc) : doc
+            ),
+            currentDocument: state.currentDocument?.id === documentId
+              ? update(state.currentDocument)
+              : state.currentDocument
+          }), false, 'addRedaction');
+        },
+
+        updateRedaction: (documentId, redactionId, updates) => {
+          const update = (doc: Document) => updateWorkingRedactions(
+            doc,
+            redactions => redactions.map(r =>
+              r.id === redactionId ? { ...r, ...updates } : r
+            )
+          );
+          set((state) => ({
+            documents: state.documents.map(doc =>
+              doc.id === documentId ? update(doc) : doc
+            ),
+            currentDocument: state.currentDocument?.id === documentId
+              ? update(state.currentDocument)
+              : state.currentDocument
+          }), false, 'updateRedaction');
+        },
+
+        removeRedaction: (documentId, redactionId) => {
+          const update = (doc: Document) => updateWorkingRedactions(
+            doc,
+            redactions => redactions.filter(r => r.id !== redactionId)
+          );
+          set((state) => ({
+            documents: state.documents.map(doc =>
+              doc.id === documentId ? update(doc) : doc
+            ),
+            currentDocument: state.currentDocument?.id === documentId
+              ? update(state.currentDocument)
+              : state.currentDocument
+          }), false, 'removeRedaction');
+        },
+
         setRedactionTool: (toolUpdates) => {
           set((state) => ({
             redactionTool: { ...state.redactionTool, ...toolUpdates }
@@ -151,10 +236,29 @@ export const useAppStore = create<AppState>()(
           }, false, 'reset');
         },
 
-        panicClear: async () => {
+        panicClear: async ({ remotePanicId, localOnly = false } = {}) => {
+          const user = get().user;
+          const panicId = remotePanicId ?? uuidv4();
+          const broadcast = !remotePanicId && !localOnly;
+
           try {
+            // Tell the other tabs first, so they clear while this one does
+            if (broadcast) {
+              panicService.broadcast(panicId);
+            }
+
+            // Break-glass access ends now, or signing in again in this tab
+            // would bring it back; its event is awaited once the tab is wiped
+            const breakGlassEnded = authService.endBreakGlass('cleared');
+
+            apiService.abortPendingRequests();
+            // Every tab clears itself, so the session is only dropped here
+            sessionManager.clear();
+
             // Clear encryption service cache
             await encryptionService.panicClear();
+            await panicService.clearBrowserStorage();
+            const revokedUrls = revokeAllObjectUrls();
             
             // Reset store state
             get().reset();
@@ -162,8 +266,37 @@ export const useAppStore = create<AppState>()(
             // Clear any persisted state
             localStorage.removeItem('foi-app-storage');
             sessionStorage.clear();
+
+            // Only once everything is wiped, and without waiting: the audit
+            // outbox survives the clear, so undelivered events are retried
+            auditService.flush().catch(error => console.warn('[STORE] Audit flush after panic clear failed:', error));
+
+            await breakGlassEnded;
+
+            let otherTabsCleared = 0;
+            if (remotePanicId) {
+              panicService.confirm(remotePanicId);
+            } else if (broadcast) {
+              otherTabsCleared = await panicService.waitForConfirmations(panicId);
+            }
+
+            if (user) {
+              await auditService.log({
+                userId: user.id,
+                action: 'panic.clear',
+                resourceType: 'session',
+                resourceId: user.id,
+                details: {
+                  panicId,
+                  origin: remotePanicId ? 'other-tab' : 'this-tab',
+                  otherTabsCleared,
+                  revokedUrls,
+                },
+              });
+            }
             
             console.log('[STORE] Panic clear completed');
+            return { panicId, otherTabsCleared };
           } catch (error) {
             console.error('[STORE] Panic clear failed:', error);
             throw error;
@@ -200,6 +333,9 @@ export const useDocuments = () => useAppStore((state) => ({
   addDocument: state.addDocument,
   updateDocument: state.updateDocument,
   removeDocument: state.removeDocument,
+  addRedaction: state.addRedaction,
+  updateRedaction: state.updateRedaction,
+  removeRedaction: state.removeRedaction,
 }));
 
 export const useRedactionTool = () => useAppStore((state) => ({
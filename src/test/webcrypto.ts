@@ -0,0 +1,16 @@
+import { webcrypto } from 'node:crypto';
+import { vi } from 'vitest';
+
+const SUBTLE_METHODS = ['digest', 'generateKey', 'importKey', 'exportKey', 'sign', 'verify'] as const;
+
+// setup.ts replaces crypto.subtle with bare mocks. Tests that need real
+// signatures (the OIDC client and mock identity provider) route these
+// methods to Node's Web Crypto implementation instead.
+export function routeSubtleCryptoToNode(): void {
+  const subtle = crypto.subtle as unknown as Record<string, unknown>;
+  for (const method of SUBTLE_METHODS) {
+    subtle[method] = vi.fn((...args: unknown[]) =>
+      (webcrypto.subtle[method] as (...params: unknown[]) => Promise<unknown>).apply(webcrypto.subtle, args)
+    );
+  }
+}
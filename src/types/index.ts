@@ -5,9 +5,44 @@ export interface User {
   name: string;
   role: UserRole;
   department?: string;
+  clearance?: SecurityClearance; // None means uncleared
 }
 
-export type UserRole = 'viewer' | 'redactor' | 'approver';
+// AGSVA security clearance levels, lowest to highest
+export type SecurityClearance = 'baseline' | 'nv1' | 'nv2' | 'pv';
+
+// PSPF protective markings, lowest to highest
+export type ProtectiveMarking =
+  | 'UNOFFICIAL'
+  | 'OFFICIAL'
+  | 'OFFICIAL: Sensitive'
+  | 'PROTECTED'
+  | 'SECRET'
+  | 'TOP SECRET';
+
+export type UserRole = 'viewer' | 'redactor' | 'approver' | 'admin';
+
+// A user account as seen from the administration page
+export interface ManagedUser extends User {
+  disabled: boolean; // Disabled accounts cannot sign in or refresh their session
+  createdAt: Date;
+}
+
+export type NewUser = Omit<User, 'id'>;
+
+export type UserChanges = Partial<Pick<ManagedUser, 'name' | 'role' | 'department' | 'disabled'>> & {
+  clearance?: SecurityClearance | null; // null removes the clearance
+};
+
+// Time-boxed emergency access taken by a user, with their reason for it.
+// While it lasts, BREAK_GLASS_PERMISSIONS are added to the user's role.
+export interface BreakGlassGrant {
+  id: string;
+  userId: string;
+  justification: string;
+  startedAt: Date;
+  expiresAt: Date;
+}
 
 export interface Document {
   id: string;
@@ -19,6 +54,13 @@ export interface Document {
   versions: DocumentVersion[];
   currentVersion: DocumentVersionType;
   hash?: string;
+  // Owning department, taken from the uploader. Officers of other
+  // departments may open the document only if assigned to its case.
+  department?: string;
+  assignedTo?: string[]; // IDs of users assigned to the FOI case
+  // Set on upload. Documents cached before markings were recorded are
+  // treated as OFFICIAL.
+  protectiveMarking?: ProtectiveMarking;
 }
 
 export type DocumentType = 'pdf' | 'doc' | 'docx' | 'rtf' | 'txt';
@@ -33,24 +75,57 @@ export interface DocumentVersion {
   createdBy: string;
   hash: string;
   encrypted?: boolean;
+  // Set when the content is in a different format from the upload,
+  // e.g. a Word document burned in to a flattened PDF
+  format?: DocumentType;
 }
 
 export interface Redaction {
   id: string;
   type: RedactionType;
   coordinates: RedactionCoordinates;
+  // Set on text-span redactions in TXT and RTF documents. The span is the
+  // source of truth; coordinates only carry the page it starts on.
+  textSpan?: TextSpan;
   reasonCode: string;
   customReason?: string;
   createdAt: Date;
   createdBy: string;
+  createdByName?: string;
   approvedAt?: Date;
   approvedBy?: string;
+  rejectedAt?: Date;
+  rejectedBy?: string;
+  // Approver's note when approving or rejecting
+  reviewComment?: string;
   status: RedactionStatus;
+  // Set on redactions proposed by the sensitive data detector
+  detectedType?: SensitiveDataType;
+  confidence?: number;
 }
 
 export type RedactionType = 'rectangle' | 'highlight' | 'blackout';
 export type RedactionStatus = 'suggested' | 'pending' | 'approved' | 'rejected';
 
+export type SensitiveDataType =
+  | 'tfn'
+  | 'medicare'
+  | 'abn'
+  | 'acn'
+  | 'driver_licence'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'date_of_birth';
+
+// Character range [start, end) in a document's extracted plain text
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Position on a page in PDF page units (points, origin at the top-left of the
+// page as displayed), independent of the zoom level it was drawn at
 export interface RedactionCoordinates {
   page: number;
   x: number;
@@ -93,6 +168,7 @@ export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
   expiresAt: Date;
+  idToken?: string;
 }
 
 // Audit logging
@@ -106,13 +182,29 @@ export interface AuditEvent {
   timestamp: Date;
   ipAddress?: string;
   userAgent?: string;
+  requestId?: string; // X-Request-ID of the API call that caused the event
+  // Hash chain: position in the log, the previous event's hash and this
+  // event's SHA-256 over all other fields
+  sequence: number;
+  previousHash: string;
+  hash: string;
+}
+
+// Events recorded locally but not yet accepted by the audit endpoint
+export interface AuditDeliveryStatus {
+  pending: number;
+  failing: number; // Pending events that have failed at least once
+  lastError?: string;
 }
 
+export type AuditExportFormat = 'csv' | 'json' | 'jsonl' | 'cef' | 'syslog';
+
 export type AuditAction = 
   | 'document.upload'
   | 'document.view'
   | 'document.download'
   | 'redaction.create'
+  | 'redaction.suggest'
   | 'redaction.edit'
   | 'redaction.approve'
   | 'redaction.reject'
@@ -121,7 +213,27 @@ export type AuditAction =
   | 'auth.login'
   | 'auth.logout'
   | 'cache.clear'
-  | 'panic.clear';
+  | 'cache.protect'
+  | 'cache.unprotect'
+  | 'cache.unlock'
+  | 'cache.unlock_failed'
+  | 'cache.lockout'
+  | 'panic.clear'
+  | 'session.lock'
+  | 'session.unlock'
+  | 'session.timeout'
+  | 'audit.export'
+  | 'access.denied'
+  | 'user.create'
+  | 'user.update'
+  | 'user.role_change'
+  | 'user.disable'
+  | 'user.enable'
+  | 'marking.change'
+  | 'marking.downgrade'
+  | 'breakglass.start'
+  | 'breakglass.end'
+  | 'breakglass.acknowledge';
 
 // UI State types
 export interface AppState {
@@ -141,18 +253,69 @@ export interface RedactionToolState {
 // Security types
 export interface EncryptionKey {
   key: CryptoKey;
-  iv: Uint8Array;
   sessionId: string;
 }
 
+export const ENCRYPTION_ENVELOPE_VERSION = 1;
+
+// Ciphertext with everything needed to decrypt it except the key. The IV is
+// random for every encryption and must never be reused under the same key.
+export interface EncryptedEnvelope {
+  version: number;
+  algorithm: 'AES-GCM';
+  iv: string; // Base64
+  ciphertext: string; // Base64, including the GCM tag
+  aad?: string; // Additional authenticated data, e.g. the document ID
+}
+
+// A cached document, stored as separately encrypted chunks
 export interface SecureCache {
   documentId: string;
-  encryptedData: string;
-  iv: string;
+  keyId: string; // The session or passphrase-protected key that encrypted it
+  metadata?: EncryptedEnvelope; // Encrypted JSON supplied by the caller
+  version: number;
+  algorithm: EncryptedEnvelope['algorithm'];
+  size: number; // Plaintext bytes
+  storedBytes: number; // Ciphertext bytes across all chunks
+  chunkSize: number; // Plaintext bytes per chunk; the last may be shorter
+  chunkCount: number;
   timestamp: Date;
   expiresAt: Date;
 }
 
+export interface SecureCacheChunk {
+  documentId: string;
+  index: number;
+  iv: string; // Base64, unique to this chunk
+  data: ArrayBuffer; // Ciphertext including the GCM tag
+}
+
+// A cache data key wrapped with a key derived from the user's passphrase
+export interface WrappedCacheKey {
+  userId: string;
+  keyId: string;
+  salt: string; // Base64
+  iterations: number; // PBKDF2-SHA256
+  wrappedKey: string; // Base64, AES-KW
+  failedAttempts: number;
+  lockedUntil?: Date;
+  createdAt: Date;
+}
+
+export interface CacheLockStatus {
+  enabled: boolean; // A passphrase has been set
+  unlocked: boolean; // The passphrase-protected key is in use this session
+  failedAttempts: number;
+  lockedUntil?: Date;
+}
+
+export interface CacheUsage {
+  documentCount: number;
+  cachedBytes: number;
+  usage?: number; // Origin-wide, from the Storage API where supported
+  quota?: number;
+}
+
 // Error types
 export class FOIError extends Error {
   constructor(
@@ -181,6 +344,12 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     { resource: 'redaction', action: 'edit', granted: false },
     { resource: 'redaction', action: 'approve', granted: false },
     { resource: 'version', action: 'approve', granted: false },
+    { resource: 'audit', action: 'view', granted: false },
+    { resource: 'user', action: 'manage', granted: false },
+    { resource: 'marking', action: 'change', granted: false },
+    { resource: 'marking', action: 'downgrade', granted: false },
+    { resource: 'breakglass', action: 'request', granted: true },
+    { resource: 'breakglass', action: 'acknowledge', granted: false },
   ],
   redactor: [
     { resource: 'document', action: 'view', granted: true },
@@ -189,6 +358,12 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     { resource: 'redaction', action: 'edit', granted: true },
     { resource: 'redaction', action: 'approve', granted: false },
     { resource: 'version', action: 'approve', granted: false },
+    { resource: 'audit', action: 'view', granted: false },
+    { resource: 'user', action: 'manage', granted: false },
+    { resource: 'marking', action: 'change', granted: true },
+    { resource: 'marking', action: 'downgrade', granted: false },
+    { resource: 'breakglass', action: 'request', granted: true },
+    { resource: 'breakglass', action: 'acknowledge', granted: false },
   ],
   approver: [
     { resource: 'document', action: 'view', granted: true },
@@ -197,5 +372,35 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     { resource: 'redaction', action: 'edit', granted: true },
     { resource: 'redaction', action: 'approve', granted: true },
     { resource: 'version', action: 'approve', granted: true },
+    { resource: 'audit', action: 'view', granted: true },
+    { resource: 'user', action: 'manage', granted: false },
+    { resource: 'marking', action: 'change', granted: true },
+    { resource: 'marking', action: 'downgrade', granted: true },
+    { resource: 'breakglass', action: 'request', granted: true },
+    { resource: 'breakglass', action: 'acknowledge', granted: true },
+  ],
+  // Administers accounts and reviews the audit log, but works on no documents
+  admin: [
+    { resource: 'document', action: 'view', granted: false },
+    { resource: 'document', action: 'upload', granted: false },
+    { resource: 'redaction', action: 'create', granted: false },
+    { resource: 'redaction', action: 'edit', granted: false },
+    { resource: 'redaction', action: 'approve', granted: false },
+    { resource: 'version', action: 'approve', granted: false },
+    { resource: 'audit', action: 'view', granted: true },
+    { resource: 'user', action: 'manage', granted: true },
+    { resource: 'marking', action: 'change', granted: false },
+    { resource: 'marking', action: 'downgrade', granted: false },
+    { resource: 'breakglass', action: 'request', granted: false },
+    { resource: 'breakglass', action: 'acknowledge', granted: true },
   ],
-};
\ No newline at end of file
+};
+
+// Added to the user's role while they have break-glass access: another
+// department's documents can be opened and redacted. Approving and
+// finalizing are never granted this way.
+export const BREAK_GLASS_PERMISSIONS: Permission[] = [
+  { resource: 'document', action: 'view', granted: true },
+  { resource: 'redaction', action: 'create', granted: true },
+  { resource: 'redaction', action: 'edit', granted: true },
+];
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUDIT_RETRY_BASE_DELAY,
+  AUDIT_RETRY_MAX_DELAY,
+  filterAuditEvents,
+  getAuditRetryDelay,
+  getDocumentAuditTrail,
+} from '../audit';
+import { AuditAction, AuditEvent } from '@/types';
+
+function makeEvent(
+  sequence: number,
+  action: AuditAction,
+  resourceType: string,
+  resourceId: string,
+  details: Record<string, unknown> = {},
+  userId = '2'
+): AuditEvent {
+  return {
+    id: `e${sequence}`,
+    sequence,
+    userId,
+    action,
+    resourceType,
+    resourceId,
+    details,
+    timestamp: new Date(Date.UTC(2024, 0, sequence)),
+    previousHash: `h${sequence - 1}`,
+    hash: `h${sequence}`,
+  };
+}
+
+const EVENTS = [
+  makeEvent(1, 'document.upload', 'document', 'd1', { fileName: 'brief.pdf' }),
+  makeEvent(2, 'redaction.create', 'redaction', 'r1', { documentId: 'd1', reasonCode: 'FOI s 47F' }),
+  makeEvent(3, 'redaction.approve', 'redaction', 'r1', { documentId: 'd1' }, '3'),
+  makeEvent(4, 'document.upload', 'document', 'd2', { fileName: 'memo.docx' }),
+];
+
+describe('Audit Utils', () => {
+  describe('getAuditRetryDelay', () => {
+    it('should double the delay after each failed attempt', () => {
+      const noJitter = () => 0;
+
+      expect(getAuditRetryDelay(1, noJitter)).toBe(AUDIT_RETRY_BASE_DELAY);
+      expect(getAuditRetryDelay(2, noJitter)).toBe(AUDIT_RETRY_BASE_DELAY * 2);
+      expect(getAuditRetryDelay(4, noJitter)).toBe(AUDIT_RETRY_BASE_DELAY * 8);
+    });
+
+    it('should cap the delay', () => {
+      expect(getAuditRetryDelay(50, () => 0)).toBe(AUDIT_RETRY_MAX_DELAY);
+    });
+
+    it('should add at most 20% jitter', () => {
+      expect(getAuditRetryDelay(1, () => 1)).toBe(AUDIT_RETRY_BASE_DELAY * 1.2);
+    });
+  });
+
+  describe('filterAuditEvents', () => {
+    it('should combine filters', () => {
+      const result = filterAuditEvents(EVENTS, { userId: '2', resourceType: 'document' });
+
+      expect(result.map(e => e.id)).toEqual(['e1', 'e4']);
+    });
+
+    it('should filter by date range inclusively', () => {
+      const result = filterAuditEvents(EVENTS, {
+        from: new Date(Date.UTC(2024, 0, 2)),
+        to: new Date(Date.UTC(2024, 0, 3)),
+      });
+
+      expect(result.map(e => e.id)).toEqual(['e2', 'e3']);
+    });
+
+    it('should search details case-insensitively', () => {
+      expect(filterAuditEvents(EVENTS, { text: 's 47f' }).map(e => e.id)).toEqual(['e2']);
+      expect(filterAuditEvents(EVENTS, { text: 'MEMO' }).map(e => e.id)).toEqual(['e4']);
+    });
+  });
+
+  describe('getDocumentAuditTrail', () => {
+    it('should include events on the document\'s redactions, oldest first', () => {
+      const trail = getDocumentAuditTrail([...EVENTS].reverse(), 'd1');
+
+      expect(trail.map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { toAuditCsv, toAuditJsonLines, toCefLine, toSyslogLine } from '../auditExport';
+import { AuditEvent } from '@/types';
+
+const EVENT: AuditEvent = {
+  id: 'e1',
+  sequence: 7,
+  userId: '2',
+  action: 'document.download',
+  resourceType: 'document',
+  resourceId: 'doc|1',
+  details: { fileName: 'Brief "final".pdf', note: 'a=b\nc' },
+  timestamp: new Date('2024-03-01T02:03:04.005Z'),
+  ipAddress: '127.0.0.1',
+  userAgent: 'Mozilla/5.0 [test]',
+  requestId: 'req_1_abc',
+  previousHash: 'prev+/=',
+  hash: 'hash+/=',
+};
+
+describe('Audit Export Utils', () => {
+  describe('toAuditCsv', () => {
+    it('should quote every cell and double embedded quotes', () => {
+      const [header, row] = toAuditCsv([EVENT]).split('\r\n');
+
+      expect(header).toContain('"Resource ID","Request ID"');
+      expect(row).toContain('"doc|1","req_1_abc"');
+      expect(row).toContain('"{""fileName"":""Brief \\""final\\"".pdf"",""note"":""a=b\\nc""}"');
+    });
+
+    it('should stop fields being read as spreadsheet formulas', () => {
+      const row = toAuditCsv([{
+        ...EVENT,
+        userId: '\tcmd',
+        resourceId: '=HYPERLINK("http://evil.example","x")',
+        userAgent: '@SUM(1+1)',
+      }]).split('\r\n')[1];
+
+      expect(row).toContain('"\'\tcmd"');
+      expect(row).toContain('"\'=HYPERLINK(""http://evil.example"",""x"")"');
+      expect(row).toContain('"\'@SUM(1+1)"');
+      expect(row).toContain('"req_1_abc"'); // Other cells are left alone
+      expect(toAuditJsonLines([{ ...EVENT, userAgent: '@SUM(1+1)' }])).toContain('"userAgent":"@SUM(1+1)"');
+    });
+
+    it('should export hashes unaltered even when they start with +', () => {
+      const row = toAuditCsv([{ ...EVENT, previousHash: '+prev/=', hash: '+hash/=' }]).split('\r\n')[1];
+
+      expect(row.endsWith('"+prev/=","+hash/="')).toBe(true);
+    });
+
+    it('should leave missing fields empty', () => {
+      const row = toAuditCsv([{ ...EVENT, requestId: undefined }]).split('\r\n')[1];
+
+      expect(row).toContain('"doc|1","","2024-03-01T02:03:04.005Z"');
+    });
+  });
+
+  describe('toAuditJsonLines', () => {
+    it('should write one record per line with a fixed set of fields', () => {
+      const lines = toAuditJsonLines([EVENT, { ...EVENT, id: 'e2', requestId: undefined }]).split('\n');
+      const records = lines.map(line => JSON.parse(line));
+
+      expect(lines).toHaveLength(2);
+      expect(Object.keys(records[0])).toEqual(Object.keys(records[1]));
+      expect(records[0]).toMatchObject({
+        action: 'document.download',
+        resourceType: 'document',
+        resourceId: 'doc|1',
+        userAgent: 'Mozilla/5.0 [test]',
+        requestId: 'req_1_abc',
+        timestamp: '2024-03-01T02:03:04.005Z',
+      });
+      expect(records[1].requestId).toBeNull();
+    });
+  });
+
+  describe('toCefLine', () => {
+    it('should map fields to CEF keys and escape values', () => {
+      const line = toCefLine(EVENT);
+
+      expect(line.startsWith('CEF:0|Australian Government|FOI Redaction Tool|1.0|document.download|FOI document.download|5|')).toBe(true);
+      expect(line).toContain('act=document.download');
+      expect(line).toContain('cs1Label=resourceType cs1=document');
+      expect(line).toContain('cs2Label=resourceId cs2=doc|1');
+      expect(line).toContain('cs3Label=requestId cs3=req_1_abc');
+      expect(line).toContain('requestClientApplication=Mozilla/5.0 [test]');
+      expect(line).toContain('cs4=hash+/\\=');
+      expect(line).toContain('"note":"a\\=b\\\\nc"');
+      expect(line).not.toContain('\n');
+    });
+  });
+
+  describe('toSyslogLine', () => {
+    it('should render an RFC 5424 message with structured data', () => {
+      const line = toSyslogLine(EVENT, 'foi.example.gov.au');
+
+      expect(line.startsWith('<109>1 2024-03-01T02:03:04.005Z foi.example.gov.au foi-redaction-tool - document.download [foi@32473 ')).toBe(true);
+      expect(line).toContain('resourceId="doc|1"');
+      expect(line).toContain('requestId="req_1_abc"');
+      expect(line).toContain('userAgent="Mozilla/5.0 [test\\]"');
+      expect(line.endsWith('{"fileName":"Brief \\"final\\".pdf","note":"a=b\\nc"}')).toBe(true);
+    });
+
+    it('should use a nil hostname when none is known', () => {
+      expect(toSyslogLine(EVENT, '').split(' ')[2]).toBe('-');
+    });
+  });
+});
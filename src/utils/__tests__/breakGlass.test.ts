@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { getBreakGlassReviews, isAwaitingAcknowledgement } from '../breakGlass';
+import { AuditAction, AuditEvent } from '@/types';
+
+function makeEvent(
+  sequence: number,
+  action: AuditAction,
+  resourceType: string,
+  resourceId: string,
+  details: Record<string, unknown> = {},
+  userId = '2'
+): AuditEvent {
+  return {
+    id: `e${sequence}`,
+    sequence,
+    userId,
+    action,
+    resourceType,
+    resourceId,
+    details,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 9, sequence)),
+    previousHash: `h${sequence - 1}`,
+    hash: `h${sequence}`,
+  };
+}
+
+const START = makeEvent(1, 'breakglass.start', 'breakglass', 'bg1', {
+  justification: 'Ministerial brief due today',
+  expiresAt: new Date(Date.UTC(2024, 0, 1, 9, 16)).toISOString(),
+});
+
+describe('Break-glass Utils', () => {
+  describe('getBreakGlassReviews', () => {
+    it('should collect the events tagged with the grant', () => {
+      const [review] = getBreakGlassReviews([
+        makeEvent(3, 'document.view', 'document', 'd2', {}, '5'),
+        makeEvent(2, 'redaction.create', 'redaction', 'r1', { breakGlassId: 'bg1' }),
+        START,
+      ]);
+
+      expect(review).toMatchObject({
+        grantId: 'bg1',
+        userId: '2',
+        justification: 'Ministerial brief due today',
+        endedEarly: false,
+      });
+      expect(review.endedAt.toISOString()).toBe('2024-01-01T09:16:00.000Z');
+      expect(review.actions.map(event => event.resourceId)).toEqual(['r1']);
+    });
+
+    it('should record an early end and the acknowledgement', () => {
+      const [review] = getBreakGlassReviews([
+        START,
+        makeEvent(2, 'breakglass.end', 'breakglass', 'bg1', { breakGlassId: 'bg1', reason: 'ended' }),
+        makeEvent(3, 'breakglass.acknowledge', 'breakglass', 'bg1', { grantedTo: '2', comment: 'Justified' }, '3'),
+      ]);
+
+      expect(review.endedEarly).toBe(true);
+      expect(review.endedAt).toEqual(new Date(Date.UTC(2024, 0, 1, 9, 2)));
+      expect(review.actions).toEqual([]);
+      expect(review.acknowledgement).toEqual({
+        userId: '3',
+        acknowledgedAt: new Date(Date.UTC(2024, 0, 1, 9, 3)),
+        comment: 'Justified',
+      });
+    });
+
+    it('should ignore an acknowledgement by the grantee or before the window closed', () => {
+      const events = [
+        START,
+        makeEvent(5, 'breakglass.acknowledge', 'breakglass', 'bg1', { grantedTo: '2' }, '3'),
+        makeEvent(17, 'breakglass.acknowledge', 'breakglass', 'bg1', { grantedTo: '2' }, '2'),
+      ];
+
+      const [review] = getBreakGlassReviews(events);
+      expect(review.acknowledgement).toBeUndefined();
+      expect(isAwaitingAcknowledgement(review, new Date(Date.UTC(2024, 0, 1, 9, 20)))).toBe(true);
+
+      const [acknowledged] = getBreakGlassReviews([
+        ...events,
+        makeEvent(20, 'breakglass.acknowledge', 'breakglass', 'bg1', { grantedTo: '2' }, '3'),
+      ]);
+      expect(acknowledged.acknowledgement?.acknowledgedAt).toEqual(new Date(Date.UTC(2024, 0, 1, 9, 20)));
+    });
+
+    it('should list the newest grant first', () => {
+      const reviews = getBreakGlassReviews([
+        START,
+        makeEvent(2, 'breakglass.start', 'breakglass', 'bg2', { justification: 'Second', expiresAt: START.details.expiresAt }),
+      ]);
+
+      expect(reviews.map(review => review.grantId)).toEqual(['bg2', 'bg1']);
+    });
+  });
+
+  describe('isAwaitingAcknowledgement', () => {
+    it('should wait for the window to close and stop once acknowledged', () => {
+      const [review] = getBreakGlassReviews([START]);
+
+      expect(isAwaitingAcknowledgement(review, new Date(Date.UTC(2024, 0, 1, 9, 10)))).toBe(false);
+      expect(isAwaitingAcknowledgement(review, new Date(Date.UTC(2024, 0, 1, 9, 20)))).toBe(true);
+      expect(isAwaitingAcknowledgement(
+        { ...review, acknowledgement: { userId: '3', acknowledgedAt: new Date() } },
+        new Date(Date.UTC(2024, 0, 1, 9, 20))
+      )).toBe(false);
+    });
+  });
+});
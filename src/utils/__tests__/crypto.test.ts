@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { decryptChunks, encryptChunks, fromBase64, getChunkCount, toBase64 } from '../crypto';
+
+const subtle = vi.mocked(crypto.subtle);
+const key = {} as CryptoKey;
+
+// Stands in for AES-GCM: returns the plaintext unchanged
+const copy = async (_params: unknown, _key: unknown, data: BufferSource) =>
+  new Uint8Array(data as Uint8Array).slice().buffer;
+
+describe('crypto utils', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    subtle.encrypt.mockImplementation(copy as typeof subtle.encrypt);
+    subtle.decrypt.mockImplementation(copy as typeof subtle.decrypt);
+  });
+
+  it('should round-trip base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(Array.from(fromBase64(toBase64(bytes)))).toEqual([0, 1, 127, 128, 255]);
+  });
+
+  it('should count at least one chunk', () => {
+    expect(getChunkCount(0, 4)).toBe(1);
+    expect(getChunkCount(8, 4)).toBe(2);
+    expect(getChunkCount(9, 4)).toBe(3);
+  });
+
+  describe('encryptChunks', () => {
+    it('should encrypt each chunk with its own IV and aad', async () => {
+      const data = new Uint8Array([1, 2, 3, 4, 5]).buffer;
+
+      const chunks = await encryptChunks(key, data, 2, ['a', 'b', 'c']);
+
+      expect(chunks.map(chunk => Array.from(new Uint8Array(chunk.data)))).toEqual([[1, 2], [3, 4], [5]]);
+      expect(chunks.map(chunk => chunk.aad)).toEqual(['a', 'b', 'c']);
+      expect(chunks[0].iv).not.toEqual(chunks[1].iv);
+    });
+
+    it('should report progress after each chunk', async () => {
+      const onProgress = vi.fn();
+
+      await encryptChunks(key, new ArrayBuffer(4), 1, [], { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.25, 0.5, 0.75, 1]);
+    });
+
+    it('should stop at the next chunk when cancelled', async () => {
+      let cancelled = false;
+
+      await expect(encryptChunks(key, new ArrayBuffer(4), 1, [], {
+        onProgress: () => { cancelled = true; },
+        isCancelled: () => cancelled,
+      })).rejects.toMatchObject({ code: 'CRYPTO_CANCELLED' });
+      expect(subtle.encrypt).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('decryptChunks', () => {
+    it('should join decrypted chunks in order', async () => {
+      const chunks = await encryptChunks(key, new Uint8Array([1, 2, 3, 4, 5]).buffer, 2, []);
+
+      const plaintext = await decryptChunks(key, chunks);
+
+      expect(Array.from(new Uint8Array(plaintext))).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectSensitiveData,
+  isValidTFN,
+  isValidMedicareNumber,
+  isValidABN,
+  isValidACN,
+} from '../detection';
+
+function detectedValues(text: string) {
+  return detectSensitiveData(text).map(m => ({
+    type: m.type,
+    value: text.slice(m.start, m.end),
+  }));
+}
+
+describe('Detection Utils', () => {
+  describe('checksums', () => {
+    it('should validate Tax File Numbers', () => {
+      expect(isValidTFN('123 456 782')).toBe(true);
+      expect(isValidTFN('123 456 789')).toBe(false);
+      expect(isValidTFN('12345')).toBe(false);
+    });
+
+    it('should validate Medicare numbers', () => {
+      expect(isValidMedicareNumber('2123 45670 1')).toBe(true);
+      expect(isValidMedicareNumber('2123 45671 1')).toBe(false);
+      expect(isValidMedicareNumber('7123 45670 1')).toBe(false);
+    });
+
+    it('should validate ABNs', () => {
+      expect(isValidABN('51 824 753 556')).toBe(true);
+      expect(isValidABN('51 824 753 557')).toBe(false);
+    });
+
+    it('should validate ACNs', () => {
+      expect(isValidACN('004 085 616')).toBe(true);
+      expect(isValidACN('004 085 617')).toBe(false);
+    });
+  });
+
+  describe('detectSensitiveData', () => {
+    it('should detect a TFN and raise confidence when labelled', () => {
+      const [unlabelled] = detectSensitiveData('Reference 123 456 782 attached');
+      const [labelled] = detectSensitiveData('TFN: 123 456 782');
+
+      expect(unlabelled.type).toBe('tfn');
+      expect(labelled.type).toBe('tfn');
+      expect(labelled.confidence).toBeGreaterThan(unlabelled.confidence);
+    });
+
+    it('should ignore numbers that fail their checksum', () => {
+      expect(detectSensitiveData('Invoice 123 456 789')).toEqual([]);
+    });
+
+    it('should prefer the labelled identifier when formats overlap', () => {
+      expect(detectedValues('ACN 004 085 616')).toEqual([
+        { type: 'acn', value: '004 085 616' },
+      ]);
+    });
+
+    it('should detect Medicare numbers and ABNs', () => {
+      expect(detectedValues('Medicare card 2123 45670 1, ABN 51 824 753 556')).toEqual([
+        { type: 'medicare', value: '2123 45670 1' },
+        { type: 'abn', value: '51 824 753 556' },
+      ]);
+    });
+
+    it('should detect emails and phone numbers', () => {
+      expect(detectedValues('Contact jane.citizen@example.com.au or 0412 345 678 or (02) 6123 4567')).toEqual([
+        { type: 'email', value: 'jane.citizen@example.com.au' },
+        { type: 'phone', value: '0412 345 678' },
+        { type: 'phone', value: '(02) 6123 4567' },
+      ]);
+    });
+
+    it('should redact only the value of a labelled driver licence or birth date', () => {
+      expect(detectedValues('Driver licence no: 12345678. DOB: 03/04/1985')).toEqual([
+        { type: 'driver_licence', value: '12345678' },
+        { type: 'date_of_birth', value: '03/04/1985' },
+      ]);
+    });
+
+    it('should not flag unlabelled dates', () => {
+      expect(detectSensitiveData('Meeting held on 03/04/2023')).toEqual([]);
+    });
+
+    it('should detect street addresses', () => {
+      expect(detectedValues('She lives at 42 Wallaby Way, Sydney NSW 2000 with')).toEqual([
+        { type: 'address', value: '42 Wallaby Way, Sydney NSW 2000' },
+      ]);
+    });
+
+    it('should drop matches below the minimum confidence', () => {
+      expect(detectSensitiveData('Reference 123 456 782', 0.9)).toEqual([]);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   isValidFileType,
   isValidFileSize,
@@ -6,6 +6,9 @@ import {
   formatFileSize,
   validateFileName,
   sanitizeFilename,
+  createObjectUrl,
+  revokeObjectUrl,
+  revokeAllObjectUrls,
   MAX_FILE_SIZE,
 } from '../file';
 
@@ -158,4 +161,21 @@ describe('File Utils', () => {
       expect(sanitizeFilename('clean-filename.pdf')).toBe('clean-filename.pdf');
     });
   });
-});
\ No newline at end of file
+
+  describe('object URLs', () => {
+    it('should revoke every URL still outstanding', () => {
+      vi.mocked(URL.createObjectURL)
+        .mockReturnValueOnce('blob:one')
+        .mockReturnValueOnce('blob:two');
+      vi.mocked(URL.revokeObjectURL).mockClear();
+
+      createObjectUrl(new Blob(['a']));
+      const released = createObjectUrl(new Blob(['b']));
+      revokeObjectUrl(released);
+
+      expect(revokeAllObjectUrls()).toBe(1);
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:one');
+      expect(revokeAllObjectUrls()).toBe(0);
+    });
+  });
+});
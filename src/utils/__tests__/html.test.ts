@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeHtml } from '../html';
+
+describe('HTML Utils', () => {
+  describe('sanitizeHtml', () => {
+    it('should keep document formatting', () => {
+      const html = '<h1>Title</h1><p><strong>Bold</strong> and <em>italic</em></p><table><tbody><tr><td colspan="2">Cell</td></tr></tbody></table>';
+
+      expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    it('should drop scripts and their content', () => {
+      expect(sanitizeHtml('<p>Safe</p><script>alert(1)</script><style>p{}</style>'))
+        .toBe('<p>Safe</p>');
+    });
+
+    it('should strip event handlers and styles', () => {
+      expect(sanitizeHtml('<p onclick="steal()" style="color:red">Text</p>'))
+        .toBe('<p>Text</p>');
+    });
+
+    it('should unwrap unknown elements but keep their text', () => {
+      expect(sanitizeHtml('<div><custom-tag>Kept</custom-tag></div>'))
+        .toBe('Kept');
+    });
+
+    it('should only allow inline images and in-document links', () => {
+      const html = '<img src="https://tracker.example/pixel.png" alt="a">' +
+        '<img src="data:image/png;base64,AAAA" alt="b">' +
+        '<a href="javascript:alert(1)">bad</a><a href="#note-1">good</a>';
+
+      expect(sanitizeHtml(html)).toBe(
+        '<img alt="a"><img src="data:image/png;base64,AAAA" alt="b"><a>bad</a><a href="#note-1">good</a>'
+      );
+    });
+  });
+});
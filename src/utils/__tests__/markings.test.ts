@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canAccessMarking,
+  detectProtectiveMarking,
+  getClearanceCeiling,
+  getDocumentMarking,
+  isDowngrade,
+} from '../markings';
+
+describe('Protective markings', () => {
+  describe('detectProtectiveMarking', () => {
+    it('should find the marking in a page header', () => {
+      expect(detectProtectiveMarking('PROTECTED\nBrief for the Minister\n...')).toBe('PROTECTED');
+      expect(detectProtectiveMarking('OFFICIAL: Sensitive\nPersonal privacy')).toBe('OFFICIAL: Sensitive');
+    });
+
+    it('should prefer the highest marking and not read TOP SECRET as SECRET', () => {
+      expect(detectProtectiveMarking('TOP SECRET\nAttachment A is OFFICIAL')).toBe('TOP SECRET');
+    });
+
+    it('should not mistake ordinary words for markings', () => {
+      expect(detectProtectiveMarking('The secret to a protected, official process')).toBeNull();
+      expect(detectProtectiveMarking('')).toBeNull();
+    });
+
+    it('should only search the start and end of long documents', () => {
+      const body = 'x'.repeat(5000);
+
+      expect(detectProtectiveMarking(`OFFICIAL\n${body}\nOFFICIAL`)).toBe('OFFICIAL');
+      expect(detectProtectiveMarking(`${body}SECRET${body}`)).toBeNull();
+    });
+  });
+
+  describe('clearances', () => {
+    it('should limit uncleared staff to OFFICIAL: Sensitive', () => {
+      expect(getClearanceCeiling(undefined)).toBe('OFFICIAL: Sensitive');
+      expect(canAccessMarking(undefined, 'OFFICIAL: Sensitive')).toBe(true);
+      expect(canAccessMarking(undefined, 'PROTECTED')).toBe(false);
+    });
+
+    it('should give each clearance its ceiling', () => {
+      expect(canAccessMarking('baseline', 'PROTECTED')).toBe(true);
+      expect(canAccessMarking('baseline', 'SECRET')).toBe(false);
+      expect(canAccessMarking('nv1', 'SECRET')).toBe(true);
+      expect(canAccessMarking('nv1', 'TOP SECRET')).toBe(false);
+      expect(canAccessMarking('nv2', 'TOP SECRET')).toBe(true);
+    });
+  });
+
+  it('should treat unmarked documents as OFFICIAL', () => {
+    expect(getDocumentMarking({})).toBe('OFFICIAL');
+  });
+
+  it('should recognise a downgrade', () => {
+    expect(isDowngrade('PROTECTED', 'OFFICIAL')).toBe(true);
+    expect(isDowngrade('OFFICIAL', 'PROTECTED')).toBe(false);
+  });
+});
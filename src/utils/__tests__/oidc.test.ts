@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IdTokenClaims,
+  base64UrlDecode,
+  base64UrlEncode,
+  claimsToUser,
+  getOidcConfig,
+  mapRoleClaim,
+  parseRoleMap,
+  validateIdTokenClaims,
+  MOCK_IDP_ISSUER,
+} from '../oidc';
+
+const now = 1_700_000_000;
+
+function claims(overrides: Partial<IdTokenClaims> = {}): IdTokenClaims {
+  return {
+    iss: 'https://idp.example.gov.au',
+    sub: 'user-1',
+    aud: 'foi-redaction-tool',
+    iat: now,
+    exp: now + 300,
+    nonce: 'n-1',
+    ...overrides,
+  };
+}
+
+describe('OIDC utils', () => {
+  it('should round-trip base64url without padding', () => {
+    const bytes = new Uint8Array([251, 255, 191, 0]);
+    const encoded = base64UrlEncode(bytes);
+
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(Array.from(base64UrlDecode(encoded))).toEqual([251, 255, 191, 0]);
+  });
+
+  describe('getOidcConfig', () => {
+    it('should use the mock identity provider when no issuer is configured', () => {
+      expect(getOidcConfig({}, 'http://localhost:5173')).toMatchObject({
+        issuer: MOCK_IDP_ISSUER,
+        redirectUri: 'http://localhost:5173/auth/callback',
+        useMockIdp: true,
+      });
+    });
+
+    it('should use the configured issuer', () => {
+      const config = getOidcConfig({ VITE_OIDC_ISSUER: 'https://idp.example.gov.au' });
+      expect(config).toMatchObject({ issuer: 'https://idp.example.gov.au', useMockIdp: false });
+    });
+
+    it('should refuse the mock identity provider in a production build', () => {
+      expect(() => getOidcConfig({ PROD: true })).toThrow(expect.objectContaining({ code: 'OIDC_NOT_CONFIGURED' }));
+      expect(getOidcConfig({ PROD: true, VITE_OIDC_ISSUER: 'https://idp.example.gov.au' }).useMockIdp).toBe(false);
+    });
+  });
+
+  describe('role mapping', () => {
+    const roleMap = parseRoleMap('FOI-Approvers=approver, FOI-Staff=viewer, Admins=superuser');
+
+    it('should map configured claim values and ignore unknown roles', () => {
+      expect(roleMap['FOI-Approvers']).toBe('approver');
+      expect(roleMap['FOI-Staff']).toBe('viewer');
+      expect(roleMap.Admins).toBeUndefined();
+      expect(roleMap.redactor).toBe('redactor');
+    });
+
+    it('should pick the highest role from a nested array claim', () => {
+      const token = { realm_access: { roles: ['FOI-Staff', 'FOI-Approvers', 'other'] } };
+      expect(mapRoleClaim(token, 'realm_access.roles', roleMap)).toBe('approver');
+    });
+
+    it('should return null when nothing maps', () => {
+      expect(mapRoleClaim({ roles: 'contractor' }, 'roles', roleMap)).toBeNull();
+    });
+
+    it('should refuse users without a role', () => {
+      expect(() => claimsToUser(claims(), { roleClaim: 'roles', roleMap }))
+        .toThrow(expect.objectContaining({ code: 'AUTH_NO_ROLE' }));
+    });
+
+    it('should build a user from the claims', () => {
+      const user = claimsToUser(
+        claims({ email: 'a@foi.gov.au', name: 'A User', department: 'Treasury', roles: ['FOI-Staff'] }),
+        { roleClaim: 'roles', roleMap }
+      );
+      expect(user).toEqual({ id: 'user-1', email: 'a@foi.gov.au', name: 'A User', role: 'viewer', department: 'Treasury' });
+    });
+  });
+
+  describe('validateIdTokenClaims', () => {
+    const expected = { issuer: 'https://idp.example.gov.au', clientId: 'foi-redaction-tool', nonce: 'n-1' };
+
+    it('should accept matching claims', () => {
+      expect(() => validateIdTokenClaims(claims({ aud: ['other', 'foi-redaction-tool'] }), expected, now)).not.toThrow();
+    });
+
+    it.each([
+      ['issuer mismatch', { iss: 'https://evil.example' }],
+      ['audience mismatch', { aud: 'other-client' }],
+      ['expired', { exp: now - 120 }],
+      ['issued in the future', { iat: now + 120 }],
+      ['nonce mismatch', { nonce: 'n-2' }],
+    ])('should reject a token with an %s', (reason, overrides) => {
+      expect(() => validateIdTokenClaims(claims(overrides), expected, now))
+        .toThrow(expect.objectContaining({ code: 'OIDC_INVALID_TOKEN', details: { reason } }));
+    });
+
+    it('should allow for clock skew', () => {
+      expect(() => validateIdTokenClaims(claims({ exp: now - 30 }), expected, now)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canOverrideSeparationOfDuties,
+  canViewDocument,
+  checkMarkingChange,
+  hasPermission,
+  checkRedactionApproval,
+  checkVersionFinalization,
+} from '../permissions';
+import { Document, DocumentVersion, Redaction, RedactionStatus, User } from '@/types';
+
+const APPROVER: User = { id: '3', email: 'approver@agency.gov.au', name: 'Sarah Approver', role: 'approver' };
+const REDACTOR: User = { id: '2', email: 'redactor@agency.gov.au', name: 'John Redactor', role: 'redactor' };
+
+function makeRedaction(createdBy: string, status: RedactionStatus = 'approved'): Redaction {
+  return {
+    id: `r-${createdBy}-${status}`,
+    type: 'blackout',
+    coordinates: { page: 1, x: 10, y: 10, width: 50, height: 20 },
+    reasonCode: 'FOI s 47F',
+    createdAt: new Date(),
+    createdBy,
+    status,
+  };
+}
+
+function makeVersion(createdBy: string, redactions: Redaction[]): DocumentVersion {
+  return {
+    id: 'v1',
+    type: 'working',
+    content: new ArrayBuffer(0),
+    redactions,
+    createdAt: new Date(),
+    createdBy,
+    hash: 'hash',
+  };
+}
+
+describe('Permission Utils', () => {
+  describe('checkRedactionApproval', () => {
+    it('should allow approving another user\'s redaction', () => {
+      expect(checkRedactionApproval(APPROVER, makeRedaction('2', 'pending'), [])).toEqual({
+        allowed: true,
+        canOverride: false,
+      });
+    });
+
+    it('should block approving your own redaction', () => {
+      const check = checkRedactionApproval(APPROVER, makeRedaction('3', 'pending'), []);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toMatch(/another approver/);
+      expect(check.canOverride).toBe(false);
+    });
+
+    it('should offer an override only to a break-glass role', () => {
+      const check = checkRedactionApproval(APPROVER, makeRedaction('3', 'pending'), ['approver']);
+
+      expect(check.allowed).toBe(false);
+      expect(check.canOverride).toBe(true);
+    });
+
+    it('should block roles without approval permission', () => {
+      const check = checkRedactionApproval(REDACTOR, makeRedaction('3', 'pending'), ['redactor']);
+
+      expect(check.allowed).toBe(false);
+      expect(check.canOverride).toBe(false);
+    });
+  });
+
+  describe('checkVersionFinalization', () => {
+    it('should allow finalizing a version redacted by someone else', () => {
+      const version = makeVersion('2', [makeRedaction('2')]);
+
+      expect(checkVersionFinalization(APPROVER, version, []).allowed).toBe(true);
+    });
+
+    it('should block finalizing a version containing your own redactions', () => {
+      const version = makeVersion('2', [makeRedaction('2'), makeRedaction('3')]);
+
+      const check = checkVersionFinalization(APPROVER, version, []);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toMatch(/1 of this version's redactions/);
+    });
+
+    it('should ignore your own rejected redactions', () => {
+      const version = makeVersion('2', [makeRedaction('3', 'rejected')]);
+
+      expect(checkVersionFinalization(APPROVER, version, []).allowed).toBe(true);
+    });
+
+    it('should block finalizing a working version you created', () => {
+      const check = checkVersionFinalization(APPROVER, makeVersion('3', []), []);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toMatch(/created this working version/);
+    });
+  });
+
+  describe('canOverrideSeparationOfDuties', () => {
+    it('should only allow configured roles', () => {
+      expect(canOverrideSeparationOfDuties('approver', [])).toBe(false);
+      expect(canOverrideSeparationOfDuties('approver', ['approver'])).toBe(true);
+    });
+  });
+
+  describe('canViewDocument', () => {
+    const document: Document = {
+      id: 'd1',
+      name: 'brief.pdf',
+      type: 'pdf',
+      size: 1,
+      uploadedAt: new Date(),
+      uploadedBy: '7',
+      versions: [],
+      currentVersion: 'original',
+      department: 'Department of the Prime Minister and Cabinet',
+    };
+    const homeAffairsRedactor: User = { ...REDACTOR, department: 'Department of Home Affairs' };
+
+    it('should refuse a document from another department', () => {
+      expect(canViewDocument(homeAffairsRedactor, document)).toBe(false);
+    });
+
+    it('should allow it once the user is assigned to the case', () => {
+      expect(canViewDocument(homeAffairsRedactor, { ...document, assignedTo: ['2'] })).toBe(true);
+    });
+
+    it('should still answer role-only checks from the role table', () => {
+      expect(hasPermission('viewer', 'document', 'view')).toBe(true);
+      expect(hasPermission('viewer', 'document', 'upload')).toBe(false);
+    });
+  });
+
+  describe('checkMarkingChange', () => {
+    const document: Document = {
+      id: 'd2',
+      name: 'minute.pdf',
+      type: 'pdf',
+      size: 1,
+      uploadedAt: new Date(),
+      uploadedBy: '2',
+      versions: [],
+      currentVersion: 'original',
+      protectiveMarking: 'PROTECTED',
+    };
+    const clearedRedactor: User = { ...REDACTOR, clearance: 'baseline' };
+    const clearedApprover: User = { ...APPROVER, clearance: 'nv1' };
+
+    it('should let a redactor raise a marking within their clearance', () => {
+      expect(checkMarkingChange(clearedRedactor, { ...document, protectiveMarking: 'OFFICIAL' }, 'PROTECTED'))
+        .toEqual({ allowed: true, downgrade: false });
+    });
+
+    it('should leave downgrades to approvers', () => {
+      expect(checkMarkingChange(clearedRedactor, document, 'OFFICIAL')).toEqual({
+        allowed: false,
+        reason: 'Only an approver can downgrade a protective marking',
+        downgrade: true,
+      });
+      expect(checkMarkingChange(clearedApprover, document, 'OFFICIAL')).toEqual({ allowed: true, downgrade: true });
+    });
+
+    it('should refuse a marking above the user\'s own clearance', () => {
+      expect(checkMarkingChange(clearedRedactor, document, 'SECRET').allowed).toBe(false);
+    });
+
+    it('should refuse to re-mark a document the user cannot see', () => {
+      const decision = checkMarkingChange(REDACTOR, document, 'SECRET');
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toBe('This document is marked PROTECTED, which is above your clearance');
+    });
+  });
+});
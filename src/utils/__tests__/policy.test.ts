@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_POLICY, Policy, PolicySubject, ResourceAttributes, evaluatePolicy, matchesCondition } from '../policy';
+
+const HOME_AFFAIRS_REDACTOR: PolicySubject = {
+  id: '2',
+  role: 'redactor',
+  department: 'Department of Home Affairs',
+};
+
+const PMC_DOCUMENT: ResourceAttributes = {
+  department: 'Department of the Prime Minister and Cabinet',
+  owner: '7',
+  assignees: [],
+};
+
+describe('Access policy', () => {
+  describe('evaluatePolicy', () => {
+    it('should allow what the role table grants', () => {
+      expect(evaluatePolicy({ user: { role: 'redactor' }, resource: 'redaction', action: 'create' })).toEqual({
+        allowed: true,
+        reason: 'Your role (redactor) may create redactions',
+        ruleId: 'role:redaction.create',
+      });
+    });
+
+    it('should deny what no rule allows and say so', () => {
+      expect(evaluatePolicy({ user: { role: 'viewer' }, resource: 'document', action: 'upload' })).toEqual({
+        allowed: false,
+        reason: 'Your role (viewer) does not permit document.upload',
+      });
+    });
+
+    it('should keep an officer out of another department\'s document', () => {
+      const decision = evaluatePolicy({
+        user: HOME_AFFAIRS_REDACTOR,
+        resource: 'document',
+        action: 'view',
+        attributes: PMC_DOCUMENT,
+      });
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'This document belongs to Department of the Prime Minister and Cabinet and you are not assigned to its case',
+        ruleId: 'department-scope',
+      });
+    });
+
+    it('should scope every action on the document, not just viewing it', () => {
+      const decision = evaluatePolicy({
+        user: HOME_AFFAIRS_REDACTOR,
+        resource: 'redaction',
+        action: 'create',
+        attributes: PMC_DOCUMENT,
+      });
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it('should open a department\'s documents to its own officers', () => {
+      const decision = evaluatePolicy({
+        user: HOME_AFFAIRS_REDACTOR,
+        resource: 'document',
+        action: 'view',
+        attributes: { ...PMC_DOCUMENT, department: 'Department of Home Affairs' },
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should open another department\'s document to its uploader and case officers', () => {
+      const request = { user: HOME_AFFAIRS_REDACTOR, resource: 'document', action: 'view' };
+
+      expect(evaluatePolicy({ ...request, attributes: { ...PMC_DOCUMENT, owner: '2' } }).allowed).toBe(true);
+      expect(evaluatePolicy({ ...request, attributes: { ...PMC_DOCUMENT, assignees: ['5', '2'] } }).allowed).toBe(true);
+    });
+
+    it('should keep an officer with no department out of departmental documents', () => {
+      const decision = evaluatePolicy({
+        user: { id: '2', role: 'approver' },
+        resource: 'document',
+        action: 'view',
+        attributes: PMC_DOCUMENT,
+      });
+
+      expect(decision.ruleId).toBe('department-scope');
+    });
+
+    it('should not scope documents that have no department', () => {
+      const decision = evaluatePolicy({
+        user: HOME_AFFAIRS_REDACTOR,
+        resource: 'document',
+        action: 'view',
+        attributes: { owner: '7' },
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should keep a user out of documents marked above their clearance', () => {
+      const request = {
+        user: { ...HOME_AFFAIRS_REDACTOR, clearanceRank: 2 },
+        resource: 'document',
+        action: 'view',
+        attributes: { marking: 'PROTECTED', markingRank: 3 },
+      };
+
+      expect(evaluatePolicy(request)).toEqual({
+        allowed: false,
+        reason: 'This document is marked PROTECTED, which is above your clearance',
+        ruleId: 'clearance',
+      });
+      expect(evaluatePolicy({ ...request, user: { ...request.user, clearanceRank: 3 } }).allowed).toBe(true);
+    });
+
+    it('should lift department scoping under break-glass access', () => {
+      const request = { user: HOME_AFFAIRS_REDACTOR, resource: 'document', action: 'view', attributes: PMC_DOCUMENT };
+
+      expect(evaluatePolicy(request).allowed).toBe(false);
+      expect(evaluatePolicy({ ...request, context: { breakGlass: 'bg-1' } }).allowed).toBe(true);
+    });
+
+    it('should let a viewer redact under break-glass access but not approve', () => {
+      const request = { user: { role: 'viewer' as const }, resource: 'redaction', context: { breakGlass: 'bg-1' } };
+
+      expect(evaluatePolicy({ ...request, action: 'create' })).toEqual({
+        allowed: true,
+        reason: 'Break-glass access may create redactions',
+        ruleId: 'break-glass:redaction.create',
+      });
+      expect(evaluatePolicy({ ...request, action: 'approve' }).allowed).toBe(false);
+    });
+
+    it('should still enforce clearance under break-glass access', () => {
+      const decision = evaluatePolicy({
+        user: { ...HOME_AFFAIRS_REDACTOR, clearanceRank: 2 },
+        resource: 'document',
+        action: 'view',
+        attributes: { ...PMC_DOCUMENT, marking: 'PROTECTED', markingRank: 3 },
+        context: { breakGlass: 'bg-1' },
+      });
+
+      expect(decision.ruleId).toBe('clearance');
+    });
+
+    it('should let a deny rule override an allow rule in a custom policy', () => {
+      const policy: Policy = {
+        version: 1,
+        rules: [
+          ...DEFAULT_POLICY.rules,
+          {
+            id: 'no-after-hours-approval',
+            effect: 'deny',
+            resources: ['redaction'],
+            actions: ['approve'],
+            when: { attribute: 'context.afterHours', equals: true },
+            reason: 'Redactions cannot be approved after hours',
+          },
+        ],
+      };
+      const request = { user: { role: 'approver' as const }, resource: 'redaction', action: 'approve' };
+
+      expect(evaluatePolicy(request, policy).allowed).toBe(true);
+      expect(evaluatePolicy({ ...request, context: { afterHours: true } }, policy)).toMatchObject({
+        allowed: false,
+        reason: 'Redactions cannot be approved after hours',
+      });
+    });
+  });
+
+  describe('matchesCondition', () => {
+    const request = {
+      user: HOME_AFFAIRS_REDACTOR,
+      resource: 'document',
+      action: 'view',
+      attributes: { ...PMC_DOCUMENT, caseId: 'FOI-2025-001', tags: ['cabinet'] },
+    };
+
+    it('should combine conditions with all, any and not', () => {
+      expect(matchesCondition(request, {
+        any: [
+          { attribute: 'resource.caseId', equals: 'FOI-2025-002' },
+          { all: [{ attribute: 'resource.tags', contains: 'cabinet' }, { not: { attribute: 'user.role', in: ['viewer'] } }] },
+        ],
+      })).toBe(true);
+    });
+
+    it('should treat missing and empty attributes as absent', () => {
+      expect(matchesCondition(request, { attribute: 'resource.assignees', present: false })).toBe(true);
+      expect(matchesCondition(request, { attribute: 'context.ticket', present: false })).toBe(true);
+      expect(matchesCondition(request, { attribute: 'user.email', equals: { ref: 'resource.email' } })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampZoom,
+  getPageRedactions,
+  getUnreviewedRedactions,
+  isMeaningfulRedaction,
+  normalizeCoordinates,
+  MIN_ZOOM,
+  MAX_ZOOM,
+} from '../redaction';
+import { Redaction } from '@/types';
+
+const PAGE = { width: 612, height: 792 };
+
+function makeRedaction(id: string, page: number): Redaction {
+  return {
+    id,
+    type: 'rectangle',
+    coordinates: { page, x: 10, y: 10, width: 100, height: 20 },
+    reasonCode: 'FOI s 22',
+    createdAt: new Date(),
+    createdBy: '2',
+    status: 'pending',
+  };
+}
+
+describe('Redaction Utils', () => {
+  describe('getPageRedactions', () => {
+    it('should return only the redactions on the given page', () => {
+      const redactions = [makeRedaction('a', 1), makeRedaction('b', 2), makeRedaction('c', 1)];
+
+      expect(getPageRedactions(redactions, 1).map(r => r.id)).toEqual(['a', 'c']);
+      expect(getPageRedactions(redactions, 2).map(r => r.id)).toEqual(['b']);
+      expect(getPageRedactions(redactions, 3)).toEqual([]);
+    });
+  });
+
+  describe('getUnreviewedRedactions', () => {
+    it('should return pending and suggested redactions', () => {
+      const redactions = (['pending', 'suggested', 'approved', 'rejected'] as const).map(
+        (status, i) => ({ ...makeRedaction(status, 1), status, id: String(i) })
+      );
+
+      expect(getUnreviewedRedactions(redactions).map(r => r.status)).toEqual(['pending', 'suggested']);
+    });
+  });
+
+  describe('normalizeCoordinates', () => {
+    it('should leave boxes inside the page unchanged', () => {
+      const coordinates = { page: 1, x: 50, y: 60, width: 100, height: 40 };
+      expect(normalizeCoordinates(coordinates, PAGE)).toEqual(coordinates);
+    });
+
+    it('should clamp boxes that extend past the page edges', () => {
+      const coordinates = { page: 2, x: -20, y: 780, width: 100, height: 40 };
+      expect(normalizeCoordinates(coordinates, PAGE)).toEqual({
+        page: 2, x: 0, y: 780, width: 80, height: 12,
+      });
+    });
+
+    it('should flip boxes with negative dimensions', () => {
+      const coordinates = { page: 1, x: 150, y: 100, width: -100, height: -50 };
+      expect(normalizeCoordinates(coordinates, PAGE)).toEqual({
+        page: 1, x: 50, y: 50, width: 100, height: 50,
+      });
+    });
+
+    it('should round to two decimal places', () => {
+      const coordinates = { page: 1, x: 10.123456, y: 20.98765, width: 30.5555, height: 40.1 };
+      expect(normalizeCoordinates(coordinates, PAGE)).toEqual({
+        page: 1, x: 10.12, y: 20.99, width: 30.56, height: 40.1,
+      });
+    });
+  });
+
+  describe('clampZoom', () => {
+    it('should keep zoom between 50% and 300%', () => {
+      expect(clampZoom(0.25)).toBe(MIN_ZOOM);
+      expect(clampZoom(1.5)).toBe(1.5);
+      expect(clampZoom(4)).toBe(MAX_ZOOM);
+    });
+  });
+
+  describe('isMeaningfulRedaction', () => {
+    it('should reject boxes smaller than the minimum size', () => {
+      expect(isMeaningfulRedaction({ page: 1, x: 0, y: 0, width: 4, height: 20 })).toBe(false);
+      expect(isMeaningfulRedaction({ page: 1, x: 0, y: 0, width: 20, height: 5 })).toBe(true);
+    });
+  });
+});
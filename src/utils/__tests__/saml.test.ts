@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SamlAssertion,
+  canonicalize,
+  getSamlConfig,
+  getSpkiFromPem,
+  parseSamlXml,
+  samlAssertionToUser,
+} from '../saml';
+import idpCertificate from '@/test/fixtures/saml/idp-cert.pem?raw';
+
+function assertion(attributes: Record<string, string[]>, nameId = 'user@foi.gov.au'): SamlAssertion {
+  return {
+    id: '_a1',
+    issuer: 'https://idp.example.gov.au/saml',
+    nameId,
+    inResponseTo: '_req-1',
+    notOnOrAfter: 0,
+    attributes,
+  };
+}
+
+describe('SAML utils', () => {
+  describe('getSamlConfig', () => {
+    it('should default the SP entity ID, ACS URL and role attribute', () => {
+      expect(getSamlConfig({}, 'http://localhost:5173')).toMatchObject({
+        idpEntityId: '',
+        idpCertificate: '',
+        spEntityId: 'foi-redaction-tool',
+        acsUrl: 'http://localhost:5173/auth/saml',
+        roleAttribute: 'role',
+      });
+    });
+
+    it('should read the role map', () => {
+      const config = getSamlConfig({ VITE_SAML_ROLE_MAP: 'FOI-Approvers=approver' }, 'http://localhost:5173');
+
+      expect(config.roleMap['FOI-Approvers']).toBe('approver');
+    });
+  });
+
+  describe('parseSamlXml', () => {
+    it('should refuse a DOCTYPE', () => {
+      expect(() => parseSamlXml('<!DOCTYPE x [<!ENTITY a "a">]><x>&a;</x>'))
+        .toThrow(expect.objectContaining({ code: 'SAML_MALFORMED' }));
+    });
+
+    it('should refuse XML that is not well-formed', () => {
+      expect(() => parseSamlXml('<samlp:Response>')).toThrow(expect.objectContaining({ code: 'SAML_MALFORMED' }));
+    });
+  });
+
+  describe('canonicalize', () => {
+    it('should only render namespaces the subtree uses', () => {
+      const doc = parseSamlXml('<r xmlns:a="urn:a" xmlns:b="urn:b"><a:x b:z="2" y="1"><a:child/></a:x></r>');
+
+      expect(canonicalize(doc.documentElement.firstElementChild!))
+        .toBe('<a:x xmlns:a="urn:a" xmlns:b="urn:b" y="1" b:z="2"><a:child></a:child></a:x>');
+    });
+
+    it('should render inclusive prefixes even when unused', () => {
+      const doc = parseSamlXml('<r xmlns:a="urn:a" xmlns:xs="urn:xs"><a:x/></r>');
+
+      expect(canonicalize(doc.documentElement.firstElementChild!, { inclusivePrefixes: ['xs'] }))
+        .toBe('<a:x xmlns:a="urn:a" xmlns:xs="urn:xs"></a:x>');
+    });
+
+    it('should normalise escaping and drop comments and the excluded node', () => {
+      const doc = parseSamlXml('<x a="&apos;&#9;&quot;"><!-- note --><sig/>1 &lt; 2 &amp;&gt; <![CDATA[<3]]></x>');
+      const root = doc.documentElement;
+
+      expect(canonicalize(root, { exclude: root.getElementsByTagName('sig')[0] }))
+        .toBe('<x a="\'&#x9;&quot;">1 &lt; 2 &amp;&gt; &lt;3</x>');
+    });
+  });
+
+  describe('getSpkiFromPem', () => {
+    it('should extract the public key from a certificate', () => {
+      const spki = getSpkiFromPem(idpCertificate);
+
+      // SEQUENCE { SEQUENCE { rsaEncryption OID ...
+      expect(Array.from(spki.slice(0, 2))).toEqual([0x30, 0x82]);
+      expect(Array.from(spki.slice(4, 17))).toEqual([0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01]);
+    });
+
+    it('should reject something that is not a certificate', () => {
+      expect(() => getSpkiFromPem('bm90IGEgY2VydA==')).toThrow(expect.objectContaining({ code: 'SAML_NOT_CONFIGURED' }));
+    });
+  });
+
+  describe('samlAssertionToUser', () => {
+    const config = getSamlConfig({ VITE_SAML_ROLE_MAP: 'FOI-Redactors=redactor' }, 'http://localhost:5173');
+
+    it('should map common attribute names and pick the highest role', () => {
+      const user = samlAssertionToUser(
+        assertion({
+          'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress': ['jane@foi.gov.au'],
+          'urn:oid:2.16.840.1.113730.3.1.241': ['Jane Citizen'],
+          ou: ['Department of Home Affairs'],
+          role: ['viewer', 'FOI-Redactors'],
+        }),
+        config
+      );
+
+      expect(user).toEqual({
+        id: 'user@foi.gov.au',
+        email: 'jane@foi.gov.au',
+        name: 'Jane Citizen',
+        role: 'redactor',
+        department: 'Department of Home Affairs',
+      });
+    });
+
+    it('should fall back to an email-shaped NameID', () => {
+      const user = samlAssertionToUser(assertion({ role: ['viewer'] }), config);
+
+      expect(user).toMatchObject({ email: 'user@foi.gov.au', name: 'user@foi.gov.au' });
+      expect(user).not.toHaveProperty('department');
+    });
+
+    it('should refuse a user with no mapped role', () => {
+      expect(() => samlAssertionToUser(assertion({ role: ['Staff'] }), config))
+        .toThrow(expect.objectContaining({ code: 'AUTH_NO_ROLE' }));
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_IDLE_LOCK_MINUTES,
+  DEFAULT_IDLE_TIMEOUT_MINUTES,
+  getIdleSettings,
+  getIdleState,
+} from '../session';
+
+const MINUTE = 60 * 1000;
+
+describe('session utils', () => {
+  describe('getIdleSettings', () => {
+    it('should use the defaults when nothing is configured', () => {
+      expect(getIdleSettings({})).toEqual({
+        lockAfter: DEFAULT_IDLE_LOCK_MINUTES * MINUTE,
+        timeoutAfter: DEFAULT_IDLE_TIMEOUT_MINUTES * MINUTE,
+      });
+    });
+
+    it('should read minutes from the environment', () => {
+      expect(getIdleSettings({ VITE_IDLE_LOCK_MINUTES: '2', VITE_IDLE_TIMEOUT_MINUTES: '7.5' })).toEqual({
+        lockAfter: 2 * MINUTE,
+        timeoutAfter: 7.5 * MINUTE,
+      });
+    });
+
+    it('should ignore values that are not positive numbers', () => {
+      expect(getIdleSettings({ VITE_IDLE_LOCK_MINUTES: 'soon', VITE_IDLE_TIMEOUT_MINUTES: '-1' })).toEqual({
+        lockAfter: DEFAULT_IDLE_LOCK_MINUTES * MINUTE,
+        timeoutAfter: DEFAULT_IDLE_TIMEOUT_MINUTES * MINUTE,
+      });
+    });
+
+    it('should not time out before locking', () => {
+      const settings = getIdleSettings({ VITE_IDLE_LOCK_MINUTES: '20', VITE_IDLE_TIMEOUT_MINUTES: '10' });
+      expect(settings.timeoutAfter).toBe(settings.lockAfter);
+    });
+  });
+
+  describe('getIdleState', () => {
+    const settings = { lockAfter: 5 * MINUTE, timeoutAfter: 15 * MINUTE };
+
+    it('should move from active to locked to timed out', () => {
+      expect(getIdleState(0, settings)).toBe('active');
+      expect(getIdleState(5 * MINUTE - 1, settings)).toBe('active');
+      expect(getIdleState(5 * MINUTE, settings)).toBe('locked');
+      expect(getIdleState(15 * MINUTE, settings)).toBe('timedOut');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTextRedactions,
+  formatRedactionPlaceholder,
+  getLineSegments,
+  getPageForOffset,
+  normalizeTextSpan,
+  paginateText,
+  parseRtf,
+} from '../text';
+import { Redaction } from '@/types';
+
+function makeSpanRedaction(id: string, start: number, end: number, reasonCode = 'FOI s 47F'): Redaction {
+  return {
+    id,
+    type: 'blackout',
+    coordinates: { page: 1, x: 0, y: 0, width: 0, height: 0 },
+    textSpan: { start, end },
+    reasonCode,
+    createdAt: new Date(),
+    createdBy: '2',
+    status: 'pending',
+  };
+}
+
+describe('Text Utils', () => {
+  describe('parseRtf', () => {
+    it('should extract paragraph text and drop formatting', () => {
+      const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\colortbl;\\red0\\green0\\blue0;}' +
+        '\\f0\\fs24 Hello {\\b bold} world\\par Second line\\par}';
+
+      expect(parseRtf(rtf)).toBe('Hello bold world\nSecond line\n');
+    });
+
+    it('should decode escapes and unicode characters', () => {
+      const rtf = '{\\rtf1\\uc1 Caf\\\'e9 \\{x\\} \\u8212? done}';
+
+      expect(parseRtf(rtf)).toBe('Café {x} — done');
+    });
+
+    it('should skip ignorable destinations', () => {
+      const rtf = '{\\rtf1{\\*\\generator Writer;}{\\info{\\author Jane}}Body}';
+
+      expect(parseRtf(rtf)).toBe('Body');
+    });
+  });
+
+  describe('paginateText', () => {
+    it('should wrap long lines at word boundaries without losing characters', () => {
+      const text = 'aaaa bbbb cccc\nshort';
+
+      const pages = paginateText(text, 10, 50);
+      const lines = pages[0].map(line => text.slice(line.start, line.end));
+
+      expect(lines).toEqual(['aaaa bbbb ', 'cccc', 'short']);
+    });
+
+    it('should split lines across pages', () => {
+      const pages = paginateText('1\n2\n3\n4\n5', 90, 2);
+
+      expect(pages).toHaveLength(3);
+      expect(getPageForOffset(pages, 4)).toBe(2);
+      expect(getPageForOffset(pages, 8)).toBe(3);
+    });
+  });
+
+  describe('normalizeTextSpan', () => {
+    it('should order and trim a selection', () => {
+      expect(normalizeTextSpan('one two three', { start: 8, end: 3 })).toEqual({ start: 4, end: 7 });
+    });
+
+    it('should reject a whitespace-only selection', () => {
+      expect(normalizeTextSpan('one   two', { start: 3, end: 6 })).toBeNull();
+    });
+  });
+
+  describe('getLineSegments', () => {
+    it('should split a line around redacted spans', () => {
+      const redaction = makeSpanRedaction('a', 4, 7);
+
+      const segments = getLineSegments({ start: 0, end: 13 }, [redaction]);
+
+      expect(segments).toEqual([
+        { start: 0, end: 4 },
+        { start: 4, end: 7, redaction },
+        { start: 7, end: 13 },
+      ]);
+    });
+  });
+
+  describe('applyTextRedactions', () => {
+    it('should replace spans with their exemption placeholder', () => {
+      const text = 'Call Jane on 0412 345 678 today';
+
+      expect(applyTextRedactions(text, [
+        makeSpanRedaction('a', 5, 9, 'FOI s 22'),
+        makeSpanRedaction('b', 13, 25),
+      ])).toBe('Call [REDACTED s 22] on [REDACTED s 47F] today');
+    });
+
+    it('should merge overlapping spans into one placeholder', () => {
+      const text = 'secret material here';
+
+      expect(applyTextRedactions(text, [
+        makeSpanRedaction('a', 0, 10, 'FOI s 22'),
+        makeSpanRedaction('b', 7, 15),
+      ])).toBe('[REDACTED s 22, s 47F] here');
+    });
+
+    it('should ignore redactions without a text span', () => {
+      const boxRedaction = { ...makeSpanRedaction('a', 0, 4), textSpan: undefined };
+
+      expect(applyTextRedactions('keep this', [boxRedaction])).toBe('keep this');
+    });
+  });
+
+  describe('formatRedactionPlaceholder', () => {
+    it('should list each exemption once', () => {
+      expect(formatRedactionPlaceholder(['FOI s 47F', 'FOI s 47F'])).toBe('[REDACTED s 47F]');
+    });
+  });
+});
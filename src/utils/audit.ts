@@ -0,0 +1,151 @@
+import { AuditAction, AuditEvent } from '@/types';
+
+// Hash chain helpers. Each audit event's hash is SHA-256 (base64) over the
+// canonical form of every field except the hash itself, and that includes
+// the previous event's hash. Editing, removing or reordering any event
+// therefore breaks every link after it.
+
+export const AUDIT_GENESIS_HASH = 'GENESIS';
+
+export type AuditChainFailureReason = 'sequence_gap' | 'broken_link' | 'hash_mismatch';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  failure?: {
+    sequence: number;
+    eventId: string;
+    reason: AuditChainFailureReason;
+    message: string;
+  };
+}
+
+// JSON with object keys sorted, so the same event always hashes the same way
+export function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function getAuditHashInput(event: Omit<AuditEvent, 'hash'>): string {
+  return stableStringify({
+    id: event.id,
+    sequence: event.sequence,
+    previousHash: event.previousHash,
+    userId: event.userId,
+    action: event.action,
+    resourceType: event.resourceType,
+    resourceId: event.resourceId,
+    details: event.details,
+    timestamp: event.timestamp,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    requestId: event.requestId,
+  });
+}
+
+// Walk the chain in sequence order and report the first event that does not
+// follow from the one before it
+export async function verifyAuditChain(
+  events: AuditEvent[],
+  hash: (input: string) => Promise<string>
+): Promise<AuditChainVerification> {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  let previous: AuditEvent | null = null;
+
+  for (const event of ordered) {
+    const expectedSequence = previous ? previous.sequence + 1 : 1;
+    if (event.sequence !== expectedSequence) {
+      return fail(ordered, event, 'sequence_gap',
+        `Expected event #${expectedSequence} but found #${event.sequence}`);
+    }
+
+    const expectedPrevious = previous ? previous.hash : AUDIT_GENESIS_HASH;
+    if (event.previousHash !== expectedPrevious) {
+      return fail(ordered, event, 'broken_link',
+        `Event #${event.sequence} does not link to the hash of the event before it`);
+    }
+
+    const actual = await hash(getAuditHashInput(event));
+    if (actual !== event.hash) {
+      return fail(ordered, event, 'hash_mismatch',
+        `Event #${event.sequence} has been modified since it was recorded`);
+    }
+
+    previous = event;
+  }
+
+  return { valid: true, checkedCount: ordered.length };
+}
+
+function fail(
+  ordered: AuditEvent[],
+  event: AuditEvent,
+  reason: AuditChainFailureReason,
+  message: string
+): AuditChainVerification {
+  return {
+    valid: false,
+    checkedCount: ordered.indexOf(event),
+    failure: { sequence: event.sequence, eventId: event.id, reason, message },
+  };
+}
+
+export const AUDIT_RETRY_BASE_DELAY = 2000;
+export const AUDIT_RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+// Exponential backoff with up to 20% jitter, so tabs that failed together
+// do not retry together
+export function getAuditRetryDelay(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(AUDIT_RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1), AUDIT_RETRY_MAX_DELAY);
+  return Math.round(delay * (1 + random() * 0.2));
+}
+
+export interface AuditEventFilter {
+  userId?: string;
+  action?: AuditAction;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+  text?: string; // Case-insensitive match anywhere in the event details
+}
+
+export function filterAuditEvents(events: AuditEvent[], filter: AuditEventFilter): AuditEvent[] {
+  const text = filter.text?.trim().toLowerCase();
+
+  return events.filter(e =>
+    (!filter.userId || e.userId === filter.userId) &&
+    (!filter.action || e.action === filter.action) &&
+    (!filter.resourceType || e.resourceType === filter.resourceType) &&
+    (!filter.resourceId || e.resourceId === filter.resourceId) &&
+    (!filter.from || e.timestamp >= filter.from) &&
+    (!filter.to || e.timestamp <= filter.to) &&
+    (!text || stableStringify(e.details).toLowerCase().includes(text))
+  );
+}
+
+// Events about a document, including those on its redactions, which record
+// the document in their details
+export function isDocumentAuditEvent(event: AuditEvent, documentId: string): boolean {
+  return (event.resourceType === 'document' && event.resourceId === documentId) ||
+    event.details?.documentId === documentId;
+}
+
+// A document's history, oldest first
+export function getDocumentAuditTrail(events: AuditEvent[], documentId: string): AuditEvent[] {
+  return events
+    .filter(e => isDocumentAuditEvent(e, documentId))
+    .sort((a, b) => a.sequence - b.sequence);
+}
@@ -0,0 +1,260 @@
+import { AuditAction, AuditEvent, AuditExportFormat } from '@/types';
+import { stableStringify } from './audit';
+
+// SIEM renderings of the audit log. Every format carries the same fields
+// under fixed names, so ingestion mappings do not change between exports.
+
+export const AUDIT_EXPORT_FORMATS: Record<AuditExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  jsonl: { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  cef: { label: 'ArcSight CEF', extension: 'cef', mimeType: 'text/plain' },
+  syslog: { label: 'Syslog (RFC 5424)', extension: 'log', mimeType: 'text/plain' },
+};
+
+export const CEF_VENDOR = 'Australian Government';
+export const CEF_PRODUCT = 'FOI Redaction Tool';
+export const CEF_VERSION = '1.0';
+
+export const SYSLOG_APP_NAME = 'foi-redaction-tool';
+export const SYSLOG_FACILITY = 13; // log audit
+export const SYSLOG_SD_ID = 'foi@32473';
+
+type AuditSeverity = 'info' | 'notice' | 'warning';
+
+const ACTION_SEVERITY: Record<AuditAction, AuditSeverity> = {
+  'document.upload': 'info',
+  'document.view': 'info',
+  'document.download': 'notice',
+  'redaction.create': 'info',
+  'redaction.suggest': 'info',
+  'redaction.edit': 'info',
+  'redaction.approve': 'notice',
+  'redaction.reject': 'notice',
+  'version.create': 'info',
+  'version.approve': 'notice',
+  'auth.login': 'info',
+  'auth.logout': 'info',
+  'cache.clear': 'notice',
+  'cache.protect': 'notice',
+  'cache.unprotect': 'notice',
+  'cache.unlock': 'info',
+  'cache.unlock_failed': 'notice',
+  'cache.lockout': 'warning',
+  'panic.clear': 'warning',
+  'session.lock': 'info',
+  'session.unlock': 'info',
+  'session.timeout': 'notice',
+  'audit.export': 'notice',
+  'access.denied': 'notice',
+  'user.create': 'notice',
+  'user.update': 'notice',
+  'user.role_change': 'warning',
+  'user.disable': 'notice',
+  'user.enable': 'notice',
+  'marking.change': 'notice',
+  'marking.downgrade': 'warning',
+  'breakglass.start': 'warning',
+  'breakglass.end': 'notice',
+  'breakglass.acknowledge': 'notice',
+};
+
+const CEF_SEVERITY: Record<AuditSeverity, number> = { info: 3, notice: 5, warning: 8 };
+const SYSLOG_SEVERITY: Record<AuditSeverity, number> = { info: 6, notice: 5, warning: 4 };
+
+// The stable field mapping shared by the CSV and JSON Lines exports
+export function toAuditRecord(event: AuditEvent) {
+  return {
+    sequence: event.sequence,
+    id: event.id,
+    timestamp: event.timestamp.toISOString(),
+    userId: event.userId,
+    action: event.action,
+    resourceType: event.resourceType,
+    resourceId: event.resourceId,
+    requestId: event.requestId ?? null,
+    ipAddress: event.ipAddress ?? null,
+    userAgent: event.userAgent ?? null,
+    details: event.details,
+    previousHash: event.previousHash,
+    hash: event.hash,
+  };
+}
+
+type AuditRecordField = keyof ReturnType<typeof toAuditRecord>;
+
+const CSV_COLUMNS: Array<[string, AuditRecordField]> = [
+  ['Sequence', 'sequence'],
+  ['ID', 'id'],
+  ['User ID', 'userId'],
+  ['Action', 'action'],
+  ['Resource Type', 'resourceType'],
+  ['Resource ID', 'resourceId'],
+  ['Request ID', 'requestId'],
+  ['Timestamp', 'timestamp'],
+  ['IP Address', 'ipAddress'],
+  ['User Agent', 'userAgent'],
+  ['Details', 'details'],
+  ['Previous Hash', 'previousHash'],
+  ['Hash', 'hash'],
+];
+
+// RFC 4180: every cell quoted, embedded quotes doubled
+export function escapeCsvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Free text, or values that come from outside the tool. Hashes, timestamps
+// and other values the tool writes itself are exported as they are, since
+// a base64 hash may well start with +.
+const CSV_FREE_TEXT_FIELDS = new Set<AuditRecordField>(['userId', 'resourceId', 'userAgent', 'details']);
+
+// Quoting alone does not stop a spreadsheet evaluating a cell, so such
+// cells are prefixed with an apostrophe (OWASP CSV injection guidance)
+function neutraliseFormula(value: string): string {
+  return CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+// Details are written as canonical JSON, so the chain can be re-verified
+// offline
+export function toAuditCsv(events: AuditEvent[]): string {
+  const header = CSV_COLUMNS.map(([label]) => escapeCsvCell(label)).join(',');
+  const rows = events.map(event => {
+    const record = toAuditRecord(event);
+    return CSV_COLUMNS.map(([, field]) => {
+      const value = record[field];
+      const text = field === 'details' ? stableStringify(value) : value === null ? '' : String(value);
+      return escapeCsvCell(CSV_FREE_TEXT_FIELDS.has(field) ? neutraliseFormula(text) : text);
+    }).join(',');
+  });
+
+  return [header, ...rows].join('\r\n');
+}
+
+export function toAuditJsonLines(events: AuditEvent[]): string {
+  return events.map(event => stableStringify(toAuditRecord(event))).join('\n');
+}
+
+// CEF header fields escape pipes and backslashes
+function escapeCefHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
+
+// CEF extension values escape equals signs, backslashes and line breaks
+function escapeCefValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/=/g, '\\=')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+export function toCefLine(event: AuditEvent): string {
+  const header = [
+    'CEF:0',
+    CEF_VENDOR,
+    CEF_PRODUCT,
+    CEF_VERSION,
+    event.action,
+    `FOI ${event.action}`,
+    String(CEF_SEVERITY[ACTION_SEVERITY[event.action]] ?? CEF_SEVERITY.info),
+  ].map((field, i) => (i === 0 ? field : escapeCefHeader(field)));
+
+  const extension: Array<[string, string | number | undefined]> = [
+    ['rt', event.timestamp.getTime()],
+    ['externalId', event.id],
+    ['suser', event.userId],
+    ['act', event.action],
+    ['src', event.ipAddress],
+    ['requestClientApplication', event.userAgent],
+    ['cs1Label', 'resourceType'],
+    ['cs1', event.resourceType],
+    ['cs2Label', 'resourceId'],
+    ['cs2', event.resourceId],
+    ['cs3Label', 'requestId'],
+    ['cs3', event.requestId],
+    ['cs4Label', 'hash'],
+    ['cs4', event.hash],
+    ['cs5Label', 'previousHash'],
+    ['cs5', event.previousHash],
+    ['cn1Label', 'sequence'],
+    ['cn1', event.sequence],
+    ['msg', stableStringify(event.details)],
+  ];
+
+  const pairs = extension
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${escapeCefValue(String(value))}`);
+
+  return `${header.join('|')}|${pairs.join(' ')}`;
+}
+
+export function toAuditCef(events: AuditEvent[]): string {
+  return events.map(toCefLine).join('\n');
+}
+
+// SD-PARAM values escape quotes, backslashes and closing brackets
+function escapeSyslogParam(value: string): string {
+  return value.replace(/[\\"\]]/g, match => `\\${match}`);
+}
+
+// HOSTNAME, APP-NAME and MSGID must be printable ASCII without spaces
+function toSyslogHeaderField(value: string | undefined, maxLength: number): string {
+  const cleaned = (value ?? '').replace(/[^\x21-\x7e]/g, '').slice(0, maxLength);
+  return cleaned || '-';
+}
+
+export function toSyslogLine(event: AuditEvent, hostname = getHostname()): string {
+  const severity = SYSLOG_SEVERITY[ACTION_SEVERITY[event.action]] ?? SYSLOG_SEVERITY.info;
+  const priority = SYSLOG_FACILITY * 8 + severity;
+
+  const params: Array<[string, string | number | undefined]> = [
+    ['id', event.id],
+    ['sequence', event.sequence],
+    ['userId', event.userId],
+    ['action', event.action],
+    ['resourceType', event.resourceType],
+    ['resourceId', event.resourceId],
+    ['requestId', event.requestId],
+    ['ipAddress', event.ipAddress],
+    ['userAgent', event.userAgent],
+    ['previousHash', event.previousHash],
+    ['hash', event.hash],
+  ];
+  const structuredData = `[${SYSLOG_SD_ID} ${params
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeSyslogParam(String(value))}"`)
+    .join(' ')}]`;
+
+  return [
+    `<${priority}>1`,
+    event.timestamp.toISOString(),
+    toSyslogHeaderField(hostname, 255),
+    SYSLOG_APP_NAME,
+    '-',
+    toSyslogHeaderField(event.action, 32),
+    structuredData,
+    stableStringify(event.details),
+  ].join(' ');
+}
+
+export function toAuditSyslog(events: AuditEvent[], hostname?: string): string {
+  return events.map(event => toSyslogLine(event, hostname)).join('\n');
+}
+
+export function renderAuditExport(events: AuditEvent[], format: AuditExportFormat): string {
+  switch (format) {
+    case 'csv': return toAuditCsv(events);
+    case 'json': return JSON.stringify(events, null, 2);
+    case 'jsonl': return toAuditJsonLines(events);
+    case 'cef': return toAuditCef(events);
+    case 'syslog': return toAuditSyslog(events);
+  }
+}
+
+function getHostname(): string | undefined {
+  return typeof window !== 'undefined' ? window.location.hostname : undefined;
+}
@@ -0,0 +1,73 @@
+import { AuditEvent } from '@/types';
+
+// Break-glass grants as a supervisor reviews them, rebuilt from the audit
+// log: the breakglass.start event, an early breakglass.end if there was one,
+// every event tagged with the grant's breakGlassId, and the supervisor's
+// breakglass.acknowledge. An acknowledgement by the grantee, or one made
+// before the window closed, does not count.
+
+export interface BreakGlassReview {
+  grantId: string;
+  userId: string;
+  justification: string;
+  startedAt: Date;
+  endedAt: Date; // When it was ended, or when it expires
+  endedEarly: boolean;
+  actions: AuditEvent[]; // Oldest first
+  acknowledgement?: {
+    userId: string;
+    acknowledgedAt: Date;
+    comment?: string;
+  };
+}
+
+// Newest first
+export function getBreakGlassReviews(events: AuditEvent[]): BreakGlassReview[] {
+  const chronological = [...events].sort((a, b) => a.sequence - b.sequence);
+  const reviews = new Map<string, BreakGlassReview>();
+
+  for (const event of chronological) {
+    if (event.action === 'breakglass.start') {
+      reviews.set(event.resourceId, {
+        grantId: event.resourceId,
+        userId: event.userId,
+        justification: event.details.justification,
+        startedAt: new Date(event.timestamp),
+        endedAt: new Date(event.details.expiresAt),
+        endedEarly: false,
+        actions: [],
+      });
+      continue;
+    }
+
+    const grantId = event.action === 'breakglass.acknowledge' ? event.resourceId : event.details.breakGlassId;
+    const review = grantId && reviews.get(grantId);
+    if (!review) continue;
+
+    if (event.action === 'breakglass.end') {
+      review.endedAt = new Date(event.timestamp);
+      review.endedEarly = true;
+    } else if (event.action === 'breakglass.acknowledge') {
+      if (review.acknowledgement || !isValidAcknowledgement(review, event)) continue;
+      review.acknowledgement = {
+        userId: event.userId,
+        acknowledgedAt: new Date(event.timestamp),
+        comment: event.details.comment,
+      };
+    } else {
+      review.actions.push(event);
+    }
+  }
+
+  return Array.from(reviews.values()).reverse();
+}
+
+function isValidAcknowledgement(review: BreakGlassReview, event: AuditEvent): boolean {
+  return event.userId !== review.userId && new Date(event.timestamp).getTime() >= review.endedAt.getTime();
+}
+
+// Acknowledged once the window has closed, so the review covers everything
+// done under the grant
+export function isAwaitingAcknowledgement(review: BreakGlassReview, now = new Date()): boolean {
+  return !review.acknowledgement && review.endedAt.getTime() <= now.getTime();
+}
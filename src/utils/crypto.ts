@@ -0,0 +1,156 @@
+import { FOIError } from '@/types';
+
+// Hashing and AES-GCM chunk encryption, shared by the crypto worker and the
+// main-thread fallback used where workers are unavailable. Work is done a
+// chunk at a time, reporting progress and checking for cancellation between
+// chunks.
+
+export interface EncryptedChunk {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer; // Ciphertext including the GCM tag
+  aad?: string;
+}
+
+export type CryptoTask =
+  | { type: 'hash'; data: ArrayBuffer }
+  | { type: 'encrypt'; key: CryptoKey; data: ArrayBuffer; chunkSize: number; aads: Array<string | undefined> }
+  | { type: 'decrypt'; key: CryptoKey; chunks: EncryptedChunk[] };
+
+export type CryptoWorkerRequest =
+  | (CryptoTask & { id: number })
+  | { id: number; type: 'cancel' };
+
+export type CryptoWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: string | EncryptedChunk[] | ArrayBuffer }
+  | { id: number; type: 'error'; code: string; message: string };
+
+export interface CryptoTaskControl {
+  onProgress?: (progress: number) => void; // 0 to 1
+  isCancelled?: () => boolean;
+}
+
+const IV_LENGTH = 12; // 96-bit IV, as recommended for AES-GCM
+const BASE64_BLOCK = 0x8000;
+
+// Converted in blocks, as spreading a whole document into
+// String.fromCharCode overflows the call stack
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_BLOCK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_BLOCK));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function getChunkCount(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+export async function sha256Base64(data: ArrayBuffer): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  return toBase64(new Uint8Array(hash));
+}
+
+// Each chunk gets a fresh random IV and the matching entry of aads as its
+// additional authenticated data
+export async function encryptChunks(
+  key: CryptoKey,
+  data: ArrayBuffer,
+  chunkSize: number,
+  aads: Array<string | undefined>,
+  control: CryptoTaskControl = {}
+): Promise<EncryptedChunk[]> {
+  const bytes = new Uint8Array(data);
+  const count = getChunkCount(bytes.length, chunkSize);
+  const chunks: EncryptedChunk[] = [];
+
+  for (let index = 0; index < count; index++) {
+    throwIfCancelled(control);
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const aad = aads[index];
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        ...(aad !== undefined && { additionalData: new TextEncoder().encode(aad) }),
+      },
+      key,
+      bytes.subarray(index * chunkSize, (index + 1) * chunkSize)
+    );
+
+    chunks.push({ iv, data: ciphertext, ...(aad !== undefined && { aad }) });
+    control.onProgress?.((index + 1) / count);
+  }
+
+  return chunks;
+}
+
+// Chunks are decrypted in order and joined back into one buffer
+export async function decryptChunks(
+  key: CryptoKey,
+  chunks: EncryptedChunk[],
+  control: CryptoTaskControl = {}
+): Promise<ArrayBuffer> {
+  const plaintexts: Uint8Array[] = [];
+
+  for (let index = 0; index < chunks.length; index++) {
+    throwIfCancelled(control);
+
+    const { iv, data, aad } = chunks[index];
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        ...(aad !== undefined && { additionalData: new TextEncoder().encode(aad) }),
+      },
+      key,
+      data
+    );
+
+    plaintexts.push(new Uint8Array(plaintext));
+    control.onProgress?.((index + 1) / chunks.length);
+  }
+
+  const result = new Uint8Array(plaintexts.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const plaintext of plaintexts) {
+    result.set(plaintext, offset);
+    offset += plaintext.length;
+  }
+  return result.buffer;
+}
+
+export async function runCryptoTask(
+  task: CryptoTask,
+  control: CryptoTaskControl = {}
+): Promise<string | EncryptedChunk[] | ArrayBuffer> {
+  switch (task.type) {
+    case 'hash': {
+      // SubtleCrypto cannot hash incrementally, so progress is all or nothing
+      const hash = await sha256Base64(task.data);
+      control.onProgress?.(1);
+      return hash;
+    }
+    case 'encrypt':
+      return encryptChunks(task.key, task.data, task.chunkSize, task.aads, control);
+    case 'decrypt':
+      return decryptChunks(task.key, task.chunks, control);
+  }
+}
+
+function throwIfCancelled(control: CryptoTaskControl): void {
+  if (control.isCancelled?.()) {
+    throw new FOIError('Operation cancelled', 'CRYPTO_CANCELLED', 499);
+  }
+}
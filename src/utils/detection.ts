@@ -0,0 +1,230 @@
+import { SensitiveDataType } from '@/types';
+
+export interface SensitiveDataMatch {
+  type: SensitiveDataType;
+  start: number;
+  end: number;
+  confidence: number;
+  reasonCode: string;
+}
+
+interface PatternDetector {
+  type: SensitiveDataType;
+  pattern: RegExp;
+  reasonCode: string;
+  baseConfidence: number;
+  // Only the first capture group is redacted when set
+  useGroup?: boolean;
+  validate?: (value: string) => boolean;
+  // Keywords shortly before the match that raise confidence
+  context?: RegExp;
+  contextConfidence?: number;
+}
+
+export const SENSITIVE_DATA_LABELS: Record<SensitiveDataType, string> = {
+  tfn: 'Tax File Number',
+  medicare: 'Medicare number',
+  abn: 'ABN',
+  acn: 'ACN',
+  driver_licence: 'Driver licence',
+  phone: 'Phone number',
+  email: 'Email address',
+  address: 'Street address',
+  date_of_birth: 'Date of birth',
+};
+
+const PRIVACY_REASON_CODE = 'FOI s 47F';
+const CONTEXT_WINDOW = 40;
+
+const STREET_TYPES = [
+  'Street', 'St', 'Road', 'Rd', 'Avenue', 'Ave', 'Drive', 'Dr', 'Court', 'Ct',
+  'Place', 'Pl', 'Lane', 'Ln', 'Crescent', 'Cres', 'Parade', 'Pde', 'Terrace', 'Tce',
+  'Way', 'Boulevard', 'Blvd', 'Highway', 'Hwy', 'Close', 'Cl', 'Circuit', 'Cct',
+].join('|');
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+const DETECTORS: PatternDetector[] = [
+  {
+    type: 'tfn',
+    pattern: /(?<![\d-])\d{3}[ -]?\d{3}[ -]?\d{2,3}(?![\d-])/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.7,
+    validate: isValidTFN,
+    context: /\b(?:TFN|tax\s+file)/i,
+    contextConfidence: 0.98,
+  },
+  {
+    type: 'medicare',
+    pattern: /(?<![\d-])[2-6]\d{3}[ -]?\d{5}[ -]?\d(?:[ -]?[1-9])?(?![\d-])/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.75,
+    validate: isValidMedicareNumber,
+    context: /\bmedicare/i,
+    contextConfidence: 0.98,
+  },
+  {
+    type: 'abn',
+    pattern: /(?<![\d-])\d{2} ?\d{3} ?\d{3} ?\d{3}(?![\d-])/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.6,
+    validate: isValidABN,
+    context: /\b(?:ABN|business\s+number)/i,
+    contextConfidence: 0.9,
+  },
+  {
+    type: 'acn',
+    pattern: /(?<![\d-])\d{3} ?\d{3} ?\d{3}(?![\d-])/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.5,
+    validate: isValidACN,
+    context: /\b(?:ACN|company\s+number)/i,
+    contextConfidence: 0.9,
+  },
+  {
+    // Formats differ by state, so a keyword is required
+    type: 'driver_licence',
+    pattern: /\b(?:driver'?s?\s+licen[cs]e|licen[cs]e\s+(?:no\.?|number)|DL)\s*(?:no\.?|number|#)?\s*:?\s*([A-Z]{0,2}\d{4,10})\b/gi,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.85,
+    useGroup: true,
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\d+])(?:(?:\+61 ?|0)4\d{2}[ -]?\d{3}[ -]?\d{3}|(?:\+61 ?[2378]|\(0[2378]\)|0[2378])[ -]?\d{4}[ -]?\d{4})(?!\d)/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.85,
+    context: /\b(?:ph(?:one)?|mob(?:ile)?|tel|contact)/i,
+    contextConfidence: 0.95,
+  },
+  {
+    type: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.95,
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(
+      `\\b(?:(?:Unit|Apt|Level)\\s+\\d+[A-Za-z]?,?\\s+|\\d{1,4}[A-Za-z]?\\/)?\\d{1,5}[A-Za-z]?\\s+` +
+      `(?:[A-Z][a-z]+\\s+){1,3}(?:${STREET_TYPES})\\b\\.?` +
+      `(?:,?\\s+[A-Z][A-Za-z]+(?:\\s+[A-Z][A-Za-z]+){0,2})?` +
+      `(?:,?\\s+(?:NSW|VIC|QLD|SA|WA|TAS|NT|ACT))?(?:\\s+\\d{4})?`,
+      'g'
+    ),
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.75,
+    context: /\b(?:address|resid|lives?\s+at)/i,
+    contextConfidence: 0.9,
+  },
+  {
+    // Dates are everywhere in FOI documents; only flag those labelled as a birth date
+    type: 'date_of_birth',
+    pattern: new RegExp(
+      `\\b(?:DOB|D\\.O\\.B\\.?|date\\s+of\\s+birth|born(?:\\s+on)?)\\s*:?\\s*` +
+      `(\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})|\\d{1,2}\\s+(?:${MONTHS})\\.?,?\\s+\\d{4})`,
+      'gi'
+    ),
+    reasonCode: PRIVACY_REASON_CODE,
+    baseConfidence: 0.9,
+    useGroup: true,
+  },
+];
+
+// Scan free text for Australian identifiers and personal information.
+// Overlapping matches are resolved in favour of the most confident one.
+export function detectSensitiveData(text: string, minConfidence = 0): SensitiveDataMatch[] {
+  const matches: SensitiveDataMatch[] = [];
+
+  for (const detector of DETECTORS) {
+    detector.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = detector.pattern.exec(text)) !== null) {
+      const value = detector.useGroup && match[1] ? match[1] : match[0];
+      const start = detector.useGroup && match[1]
+        ? match.index + match[0].lastIndexOf(match[1])
+        : match.index;
+
+      if (detector.validate && !detector.validate(value)) continue;
+
+      const preceding = text.slice(Math.max(0, start - CONTEXT_WINDOW), start);
+      const confidence = detector.context && detector.context.test(preceding)
+        ? detector.contextConfidence ?? detector.baseConfidence
+        : detector.baseConfidence;
+
+      if (confidence < minConfidence) continue;
+
+      matches.push({
+        type: detector.type,
+        start,
+        end: start + value.length,
+        confidence,
+        reasonCode: detector.reasonCode,
+      });
+    }
+  }
+
+  return resolveOverlaps(matches);
+}
+
+function resolveOverlaps(matches: SensitiveDataMatch[]): SensitiveDataMatch[] {
+  const kept: SensitiveDataMatch[] = [];
+  const byConfidence = [...matches].sort((a, b) =>
+    b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start)
+  );
+
+  for (const match of byConfidence) {
+    if (!kept.some(k => match.start < k.end && k.start < match.end)) {
+      kept.push(match);
+    }
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number);
+}
+
+export function isValidTFN(value: string): boolean {
+  const digits = digitsOf(value);
+  const weights = digits.length === 9
+    ? [1, 4, 3, 7, 5, 8, 6, 9, 10]
+    : digits.length === 8
+    ? [10, 7, 8, 4, 6, 3, 5, 1]
+    : null;
+  if (!weights) return false;
+
+  const sum = digits.reduce((total, digit, i) => total + digit * weights[i], 0);
+  return sum % 11 === 0;
+}
+
+export function isValidMedicareNumber(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 10 && digits.length !== 11) return false;
+  if (digits[0] < 2 || digits[0] > 6) return false;
+
+  const weights = [1, 3, 7, 9, 1, 3, 7, 9];
+  const sum = weights.reduce((total, weight, i) => total + digits[i] * weight, 0);
+  return sum % 10 === digits[8];
+}
+
+export function isValidABN(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 11) return false;
+
+  const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+  const adjusted = [digits[0] - 1, ...digits.slice(1)];
+  const sum = adjusted.reduce((total, digit, i) => total + digit * weights[i], 0);
+  return sum % 89 === 0;
+}
+
+export function isValidACN(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 9) return false;
+
+  const weights = [8, 7, 6, 5, 4, 3, 2, 1];
+  const sum = weights.reduce((total, weight, i) => total + digits[i] * weight, 0);
+  return (10 - (sum % 10)) % 10 === digits[8];
+}
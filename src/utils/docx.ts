@@ -0,0 +1,134 @@
+import mammoth from 'mammoth';
+import { FOIError } from '@/types';
+import { sanitizeHtml } from './html';
+import { PageSize, DEFAULT_PAGE_SIZE } from './redaction';
+
+// Word documents have no fixed layout once converted to HTML, so they are
+// laid out onto A4 pages here. The viewer, the redaction overlay and the
+// burn-in export all use this same layout, which keeps redaction boxes
+// (stored in page units like PDFs) lined up with the text they cover.
+
+export const DOCX_PAGE_SIZE: PageSize = DEFAULT_PAGE_SIZE;
+export const DOCX_PAGE_MARGIN = 56; // ~2cm
+
+export const DOCX_PAGE_STYLE = {
+  fontFamily: '"Times New Roman", Times, serif',
+  fontSize: '12px',
+  lineHeight: '1.4',
+  color: '#000000',
+  background: '#ffffff',
+  boxSizing: 'border-box',
+  overflow: 'hidden',
+  overflowWrap: 'break-word',
+} as const;
+
+export async function convertDocxToHtml(content: ArrayBuffer): Promise<string> {
+  try {
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: content },
+      { externalFileAccess: false }
+    );
+
+    result.messages
+      .filter(m => m.type === 'warning')
+      .forEach(m => console.warn('[DOCX] Conversion warning:', m.message));
+
+    return sanitizeHtml(result.value);
+  } catch (error) {
+    throw new FOIError(
+      'Failed to convert Word document. Legacy .doc files must be saved as .docx first.',
+      'DOCX_CONVERSION_FAILED',
+      400,
+      { error }
+    );
+  }
+}
+
+// Split top-level blocks across pages by measuring them at page width.
+// A single block taller than a page (e.g. a long table) gets a page to
+// itself and is clipped at the bottom margin.
+export function paginateHtml(
+  html: string,
+  pageSize: PageSize = DOCX_PAGE_SIZE,
+  margin = DOCX_PAGE_MARGIN
+): string[] {
+  const contentHeight = pageSize.height - margin * 2;
+  const measure = document.createElement('div');
+  Object.assign(measure.style, DOCX_PAGE_STYLE, {
+    position: 'absolute',
+    visibility: 'hidden',
+    left: '-10000px',
+    top: '0',
+    width: `${pageSize.width}px`,
+    height: 'auto',
+    padding: `0 ${margin}px`,
+  });
+  measure.innerHTML = html;
+  document.body.appendChild(measure);
+
+  try {
+    const pages: string[] = [];
+    let current: string[] = [];
+    let pageTop = 0;
+
+    for (const block of Array.from(measure.children) as HTMLElement[]) {
+      const blockBottom = block.offsetTop + block.offsetHeight;
+      if (current.length > 0 && blockBottom - pageTop > contentHeight) {
+        pages.push(current.join(''));
+        current = [];
+        pageTop = block.offsetTop;
+      }
+      current.push(block.outerHTML);
+    }
+
+    if (current.length > 0 || pages.length === 0) {
+      pages.push(current.join(''));
+    }
+
+    return pages;
+  } finally {
+    measure.remove();
+  }
+}
+
+// Draw one laid-out page onto a canvas via an SVG foreignObject, so the
+// export matches what the redactor saw in the viewer
+export async function renderHtmlPage(
+  pageHtml: string,
+  scale: number,
+  pageSize: PageSize = DOCX_PAGE_SIZE,
+  margin = DOCX_PAGE_MARGIN
+): Promise<HTMLCanvasElement> {
+  const page = document.createElement('div');
+  page.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+  Object.assign(page.style, DOCX_PAGE_STYLE, {
+    width: `${pageSize.width}px`,
+    height: `${pageSize.height}px`,
+    padding: `${margin}px`,
+  });
+  page.innerHTML = pageHtml;
+
+  const markup = new XMLSerializer().serializeToString(page);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pageSize.width}" height="${pageSize.height}">` +
+    `<foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`;
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(pageSize.width * scale);
+  canvas.height = Math.ceil(pageSize.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new FOIError('Canvas rendering is not available', 'REDACTION_RENDER_FAILED', 500);
+  }
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, pageSize.width, pageSize.height);
+
+  return canvas;
+}
@@ -84,8 +84,31 @@ export async function readFileAsText(file: File): Promise<string> {
   });
 }
 
-export function downloadBlob(blob: Blob, filename: string): void {
+// Object URLs keep their Blob alive until revoked, so every URL handed out
+// is tracked until then and panic clear can revoke any still outstanding
+const objectUrls = new Set<string>();
+
+export function createObjectUrl(blob: Blob): string {
   const url = URL.createObjectURL(blob);
+  objectUrls.add(url);
+  return url;
+}
+
+export function revokeObjectUrl(url: string): void {
+  URL.revokeObjectURL(url);
+  objectUrls.delete(url);
+}
+
+// Returns how many URLs were revoked
+export function revokeAllObjectUrls(): number {
+  const count = objectUrls.size;
+  objectUrls.forEach(url => URL.revokeObjectURL(url));
+  objectUrls.clear();
+  return count;
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = createObjectUrl(blob);
   const link = document.createElement('a');
   link.href = url;
   link.download = filename;
@@ -96,7 +119,7 @@ export function downloadBlob(blob: Blob, filename: string): void {
   document.body.removeChild(link);
   
   // Clean up the URL object
-  setTimeout(() => URL.revokeObjectURL(url), 100);
+  setTimeout(() => revokeObjectUrl(url), 100);
 }
 
 export function createFileFromArrayBuffer(
@@ -0,0 +1,88 @@
+// Allowlist sanitiser for HTML produced from uploaded documents. Converted
+// markup is rendered in the viewer, so anything that can run script, load
+// remote content or escape the page layout is removed.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'span',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+  'img', 'a', 'hr',
+]);
+
+// Content of these elements is dropped entirely, not just unwrapped
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'svg', 'math']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  img: ['src', 'alt'],
+  a: ['href'],
+  ol: ['start'],
+};
+
+export function sanitizeHtml(html: string): string {
+  const parsed = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const output = document.createElement('div');
+
+  for (const child of Array.from(parsed.body.childNodes)) {
+    const clean = sanitizeNode(child);
+    if (clean) output.appendChild(clean);
+  }
+
+  return output.innerHTML;
+}
+
+function sanitizeNode(node: Node): Node | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return document.createTextNode(node.textContent || '');
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null;
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+
+  if (DROPPED_TAGS.has(tag)) {
+    return null;
+  }
+
+  // Unknown elements are unwrapped so their text is kept
+  const target: Node = ALLOWED_TAGS.has(tag)
+    ? document.createElement(tag)
+    : document.createDocumentFragment();
+
+  if (target instanceof Element) {
+    for (const name of ALLOWED_ATTRIBUTES[tag] || []) {
+      const value = element.getAttribute(name);
+      if (value !== null && isSafeAttribute(tag, name, value)) {
+        target.setAttribute(name, value);
+      }
+    }
+  }
+
+  for (const child of Array.from(element.childNodes)) {
+    const clean = sanitizeNode(child);
+    if (clean) target.appendChild(clean);
+  }
+
+  return target;
+}
+
+function isSafeAttribute(tag: string, name: string, value: string): boolean {
+  const trimmed = value.trim().toLowerCase();
+
+  // Only inline images; remote images would leak that the document was opened
+  if (tag === 'img' && name === 'src') {
+    return trimmed.startsWith('data:image/');
+  }
+
+  // Links are kept for reference but may only point within the document
+  if (tag === 'a' && name === 'href') {
+    return trimmed.startsWith('#');
+  }
+
+  return /^[\w\s-]*$/.test(value);
+}
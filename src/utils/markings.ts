@@ -0,0 +1,95 @@
+import { Document, ProtectiveMarking, SecurityClearance } from '@/types';
+
+// PSPF protective markings and the clearance needed to access them.
+// Uncleared staff may access up to OFFICIAL: Sensitive on a need-to-know
+// basis; PROTECTED needs Baseline, SECRET NV1 and TOP SECRET NV2 or above.
+
+export const PROTECTIVE_MARKINGS: ProtectiveMarking[] = [
+  'UNOFFICIAL',
+  'OFFICIAL',
+  'OFFICIAL: Sensitive',
+  'PROTECTED',
+  'SECRET',
+  'TOP SECRET',
+];
+
+export const SECURITY_CLEARANCES: SecurityClearance[] = ['baseline', 'nv1', 'nv2', 'pv'];
+
+// Documents cached before markings were recorded
+export const DEFAULT_PROTECTIVE_MARKING: ProtectiveMarking = 'OFFICIAL';
+
+const UNCLEARED_CEILING: ProtectiveMarking = 'OFFICIAL: Sensitive';
+
+const CLEARANCE_CEILING: Record<SecurityClearance, ProtectiveMarking> = {
+  baseline: 'PROTECTED',
+  nv1: 'SECRET',
+  nv2: 'TOP SECRET',
+  pv: 'TOP SECRET',
+};
+
+const CLEARANCE_NAMES: Record<SecurityClearance, string> = {
+  baseline: 'Baseline',
+  nv1: 'Negative Vetting 1',
+  nv2: 'Negative Vetting 2',
+  pv: 'Positive Vetting',
+};
+
+// Highest first, so TOP SECRET is not read as SECRET. Markings are written
+// in capitals; OFFICIAL: Sensitive keeps its lower-case qualifier.
+const MARKING_PATTERNS: Array<[ProtectiveMarking, RegExp]> = [
+  ['TOP SECRET', /\bTOP\s+SECRET\b/],
+  ['SECRET', /\bSECRET\b/],
+  ['PROTECTED', /\bPROTECTED\b/],
+  ['OFFICIAL: Sensitive', /\bOFFICIAL\s*:\s*SENSITIVE\b/i],
+  ['OFFICIAL', /\bOFFICIAL\b/],
+  ['UNOFFICIAL', /\bUNOFFICIAL\b/],
+];
+
+export function isProtectiveMarking(value: unknown): value is ProtectiveMarking {
+  return PROTECTIVE_MARKINGS.includes(value as ProtectiveMarking);
+}
+
+export function isSecurityClearance(value: unknown): value is SecurityClearance {
+  return SECURITY_CLEARANCES.includes(value as SecurityClearance);
+}
+
+export function getMarkingRank(marking: ProtectiveMarking): number {
+  return PROTECTIVE_MARKINGS.indexOf(marking);
+}
+
+export function isDowngrade(from: ProtectiveMarking, to: ProtectiveMarking): boolean {
+  return getMarkingRank(to) < getMarkingRank(from);
+}
+
+export function getDocumentMarking(document: Pick<Document, 'protectiveMarking'>): ProtectiveMarking {
+  return document.protectiveMarking ?? DEFAULT_PROTECTIVE_MARKING;
+}
+
+// The highest marking a clearance gives access to
+export function getClearanceCeiling(clearance?: SecurityClearance): ProtectiveMarking {
+  return clearance ? CLEARANCE_CEILING[clearance] : UNCLEARED_CEILING;
+}
+
+export function canAccessMarking(clearance: SecurityClearance | undefined, marking: ProtectiveMarking): boolean {
+  return getMarkingRank(marking) <= getMarkingRank(getClearanceCeiling(clearance));
+}
+
+export function getClearanceDisplayName(clearance?: SecurityClearance): string {
+  return clearance ? CLEARANCE_NAMES[clearance] : 'Uncleared';
+}
+
+// For CSS modifiers, e.g. marking-banner--official-sensitive
+export function getMarkingSlug(marking: ProtectiveMarking): string {
+  return marking.toLowerCase().replace(/[^a-z]+/g, '-');
+}
+
+// The highest marking written in the text, e.g. in a page header or footer.
+// Only the start and end of long documents are searched, where markings go.
+export function detectProtectiveMarking(text: string, window = 2000): ProtectiveMarking | null {
+  const searched = text.length > window * 2
+    ? `${text.slice(0, window)}\n${text.slice(-window)}`
+    : text;
+
+  const found = MARKING_PATTERNS.find(([, pattern]) => pattern.test(searched));
+  return found ? found[0] : null;
+}
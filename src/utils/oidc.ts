@@ -0,0 +1,237 @@
+import { FOIError, User, UserRole } from '@/types';
+import { isSecurityClearance } from './markings';
+
+// OpenID Connect helpers: configuration, PKCE, JWT decoding, ID token claim
+// checks and mapping claims onto a User. Signature verification needs the
+// issuer's keys and lives in the OIDC client.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  roleClaim: string; // Dotted path into the ID token, e.g. realm_access.roles
+  roleMap: Record<string, UserRole>; // Claim value to role
+  useMockIdp: boolean;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  id_token?: string;
+  refresh_token?: string;
+}
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  name?: string;
+  department?: string;
+  clearance?: string; // baseline, nv1, nv2 or pv in any case; other values are ignored
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt<T = IdTokenClaims> {
+  header: JwtHeader;
+  payload: T;
+  signingInput: string; // header.payload, as signed
+  signature: Uint8Array<ArrayBuffer>;
+}
+
+export const MOCK_IDP_ISSUER = 'https://mock-idp.foi.local';
+export const DEFAULT_OIDC_CLIENT_ID = 'foi-redaction-tool';
+export const DEFAULT_OIDC_SCOPE = 'openid profile email offline_access';
+export const DEFAULT_ROLE_CLAIM = 'roles';
+export const CLOCK_SKEW = 60; // seconds
+
+// Higher roles win when a user's claim maps to more than one
+const ROLE_PRECEDENCE: UserRole[] = ['admin', 'approver', 'redactor', 'viewer'];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return ROLE_PRECEDENCE.includes(value as UserRole);
+}
+
+type OidcEnv = Pick<
+  ImportMetaEnv,
+  'VITE_OIDC_ISSUER' | 'VITE_OIDC_CLIENT_ID' | 'VITE_OIDC_REDIRECT_URI' | 'VITE_OIDC_SCOPE' | 'VITE_OIDC_ROLE_CLAIM' | 'VITE_OIDC_ROLE_MAP' | 'PROD'
+>;
+
+// Without VITE_OIDC_ISSUER the bundled mock identity provider is used, so
+// development and tests run without a network. Its accounts share one
+// password, so a production build without an issuer refuses to start.
+export function getOidcConfig(env: OidcEnv = import.meta.env, origin = getOrigin()): OidcConfig {
+  if (env.PROD && !env.VITE_OIDC_ISSUER) {
+    throw new FOIError(
+      'VITE_OIDC_ISSUER must be set in production builds',
+      'OIDC_NOT_CONFIGURED',
+      500
+    );
+  }
+
+  return {
+    issuer: env.VITE_OIDC_ISSUER || MOCK_IDP_ISSUER,
+    clientId: env.VITE_OIDC_CLIENT_ID || DEFAULT_OIDC_CLIENT_ID,
+    redirectUri: env.VITE_OIDC_REDIRECT_URI || `${origin}/auth/callback`,
+    scope: env.VITE_OIDC_SCOPE || DEFAULT_OIDC_SCOPE,
+    roleClaim: env.VITE_OIDC_ROLE_CLAIM || DEFAULT_ROLE_CLAIM,
+    roleMap: parseRoleMap(env.VITE_OIDC_ROLE_MAP),
+    useMockIdp: !env.VITE_OIDC_ISSUER,
+  };
+}
+
+// "FOI-Approvers=approver,FOI-Redactors=redactor". Role names always map to
+// themselves; entries naming an unknown role are ignored.
+export function parseRoleMap(value: string | undefined): Record<string, UserRole> {
+  const map: Record<string, UserRole> = { viewer: 'viewer', redactor: 'redactor', approver: 'approver', admin: 'admin' };
+  for (const entry of (value || '').split(',')) {
+    const [claimValue, role] = entry.split('=').map(part => part.trim());
+    if (claimValue && isUserRole(role)) {
+      map[claimValue] = role as UserRole;
+    }
+  }
+  return map;
+}
+
+export function getClaim(claims: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+}
+
+export function mapRoleClaim(
+  claims: Record<string, unknown>,
+  roleClaim: string,
+  roleMap: Record<string, UserRole>
+): UserRole | null {
+  return mapRoleValues(getClaim(claims, roleClaim), roleMap);
+}
+
+// The highest role any of the values maps to. Also used for SAML attributes.
+export function mapRoleValues(value: unknown, roleMap: Record<string, UserRole>): UserRole | null {
+  const values = Array.isArray(value) ? value : [value];
+  const roles = values
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => roleMap[v])
+    .filter((role): role is UserRole => !!role);
+
+  return ROLE_PRECEDENCE.find(role => roles.includes(role)) ?? null;
+}
+
+export function claimsToUser(claims: IdTokenClaims, config: Pick<OidcConfig, 'roleClaim' | 'roleMap'>): User {
+  const role = mapRoleClaim(claims, config.roleClaim, config.roleMap);
+  if (!role) {
+    throw new FOIError('No FOI role was granted by the identity provider', 'AUTH_NO_ROLE', 403, {
+      roleClaim: config.roleClaim,
+    });
+  }
+
+  const clearance = typeof claims.clearance === 'string' ? claims.clearance.toLowerCase() : undefined;
+
+  return {
+    id: claims.sub,
+    email: claims.email ?? '',
+    name: claims.name ?? claims.email ?? claims.sub,
+    role,
+    ...(claims.department && { department: claims.department }),
+    ...(isSecurityClearance(clearance) && { clearance }),
+  };
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function base64UrlEncodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+// 32 random bytes: a PKCE code verifier, state or nonce
+export function generateRandomString(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export function decodeJwt<T = IdTokenClaims>(token: string): DecodedJwt<T> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new FOIError('Malformed token', 'OIDC_INVALID_TOKEN', 401);
+  }
+
+  try {
+    const [header, payload, signature] = parts;
+    return {
+      header: JSON.parse(new TextDecoder().decode(base64UrlDecode(header))),
+      payload: JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))),
+      signingInput: `${header}.${payload}`,
+      signature: base64UrlDecode(signature),
+    };
+  } catch (error) {
+    throw new FOIError('Malformed token', 'OIDC_INVALID_TOKEN', 401, { error });
+  }
+}
+
+// The registered claim checks from OpenID Connect Core 3.1.3.7. A nonce is
+// only expected on tokens from the authorization code exchange.
+export function validateIdTokenClaims(
+  claims: IdTokenClaims,
+  expected: { issuer: string; clientId: string; nonce?: string },
+  now = Math.floor(Date.now() / 1000)
+): void {
+  const fail = (reason: string) => {
+    throw new FOIError(`Invalid ID token: ${reason}`, 'OIDC_INVALID_TOKEN', 401, { reason });
+  };
+
+  if (claims.iss !== expected.issuer) fail('issuer mismatch');
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) fail('audience mismatch');
+
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) fail('expired');
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW > now) fail('issued in the future');
+  if (!claims.sub) fail('missing subject');
+  if (expected.nonce !== undefined && claims.nonce !== expected.nonce) fail('nonce mismatch');
+}
+
+function getOrigin(): string {
+  return typeof window !== 'undefined' ? window.location.origin : 'http://localhost:5173';
+}
@@ -1,16 +1,98 @@
-import { UserRole, ROLE_PERMISSIONS } from '@/types';
+import { Document, DocumentVersion, ProtectiveMarking, Redaction, User, UserRole, ROLE_PERMISSIONS } from '@/types';
+import {
+  AccessContext,
+  AccessDecision,
+  DEFAULT_POLICY,
+  Policy,
+  PolicySubject,
+  ResourceAttributes,
+  evaluatePolicy,
+} from './policy';
+import { canAccessMarking, getClearanceCeiling, getDocumentMarking, getMarkingRank, isDowngrade } from './markings';
 
+// Checks run through the access policy (see policy.ts). Pass a role alone to
+// ask what the role table grants; pass the user and the resource's
+// attributes to apply department scoping as well.
 export function hasPermission(
-  userRole: UserRole,
+  subject: UserRole | PolicySubject,
   resource: string,
-  action: string
+  action: string,
+  attributes?: ResourceAttributes,
+  context?: AccessContext
 ): boolean {
-  const permissions = ROLE_PERMISSIONS[userRole];
-  return permissions.some(p => 
-    p.resource === resource && 
-    p.action === action && 
-    p.granted
-  );
+  return explainPermission(subject, resource, action, attributes, context).allowed;
+}
+
+// The decision with the reason for it, for telling the user why not
+export function explainPermission(
+  subject: UserRole | PolicySubject,
+  resource: string,
+  action: string,
+  attributes?: ResourceAttributes,
+  context?: AccessContext,
+  policy: Policy = DEFAULT_POLICY
+): AccessDecision {
+  const user = typeof subject === 'string' ? { role: subject } : subject;
+  const clearanceRank = getMarkingRank(getClearanceCeiling(user.clearance));
+  return evaluatePolicy({ user: { ...user, clearanceRank }, resource, action, attributes, context }, policy);
+}
+
+export function getDocumentAttributes(document: Document): ResourceAttributes {
+  const marking = getDocumentMarking(document);
+  return {
+    marking,
+    markingRank: getMarkingRank(marking),
+    department: document.department,
+    owner: document.uploadedBy,
+    assignees: document.assignedTo || [],
+  };
+}
+
+export function canViewDocument(user: User, document: Document, context?: AccessContext): boolean {
+  return hasPermission(user, 'document', 'view', getDocumentAttributes(document), context);
+}
+
+// Re-marking a document. Redactors and approvers may raise a marking, but
+// only an approver may lower one, and no one may apply a marking above their
+// own clearance.
+
+export interface MarkingChangeCheck {
+  allowed: boolean;
+  reason?: string;
+  downgrade: boolean;
+}
+
+export function checkMarkingChange(
+  user: User,
+  document: Document,
+  marking: ProtectiveMarking,
+  context?: AccessContext
+): MarkingChangeCheck {
+  const current = getDocumentMarking(document);
+  const downgrade = isDowngrade(current, marking);
+
+  if (marking === current) {
+    return { allowed: false, reason: `This document is already marked ${marking}`, downgrade };
+  }
+
+  const access = explainPermission(user, 'document', 'view', getDocumentAttributes(document), context);
+  if (!access.allowed) {
+    return { allowed: false, reason: access.reason, downgrade };
+  }
+
+  if (downgrade && !hasPermission(user, 'marking', 'downgrade')) {
+    return { allowed: false, reason: 'Only an approver can downgrade a protective marking', downgrade };
+  }
+
+  if (!hasPermission(user, 'marking', 'change')) {
+    return { allowed: false, reason: 'You do not have permission to change protective markings', downgrade };
+  }
+
+  if (!canAccessMarking(user.clearance, marking)) {
+    return { allowed: false, reason: `You cannot apply ${marking}, which is above your clearance`, downgrade };
+  }
+
+  return { allowed: true, downgrade };
 }
 
 export function canUploadDocuments(userRole: UserRole): boolean {
@@ -33,11 +115,99 @@ export function canApproveVersions(userRole: UserRole): boolean {
   return hasPermission(userRole, 'version', 'approve');
 }
 
+export function canViewAuditLog(userRole: UserRole): boolean {
+  return hasPermission(userRole, 'audit', 'view');
+}
+
+export function canManageUsers(userRole: UserRole): boolean {
+  return hasPermission(userRole, 'user', 'manage');
+}
+
+export function canRequestBreakGlass(userRole: UserRole): boolean {
+  return hasPermission(userRole, 'breakglass', 'request');
+}
+
+export function canAcknowledgeBreakGlass(userRole: UserRole): boolean {
+  return hasPermission(userRole, 'breakglass', 'acknowledge');
+}
+
+// Separation of duties (four-eyes). Whoever approves a redaction or
+// finalises a version must not have created the redactions involved. Only a
+// break-glass role, configured with VITE_BREAK_GLASS_ROLES (comma separated),
+// may override the rule, and every override is audited.
+
+export interface SeparationOfDutiesCheck {
+  allowed: boolean;
+  reason?: string;
+  canOverride: boolean;
+}
+
+export function getBreakGlassRoles(): UserRole[] {
+  const configured = import.meta.env.VITE_BREAK_GLASS_ROLES || '';
+  return configured
+    .split(',')
+    .map(role => role.trim())
+    .filter((role): role is UserRole => role in ROLE_PERMISSIONS);
+}
+
+export function canOverrideSeparationOfDuties(
+  userRole: UserRole,
+  breakGlassRoles: UserRole[] = getBreakGlassRoles()
+): boolean {
+  return breakGlassRoles.includes(userRole);
+}
+
+export function checkRedactionApproval(
+  user: User,
+  redaction: Redaction,
+  breakGlassRoles: UserRole[] = getBreakGlassRoles()
+): SeparationOfDutiesCheck {
+  if (!canApproveRedactions(user.role)) {
+    return { allowed: false, reason: 'You do not have permission to approve redactions', canOverride: false };
+  }
+
+  if (redaction.createdBy === user.id) {
+    return {
+      allowed: false,
+      reason: 'You created this redaction, so another approver must review it',
+      canOverride: canOverrideSeparationOfDuties(user.role, breakGlassRoles),
+    };
+  }
+
+  return { allowed: true, canOverride: false };
+}
+
+export function checkVersionFinalization(
+  user: User,
+  version: DocumentVersion,
+  breakGlassRoles: UserRole[] = getBreakGlassRoles()
+): SeparationOfDutiesCheck {
+  if (!canApproveVersions(user.role)) {
+    return { allowed: false, reason: 'You do not have permission to approve versions', canOverride: false };
+  }
+
+  const ownRedactions = version.redactions.filter(
+    r => r.createdBy === user.id && r.status !== 'rejected' && r.status !== 'suggested'
+  );
+  if (version.createdBy === user.id || ownRedactions.length > 0) {
+    return {
+      allowed: false,
+      reason: ownRedactions.length > 0
+        ? `You created ${ownRedactions.length} of this version's redactions, so another approver must finalize it`
+        : 'You created this working version, so another approver must finalize it',
+      canOverride: canOverrideSeparationOfDuties(user.role, breakGlassRoles),
+    };
+  }
+
+  return { allowed: true, canOverride: false };
+}
+
 export function getRoleDisplayName(role: UserRole): string {
   const roleNames = {
     viewer: 'Viewer',
     redactor: 'Redactor',
-    approver: 'Approver'
+    approver: 'Approver',
+    admin: 'Administrator'
   };
   return roleNames[role];
 }
@@ -46,7 +216,8 @@ export function getRoleDescription(role: UserRole): string {
   const descriptions = {
     viewer: 'Can view documents and redactions but cannot make changes',
     redactor: 'Can upload documents and create/edit redactions',
-    approver: 'Can perform all actions including approving redactions and finalizing documents'
+    approver: 'Can perform all actions including approving redactions and finalizing documents',
+    admin: 'Can manage user accounts, roles and departments and view the audit log'
   };
   return descriptions[role];
 }
@@ -0,0 +1,233 @@
+import { BREAK_GLASS_PERMISSIONS, Permission, ROLE_PERMISSIONS, User, UserRole } from '@/types';
+
+// Attribute-based access control. A policy is plain data: a list of rules,
+// each allowing or denying some actions on some resources when its condition
+// holds over the user, resource and context attributes of the request. Deny
+// rules override allow rules, and a request no rule allows is denied, so
+// the role table only ever grants and scoping rules only ever take away.
+
+// A literal, or another attribute of the request, e.g. { ref: 'user.id' }
+export type PolicyValue = string | number | boolean | null | { ref: string };
+
+// Attributes are dotted paths rooted at user, resource or context, e.g.
+// 'resource.department'. A missing or empty attribute is not present.
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { attribute: string; present: boolean }
+  | { attribute: string; equals: PolicyValue }
+  | { attribute: string; in: PolicyValue[] }
+  | { attribute: string; contains: PolicyValue } // The attribute is a list
+  | { attribute: string; atMost: PolicyValue }; // Both are numbers
+
+export interface PolicyRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  resources: string[]; // '*' matches any resource
+  actions: string[]; // '*' matches any action
+  when?: PolicyCondition;
+  // Shown when this rule decides a request. {path} is replaced with the
+  // attribute, e.g. {resource.department}.
+  reason: string;
+}
+
+export interface Policy {
+  version: 1;
+  rules: PolicyRule[];
+}
+
+// What the policy knows about the document (or other resource) in question
+export interface ResourceAttributes {
+  department?: string; // Owning department
+  owner?: string; // ID of the user who uploaded it
+  assignees?: string[]; // IDs of users assigned to its FOI case
+  marking?: string; // Protective marking
+  markingRank?: number; // Its place in PROTECTIVE_MARKINGS
+  [attribute: string]: unknown;
+}
+
+export type AccessContext = Record<string, unknown>;
+
+export type PolicySubject = Partial<User> & {
+  role: UserRole;
+  clearanceRank?: number; // Rank of the highest marking the user's clearance reaches
+};
+
+export interface AccessRequest {
+  user: PolicySubject;
+  resource: string;
+  action: string;
+  attributes?: ResourceAttributes;
+  context?: AccessContext;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string;
+  ruleId?: string; // The rule that decided; absent when no rule allowed the request
+}
+
+// One allow rule per permission in the role table
+export function rolePermissionRules(
+  table: Record<UserRole, { resource: string; action: string; granted: boolean }[]> = ROLE_PERMISSIONS
+): PolicyRule[] {
+  const rolesByPermission = new Map<string, UserRole[]>();
+  (Object.keys(table) as UserRole[]).forEach(role => {
+    table[role]
+      .filter(p => p.granted)
+      .forEach(p => {
+        const key = `${p.resource}.${p.action}`;
+        rolesByPermission.set(key, [...(rolesByPermission.get(key) || []), role]);
+      });
+  });
+
+  return Array.from(rolesByPermission, ([key, roles]) => {
+    const [resource, action] = key.split('.');
+    return {
+      id: `role:${key}`,
+      effect: 'allow' as const,
+      resources: [resource],
+      actions: [action],
+      when: { attribute: 'user.role', in: roles },
+      reason: `Your role ({user.role}) may ${action} ${resource}s`,
+    };
+  });
+}
+
+// Break-glass access, recorded as context.breakGlass (the grant's ID), adds
+// these permissions to any role for as long as it lasts
+export function breakGlassRules(permissions: Permission[] = BREAK_GLASS_PERMISSIONS): PolicyRule[] {
+  return permissions
+    .filter(p => p.granted)
+    .map(p => ({
+      id: `break-glass:${p.resource}.${p.action}`,
+      effect: 'allow' as const,
+      resources: [p.resource],
+      actions: [p.action],
+      when: { attribute: 'context.breakGlass', present: true },
+      reason: `Break-glass access may ${p.action} ${p.resource}s`,
+    }));
+}
+
+// Officers see their own department's documents. Another department's
+// document is open only to whoever uploaded it, those assigned to its case
+// and anyone with break-glass access.
+export const DEPARTMENT_SCOPE_RULE: PolicyRule = {
+  id: 'department-scope',
+  effect: 'deny',
+  resources: ['*'],
+  actions: ['*'],
+  when: {
+    all: [
+      { attribute: 'context.breakGlass', present: false },
+      { attribute: 'resource.department', present: true },
+      { not: { attribute: 'resource.department', equals: { ref: 'user.department' } } },
+      { not: { attribute: 'resource.owner', equals: { ref: 'user.id' } } },
+      { not: { attribute: 'resource.assignees', contains: { ref: 'user.id' } } },
+    ],
+  },
+  reason: 'This document belongs to {resource.department} and you are not assigned to its case',
+};
+
+// Nobody sees a document marked above their clearance, break-glass or not.
+// A user whose clearance is unknown sees no marked document.
+export const CLEARANCE_RULE: PolicyRule = {
+  id: 'clearance',
+  effect: 'deny',
+  resources: ['*'],
+  actions: ['*'],
+  when: {
+    all: [
+      { attribute: 'resource.markingRank', present: true },
+      { not: { attribute: 'resource.markingRank', atMost: { ref: 'user.clearanceRank' } } },
+    ],
+  },
+  reason: 'This document is marked {resource.marking}, which is above your clearance',
+};
+
+export const DEFAULT_POLICY: Policy = {
+  version: 1,
+  rules: [...rolePermissionRules(), ...breakGlassRules(), CLEARANCE_RULE, DEPARTMENT_SCOPE_RULE],
+};
+
+export function resolveAttribute(request: AccessRequest, path: string): unknown {
+  const [root, ...rest] = path.split('.');
+  const roots: Record<string, unknown> = {
+    user: request.user,
+    resource: request.attributes || {},
+    context: request.context || {},
+  };
+
+  return rest.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    roots[root]
+  );
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+function resolveValue(request: AccessRequest, value: PolicyValue): unknown {
+  return value !== null && typeof value === 'object' ? resolveAttribute(request, value.ref) : value;
+}
+
+// A missing attribute never equals anything, including another missing one,
+// so a user without a department matches no department
+function sameValue(a: unknown, b: unknown): boolean {
+  return isPresent(a) && isPresent(b) && a === b;
+}
+
+export function matchesCondition(request: AccessRequest, condition: PolicyCondition): boolean {
+  if ('all' in condition) return condition.all.every(c => matchesCondition(request, c));
+  if ('any' in condition) return condition.any.some(c => matchesCondition(request, c));
+  if ('not' in condition) return !matchesCondition(request, condition.not);
+
+  const actual = resolveAttribute(request, condition.attribute);
+  if ('present' in condition) return isPresent(actual) === condition.present;
+  if ('equals' in condition) return sameValue(actual, resolveValue(request, condition.equals));
+  if ('in' in condition) return condition.in.some(v => sameValue(actual, resolveValue(request, v)));
+  if ('atMost' in condition) {
+    const limit = resolveValue(request, condition.atMost);
+    return typeof actual === 'number' && typeof limit === 'number' && actual <= limit;
+  }
+
+  const expected = resolveValue(request, condition.contains);
+  return Array.isArray(actual) && actual.some(v => sameValue(v, expected));
+}
+
+function appliesTo(rule: PolicyRule, request: AccessRequest): boolean {
+  return (
+    (rule.resources.includes('*') || rule.resources.includes(request.resource)) &&
+    (rule.actions.includes('*') || rule.actions.includes(request.action)) &&
+    (!rule.when || matchesCondition(request, rule.when))
+  );
+}
+
+function describe(rule: PolicyRule, request: AccessRequest): string {
+  return rule.reason.replace(/\{([\w.]+)\}/g, (_match, path: string) => {
+    const value = resolveAttribute(request, path);
+    return isPresent(value) ? String(value) : 'none';
+  });
+}
+
+// Decides the request and says why
+export function evaluatePolicy(request: AccessRequest, policy: Policy = DEFAULT_POLICY): AccessDecision {
+  const matching = policy.rules.filter(rule => appliesTo(rule, request));
+  const decisive = matching.find(rule => rule.effect === 'deny') || matching.find(rule => rule.effect === 'allow');
+
+  if (!decisive) {
+    return {
+      allowed: false,
+      reason: `Your role (${request.user.role}) does not permit ${request.resource}.${request.action}`,
+    };
+  }
+
+  return {
+    allowed: decisive.effect === 'allow',
+    reason: describe(decisive, request),
+    ruleId: decisive.id,
+  };
+}
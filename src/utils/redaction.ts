@@ -0,0 +1,56 @@
+import { Redaction, RedactionCoordinates } from '@/types';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// A4 in PDF points, used for formats without a native page size
+export const DEFAULT_PAGE_SIZE: PageSize = { width: 595, height: 842 };
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 3.0;
+export const ZOOM_STEP = 0.25;
+
+export const MIN_REDACTION_SIZE = 5; // PDF points
+
+export function getPageRedactions(redactions: Redaction[], page: number): Redaction[] {
+  return redactions.filter(r => r.coordinates.page === page);
+}
+
+// Redactions that still need a decision before a version can be finalised
+export function getUnreviewedRedactions(redactions: Redaction[]): Redaction[] {
+  return redactions.filter(r => r.status === 'pending' || r.status === 'suggested');
+}
+
+export function clampZoom(scale: number): number {
+  return Math.min(Math.max(scale, MIN_ZOOM), MAX_ZOOM);
+}
+
+// Keep a box inside the page it was drawn on, in PDF page units
+export function normalizeCoordinates(
+  coordinates: RedactionCoordinates,
+  pageSize: PageSize
+): RedactionCoordinates {
+  const left = Math.max(0, Math.min(coordinates.x, coordinates.x + coordinates.width));
+  const top = Math.max(0, Math.min(coordinates.y, coordinates.y + coordinates.height));
+  const right = Math.min(pageSize.width, Math.max(coordinates.x, coordinates.x + coordinates.width));
+  const bottom = Math.min(pageSize.height, Math.max(coordinates.y, coordinates.y + coordinates.height));
+
+  return {
+    page: coordinates.page,
+    x: round(left),
+    y: round(top),
+    width: round(Math.max(0, right - left)),
+    height: round(Math.max(0, bottom - top)),
+  };
+}
+
+export function isMeaningfulRedaction(coordinates: RedactionCoordinates): boolean {
+  return coordinates.width >= MIN_REDACTION_SIZE && coordinates.height >= MIN_REDACTION_SIZE;
+}
+
+// Two decimal places is well below a printed pixel
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
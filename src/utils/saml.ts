@@ -0,0 +1,455 @@
+import { FOIError, User, UserRole } from '@/types';
+import { fromBase64 } from './crypto';
+import { isSecurityClearance } from './markings';
+import { mapRoleValues, parseRoleMap } from './oidc';
+
+// SAML 2.0 Web SSO helpers: configuration, parsing, exclusive XML
+// canonicalization, the assertion condition checks and mapping attributes
+// onto a User. Signature verification needs the IdP's key and lives in the
+// SAML service.
+
+export interface SamlConfig {
+  idpEntityId: string;
+  idpSsoUrl: string; // HTTP-POST binding endpoint for AuthnRequests
+  idpCertificate: string; // PEM certificate or public key, or a bare base64 certificate
+  spEntityId: string;
+  acsUrl: string; // Where the IdP posts the response; must match Destination and Recipient
+  roleAttribute: string;
+  roleMap: Record<string, UserRole>; // Attribute value to role
+}
+
+export interface SamlAssertion {
+  id: string;
+  issuer: string;
+  nameId: string;
+  inResponseTo: string;
+  notOnOrAfter: number; // ms since epoch, from the bearer confirmation; replays are refused until then
+  sessionIndex?: string;
+  sessionNotOnOrAfter?: number; // ms since epoch
+  attributes: Record<string, string[]>;
+}
+
+export interface SignatureParts {
+  signature: Element;
+  signedElement: Element; // The element the signature's single Reference points to
+}
+
+export const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+export const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+export const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+export const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+export const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+export const RSA_SHA256 = 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256';
+export const SHA256 = 'http://www.w3.org/2001/04/xmlenc#sha256';
+export const DEFAULT_SAML_SP_ENTITY_ID = 'foi-redaction-tool';
+export const DEFAULT_SAML_ROLE_ATTRIBUTE = 'role';
+export const SAML_CLOCK_SKEW = 60 * 1000; // ms
+
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+// Attribute names used by common IdPs (friendly names, eduPerson/X.500 OIDs
+// and the WS-Federation claim URIs sent by AD FS and Entra ID)
+const USER_ATTRIBUTES: Record<'email' | 'name' | 'department' | 'clearance', string[]> = {
+  email: [
+    'email',
+    'mail',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  ],
+  name: [
+    'displayName',
+    'name',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+  ],
+  department: ['department', 'ou', 'urn:oid:2.5.4.11'],
+  clearance: ['clearance', 'securityClearance'],
+};
+
+type SamlEnv = Pick<
+  ImportMetaEnv,
+  | 'VITE_SAML_IDP_ENTITY_ID'
+  | 'VITE_SAML_IDP_SSO_URL'
+  | 'VITE_SAML_IDP_CERT'
+  | 'VITE_SAML_SP_ENTITY_ID'
+  | 'VITE_SAML_ACS_URL'
+  | 'VITE_SAML_ROLE_ATTRIBUTE'
+  | 'VITE_SAML_ROLE_MAP'
+>;
+
+export function getSamlConfig(env: SamlEnv = import.meta.env, origin = getOrigin()): SamlConfig {
+  return {
+    idpEntityId: env.VITE_SAML_IDP_ENTITY_ID || '',
+    idpSsoUrl: env.VITE_SAML_IDP_SSO_URL || '',
+    idpCertificate: env.VITE_SAML_IDP_CERT || '',
+    spEntityId: env.VITE_SAML_SP_ENTITY_ID || DEFAULT_SAML_SP_ENTITY_ID,
+    acsUrl: env.VITE_SAML_ACS_URL || `${origin}/auth/saml`,
+    roleAttribute: env.VITE_SAML_ROLE_ATTRIBUTE || DEFAULT_SAML_ROLE_ATTRIBUTE,
+    roleMap: parseRoleMap(env.VITE_SAML_ROLE_MAP),
+  };
+}
+
+// The SAMLResponse form field, base64 encoded as sent over the HTTP-POST binding
+export function decodeSamlResponse(samlResponse: string): Document {
+  let xml: string;
+  try {
+    xml = new TextDecoder('utf-8', { fatal: true }).decode(fromBase64(samlResponse.replace(/\s+/g, '')));
+  } catch (error) {
+    throw new FOIError('SAML response is not valid base64', 'SAML_MALFORMED', 400, { error });
+  }
+  return parseSamlXml(xml);
+}
+
+// A DOCTYPE has no place in a SAML message and is how entity expansion
+// attacks are delivered, so it is refused outright
+export function parseSamlXml(xml: string): Document {
+  if (/<!DOCTYPE/i.test(xml)) {
+    throw new FOIError('SAML response must not contain a DOCTYPE', 'SAML_MALFORMED', 400);
+  }
+
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new FOIError('SAML response is not well-formed XML', 'SAML_MALFORMED', 400);
+  }
+  return document;
+}
+
+export function getChildElements(parent: Element, namespace: string, localName: string): Element[] {
+  return Array.from(parent.children).filter(
+    child => child.namespaceURI === namespace && child.localName === localName
+  );
+}
+
+export function getChildElement(parent: Element, namespace: string, localName: string): Element | null {
+  return getChildElements(parent, namespace, localName)[0] ?? null;
+}
+
+// Finds the signature on an element and checks its Reference points back at
+// that same element. The ID must be unique in the document: a second
+// element with the same ID is how signature wrapping attacks get an
+// unsigned assertion read in place of the signed one.
+export function getEnvelopedSignature(element: Element): SignatureParts | null {
+  const signatures = getChildElements(element, XMLDSIG_NS, 'Signature');
+  if (signatures.length === 0) return null;
+  if (signatures.length > 1) {
+    throw new FOIError('Element has more than one signature', 'SAML_INVALID_SIGNATURE', 401);
+  }
+
+  const [signature] = signatures;
+  const signedInfo = getChildElement(signature, XMLDSIG_NS, 'SignedInfo');
+  const references = signedInfo ? getChildElements(signedInfo, XMLDSIG_NS, 'Reference') : [];
+  if (references.length !== 1) {
+    throw new FOIError('Signature must have exactly one reference', 'SAML_INVALID_SIGNATURE', 401);
+  }
+
+  const id = element.getAttribute('ID');
+  if (!id || references[0].getAttribute('URI') !== `#${id}`) {
+    throw new FOIError('Signature does not reference the signed element', 'SAML_INVALID_SIGNATURE', 401);
+  }
+
+  const owner = element.ownerDocument;
+  const sameId = Array.from(owner.getElementsByTagNameNS('*', '*')).filter(el => el.getAttribute('ID') === id);
+  if (sameId.length !== 1) {
+    throw new FOIError('Signed element ID is not unique', 'SAML_INVALID_SIGNATURE', 401, { id });
+  }
+
+  return { signature, signedElement: element };
+}
+
+// Exclusive XML Canonicalization 1.0 without comments
+// (https://www.w3.org/TR/xml-exc-c14n/). `exclude` drops a node from the
+// output, which is how the enveloped-signature transform is applied.
+export function canonicalize(
+  element: Element,
+  options: { exclude?: Node; inclusivePrefixes?: string[] } = {}
+): string {
+  return canonicalizeElement(element, new Map(), options);
+}
+
+// Reads the PrefixList of an ec:InclusiveNamespaces child, if any
+export function getInclusivePrefixes(transform: Element): string[] {
+  const inclusive = getChildElement(transform, EXC_C14N, 'InclusiveNamespaces');
+  return (inclusive?.getAttribute('PrefixList') ?? '').split(/\s+/).filter(Boolean);
+}
+
+// The DER encoded SubjectPublicKeyInfo, ready for crypto.subtle.importKey('spki')
+export function getSpkiFromPem(pem: string): Uint8Array<ArrayBuffer> {
+  const match = pem.match(/-----BEGIN (CERTIFICATE|PUBLIC KEY)-----([\s\S]+?)-----END \1-----/);
+  try {
+    const der = fromBase64((match ? match[2] : pem).replace(/\s+/g, ''));
+    return match?.[1] === 'PUBLIC KEY' ? der : readSubjectPublicKeyInfo(der);
+  } catch (error) {
+    throw new FOIError('SAML IdP certificate could not be read', 'SAML_NOT_CONFIGURED', 500, { error });
+  }
+}
+
+// The checks from the SAML 2.0 Web Browser SSO profile (profiles 4.1.4.2-3)
+// on a response whose assertion signature has already been verified
+export function validateSamlAssertion(
+  response: Element,
+  assertion: Element,
+  expected: Pick<SamlConfig, 'idpEntityId' | 'spEntityId' | 'acsUrl'> & { requestId: string },
+  now = Date.now()
+): SamlAssertion {
+  const fail = (reason: string): never => {
+    throw new FOIError(`Invalid SAML response: ${reason}`, 'SAML_INVALID_RESPONSE', 401, { reason });
+  };
+  const text = (element: Element | null) => element?.textContent?.trim() ?? '';
+  // xs:dateTime to ms since epoch; `missing` stands in for an absent optional time
+  const parseTime = (value: string | null, missing = 0): number => {
+    if (value === null) return missing;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? fail('malformed time') : time;
+  };
+
+  const destination = response.getAttribute('Destination');
+  if (destination !== null && destination !== expected.acsUrl) fail('destination mismatch');
+  if (response.getAttribute('InResponseTo') !== expected.requestId) fail('InResponseTo mismatch');
+
+  const responseIssuer = getChildElement(response, SAML_ASSERTION_NS, 'Issuer');
+  if (responseIssuer && text(responseIssuer) !== expected.idpEntityId) fail('issuer mismatch');
+  const issuer = text(getChildElement(assertion, SAML_ASSERTION_NS, 'Issuer'));
+  if (issuer !== expected.idpEntityId) fail('issuer mismatch');
+
+  const subject = getChildElement(assertion, SAML_ASSERTION_NS, 'Subject');
+  const nameId = text(subject && getChildElement(subject, SAML_ASSERTION_NS, 'NameID'));
+  if (!subject || !nameId) fail('missing subject');
+
+  // At least one bearer confirmation must be for this request, this ACS URL
+  // and still current. Its expiry bounds how long the assertion is
+  // remembered against replay.
+  const confirmationExpiry = getChildElements(subject!, SAML_ASSERTION_NS, 'SubjectConfirmation')
+    .map(confirmation => {
+      const data = getChildElement(confirmation, SAML_ASSERTION_NS, 'SubjectConfirmationData');
+      const valid =
+        confirmation.getAttribute('Method') === BEARER &&
+        !!data &&
+        data.getAttribute('Recipient') === expected.acsUrl &&
+        data.getAttribute('InResponseTo') === expected.requestId &&
+        !(parseTime(data.getAttribute('NotBefore'), -Infinity) - SAML_CLOCK_SKEW > now);
+      return valid ? parseTime(data!.getAttribute('NotOnOrAfter')) : 0;
+    })
+    .find(expiry => expiry + SAML_CLOCK_SKEW > now);
+  if (confirmationExpiry === undefined) fail('no valid bearer subject confirmation');
+
+  const conditions = getChildElement(assertion, SAML_ASSERTION_NS, 'Conditions');
+  if (!conditions) fail('missing conditions');
+  const notBefore = parseTime(conditions!.getAttribute('NotBefore'), -Infinity);
+  const notOnOrAfter = parseTime(conditions!.getAttribute('NotOnOrAfter'), Infinity);
+  if (notBefore - SAML_CLOCK_SKEW > now) fail('not yet valid');
+  if (notOnOrAfter + SAML_CLOCK_SKEW <= now) fail('expired');
+
+  // Every audience restriction must name this service provider
+  const restrictions = getChildElements(conditions!, SAML_ASSERTION_NS, 'AudienceRestriction');
+  const audienceOk = restrictions.length > 0 && restrictions.every(restriction =>
+    getChildElements(restriction, SAML_ASSERTION_NS, 'Audience').some(audience => text(audience) === expected.spEntityId)
+  );
+  if (!audienceOk) fail('audience mismatch');
+
+  const authnStatement = getChildElement(assertion, SAML_ASSERTION_NS, 'AuthnStatement');
+  const sessionNotOnOrAfter = authnStatement?.getAttribute('SessionNotOnOrAfter');
+
+  return {
+    id: assertion.getAttribute('ID') ?? '',
+    issuer,
+    nameId,
+    inResponseTo: expected.requestId,
+    notOnOrAfter: confirmationExpiry!,
+    ...(authnStatement?.getAttribute('SessionIndex') && { sessionIndex: authnStatement.getAttribute('SessionIndex')! }),
+    ...(sessionNotOnOrAfter && { sessionNotOnOrAfter: parseTime(sessionNotOnOrAfter) }),
+    attributes: readAttributes(assertion),
+  };
+}
+
+// An AuthnRequest for the HTTP-POST binding. The IdP echoes its ID back as
+// InResponseTo.
+export function buildAuthnRequest(
+  id: string,
+  config: Pick<SamlConfig, 'idpSsoUrl' | 'spEntityId' | 'acsUrl'>,
+  issueInstant = new Date()
+): string {
+  return (
+    `<samlp:AuthnRequest xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}"` +
+    ` AssertionConsumerServiceURL="${escapeAttribute(config.acsUrl)}" Destination="${escapeAttribute(config.idpSsoUrl)}"` +
+    ` ID="${escapeAttribute(id)}" IssueInstant="${issueInstant.toISOString()}"` +
+    ` ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Version="2.0">` +
+    `<saml:Issuer>${escapeText(config.spEntityId)}</saml:Issuer>` +
+    `<samlp:NameIDPolicy AllowCreate="true"></samlp:NameIDPolicy>` +
+    `</samlp:AuthnRequest>`
+  );
+}
+
+export function checkSamlStatus(response: Element): void {
+  const status = getChildElement(response, SAML_PROTOCOL_NS, 'Status');
+  const code = status && getChildElement(status, SAML_PROTOCOL_NS, 'StatusCode');
+  const value = code?.getAttribute('Value');
+  if (value !== STATUS_SUCCESS) {
+    const message = status && getChildElement(status, SAML_PROTOCOL_NS, 'StatusMessage');
+    throw new FOIError(
+      message?.textContent?.trim() || 'Sign-in was refused by the identity provider',
+      'SAML_AUTHN_FAILED',
+      401,
+      { status: value }
+    );
+  }
+}
+
+export function samlAssertionToUser(assertion: SamlAssertion, config: Pick<SamlConfig, 'roleAttribute' | 'roleMap'>): User {
+  const role = mapRoleValues(assertion.attributes[config.roleAttribute], config.roleMap);
+  if (!role) {
+    throw new FOIError('No FOI role was granted by the identity provider', 'AUTH_NO_ROLE', 403, {
+      roleAttribute: config.roleAttribute,
+    });
+  }
+
+  const first = (names: string[]) =>
+    names.map(name => assertion.attributes[name]?.[0]).find((value): value is string => !!value);
+  const email = first(USER_ATTRIBUTES.email) ?? (assertion.nameId.includes('@') ? assertion.nameId : '');
+  const department = first(USER_ATTRIBUTES.department);
+  const clearance = first(USER_ATTRIBUTES.clearance)?.toLowerCase();
+
+  return {
+    id: assertion.nameId,
+    email,
+    name: first(USER_ATTRIBUTES.name) ?? (email || assertion.nameId),
+    role,
+    ...(department && { department }),
+    ...(isSecurityClearance(clearance) && { clearance }),
+  };
+}
+
+function readAttributes(assertion: Element): Record<string, string[]> {
+  const attributes: Record<string, string[]> = {};
+  for (const statement of getChildElements(assertion, SAML_ASSERTION_NS, 'AttributeStatement')) {
+    for (const attribute of getChildElements(statement, SAML_ASSERTION_NS, 'Attribute')) {
+      const values = getChildElements(attribute, SAML_ASSERTION_NS, 'AttributeValue')
+        .map(value => value.textContent?.trim() ?? '')
+        .filter(Boolean);
+      for (const name of [attribute.getAttribute('Name'), attribute.getAttribute('FriendlyName')]) {
+        if (name) attributes[name] = [...(attributes[name] ?? []), ...values];
+      }
+    }
+  }
+  return attributes;
+}
+
+function canonicalizeElement(
+  element: Element,
+  rendered: Map<string, string>,
+  options: { exclude?: Node; inclusivePrefixes?: string[] }
+): string {
+  // Namespaces are output where they are visibly used (by the element or
+  // its attributes) and not already declared by an output ancestor
+  const used = new Map<string, string>([[element.prefix ?? '', element.namespaceURI ?? '']]);
+  const attributes = Array.from(element.attributes).filter(attr => attr.namespaceURI !== XMLNS_NS);
+  for (const attr of attributes) {
+    if (attr.prefix && attr.prefix !== 'xml') used.set(attr.prefix, attr.namespaceURI ?? '');
+  }
+  for (const prefix of options.inclusivePrefixes ?? []) {
+    const key = prefix === '#default' ? '' : prefix;
+    const namespace = element.lookupNamespaceURI(key || null);
+    if (namespace) used.set(key, namespace);
+  }
+
+  const inScope = new Map(rendered);
+  let declarations = '';
+  for (const [prefix, namespace] of Array.from(used).sort(([a], [b]) => compare(a, b))) {
+    if ((rendered.get(prefix) ?? '') !== namespace) {
+      declarations += prefix ? ` xmlns:${prefix}="${escapeAttribute(namespace)}"` : ` xmlns="${escapeAttribute(namespace)}"`;
+    }
+    inScope.set(prefix, namespace);
+  }
+
+  const attributeText = attributes
+    .sort((a, b) => compare(a.namespaceURI ?? '', b.namespaceURI ?? '') || compare(a.localName, b.localName))
+    .map(attr => ` ${attr.name}="${escapeAttribute(attr.value)}"`)
+    .join('');
+
+  let content = '';
+  for (const child of Array.from(element.childNodes)) {
+    if (child === options.exclude) continue;
+    switch (child.nodeType) {
+      case Node.ELEMENT_NODE:
+        content += canonicalizeElement(child as Element, inScope, options);
+        break;
+      case Node.TEXT_NODE:
+      case Node.CDATA_SECTION_NODE:
+        content += escapeText((child as CharacterData).data);
+        break;
+      case Node.PROCESSING_INSTRUCTION_NODE: {
+        const instruction = child as ProcessingInstruction;
+        content += `<?${instruction.target}${instruction.data ? ` ${instruction.data}` : ''}?>`;
+        break;
+      }
+      // Comments are dropped
+    }
+  }
+
+  return `<${element.nodeName}${declarations}${attributeText}>${content}</${element.nodeName}>`;
+}
+
+// Code point order, as the canonical form requires
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+interface DerField {
+  tag: number;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function readDer(bytes: Uint8Array, offset: number): DerField {
+  if (offset + 2 > bytes.length) throw new Error('Truncated DER');
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[contentStart++];
+    }
+  }
+  const end = contentStart + length;
+  if (end > bytes.length) throw new Error('Truncated DER');
+  return { tag, start: offset, contentStart, end };
+}
+
+// Certificate ::= SEQUENCE { tbsCertificate SEQUENCE { [0] version OPTIONAL,
+// serialNumber, signature, issuer, validity, subject, subjectPublicKeyInfo, ... }, ... }
+function readSubjectPublicKeyInfo(der: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const certificate = readDer(der, 0);
+  const tbsCertificate = readDer(der, certificate.contentStart);
+  if (certificate.tag !== 0x30 || tbsCertificate.tag !== 0x30) throw new Error('Not a certificate');
+
+  let field = readDer(der, tbsCertificate.contentStart);
+  if (field.tag === 0xa0) field = readDer(der, field.end);
+  for (let i = 0; i < 5; i++) {
+    field = readDer(der, field.end);
+  }
+  if (field.tag !== 0x30) throw new Error('Certificate has no public key');
+  return der.slice(field.start, field.end);
+}
+
+function getOrigin(): string {
+  return typeof window !== 'undefined' ? window.location.origin : 'http://localhost:5173';
+}
@@ -0,0 +1,36 @@
+// Idle handling for shared workspaces. After lockAfter without activity the
+// workspace is locked until the user re-authenticates; after timeoutAfter it
+// is panic cleared. Both are configured in minutes with
+// VITE_IDLE_LOCK_MINUTES and VITE_IDLE_TIMEOUT_MINUTES.
+
+export interface IdleSettings {
+  lockAfter: number; // ms
+  timeoutAfter: number; // ms
+}
+
+export type IdleState = 'active' | 'locked' | 'timedOut';
+
+export const DEFAULT_IDLE_LOCK_MINUTES = 5;
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 15;
+
+const MINUTE = 60 * 1000;
+
+function parseMinutes(value: string | undefined, fallback: number): number {
+  const minutes = Number(value);
+  return value && Number.isFinite(minutes) && minutes > 0 ? minutes : fallback;
+}
+
+// The timeout never comes before the lock
+export function getIdleSettings(
+  env: Pick<ImportMetaEnv, 'VITE_IDLE_LOCK_MINUTES' | 'VITE_IDLE_TIMEOUT_MINUTES'> = import.meta.env
+): IdleSettings {
+  const lockAfter = parseMinutes(env.VITE_IDLE_LOCK_MINUTES, DEFAULT_IDLE_LOCK_MINUTES) * MINUTE;
+  const timeoutAfter = parseMinutes(env.VITE_IDLE_TIMEOUT_MINUTES, DEFAULT_IDLE_TIMEOUT_MINUTES) * MINUTE;
+  return { lockAfter, timeoutAfter: Math.max(lockAfter, timeoutAfter) };
+}
+
+export function getIdleState(idleFor: number, settings: IdleSettings): IdleState {
+  if (idleFor >= settings.timeoutAfter) return 'timedOut';
+  if (idleFor >= settings.lockAfter) return 'locked';
+  return 'active';
+}
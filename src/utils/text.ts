@@ -0,0 +1,244 @@
+import { DocumentType, Redaction, TextSpan } from '@/types';
+
+// Text formats have no fixed layout, so redactions on them are recorded as
+// character ranges in the extracted plain text rather than page boxes. The
+// viewer and the burn-in export both extract and paginate the text with these
+// helpers, so a span always refers to the same characters.
+
+export const TEXT_CHARS_PER_LINE = 90;
+export const TEXT_LINES_PER_PAGE = 56;
+
+export interface TextSegment extends TextSpan {
+  redaction?: Redaction;
+}
+
+// Pages of lines; each line is a range of the text without its line break
+export type TextPage = TextSpan[];
+
+export function extractDocumentText(content: ArrayBuffer, format: DocumentType): string {
+  const raw = new TextDecoder('utf-8').decode(content);
+  const text = format === 'rtf' ? parseRtf(raw) : raw;
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// RTF groups whose content is formatting or metadata, not document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer',
+  'headerl', 'headerr', 'headerf', 'footerl', 'footerr', 'footerf', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'fldinst', 'filetbl', 'revtbl',
+]);
+
+const RTF_CONTROL_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+interface RtfGroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+// Extract the plain text of an RTF document. Formatting is discarded; only
+// paragraph structure is kept.
+export function parseRtf(rtf: string): string {
+  const decoder = new TextDecoder('windows-1252');
+  const stack: RtfGroupState[] = [];
+  let state: RtfGroupState = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let output = '';
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) output += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (char === '}') {
+      state = stack.pop() ?? state;
+      i++;
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+
+      if (next === undefined) {
+        break;
+      } else if (/[a-zA-Z]/.test(next)) {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        const word = match?.[1] ?? '';
+        const param = match?.[2] !== undefined ? Number(match[2]) : null;
+        i += 1 + (match?.[0].length ?? 0);
+
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (word === 'uc' && param !== null) {
+          state.unicodeSkip = param;
+        } else if (word === 'u' && param !== null) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          // The ASCII fallback that follows a \u character is not text
+          pendingSkip = state.unicodeSkip;
+        } else if (RTF_CONTROL_TEXT[word] !== undefined) {
+          emit(RTF_CONTROL_TEXT[word]);
+        }
+      } else if (next === '\'') {
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        if (!Number.isNaN(byte)) {
+          emit(decoder.decode(new Uint8Array([byte])));
+        }
+        i += 4;
+      } else if (next === '*') {
+        state.skip = true;
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+        i += 2;
+      } else {
+        if (next === '~') emit(' ');
+        else if (next === '_') emit('-');
+        else if (next !== '-') emit(next); // Escaped \, { and }
+        i += 2;
+      }
+    } else {
+      // Line breaks in the source are not significant
+      if (char !== '\n' && char !== '\r') emit(char);
+      i++;
+    }
+  }
+
+  return output.replace(/\n+$/, '\n');
+}
+
+// Wrap lines at word boundaries and split them into pages
+export function paginateText(
+  text: string,
+  charsPerLine = TEXT_CHARS_PER_LINE,
+  linesPerPage = TEXT_LINES_PER_PAGE
+): TextPage[] {
+  const lines: TextSpan[] = [];
+  let lineStart = 0;
+
+  for (const hardLine of text.split('\n')) {
+    const end = lineStart + hardLine.length;
+    let start = lineStart;
+
+    while (end - start > charsPerLine) {
+      const breakAt = text.lastIndexOf(' ', start + charsPerLine);
+      // Keep the space on the line it ends so no character is lost
+      const wrapAt = breakAt > start ? breakAt + 1 : start + charsPerLine;
+      lines.push({ start, end: wrapAt });
+      start = wrapAt;
+    }
+
+    lines.push({ start, end });
+    lineStart = end + 1;
+  }
+
+  const pages: TextPage[] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+  return pages;
+}
+
+export function getPageForOffset(pages: TextPage[], offset: number): number {
+  const index = pages.findIndex(lines => lines[lines.length - 1].end >= offset);
+  return index === -1 ? pages.length : index + 1;
+}
+
+// Order a selected range and trim surrounding whitespace; null if nothing is left
+export function normalizeTextSpan(text: string, span: TextSpan): TextSpan | null {
+  let start = Math.max(0, Math.min(span.start, span.end));
+  let end = Math.min(text.length, Math.max(span.start, span.end));
+
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+
+  return start < end ? { start, end } : null;
+}
+
+// Break a line into plain and redacted runs for display
+export function getLineSegments(line: TextSpan, redactions: Redaction[]): TextSegment[] {
+  const overlapping = redactions
+    .filter(r => r.textSpan && r.textSpan.start < line.end && r.textSpan.end > line.start)
+    .sort((a, b) => a.textSpan!.start - b.textSpan!.start);
+
+  const segments: TextSegment[] = [];
+  let position = line.start;
+
+  for (const redaction of overlapping) {
+    const start = Math.max(redaction.textSpan!.start, position);
+    const end = Math.min(redaction.textSpan!.end, line.end);
+    if (end <= start) continue;
+
+    if (start > position) {
+      segments.push({ start: position, end: start });
+    }
+    segments.push({ start, end, redaction });
+    position = end;
+  }
+
+  if (position < line.end || segments.length === 0) {
+    segments.push({ start: position, end: line.end });
+  }
+
+  return segments;
+}
+
+export function formatRedactionPlaceholder(reasonCodes: string[]): string {
+  const codes = Array.from(new Set(reasonCodes)).map(code => code.replace(/^FOI\s+/i, ''));
+  return `[REDACTED ${codes.join(', ')}]`;
+}
+
+// Replace each redacted span with a placeholder naming its exemption.
+// Overlapping or touching spans become a single placeholder.
+export function applyTextRedactions(text: string, redactions: Redaction[]): string {
+  const spans = redactions
+    .filter((r): r is Redaction & { textSpan: TextSpan } => r.textSpan !== undefined)
+    .map(r => ({
+      start: Math.max(0, r.textSpan.start),
+      end: Math.min(text.length, r.textSpan.end),
+      reasonCodes: [r.reasonCode],
+    }))
+    .filter(span => span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: typeof spans = [];
+  for (const span of spans) {
+    const previous = merged[merged.length - 1];
+    if (previous && span.start <= previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+      previous.reasonCodes.push(...span.reasonCodes);
+    } else {
+      merged.push({ ...span, reasonCodes: [...span.reasonCodes] });
+    }
+  }
+
+  let output = '';
+  let position = 0;
+  for (const span of merged) {
+    output += text.slice(position, span.start) + formatRedactionPlaceholder(span.reasonCodes);
+    position = span.end;
+  }
+  return output + text.slice(position);
+}
@@ -5,6 +5,22 @@ interface ImportMetaEnv {
   readonly VITE_ENABLE_ANALYTICS?: string;
   readonly VITE_ENABLE_DEBUG?: string;
   readonly VITE_CSP_REPORT_URI?: string;
+  readonly VITE_BREAK_GLASS_ROLES?: string;
+  readonly VITE_IDLE_LOCK_MINUTES?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  readonly VITE_OIDC_REDIRECT_URI?: string;
+  readonly VITE_OIDC_SCOPE?: string;
+  readonly VITE_OIDC_ROLE_CLAIM?: string;
+  readonly VITE_OIDC_ROLE_MAP?: string;
+  readonly VITE_SAML_IDP_ENTITY_ID?: string;
+  readonly VITE_SAML_IDP_SSO_URL?: string;
+  readonly VITE_SAML_IDP_CERT?: string;
+  readonly VITE_SAML_SP_ENTITY_ID?: string;
+  readonly VITE_SAML_ACS_URL?: string;
+  readonly VITE_SAML_ROLE_ATTRIBUTE?: string;
+  readonly VITE_SAML_ROLE_MAP?: string;
   readonly PROD?: boolean;
   readonly DEV?: boolean;
 }
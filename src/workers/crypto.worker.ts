@@ -0,0 +1,44 @@
+import { FOIError } from '@/types';
+import { CryptoWorkerRequest, CryptoWorkerResponse, runCryptoTask } from '@/utils/crypto';
+
+// Runs hashing and encryption off the main thread. Keys arrive with each
+// request and are not kept between requests; terminating the worker drops
+// anything still in flight.
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<CryptoWorkerRequest>) => void) | null;
+  postMessage(message: CryptoWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const cancelled = new Set<number>();
+
+scope.onmessage = async ({ data: request }) => {
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  const { id } = request;
+  try {
+    const result = await runCryptoTask(request, {
+      onProgress: progress => scope.postMessage({ id, type: 'progress', progress }),
+      isCancelled: () => cancelled.has(id),
+    });
+
+    // Hand ciphertext and plaintext buffers back without copying
+    const transfer: Transferable[] = result instanceof ArrayBuffer
+      ? [result]
+      : Array.isArray(result) ? result.map(chunk => chunk.data) : [];
+    scope.postMessage({ id, type: 'result', result }, transfer);
+  } catch (error) {
+    scope.postMessage({
+      id,
+      type: 'error',
+      code: error instanceof FOIError ? error.code : 'CRYPTO_FAILED',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    cancelled.delete(id);
+  }
+};
@@ -16,7 +16,7 @@ export default defineConfig({
         manualChunks: {
           vendor: ['react', 'react-dom'],
           router: ['react-router-dom'],
-          pdf: ['react-pdf'],
+          pdf: ['react-pdf', 'pdf-lib'],
           fabric: ['fabric'],
         },
       },